@@ -22,6 +22,8 @@ import SuperAdminDashboard from "@/pages/super-admin-dashboard";
 import Checkout from "@/pages/checkout";
 import BookingConfirmation from "@/pages/booking-confirmation";
 import Orders from "@/pages/orders";
+import OrderDetail from "@/pages/order-detail";
+import GiftCards from "@/pages/gift-cards";
 import Messages from "@/pages/messages";
 import VideoCall from "@/pages/video-call";
 import NotificationsPage from "@/pages/notifications";
@@ -88,6 +90,8 @@ function Router() {
           <Route path="/provider-growth" component={ProviderGrowthPage} />
           <Route path="/super-admin" component={SuperAdminDashboard} />
           <Route path="/orders" component={Orders} />
+          <Route path="/orders/:orderId" component={OrderDetail} />
+          <Route path="/gift-cards" component={GiftCards} />
           <Route path="/business-analytics" component={AnalyticsDashboard} />
           <Route path="/system-dashboard" component={SystemDashboard} />
           <Route path="/messages" component={Messages} />
@@ -6,6 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useRealtime } from "@/hooks/useRealtime";
+import { TYPING_TIMEOUT_MS, type RealtimeEvent } from "@/lib/realtime";
 import { 
   Shield, 
   Send, 
@@ -59,6 +61,34 @@ export default function AnonymousCommunication({
   const [newMessage, setNewMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [showContactInfo, setShowContactInfo] = useState(false);
+  const typingTimer = useRef<ReturnType<typeof setTimeout>>();
+  const lastTypingSent = useRef(0);
+
+  const messagesKey = ['/api/communication/messages', channelCode];
+
+  // Messages, read receipts and typing come over the socket; polling takes over while it's down
+  const { connected, send } = useRealtime((event: RealtimeEvent) => {
+    if (event.channelCode !== channelCode) return;
+
+    if (event.type === 'anonymous_message') {
+      queryClient.setQueryData<AnonymousMessage[]>(messagesKey, (current = []) =>
+        current.some(message => message.id === event.message.id) ? current : [...current, event.message]
+      );
+      if (event.message.senderType !== userType) setIsTyping(false);
+    } else if (event.type === 'anonymous_read') {
+      queryClient.setQueryData<AnonymousMessage[]>(messagesKey, (current = []) =>
+        current.map(message => event.messageIds.includes(message.id) ? { ...message, isRead: true } : message)
+      );
+    } else if (event.type === 'anonymous_typing' && event.senderType !== userType) {
+      setIsTyping(event.isTyping);
+      clearTimeout(typingTimer.current);
+      if (event.isTyping) {
+        typingTimer.current = setTimeout(() => setIsTyping(false), TYPING_TIMEOUT_MS);
+      }
+    }
+  });
+
+  useEffect(() => () => clearTimeout(typingTimer.current), []);
 
   // Fetch channel info
   const { data: channel } = useQuery<AnonymousChannel>({
@@ -68,10 +98,31 @@ export default function AnonymousCommunication({
 
   // Fetch messages
   const { data: messages = [], isLoading } = useQuery<AnonymousMessage[]>({
-    queryKey: ['/api/communication/messages', channelCode],
-    refetchInterval: 3000, // Real-time-like updates every 3 seconds
+    queryKey: messagesKey,
+    refetchInterval: connected ? false : 3000,
   });
 
+  const markReadMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('PUT', `/api/communication/messages/${channelCode}/read`);
+    },
+  });
+
+  // Reading the channel clears the other side's unread messages and sends them a receipt
+  useEffect(() => {
+    const unread = messages.some(message => !message.isRead && message.senderType !== userType);
+    if (unread && !send({ type: 'read', channelCode })) {
+      markReadMutation.mutate();
+    }
+  }, [channelCode, messages, userType]);
+
+  const sendTyping = (typing: boolean) => {
+    const now = Date.now();
+    if (typing && now - lastTypingSent.current < TYPING_TIMEOUT_MS / 2) return;
+    lastTypingSent.current = typing ? now : 0;
+    send({ type: 'typing', channelCode, isTyping: typing });
+  };
+
   // Send message mutation
   const sendMessageMutation = useMutation({
     mutationFn: async (messageData: any) => {
@@ -79,7 +130,8 @@ export default function AnonymousCommunication({
     },
     onSuccess: () => {
       setNewMessage("");
-      queryClient.invalidateQueries({ queryKey: ['/api/communication/messages', channelCode] });
+      sendTyping(false);
+      queryClient.invalidateQueries({ queryKey: messagesKey });
       scrollToBottom();
     },
     onError: (error: any) => {
@@ -245,11 +297,17 @@ export default function AnonymousCommunication({
                     
                     <div className="text-xs opacity-75 mt-1">
                       {formatTime(message.sentAt)}
+                      {message.senderType === userType && message.isRead && ' · Read'}
                     </div>
                   </div>
                 </motion.div>
               ))}
             </AnimatePresence>
+            {isTyping && (
+              <div className="text-xs text-gray-500">
+                {userType === 'client' ? 'Provider' : 'Client'} is typing...
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </div>
 
@@ -258,7 +316,11 @@ export default function AnonymousCommunication({
             <div className="flex gap-2">
               <Input
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => {
+                  setNewMessage(e.target.value);
+                  sendTyping(e.target.value.length > 0);
+                }}
+                onBlur={() => sendTyping(false)}
                 placeholder="Type your message..."
                 onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
                 className="flex-1"
@@ -1,4 +1,6 @@
 import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -16,6 +18,14 @@ interface BookingCalendarProps {
   onDateSelect: (date: Date) => void;
   onTimeSelect: (time: string) => void;
   duration: number; // in minutes
+  professionalId?: number; // when set, open slots come from the booking engine
+  serviceIds?: number[];
+}
+
+interface SlotsResponse {
+  date: string;
+  duration: number;
+  slots: Array<{ time: string; start: string; end: string }>;
 }
 
 export default function BookingCalendar({
@@ -25,9 +35,22 @@ export default function BookingCalendar({
   onDateSelect,
   onTimeSelect,
   duration = 60,
+  professionalId,
+  serviceIds = [],
 }: BookingCalendarProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
+  // Server-computed slots account for existing bookings and buffer times
+  const slotsUrl = selectedDate && professionalId && serviceIds.length > 0
+    ? `/api/professionals/${professionalId}/slots?date=${format(selectedDate, "yyyy-MM-dd")}&serviceIds=${serviceIds.join(",")}`
+    : null;
+
+  const { data: serverSlots } = useQuery<SlotsResponse>({
+    queryKey: [slotsUrl],
+    enabled: !!slotsUrl,
+    staleTime: 0,
+  });
+
   const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
   const monthNames = [
     "January", "February", "March", "April", "May", "June",
@@ -72,6 +95,7 @@ export default function BookingCalendar({
   // Get available time slots for selected date
   const availableTimeSlots = useMemo(() => {
     if (!selectedDate) return [];
+    if (slotsUrl) return serverSlots?.slots.map(slot => slot.time) ?? [];
     
     const dayOfWeek = selectedDate.getDay();
     const dayAvailability = availability.filter(slot => 
@@ -107,7 +131,7 @@ export default function BookingCalendar({
     }
     
     return slots;
-  }, [selectedDate, availability, duration]);
+  }, [selectedDate, availability, duration, slotsUrl, serverSlots]);
 
   const navigateMonth = (direction: 'prev' | 'next') => {
     const newMonth = new Date(currentMonth);
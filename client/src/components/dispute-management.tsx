@@ -12,6 +12,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import type { Dispute, DisputeMessage } from "@shared/schema";
 import {
   AlertTriangle,
   MessageCircle,
@@ -56,13 +57,13 @@ export default function DisputeManagement({ bookingId, userId }: DisputeManageme
   const currentUserId = userId || user?.id;
 
   // Fetch user disputes
-  const { data: disputes, isLoading: disputesLoading } = useQuery({
+  const { data: disputes, isLoading: disputesLoading } = useQuery<Dispute[]>({
     queryKey: [`/api/users/${currentUserId}/disputes`],
     enabled: !!currentUserId,
   });
 
   // Fetch specific dispute details
-  const { data: disputeDetails } = useQuery({
+  const { data: disputeDetails } = useQuery<Dispute & { messages: DisputeMessage[] }>({
     queryKey: [`/api/disputes/${selectedDispute}`],
     enabled: !!selectedDispute,
   });
@@ -114,20 +115,22 @@ export default function DisputeManagement({ bookingId, userId }: DisputeManageme
     },
   });
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string | null) => {
     switch (status) {
       case 'resolved': return 'bg-green-100 text-green-800';
       case 'investigating': return 'bg-blue-100 text-blue-800';
+      case 'awaiting_response': return 'bg-orange-100 text-orange-800';
       case 'open': return 'bg-yellow-100 text-yellow-800';
       case 'closed': return 'bg-gray-100 text-gray-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: string | null) => {
     switch (status) {
       case 'resolved': return <CheckCircle className="h-4 w-4" />;
       case 'investigating': return <Clock className="h-4 w-4" />;
+      case 'awaiting_response': return <MessageCircle className="h-4 w-4" />;
       case 'open': return <AlertTriangle className="h-4 w-4" />;
       case 'closed': return <XCircle className="h-4 w-4" />;
       default: return <AlertCircle className="h-4 w-4" />;
@@ -311,7 +314,7 @@ export default function DisputeManagement({ bookingId, userId }: DisputeManageme
                         </span>
                       </div>
                       <Badge className={getStatusColor(dispute.status)}>
-                        {dispute.status}
+                        {dispute.status.replace('_', ' ')}
                       </Badge>
                     </div>
                     
@@ -360,7 +363,7 @@ export default function DisputeManagement({ bookingId, userId }: DisputeManageme
                       {disputeReasons.find(r => r.value === disputeDetails.reason)?.label || disputeDetails.reason}
                     </h3>
                     <Badge className={getStatusColor(disputeDetails.status)}>
-                      {disputeDetails.status}
+                      {disputeDetails.status?.replace('_', ' ')}
                     </Badge>
                   </div>
                   
@@ -370,8 +373,33 @@ export default function DisputeManagement({ bookingId, userId }: DisputeManageme
                   
                   <div className="flex items-center justify-between text-sm">
                     <span>Amount: <span className="font-medium">${parseFloat(disputeDetails.amount).toFixed(2)}</span></span>
-                    <span>Filed: {format(new Date(disputeDetails.createdAt), 'MMM dd, yyyy')}</span>
+                    <span>Filed: {format(new Date(disputeDetails.createdAt!), 'MMM dd, yyyy')}</span>
                   </div>
+
+                  {(disputeDetails.clientResponseDueAt || disputeDetails.providerResponseDueAt) && (
+                    <div className="flex items-start gap-2 p-3 bg-orange-50 rounded-lg text-sm text-orange-800">
+                      <Clock className="h-4 w-4 mt-0.5" />
+                      <div className="space-y-1">
+                        {disputeDetails.clientResponseDueAt && (
+                          <p>Client response due {format(new Date(disputeDetails.clientResponseDueAt), 'MMM dd, HH:mm')}</p>
+                        )}
+                        {disputeDetails.providerResponseDueAt && (
+                          <p>Provider response due {format(new Date(disputeDetails.providerResponseDueAt), 'MMM dd, HH:mm')}</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {disputeDetails.resolution && (
+                    <div className="p-3 bg-green-50 rounded-lg text-sm text-green-800">
+                      <p className="font-medium">
+                        {disputeDetails.refundAmount
+                          ? `Refunded $${parseFloat(disputeDetails.refundAmount).toFixed(2)}`
+                          : 'Resolved without a refund'}
+                      </p>
+                      <p>{disputeDetails.resolution}</p>
+                    </div>
+                  )}
                 </div>
 
                 <Separator />
@@ -392,6 +420,18 @@ export default function DisputeManagement({ bookingId, userId }: DisputeManageme
                             </span>
                           </div>
                           <p className="text-sm">{message.message}</p>
+                          {message.attachments?.map((url: string) => (
+                            <a
+                              key={url}
+                              href={url}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="flex items-center gap-1 text-xs text-blue-600 hover:underline mt-1"
+                            >
+                              <FileText className="h-3 w-3" />
+                              {url.split('/').pop()}
+                            </a>
+                          ))}
                         </div>
                       ))
                     ) : (
@@ -403,7 +443,7 @@ export default function DisputeManagement({ bookingId, userId }: DisputeManageme
                 </div>
 
                 {/* Send Message */}
-                {disputeDetails.status === 'open' || disputeDetails.status === 'investigating' ? (
+                {['open', 'investigating', 'awaiting_response'].includes(disputeDetails.status ?? '') ? (
                   <div className="space-y-2">
                     <div className="flex gap-2">
                       <Input
@@ -4,154 +4,136 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Star, ThumbsUp, ThumbsDown, Camera, Reply, Flag, MoreHorizontal, Heart, ImageIcon } from "lucide-react";
-import { motion, AnimatePresence } from "framer-motion";
+import {
+  MAX_REVIEW_PHOTOS,
+  reportReasonLabels,
+  reviewSortLabels,
+  type PublicReview,
+  type ReviewDetail,
+  type ReviewList,
+} from "@/lib/reviews";
+import type { ReviewPhoto } from "@shared/schema";
+import { Star, ThumbsUp, ThumbsDown, Camera, Reply, Flag, ImageIcon } from "lucide-react";
+import { motion } from "framer-motion";
 import { format, formatDistanceToNow } from "date-fns";
 
 interface EnhancedReviewSystemProps {
   providerId: number;
   bookingId?: string;
   showCreateReview?: boolean;
+  // The viewer is the reviewed provider and can answer reviews
+  canRespond?: boolean;
 }
 
-interface ReviewPhoto {
-  id: string;
-  url: string;
-  caption?: string;
-}
-
-interface Review {
-  id: string;
-  clientName: string;
-  clientAvatar?: string;
-  rating: number;
-  title: string;
-  content: string;
-  photos: ReviewPhoto[];
-  helpfulCount: number;
-  notHelpfulCount: number;
-  hasUserVoted: boolean;
-  userVoteType?: 'helpful' | 'not_helpful';
-  providerResponse?: {
-    content: string;
-    respondedAt: string;
-  };
-  createdAt: string;
-  verifiedBooking: boolean;
-  serviceType: string;
-}
-
-export default function EnhancedReviewSystem({ 
-  providerId, 
-  bookingId, 
-  showCreateReview = false 
+export default function EnhancedReviewSystem({
+  providerId,
+  bookingId,
+  showCreateReview = false,
+  canRespond = false,
 }: EnhancedReviewSystemProps) {
-  const [selectedPhotos, setSelectedPhotos] = useState<File[]>([]);
+  const [sortBy, setSortBy] = useState("helpful");
   const [newReview, setNewReview] = useState({
     rating: 5,
-    title: "",
-    content: "",
-    photos: [] as File[],
+    comment: "",
+    bookingId: bookingId ?? "",
+    photoUrls: [] as string[],
   });
+  const [photoUrl, setPhotoUrl] = useState("");
   const [showPhotoModal, setShowPhotoModal] = useState<ReviewPhoto | null>(null);
   const [responseText, setResponseText] = useState("");
-  const [activeReplyId, setActiveReplyId] = useState<string | null>(null);
-  
+  const [activeReplyId, setActiveReplyId] = useState<number | null>(null);
+
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch reviews with enhanced data
-  const { data: reviewsData, isLoading } = useQuery({
-    queryKey: ["/api/providers", providerId, "reviews", "enhanced"],
+  const { data: reviewsData, isLoading } = useQuery<ReviewList>({
+    queryKey: ["/api/providers", providerId, `reviews/enhanced?sort=${sortBy}`],
     refetchInterval: 30000, // Refresh for new responses and votes
   });
 
   const reviews = reviewsData?.reviews || [];
   const reviewStats = reviewsData?.stats || {
     averageRating: 0,
+    weightedRating: 0,
     totalReviews: 0,
     ratingDistribution: { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 },
     responseRate: 0,
   };
+  const reviewableBookings = reviewsData?.reviewableBookings || [];
+  const selectedBookingId = newReview.bookingId || reviewableBookings[0]?.id || "";
+
+  const invalidateReviews = () => {
+    queryClient.invalidateQueries({
+      queryKey: ["/api/providers", providerId]
+    });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Authentication Required",
+        description: "Please log in to continue",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title,
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
 
   // Create review mutation
   const createReviewMutation = useMutation({
-    mutationFn: async (reviewData: any) => {
-      const formData = new FormData();
-      formData.append('providerId', providerId.toString());
-      formData.append('bookingId', bookingId || '');
-      formData.append('rating', reviewData.rating.toString());
-      formData.append('title', reviewData.title);
-      formData.append('content', reviewData.content);
-      
-      // Add photos
-      reviewData.photos.forEach((photo: File, index: number) => {
-        formData.append(`photos`, photo);
+    mutationFn: async (): Promise<PublicReview> => {
+      const response = await apiRequest("POST", "/api/reviews", {
+        bookingId: selectedBookingId,
+        rating: newReview.rating,
+        comment: newReview.comment,
+        photos: newReview.photoUrls.map(imageUrl => ({ imageUrl })),
       });
-
-      const response = await apiRequest("POST", "/api/reviews/enhanced", formData);
       return response.json();
     },
-    onSuccess: () => {
-      toast({
+    onSuccess: (review) => {
+      // Reviews flagged by screening, or not screened yet, wait before they appear
+      toast(review.status !== "published" ? {
+        title: "Review Submitted",
+        description: "Your review will appear once our team has checked it.",
+      } : {
         title: "Review Posted",
         description: "Thank you for sharing your experience!",
       });
-      
-      setNewReview({ rating: 5, title: "", content: "", photos: [] });
-      setSelectedPhotos([]);
-      
-      queryClient.invalidateQueries({
-        queryKey: ["/api/providers", providerId, "reviews"]
-      });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Authentication Required",
-          description: "Please log in to leave a review",
-          variant: "destructive",
-        });
-        return;
-      }
 
-      toast({
-        title: "Failed to Post Review",
-        description: error.message || "Please try again",
-        variant: "destructive",
-      });
+      setNewReview({ rating: 5, comment: "", bookingId: "", photoUrls: [] });
+      invalidateReviews();
     },
+    onError: onError("Failed to Post Review"),
   });
 
-  // Vote on review helpfulness
+  // Vote on review helpfulness; each review takes one vote per person
   const voteOnReviewMutation = useMutation({
-    mutationFn: async ({ reviewId, voteType }: { reviewId: string; voteType: 'helpful' | 'not_helpful' }) => {
-      const response = await apiRequest("POST", `/api/reviews/${reviewId}/vote`, {
-        voteType
-      });
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: ["/api/providers", providerId, "reviews"]
-      });
+    mutationFn: async ({ reviewId, isHelpful }: { reviewId: number; isHelpful: boolean }) => {
+      await apiRequest("POST", `/api/reviews/${reviewId}/helpful`, { isHelpful });
     },
+    onSuccess: invalidateReviews,
+    onError: onError("Vote Not Counted"),
   });
 
-  // Provider response mutation
+  // Provider response mutation; posting again edits the response
   const respondToReviewMutation = useMutation({
-    mutationFn: async ({ reviewId, response }: { reviewId: string; response: string }) => {
-      const res = await apiRequest("POST", `/api/reviews/${reviewId}/respond`, {
-        response
-      });
+    mutationFn: async ({ reviewId, response }: { reviewId: number; response: string }) => {
+      const res = await apiRequest("PUT", `/api/reviews/${reviewId}/response`, { response });
       return res.json();
     },
     onSuccess: () => {
@@ -159,43 +141,56 @@ export default function EnhancedReviewSystem({
         title: "Response Posted",
         description: "Your response has been added to the review",
       });
-      
+
       setResponseText("");
       setActiveReplyId(null);
-      
-      queryClient.invalidateQueries({
-        queryKey: ["/api/providers", providerId, "reviews"]
+      invalidateReviews();
+    },
+    onError: onError("Response Not Saved"),
+  });
+
+  const reportReviewMutation = useMutation({
+    mutationFn: async ({ reviewId, reason }: { reviewId: number; reason: string }) => {
+      await apiRequest("POST", `/api/reviews/${reviewId}/report`, { reason });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Review Reported",
+        description: "Our team will take a look.",
       });
     },
+    onError: onError("Report Not Sent"),
   });
 
-  const handlePhotoUpload = (files: FileList | null) => {
-    if (!files) return;
-    
-    const newPhotos = Array.from(files).slice(0, 5 - selectedPhotos.length);
-    setSelectedPhotos(prev => [...prev, ...newPhotos]);
-    setNewReview(prev => ({ ...prev, photos: [...prev.photos, ...newPhotos] }));
+  const addPhoto = () => {
+    if (!photoUrl.trim() || newReview.photoUrls.length >= MAX_REVIEW_PHOTOS) return;
+    setNewReview(prev => ({ ...prev, photoUrls: [...prev.photoUrls, photoUrl.trim()] }));
+    setPhotoUrl("");
   };
 
   const removePhoto = (index: number) => {
-    setSelectedPhotos(prev => prev.filter((_, i) => i !== index));
     setNewReview(prev => ({
       ...prev,
-      photos: prev.photos.filter((_, i) => i !== index)
+      photoUrls: prev.photoUrls.filter((_, i) => i !== index)
     }));
   };
 
   const handleSubmitReview = () => {
-    if (!newReview.title || !newReview.content) {
+    if (!newReview.comment.trim()) {
       toast({
         title: "Missing Information",
-        description: "Please provide a title and detailed review",
+        description: "Please tell others about your experience",
         variant: "destructive",
       });
       return;
     }
 
-    createReviewMutation.mutate(newReview);
+    createReviewMutation.mutate();
+  };
+
+  const startReply = (review: ReviewDetail) => {
+    setActiveReplyId(review.id);
+    setResponseText(review.providerResponse?.response ?? "");
   };
 
   const renderStarRating = (rating: number, interactive = false, onRatingChange?: (rating: number) => void) => {
@@ -205,8 +200,8 @@ export default function EnhancedReviewSystem({
           <Star
             key={star}
             className={`h-5 w-5 ${
-              star <= rating 
-                ? "fill-yellow-400 text-yellow-400" 
+              star <= rating
+                ? "fill-yellow-400 text-yellow-400"
                 : "text-gray-300"
             } ${interactive ? "cursor-pointer hover:text-yellow-400" : ""}`}
             onClick={interactive ? () => onRatingChange?.(star) : undefined}
@@ -228,7 +223,7 @@ export default function EnhancedReviewSystem({
             </Badge>
           </CardTitle>
         </CardHeader>
-        
+
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Overall Rating */}
@@ -249,10 +244,10 @@ export default function EnhancedReviewSystem({
                   <span className="text-sm w-3">{stars}</span>
                   <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
                   <div className="flex-1 bg-gray-200 rounded-full h-2">
-                    <div 
+                    <div
                       className="bg-yellow-400 h-2 rounded-full"
-                      style={{ 
-                        width: `${((reviewStats.ratingDistribution[stars] || 0) / reviewStats.totalReviews) * 100}%` 
+                      style={{
+                        width: `${reviewStats.totalReviews ? ((reviewStats.ratingDistribution[stars] || 0) / reviewStats.totalReviews) * 100 : 0}%`
                       }}
                     />
                   </div>
@@ -278,14 +273,32 @@ export default function EnhancedReviewSystem({
         </CardContent>
       </Card>
 
-      {/* Create Review Form */}
-      {showCreateReview && (
+      {/* Create Review Form, for clients with a completed booking still open for review */}
+      {showCreateReview && selectedBookingId && (
         <Card>
           <CardHeader>
             <CardTitle>Share Your Experience</CardTitle>
           </CardHeader>
-          
+
           <CardContent className="space-y-4">
+            {reviewableBookings.length > 1 && (
+              <div>
+                <Label className="text-sm font-medium">Appointment</Label>
+                <Select value={selectedBookingId} onValueChange={(value) => setNewReview(prev => ({ ...prev, bookingId: value }))}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reviewableBookings.map(booking => (
+                      <SelectItem key={booking.id} value={booking.id}>
+                        {format(new Date(booking.appointmentDate), "MMM d, yyyy")}{booking.serviceType && ` · ${booking.serviceType}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Rating Selection */}
             <div>
               <Label className="text-sm font-medium">Rating</Label>
@@ -296,18 +309,6 @@ export default function EnhancedReviewSystem({
               </div>
             </div>
 
-            {/* Review Title */}
-            <div>
-              <Label htmlFor="title" className="text-sm font-medium">Title</Label>
-              <Input
-                id="title"
-                placeholder="Summarize your experience"
-                value={newReview.title}
-                onChange={(e) => setNewReview(prev => ({ ...prev, title: e.target.value }))}
-                className="mt-1"
-              />
-            </div>
-
             {/* Review Content */}
             <div>
               <Label htmlFor="content" className="text-sm font-medium">Review</Label>
@@ -315,45 +316,42 @@ export default function EnhancedReviewSystem({
                 id="content"
                 placeholder="Tell others about your experience with this provider..."
                 rows={4}
-                value={newReview.content}
-                onChange={(e) => setNewReview(prev => ({ ...prev, content: e.target.value }))}
+                value={newReview.comment}
+                onChange={(e) => setNewReview(prev => ({ ...prev, comment: e.target.value }))}
                 className="mt-1"
               />
             </div>
 
-            {/* Photo Upload */}
+            {/* Photos */}
             <div>
-              <Label className="text-sm font-medium">Add Photos (Optional)</Label>
-              <div className="mt-2">
-                <input
-                  type="file"
-                  accept="image/*"
-                  multiple
-                  onChange={(e) => handlePhotoUpload(e.target.files)}
-                  className="hidden"
-                  id="photo-upload"
-                  disabled={selectedPhotos.length >= 5}
+              <Label htmlFor="photo-url" className="text-sm font-medium">
+                Add Photos (Optional, {newReview.photoUrls.length}/{MAX_REVIEW_PHOTOS})
+              </Label>
+              <div className="flex gap-2 mt-1">
+                <Input
+                  id="photo-url"
+                  placeholder="https://..."
+                  value={photoUrl}
+                  onChange={(e) => setPhotoUrl(e.target.value)}
+                  disabled={newReview.photoUrls.length >= MAX_REVIEW_PHOTOS}
                 />
-                <label
-                  htmlFor="photo-upload"
-                  className={`inline-flex items-center gap-2 px-4 py-2 border border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 ${
-                    selectedPhotos.length >= 5 ? "opacity-50 cursor-not-allowed" : ""
-                  }`}
+                <Button
+                  variant="outline"
+                  onClick={addPhoto}
+                  disabled={!photoUrl.trim() || newReview.photoUrls.length >= MAX_REVIEW_PHOTOS}
                 >
-                  <Camera className="h-4 w-4" />
-                  <span className="text-sm">
-                    Add Photos ({selectedPhotos.length}/5)
-                  </span>
-                </label>
+                  <Camera className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
               </div>
 
               {/* Photo Previews */}
-              {selectedPhotos.length > 0 && (
+              {newReview.photoUrls.length > 0 && (
                 <div className="flex flex-wrap gap-2 mt-3">
-                  {selectedPhotos.map((photo, index) => (
+                  {newReview.photoUrls.map((url, index) => (
                     <div key={index} className="relative">
                       <img
-                        src={URL.createObjectURL(photo)}
+                        src={url}
                         alt={`Preview ${index + 1}`}
                         className="w-16 h-16 object-cover rounded-lg"
                       />
@@ -370,7 +368,7 @@ export default function EnhancedReviewSystem({
             </div>
 
             {/* Submit Button */}
-            <Button 
+            <Button
               onClick={handleSubmitReview}
               disabled={createReviewMutation.isPending}
               className="w-full bg-secondary hover:bg-secondary/90"
@@ -381,6 +379,20 @@ export default function EnhancedReviewSystem({
         </Card>
       )}
 
+      {/* Sorting */}
+      <div className="flex justify-end">
+        <Select value={sortBy} onValueChange={setSortBy}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(reviewSortLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Reviews List */}
       <div className="space-y-4">
         {isLoading ? (
@@ -404,11 +416,13 @@ export default function EnhancedReviewSystem({
             <CardContent className="text-center py-12">
               <Star className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No reviews yet</h3>
-              <p className="text-gray-600">Be the first to share your experience!</p>
+              <p className="text-gray-600">
+                {sortBy === "photos" ? "No reviews with photos yet." : "Be the first to share your experience!"}
+              </p>
             </CardContent>
           </Card>
         ) : (
-          reviews.map((review: Review) => (
+          reviews.map((review) => (
             <motion.div
               key={review.id}
               initial={{ opacity: 0, y: 20 }}
@@ -420,12 +434,12 @@ export default function EnhancedReviewSystem({
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex items-start gap-3">
                       <Avatar>
-                        <AvatarImage src={review.clientAvatar} />
+                        <AvatarImage src={review.clientAvatar ?? undefined} />
                         <AvatarFallback>
                           {review.clientName.split(' ').map(n => n[0]).join('')}
                         </AvatarFallback>
                       </Avatar>
-                      
+
                       <div>
                         <div className="flex items-center gap-2">
                           <h4 className="font-medium">{review.clientName}</h4>
@@ -435,26 +449,42 @@ export default function EnhancedReviewSystem({
                             </Badge>
                           )}
                         </div>
-                        
+
                         <div className="flex items-center gap-2 mt-1">
                           {renderStarRating(review.rating)}
-                          <span className="text-sm text-gray-500">
-                            {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
-                          </span>
+                          {review.createdAt && (
+                            <span className="text-sm text-gray-500">
+                              {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+                            </span>
+                          )}
                         </div>
-                        
-                        <Badge variant="secondary" className="text-xs mt-1">
-                          {review.serviceType}
-                        </Badge>
+
+                        {review.serviceType && (
+                          <Badge variant="secondary" className="text-xs mt-1">
+                            {review.serviceType}
+                          </Badge>
+                        )}
                       </div>
                     </div>
+
+                    <Select onValueChange={(reason) => reportReviewMutation.mutate({ reviewId: review.id, reason })}>
+                      <SelectTrigger className="w-auto border-none shadow-none text-gray-500" aria-label="Report review">
+                        <Flag className="h-4 w-4" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(reportReasonLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>Report: {label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
 
                   {/* Review Content */}
-                  <div className="mb-4">
-                    <h5 className="font-medium mb-2">{review.title}</h5>
-                    <p className="text-gray-700 leading-relaxed">{review.content}</p>
-                  </div>
+                  {review.comment && (
+                    <div className="mb-4">
+                      <p className="text-gray-700 leading-relaxed">{review.comment}</p>
+                    </div>
+                  )}
 
                   {/* Review Photos */}
                   {review.photos.length > 0 && (
@@ -466,8 +496,8 @@ export default function EnhancedReviewSystem({
                           className="relative group"
                         >
                           <img
-                            src={photo.url}
-                            alt="Review photo"
+                            src={photo.imageUrl}
+                            alt={photo.caption || "Review photo"}
                             className="w-20 h-20 object-cover rounded-lg"
                           />
                           <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 rounded-lg transition-opacity flex items-center justify-center">
@@ -485,43 +515,76 @@ export default function EnhancedReviewSystem({
                       size="sm"
                       onClick={() => voteOnReviewMutation.mutate({
                         reviewId: review.id,
-                        voteType: 'helpful'
+                        isHelpful: true
                       })}
-                      disabled={review.hasUserVoted}
-                      className={review.userVoteType === 'helpful' ? 'bg-green-50 text-green-700' : ''}
+                      disabled={!!review.userVote || voteOnReviewMutation.isPending}
+                      className={review.userVote === 'helpful' ? 'bg-green-50 text-green-700' : ''}
                     >
                       <ThumbsUp className="h-4 w-4 mr-1" />
                       Helpful ({review.helpfulCount})
                     </Button>
-                    
+
                     <Button
                       variant="ghost"
                       size="sm"
                       onClick={() => voteOnReviewMutation.mutate({
                         reviewId: review.id,
-                        voteType: 'not_helpful'
+                        isHelpful: false
                       })}
-                      disabled={review.hasUserVoted}
-                      className={review.userVoteType === 'not_helpful' ? 'bg-red-50 text-red-700' : ''}
+                      disabled={!!review.userVote || voteOnReviewMutation.isPending}
+                      className={review.userVote === 'not_helpful' ? 'bg-red-50 text-red-700' : ''}
                     >
                       <ThumbsDown className="h-4 w-4 mr-1" />
                       Not Helpful ({review.notHelpfulCount})
                     </Button>
+
+                    {canRespond && activeReplyId !== review.id && (
+                      <Button variant="ghost" size="sm" onClick={() => startReply(review)}>
+                        <Reply className="h-4 w-4 mr-1" />
+                        {review.providerResponse ? "Edit Response" : "Respond"}
+                      </Button>
+                    )}
                   </div>
 
+                  {/* Response Form */}
+                  {canRespond && activeReplyId === review.id && (
+                    <div className="space-y-2 mb-4">
+                      <Textarea
+                        placeholder="Write a public response..."
+                        rows={3}
+                        value={responseText}
+                        onChange={(e) => setResponseText(e.target.value)}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setActiveReplyId(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={!responseText.trim() || respondToReviewMutation.isPending}
+                          onClick={() => respondToReviewMutation.mutate({ reviewId: review.id, response: responseText })}
+                        >
+                          Post Response
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Provider Response */}
-                  {review.providerResponse && (
+                  {review.providerResponse && activeReplyId !== review.id && (
                     <div className="bg-blue-50 p-4 rounded-lg border-l-4 border-blue-400">
                       <div className="flex items-start gap-2">
                         <Reply className="h-4 w-4 text-blue-600 mt-0.5" />
                         <div>
                           <h6 className="font-medium text-blue-900 mb-1">Provider Response</h6>
                           <p className="text-blue-800 text-sm leading-relaxed">
-                            {review.providerResponse.content}
-                          </p>
-                          <p className="text-blue-600 text-xs mt-2">
-                            {formatDistanceToNow(new Date(review.providerResponse.respondedAt), { addSuffix: true })}
+                            {review.providerResponse.response}
                           </p>
+                          {review.providerResponse.updatedAt && (
+                            <p className="text-blue-600 text-xs mt-2">
+                              {formatDistanceToNow(new Date(review.providerResponse.updatedAt), { addSuffix: true })}
+                            </p>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -542,7 +605,7 @@ export default function EnhancedReviewSystem({
           {showPhotoModal && (
             <div>
               <img
-                src={showPhotoModal.url}
+                src={showPhotoModal.imageUrl}
                 alt="Review photo"
                 className="w-full h-auto rounded-lg"
               />
@@ -555,4 +618,4 @@ export default function EnhancedReviewSystem({
       </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
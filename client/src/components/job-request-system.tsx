@@ -27,10 +27,12 @@ import {
   Home,
   AlertCircle,
   Star,
-  MessageSquare
+  MessageSquare,
+  CheckCircle
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useLocation } from 'wouter';
 
 // Job Request Form Schema
 const jobRequestSchema = z.object({
@@ -63,6 +65,7 @@ export function JobRequestSystem() {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
   const [selectedJob, setSelectedJob] = useState<any>(null);
   const [jobDialogOpen, setJobDialogOpen] = useState(false);
   const [bidDialogOpen, setBidDialogOpen] = useState(false);
@@ -102,6 +105,23 @@ export function JobRequestSystem() {
     },
   });
 
+  // Providers can switch to a feed ranked for their specialties, location and prices
+  const [showMatches, setShowMatches] = useState(false);
+
+  const { data: myProfessional } = useQuery({
+    queryKey: ['/api/providers/me'],
+    enabled: !!user,
+    retry: false,
+  });
+
+  const { data: jobFeed, isLoading: feedLoading } = useQuery<any[]>({
+    queryKey: ['/api/job-requests/feed'],
+    enabled: showMatches && !!myProfessional,
+  });
+
+  const displayedJobs = showMatches ? jobFeed : jobRequests;
+  const jobsLoading = showMatches ? feedLoading : isLoading;
+
   // Create job request mutation
   const createJobMutation = useMutation({
     mutationFn: async (data: JobRequestFormData) => {
@@ -151,6 +171,38 @@ export function JobRequestSystem() {
     },
   });
 
+  // Bids are only shown to the client who posted the job
+  const isJobOwner = !!user && !!selectedJob && selectedJob.clientId === (user as any).id;
+
+  const { data: jobBids = [] } = useQuery<any[]>({
+    queryKey: ['/api/job-requests', selectedJob?.id, 'bids'],
+    enabled: isJobOwner && jobDialogOpen,
+  });
+
+  // Accepting a bid books the provider and sends the client on to payment
+  const acceptBidMutation = useMutation({
+    mutationFn: async ({ jobRequestId, bidId }: { jobRequestId: string; bidId: number }) => {
+      const response = await apiRequest('POST', `/api/job-requests/${jobRequestId}/bids/${bidId}/accept`, {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Bid Accepted!",
+        description: "Your provider has been booked. Complete payment to confirm the appointment.",
+      });
+      setJobDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/job-requests'] });
+      setLocation(`/checkout/${data.booking.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error Accepting Bid",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const urgencyColors = {
     low: 'bg-green-100 text-green-800',
     medium: 'bg-yellow-100 text-yellow-800',
@@ -205,6 +257,16 @@ export function JobRequestSystem() {
           </p>
         </div>
         
+        {!!myProfessional && (
+          <Button
+            variant={showMatches ? 'default' : 'outline'}
+            onClick={() => setShowMatches(!showMatches)}
+          >
+            <Star className="h-4 w-4 mr-2" />
+            {showMatches ? 'Showing Matches for You' : 'Matched for You'}
+          </Button>
+        )}
+
         {user && (
           <Dialog open={createJobDialogOpen} onOpenChange={setCreateJobDialogOpen}>
             <DialogTrigger asChild>
@@ -514,7 +576,7 @@ export function JobRequestSystem() {
 
       {/* Job Listings */}
       <div className="space-y-4">
-        {isLoading ? (
+        {jobsLoading ? (
           <div className="space-y-4">
             {[1, 2, 3].map((i) => (
               <Card key={i}>
@@ -528,7 +590,7 @@ export function JobRequestSystem() {
               </Card>
             ))}
           </div>
-        ) : jobRequests?.length === 0 ? (
+        ) : displayedJobs?.length === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
               <Briefcase className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -544,14 +606,19 @@ export function JobRequestSystem() {
             </CardContent>
           </Card>
         ) : (
-          jobRequests?.map((job: any) => {
+          displayedJobs?.map((job: any) => {
             const UrgencyIcon = urgencyIcons[job.urgency as keyof typeof urgencyIcons];
             return (
               <Card key={job.id} className="hover:shadow-md transition-shadow cursor-pointer">
                 <CardContent className="p-6">
                   <div className="flex justify-between items-start mb-4">
                     <div className="flex-1">
-                      <h3 className="text-lg font-semibold mb-2">{job.title}</h3>
+                      <div className="flex items-center gap-2 mb-2">
+                        <h3 className="text-lg font-semibold">{job.title}</h3>
+                        {job.matchScore !== undefined && (
+                          <Badge className="bg-[#F25D22] text-white">{job.matchScore}% match</Badge>
+                        )}
+                      </div>
                       <p className="text-gray-600 mb-3 line-clamp-2">{job.description}</p>
                       
                       <div className="flex flex-wrap gap-2 mb-3">
@@ -579,6 +646,10 @@ export function JobRequestSystem() {
                         )}
                       </div>
 
+                      {job.matchReasons?.length > 0 && (
+                        <p className="text-sm text-gray-600 mb-3">{job.matchReasons.join(' • ')}</p>
+                      )}
+
                       <div className="flex items-center gap-4 text-sm text-gray-500">
                         <span className="flex items-center gap-1">
                           <MessageSquare className="h-3 w-3" />
@@ -692,7 +763,39 @@ export function JobRequestSystem() {
                   </div>
                 )}
 
-                {user && (
+                {isJobOwner && (
+                  <div className="pt-4 border-t">
+                    <h4 className="font-medium mb-2">Bids</h4>
+                    {jobBids.length === 0 ? (
+                      <p className="text-gray-600 text-sm">No bids yet.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {jobBids.map((bid) => (
+                          <div key={bid.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                            <div className="text-sm">
+                              <div className="font-medium">${bid.bidAmount}</div>
+                              {bid.message && <p className="text-gray-600">{bid.message}</p>}
+                            </div>
+                            {bid.status === 'pending' && selectedJob.status === 'open' ? (
+                              <Button
+                                size="sm"
+                                onClick={() => acceptBidMutation.mutate({ jobRequestId: selectedJob.id, bidId: bid.id })}
+                                disabled={acceptBidMutation.isPending}
+                              >
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Accept
+                              </Button>
+                            ) : (
+                              <Badge variant="secondary" className="capitalize">{bid.status}</Badge>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {user && !isJobOwner && (
                   <div className="flex gap-2 pt-4 border-t">
                     <Button 
                       onClick={() => {
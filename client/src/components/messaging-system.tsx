@@ -10,6 +10,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/useRealtime";
+import { TYPING_TIMEOUT_MS, type RealtimeEvent } from "@/lib/realtime";
+import type { Message } from "@shared/schema";
 import { 
   Send, MessageSquare, Phone, Video, Image, Paperclip, 
   MoreHorizontal, Search, Filter, Star, CheckCircle2
@@ -39,41 +42,64 @@ export default function MessagingSystem({
   
   const [newMessage, setNewMessage] = useState("");
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [recipientTyping, setRecipientTyping] = useState(false);
+  const typingTimer = useRef<ReturnType<typeof setTimeout>>();
+  const lastTypingSent = useRef(0);
+
+  const messagesKey = ["/api/conversations", conversationId, "messages"];
+
+  // New messages, read receipts and typing arrive over the socket; polling only covers for it when it's down
+  const { connected, send } = useRealtime((event: RealtimeEvent) => {
+    const isActive = !!conversationId && event.conversationId === Number(conversationId);
+
+    if (event.type === "message") {
+      if (isActive) {
+        queryClient.setQueryData<Message[]>(messagesKey, (current = []) =>
+          current.some(message => message.id === event.message.id) ? current : [...current, event.message]
+        );
+        setRecipientTyping(false);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+    } else if (event.type === "read") {
+      if (isActive) {
+        queryClient.setQueryData<Message[]>(messagesKey, (current = []) =>
+          current.map(message => event.messageIds.includes(message.id) ? { ...message, isRead: true } : message)
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+    } else if (event.type === "typing" && isActive) {
+      setRecipientTyping(event.isTyping);
+      clearTimeout(typingTimer.current);
+      if (event.isTyping) {
+        typingTimer.current = setTimeout(() => setRecipientTyping(false), TYPING_TIMEOUT_MS);
+      }
+    }
+  });
+
+  useEffect(() => () => clearTimeout(typingTimer.current), []);
 
   // Fetch conversations list
-  const { data: conversations = [] } = useQuery({
+  const { data: conversations = [] } = useQuery<any[]>({
     queryKey: ["/api/conversations"],
-    refetchInterval: 30000, // Refetch every 30 seconds for real-time updates
+    refetchInterval: connected ? false : 30000,
   });
 
   // Fetch messages for active conversation
-  const { data: messages = [] } = useQuery({
-    queryKey: ["/api/conversations", conversationId, "messages"],
+  const { data: messages = [] } = useQuery<Message[]>({
+    queryKey: messagesKey,
     enabled: !!conversationId,
-    refetchInterval: 5000, // More frequent updates for active chat
+    refetchInterval: connected ? false : 5000,
   });
 
   const sendMessageMutation = useMutation({
-    mutationFn: async (messageData: any) => {
-      const formData = new FormData();
-      formData.append('content', messageData.content);
-      formData.append('conversationId', messageData.conversationId);
-      formData.append('recipientId', messageData.recipientId);
-      
-      selectedFiles.forEach((file, index) => {
-        formData.append(`attachments_${index}`, file);
-      });
-
-      await apiRequest("POST", "/api/messages", formData, {
-        headers: { 'Content-Type': 'multipart/form-data' }
-      });
+    mutationFn: async (messageData: { content: string; conversationId: string | null; recipientId: string | null }) => {
+      await apiRequest("POST", "/api/messages", messageData);
     },
     onSuccess: () => {
       setNewMessage("");
-      setSelectedFiles([]);
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+      sendTyping(false);
+      queryClient.invalidateQueries({ queryKey: messagesKey });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
       scrollToBottom();
     },
@@ -108,8 +134,9 @@ export default function MessagingSystem({
     },
   });
 
+  // Reading the latest message reads the ones before it, and the sender gets a receipt
   const markAsReadMutation = useMutation({
-    mutationFn: async (messageId: string) => {
+    mutationFn: async (messageId: number) => {
       await apiRequest("PUT", `/api/messages/${messageId}/read`);
     },
     onSuccess: () => {
@@ -117,6 +144,15 @@ export default function MessagingSystem({
     },
   });
 
+  // Let the other side know at most every few seconds while typing, and straight away on stopping
+  const sendTyping = (isTyping: boolean) => {
+    if (!conversationId) return;
+    const now = Date.now();
+    if (isTyping && now - lastTypingSent.current < TYPING_TIMEOUT_MS / 2) return;
+    lastTypingSent.current = isTyping ? now : 0;
+    send({ type: "typing", conversationId: Number(conversationId), isTyping });
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -127,21 +163,21 @@ export default function MessagingSystem({
 
   // Mark messages as read when viewing conversation
   useEffect(() => {
-    if (conversationId && messages.length > 0) {
-      const unreadMessages = messages.filter((msg: any) => 
-        !msg.isRead && msg.senderId !== user?.id
-      );
-      
-      unreadMessages.forEach((msg: any) => {
-        markAsReadMutation.mutate(msg.id);
-      });
+    if (!conversationId || !user?.id) return;
+
+    const unread = messages.filter(message => !message.isRead && message.senderId !== user.id);
+    if (unread.length === 0) return;
+
+    const upToMessageId = unread[unread.length - 1].id;
+    if (!send({ type: "read", conversationId: Number(conversationId), upToMessageId })) {
+      markAsReadMutation.mutate(upToMessageId);
     }
   }, [conversationId, messages, user?.id]);
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newMessage.trim() && selectedFiles.length === 0) return;
+    if (!newMessage.trim()) return;
     
     if (!conversationId && !recipientId) {
       toast({
@@ -159,24 +195,7 @@ export default function MessagingSystem({
     });
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    if (files.length + selectedFiles.length > 5) {
-      toast({
-        title: "Too Many Files",
-        description: "Maximum 5 files allowed per message.",
-        variant: "destructive",
-      });
-      return;
-    }
-    setSelectedFiles(prev => [...prev, ...files]);
-  };
-
-  const removeFile = (index: number) => {
-    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
-  };
-
-  const formatMessageTime = (timestamp: string) => {
+  const formatMessageTime = (timestamp: string | Date) => {
     const date = new Date(timestamp);
     if (isToday(date)) {
       return format(date, 'h:mm a');
@@ -322,7 +341,7 @@ export default function MessagingSystem({
                 {recipientName || "Unknown User"}
               </h3>
               <p className="text-sm text-gray-500">
-                {isProvider ? "Beauty Provider" : "Client"}
+                {recipientTyping ? "Typing..." : isProvider ? "Beauty Provider" : "Client"}
               </p>
             </div>
           </div>
@@ -352,7 +371,7 @@ export default function MessagingSystem({
           {messages.map((message: any, index: number) => {
             const isOwnMessage = message.senderId === user?.id;
             const showTimestamp = index === 0 || 
-              new Date(message.timestamp).getTime() - new Date(messages[index - 1].timestamp).getTime() > 300000; // 5 minutes
+              new Date(message.createdAt).getTime() - new Date(messages[index - 1].createdAt!).getTime() > 300000; // 5 minutes
 
             return (
               <motion.div
@@ -365,7 +384,7 @@ export default function MessagingSystem({
                 <div className={`max-w-xs lg:max-w-md ${isOwnMessage ? 'order-1' : 'order-2'}`}>
                   {showTimestamp && (
                     <div className="text-center text-xs text-gray-500 mb-2">
-                      {formatMessageTime(message.timestamp)}
+                      {formatMessageTime(message.createdAt)}
                     </div>
                   )}
                   
@@ -400,7 +419,7 @@ export default function MessagingSystem({
                       isOwnMessage ? 'justify-end' : 'justify-start'
                     }`}>
                       <span className="text-xs opacity-70">
-                        {format(new Date(message.timestamp), 'h:mm a')}
+                        {format(new Date(message.createdAt), 'h:mm a')}
                       </span>
                       {isOwnMessage && message.isRead && (
                         <CheckCircle2 className="h-3 w-3 opacity-70" />
@@ -426,29 +445,16 @@ export default function MessagingSystem({
 
       {/* Message Input */}
       <div className="p-4 border-t bg-white">
-        {selectedFiles.length > 0 && (
-          <div className="mb-3 flex flex-wrap gap-2">
-            {selectedFiles.map((file, index) => (
-              <div key={index} className="flex items-center space-x-2 bg-gray-100 px-3 py-2 rounded-lg">
-                <Paperclip className="h-4 w-4" />
-                <span className="text-sm truncate max-w-[150px]">{file.name}</span>
-                <button
-                  onClick={() => removeFile(index)}
-                  className="text-gray-500 hover:text-red-500"
-                >
-                  ×
-                </button>
-              </div>
-            ))}
-          </div>
-        )}
-        
         <form onSubmit={handleSendMessage} className="flex items-end space-x-2">
           <div className="flex-1">
             <Textarea
               placeholder="Type a message..."
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                sendTyping(e.target.value.length > 0);
+              }}
+              onBlur={() => sendTyping(false)}
               rows={1}
               className="resize-none"
               onKeyDown={(e) => {
@@ -461,25 +467,9 @@ export default function MessagingSystem({
           </div>
           
           <div className="flex items-center space-x-2">
-            <input
-              type="file"
-              multiple
-              accept="image/*,.pdf,.doc,.docx"
-              onChange={handleFileSelect}
-              className="hidden"
-              id="file-upload"
-            />
-            <label htmlFor="file-upload">
-              <Button type="button" variant="ghost" size="sm" asChild>
-                <span className="cursor-pointer">
-                  <Paperclip className="h-4 w-4" />
-                </span>
-              </Button>
-            </label>
-            
             <Button
               type="submit"
-              disabled={sendMessageMutation.isPending || (!newMessage.trim() && selectedFiles.length === 0)}
+              disabled={sendMessageMutation.isPending || !newMessage.trim()}
               size="sm"
             >
               <Send className="h-4 w-4" />
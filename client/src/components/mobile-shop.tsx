@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { getShopReferral } from "@/lib/storefront";
 import { Star, Heart, ShoppingCart, Search, Plus, Minus } from "lucide-react";
 import { motion } from "framer-motion";
 
@@ -39,7 +40,7 @@ export default function MobileShop() {
 
   const addToCartMutation = useMutation({
     mutationFn: async ({ productId, quantity = 1 }: { productId: number; quantity?: number }) => {
-      await apiRequest("POST", "/api/shop/cart", { productId, quantity });
+      await apiRequest("POST", "/api/shop/cart", { productId, quantity, referredBy: getShopReferral() });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/shop/cart"] });
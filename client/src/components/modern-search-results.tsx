@@ -12,8 +12,11 @@ import { motion } from "framer-motion";
 import { Link } from "wouter";
 import type { Professional } from "@shared/schema";
 
+// Search results include the distance from the client when their location is known
+type SearchResultProvider = Professional & { distanceMiles?: number | null };
+
 interface ModernSearchResultsProps {
-  providers: Professional[];
+  providers: SearchResultProvider[];
   viewMode: "grid" | "list";
   onProviderSelect?: (provider: Professional) => void;
   selectedProvider?: Professional | null;
@@ -134,12 +137,14 @@ export default function ModernSearchResults({
                 </div>
 
                 {/* Distance Badge */}
-                <div className="absolute bottom-3 left-3">
-                  <Badge variant="secondary" className="bg-black/70 text-white text-xs">
-                    <MapPin className="w-3 h-3 mr-1" />
-                    2.3 mi
-                  </Badge>
-                </div>
+                {provider.distanceMiles != null && (
+                  <div className="absolute bottom-3 left-3">
+                    <Badge variant="secondary" className="bg-black/70 text-white text-xs">
+                      <MapPin className="w-3 h-3 mr-1" />
+                      {provider.distanceMiles.toFixed(1)} mi
+                    </Badge>
+                  </div>
+                )}
               </div>
 
               <CardContent className="p-4">
@@ -242,12 +247,14 @@ export default function ModernSearchResults({
                   />
                   
                   {/* Distance Badge */}
-                  <div className="absolute bottom-2 left-2">
-                    <Badge variant="secondary" className="bg-black/70 text-white text-xs">
-                      <MapPin className="w-3 h-3 mr-1" />
-                      2.3 mi
-                    </Badge>
-                  </div>
+                  {provider.distanceMiles != null && (
+                    <div className="absolute bottom-2 left-2">
+                      <Badge variant="secondary" className="bg-black/70 text-white text-xs">
+                        <MapPin className="w-3 h-3 mr-1" />
+                        {provider.distanceMiles.toFixed(1)} mi
+                      </Badge>
+                    </div>
+                  )}
                 </div>
 
                 {/* Content */}
@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getOrderStatusColor, orderStatusLabels, type OrderDetail } from "@/lib/orders";
+import type { ProductOrder } from "@shared/schema";
+import { Truck, PackageCheck, Clock, XCircle } from "lucide-react";
+
+const FILTERS = ["paid", "processing", "partially_shipped", "shipped", "delivered", "cancelled", "all"];
+
+export default function OrderFulfillmentPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState("paid");
+  const [selectedOrder, setSelectedOrder] = useState<number | null>(null);
+  const [shipment, setShipment] = useState({ carrier: "", trackingNumber: "" });
+  // Quantity per order item for the next shipment
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+
+  const { data: orders = [], isLoading } = useQuery<ProductOrder[]>({
+    queryKey: [`/api/admin/orders?status=${filter}`],
+  });
+
+  const { data: detail } = useQuery<OrderDetail>({
+    queryKey: ["/api/admin/orders", selectedOrder],
+    enabled: !!selectedOrder,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/admin/orders?status=${filter}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/orders", selectedOrder] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Update failed", description: error.message, variant: "destructive" });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ status, note }: { status: string; note?: string }) => {
+      return apiRequest("POST", `/api/admin/orders/${selectedOrder}/status`, { status, note });
+    },
+    onSuccess: () => {
+      toast({ title: "Order updated", description: "The buyer has been notified." });
+      refresh();
+    },
+    onError,
+  });
+
+  const shipmentMutation = useMutation({
+    mutationFn: async () => {
+      const items = Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ orderItemId: Number(orderItemId), quantity }));
+      return apiRequest("POST", `/api/admin/orders/${selectedOrder}/shipments`, {
+        ...shipment,
+        items: items.length > 0 ? items : undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Shipment recorded", description: "The buyer has been sent the tracking details." });
+      setShipment({ carrier: "", trackingNumber: "" });
+      setQuantities({});
+      refresh();
+    },
+    onError,
+  });
+
+  const deliveredMutation = useMutation({
+    mutationFn: async (shipmentId: number) => {
+      return apiRequest("POST", `/api/admin/shipments/${shipmentId}/delivered`, {});
+    },
+    onSuccess: () => {
+      toast({ title: "Marked delivered" });
+      refresh();
+    },
+    onError,
+  });
+
+  const status = detail?.status || "pending";
+  const canShip = ["paid", "processing", "partially_shipped"].includes(status);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Fulfillment
+          </CardTitle>
+          <Select value={filter} onValueChange={(value) => { setFilter(value); setSelectedOrder(null); }}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FILTERS.map(option => (
+                <SelectItem key={option} value={option}>
+                  {option === "all" ? "All orders" : orderStatusLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-gray-600">Loading orders...</p>
+          ) : orders.length === 0 ? (
+            <p className="text-sm text-gray-600">No orders to show.</p>
+          ) : (
+            orders.map(order => (
+              <button
+                key={order.id}
+                onClick={() => { setSelectedOrder(order.id); setQuantities({}); }}
+                className={`w-full text-left p-3 rounded-lg border ${selectedOrder === order.id ? "border-[#F25D22] bg-orange-50" : "bg-gray-50"}`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-medium text-sm">{order.orderNumber}</span>
+                  <Badge className={getOrderStatusColor(order.status || "pending")}>
+                    {orderStatusLabels[order.status || "pending"]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-600 mt-1">
+                  {new Date(order.createdAt || "").toLocaleDateString()} · ${order.totalAmount}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="md:col-span-2">
+          {!detail ? (
+            <p className="text-sm text-gray-600">Select an order to fulfill it.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Order {detail.orderNumber}</h3>
+                <div className="flex gap-2">
+                  {status === "paid" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={statusMutation.isPending}
+                      onClick={() => statusMutation.mutate({ status: "processing" })}
+                    >
+                      <Clock className="h-4 w-4 mr-1" />
+                      Start Processing
+                    </Button>
+                  )}
+                  {status === "shipped" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={statusMutation.isPending}
+                      onClick={() => statusMutation.mutate({ status: "delivered" })}
+                    >
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Mark Delivered
+                    </Button>
+                  )}
+                  {["pending", "paid", "processing"].includes(status) && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={statusMutation.isPending}
+                      onClick={() => statusMutation.mutate({ status: "cancelled" })}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Cancel & Refund
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {detail.items.map(item => {
+                  const remaining = item.quantity - item.shippedQuantity;
+                  return (
+                    <div key={item.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                      <div>
+                        <p className="text-sm font-medium">{item.product.name}</p>
+                        <p className="text-xs text-gray-600">{item.shippedQuantity} of {item.quantity} shipped</p>
+                      </div>
+                      {canShip && remaining > 0 && (
+                        <Input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          placeholder={String(remaining)}
+                          className="w-20"
+                          value={quantities[item.id] ?? ""}
+                          onChange={(e) => setQuantities({ ...quantities, [item.id]: parseInt(e.target.value) || 0 })}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {canShip && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                  <div>
+                    <Label htmlFor="carrier">Carrier</Label>
+                    <Input
+                      id="carrier"
+                      value={shipment.carrier}
+                      onChange={(e) => setShipment({ ...shipment, carrier: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="trackingNumber">Tracking Number</Label>
+                    <Input
+                      id="trackingNumber"
+                      value={shipment.trackingNumber}
+                      onChange={(e) => setShipment({ ...shipment, trackingNumber: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => shipmentMutation.mutate()}
+                    disabled={!shipment.carrier || !shipment.trackingNumber || shipmentMutation.isPending}
+                    className="bg-[#F25D22] hover:bg-[#E04A1A]"
+                  >
+                    Record Shipment
+                  </Button>
+                  <p className="text-xs text-gray-500 sm:col-span-3">
+                    Leave quantities blank to ship everything that hasn't gone out yet.
+                  </p>
+                </div>
+              )}
+
+              {detail.shipments.length > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    {detail.shipments.map(parcel => (
+                      <div key={parcel.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                        <div>
+                          <p className="text-sm font-medium">{parcel.carrier}</p>
+                          <p className="font-mono text-xs">{parcel.trackingNumber}</p>
+                        </div>
+                        {parcel.status === "delivered" ? (
+                          <Badge variant="outline">Delivered</Badge>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={deliveredMutation.isPending}
+                            onClick={() => deliveredMutation.mutate(parcel.id)}
+                          >
+                            Mark Delivered
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getReturnStatusColor, returnReasonLabels, type OrderReturnDetail } from "@/lib/orders";
+import { RotateCcw } from "lucide-react";
+
+const FILTERS = ["requested", "approved", "refunded", "rejected", "all"];
+
+export default function OrderReturnsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState("requested");
+  const [selectedReturn, setSelectedReturn] = useState<number | null>(null);
+  // Order items that shouldn't go back into stock
+  const [noRestock, setNoRestock] = useState<number[]>([]);
+  const [note, setNote] = useState("");
+
+  const { data: orderReturns = [], isLoading } = useQuery<OrderReturnDetail[]>({
+    queryKey: [`/api/admin/returns?status=${filter}`],
+  });
+
+  const selected = orderReturns.find(orderReturn => orderReturn.id === selectedReturn);
+
+  const onSuccess = (title: string) => () => {
+    toast({ title, description: "The buyer has been notified." });
+    setSelectedReturn(null);
+    setNoRestock([]);
+    setNote("");
+    queryClient.invalidateQueries({ queryKey: [`/api/admin/returns?status=${filter}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Update failed", description: error.message, variant: "destructive" });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/returns/${selectedReturn}/approve`, { noRestock, note: note || undefined });
+    },
+    onSuccess: onSuccess("Return approved"),
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/returns/${selectedReturn}/reject`, { note: note || undefined });
+    },
+    onSuccess: onSuccess("Return declined"),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5" />
+            Returns
+          </CardTitle>
+          <Select value={filter} onValueChange={(value) => { setFilter(value); setSelectedReturn(null); }}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FILTERS.map(option => (
+                <SelectItem key={option} value={option} className="capitalize">
+                  {option === "all" ? "All returns" : option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-gray-600">Loading returns...</p>
+          ) : orderReturns.length === 0 ? (
+            <p className="text-sm text-gray-600">No returns to show.</p>
+          ) : (
+            orderReturns.map(orderReturn => (
+              <button
+                key={orderReturn.id}
+                onClick={() => { setSelectedReturn(orderReturn.id); setNoRestock([]); setNote(""); }}
+                className={`w-full text-left p-3 rounded-lg border ${selectedReturn === orderReturn.id ? "border-[#F25D22] bg-orange-50" : "bg-gray-50"}`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-mono text-xs">{orderReturn.rmaNumber}</span>
+                  <Badge className={`capitalize ${getReturnStatusColor(orderReturn.status)}`}>{orderReturn.status}</Badge>
+                </div>
+                <p className="text-xs text-gray-600 mt-1">
+                  Order {orderReturn.orderNumber} · ${orderReturn.refundAmount}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="md:col-span-2">
+          {!selected ? (
+            <p className="text-sm text-gray-600">Select a return to review it.</p>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-semibold">{selected.rmaNumber}</h3>
+                <p className="text-sm text-gray-600">
+                  {returnReasonLabels[selected.reason] ?? selected.reason}
+                  {selected.details && `: ${selected.details}`}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                {selected.items.map(item => (
+                  <div key={item.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                    <div>
+                      <p className="text-sm font-medium">{item.quantity} × {item.productName}</p>
+                      <p className="text-xs text-gray-600">${item.priceAtTime} each</p>
+                    </div>
+                    {selected.status === "requested" ? (
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={!noRestock.includes(item.orderItemId)}
+                          onCheckedChange={(checked) => setNoRestock(checked
+                            ? noRestock.filter(id => id !== item.orderItemId)
+                            : [...noRestock, item.orderItemId])}
+                        />
+                        Restock
+                      </label>
+                    ) : (
+                      <span className="text-xs text-gray-600">{item.restock ? "Restocked" : "Not restocked"}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span>Items</span>
+                  <span>${selected.itemsAmount}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Tax</span>
+                  <span>${selected.taxAmount}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Refund</span>
+                  <span>${selected.refundAmount}</span>
+                </div>
+                {selected.status !== "requested" && selected.status !== "rejected" && (
+                  <p className="text-xs text-gray-600">
+                    ${selected.cardRefundAmount} to card, ${selected.giftCardRefundAmount} to gift card
+                  </p>
+                )}
+              </div>
+
+              {selected.status === "requested" && (
+                <>
+                  <Textarea
+                    placeholder="Note for the buyer (optional)"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                  <div className="flex gap-2 justify-end">
+                    <Button
+                      variant="outline"
+                      disabled={rejectMutation.isPending}
+                      onClick={() => rejectMutation.mutate()}
+                    >
+                      Decline
+                    </Button>
+                    <Button
+                      disabled={approveMutation.isPending}
+                      onClick={() => approveMutation.mutate()}
+                      className="bg-[#F25D22] hover:bg-[#E04A1A]"
+                    >
+                      Approve & Refund
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              {/* The card refund failed at Stripe; approving again retries it */}
+              {selected.status === "approved" && (
+                <Button
+                  variant="outline"
+                  disabled={approveMutation.isPending}
+                  onClick={() => approveMutation.mutate()}
+                >
+                  Retry Card Refund
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
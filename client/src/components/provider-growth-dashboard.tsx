@@ -10,6 +10,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -52,15 +53,18 @@ interface GrowthMetrics {
 }
 
 interface MarketingCampaign {
-  id: string;
+  id: number;
   title: string;
   type: 'discount' | 'referral' | 'social' | 'loyalty';
-  status: 'active' | 'scheduled' | 'completed' | 'draft';
+  status: 'active' | 'scheduled' | 'completed' | 'draft' | 'paused';
   description: string;
+  discountType: 'percentage' | 'fixed';
   discount?: number;
+  firstVisitOnly: boolean;
   validUntil?: string;
   usageCount: number;
   maxUsage?: number;
+  codes: { id: number; code: string; usageCount: number }[];
   createdAt: string;
 }
 
@@ -84,6 +88,8 @@ export default function ProviderGrowthDashboard({ providerId }: ProviderGrowthDa
     discount: 10,
     validUntil: '',
     maxUsage: 50,
+    code: '',
+    firstVisitOnly: false,
   });
   
   const { toast } = useToast();
@@ -124,6 +130,8 @@ export default function ProviderGrowthDashboard({ providerId }: ProviderGrowthDa
         discount: 10,
         validUntil: '',
         maxUsage: 50,
+        code: '',
+        firstVisitOnly: false,
       });
       
       queryClient.invalidateQueries({
@@ -248,6 +256,7 @@ export default function ProviderGrowthDashboard({ providerId }: ProviderGrowthDa
       case 'scheduled': return 'bg-blue-100 text-blue-800';
       case 'completed': return 'bg-gray-100 text-gray-800';
       case 'draft': return 'bg-yellow-100 text-yellow-800';
+      case 'paused': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -446,6 +455,27 @@ export default function ProviderGrowthDashboard({ providerId }: ProviderGrowthDa
                     </div>
                   </div>
                   
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="code">Promo Code</Label>
+                      <Input
+                        id="code"
+                        placeholder="Leave blank to generate one"
+                        value={newCampaign.code}
+                        onChange={(e) => setNewCampaign(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                      />
+                    </div>
+
+                    <div className="flex items-center gap-2 mt-6">
+                      <Switch
+                        id="firstVisitOnly"
+                        checked={newCampaign.firstVisitOnly}
+                        onCheckedChange={(checked) => setNewCampaign(prev => ({ ...prev, firstVisitOnly: checked }))}
+                      />
+                      <Label htmlFor="firstVisitOnly">New clients only (first visit)</Label>
+                    </div>
+                  </div>
+                  
                   <Button 
                     onClick={() => createCampaignMutation.mutate(newCampaign)}
                     disabled={createCampaignMutation.isPending || !newCampaign.title}
@@ -485,7 +515,17 @@ export default function ProviderGrowthDashboard({ providerId }: ProviderGrowthDa
                       {campaign.discount && (
                         <div className="flex justify-between">
                           <span>Discount:</span>
-                          <span className="font-medium">{campaign.discount}%</span>
+                          <span className="font-medium">
+                            {campaign.discountType === 'fixed' ? `$${campaign.discount}` : `${campaign.discount}%`}
+                            {campaign.firstVisitOnly ? ' (first visit)' : ''}
+                          </span>
+                        </div>
+                      )}
+
+                      {campaign.codes.length > 0 && (
+                        <div className="flex justify-between">
+                          <span>Code:</span>
+                          <span className="font-mono font-medium">{campaign.codes.map(code => code.code).join(', ')}</span>
                         </div>
                       )}
                       
@@ -0,0 +1,104 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import type { StorefrontItem } from "@/lib/storefront";
+import { Package, ShoppingBag, ShoppingCart } from "lucide-react";
+
+interface ProviderStorefrontProps {
+  professionalId: number;
+  title?: string;
+  // How many products to show before linking to the provider's profile
+  limit?: number;
+}
+
+export default function ProviderStorefront({ professionalId, title = "Recommended Products", limit }: ProviderStorefrontProps) {
+  const { toast } = useToast();
+
+  const { data: storefront = [] } = useQuery<StorefrontItem[]>({
+    queryKey: ["/api/providers", professionalId, "storefront"],
+    enabled: !!professionalId,
+  });
+
+  // Products added from here are credited to the provider
+  const addToCartMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      await apiRequest("POST", "/api/shop/cart", { productId, quantity: 1, referredBy: professionalId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shop/cart"] });
+      toast({ title: "Added to cart!" });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Sign in required",
+          description: "Please sign in to add items to your cart.",
+          variant: "destructive",
+        });
+        setTimeout(() => window.location.href = "/api/login", 1500);
+        return;
+      }
+      toast({ title: "Failed to add to cart", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (storefront.length === 0) {
+    return null;
+  }
+
+  const shown = limit ? storefront.slice(0, limit) : storefront;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShoppingBag className="h-5 w-5" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {shown.map(item => (
+            <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center overflow-hidden flex-shrink-0">
+                {item.product.imageUrl ? (
+                  <img src={item.product.imageUrl} alt={item.product.name} className="w-full h-full object-cover" />
+                ) : (
+                  <Package className="h-6 w-6 text-gray-400" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-sm truncate">{item.product.name}</p>
+                {item.note && <p className="text-xs text-gray-600 line-clamp-2">"{item.note}"</p>}
+                <div className="flex items-center justify-between mt-2">
+                  <span className="font-semibold text-sm">${item.product.price}</span>
+                  <Button
+                    size="sm"
+                    onClick={() => addToCartMutation.mutate(item.productId)}
+                    disabled={addToCartMutation.isPending || item.product.inStock === false}
+                    className="bg-[#F25D22] hover:bg-[#E04A1A]"
+                  >
+                    <ShoppingCart className="h-3 w-3 mr-1" />
+                    {item.product.inStock === false ? "Sold Out" : "Add"}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+        {shown.length < storefront.length && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => window.location.href = `/provider/${professionalId}`}
+          >
+            See All {storefront.length} Picks
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
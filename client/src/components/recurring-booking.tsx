@@ -31,6 +31,13 @@ const recurringBookingSchema = z.object({
 
 type RecurringBookingForm = z.infer<typeof recurringBookingSchema>;
 
+interface RecurringBookingResult {
+  seriesId: string | null;
+  bookings: Array<{ id: string; appointmentDate: string }>;
+  skipped: Array<{ date: string; reason: string }>;
+  message: string;
+}
+
 interface RecurringBookingProps {
   professionalId: number;
   services: Array<{ id: string; name: string; duration: number; price: string }>;
@@ -59,16 +66,19 @@ export default function RecurringBooking({
   });
 
   const createRecurringBookingMutation = useMutation({
-    mutationFn: async (data: RecurringBookingForm) => {
-      await apiRequest("POST", `/api/providers/${professionalId}/recurring-bookings`, {
+    mutationFn: async (data: RecurringBookingForm): Promise<RecurringBookingResult> => {
+      const response = await apiRequest("POST", `/api/providers/${professionalId}/recurring-bookings`, {
         ...data,
         skipDates,
       });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
         title: "Recurring Booking Created",
-        description: "Your recurring appointments have been scheduled successfully.",
+        description: result.skipped.length > 0
+          ? `${result.bookings.length} appointments scheduled. Skipped because the provider is unavailable: ${result.skipped.map(s => format(new Date(s.date), "MMM d")).join(", ")}.`
+          : "Your recurring appointments have been scheduled successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
       onClose?.();
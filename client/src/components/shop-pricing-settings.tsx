@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ShopShippingRate, ShopTaxRate } from "@shared/schema";
+import { Percent, Truck, Trash2 } from "lucide-react";
+
+interface PricingConfig {
+  settings: {
+    defaultTaxRate: number;
+    shippingBasis: "subtotal" | "weight";
+    defaultShippingRate: number;
+    freeShippingThreshold: number | null;
+    affiliateCommissionRate: number;
+  };
+  taxRates: ShopTaxRate[];
+  shippingRates: ShopShippingRate[];
+}
+
+const CONFIG_KEY = ["/api/admin/shop-pricing"];
+
+// Rates are stored as fractions and edited as percentages
+const toPercent = (rate: number | string) => +(Number(rate) * 100).toFixed(4);
+
+export default function ShopPricingSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState({ taxPercent: "", shippingBasis: "subtotal", defaultShippingRate: "", freeShippingThreshold: "", commissionPercent: "" });
+  const [taxRate, setTaxRate] = useState({ region: "", percent: "" });
+  const [shippingRate, setShippingRate] = useState({ label: "", minValue: "", maxValue: "", rate: "" });
+
+  const { data: config } = useQuery<PricingConfig>({ queryKey: CONFIG_KEY });
+
+  useEffect(() => {
+    if (config) {
+      setSettings({
+        taxPercent: String(toPercent(config.settings.defaultTaxRate)),
+        shippingBasis: config.settings.shippingBasis,
+        defaultShippingRate: config.settings.defaultShippingRate.toFixed(2),
+        freeShippingThreshold: config.settings.freeShippingThreshold === null ? "" : config.settings.freeShippingThreshold.toFixed(2),
+        commissionPercent: String(toPercent(config.settings.affiliateCommissionRate)),
+      });
+    }
+  }, [config]);
+
+  const onSuccess = (title: string) => () => {
+    toast({ title });
+    queryClient.invalidateQueries({ queryKey: CONFIG_KEY });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Not saved", description: error.message, variant: "destructive" });
+  };
+
+  const settingsMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", "/api/admin/shop-pricing", {
+        defaultTaxRate: Number(settings.taxPercent) / 100,
+        shippingBasis: settings.shippingBasis,
+        defaultShippingRate: Number(settings.defaultShippingRate),
+        freeShippingThreshold: settings.freeShippingThreshold === "" ? null : Number(settings.freeShippingThreshold),
+        affiliateCommissionRate: Number(settings.commissionPercent) / 100,
+      });
+    },
+    onSuccess: onSuccess("Pricing saved"),
+    onError,
+  });
+
+  const taxRateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/admin/shop-pricing/tax-rates", {
+        region: taxRate.region,
+        rate: Number(taxRate.percent) / 100,
+      });
+    },
+    onSuccess: () => {
+      setTaxRate({ region: "", percent: "" });
+      onSuccess("Tax rate saved")();
+    },
+    onError,
+  });
+
+  const shippingRateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/admin/shop-pricing/shipping-rates", {
+        label: shippingRate.label,
+        basis: settings.shippingBasis,
+        minValue: Number(shippingRate.minValue || 0),
+        maxValue: shippingRate.maxValue === "" ? null : Number(shippingRate.maxValue),
+        rate: Number(shippingRate.rate),
+      });
+    },
+    onSuccess: () => {
+      setShippingRate({ label: "", minValue: "", maxValue: "", rate: "" });
+      onSuccess("Shipping rate added")();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (path: string) => apiRequest("DELETE", path),
+    onSuccess: onSuccess("Removed"),
+    onError,
+  });
+
+  const unit = settings.shippingBasis === "weight" ? "g" : "$";
+  const tiers = config?.shippingRates.filter(rate => rate.basis === settings.shippingBasis) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Shop Pricing</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <Label htmlFor="defaultTax">Default tax (%)</Label>
+            <Input
+              id="defaultTax"
+              type="number"
+              step="0.01"
+              value={settings.taxPercent}
+              onChange={(e) => setSettings({ ...settings, taxPercent: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Shipping priced by</Label>
+            <Select value={settings.shippingBasis} onValueChange={(value) => setSettings({ ...settings, shippingBasis: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="subtotal">Order subtotal</SelectItem>
+                <SelectItem value="weight">Weight</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="defaultShipping">Default shipping ($)</Label>
+            <Input
+              id="defaultShipping"
+              type="number"
+              step="0.01"
+              value={settings.defaultShippingRate}
+              onChange={(e) => setSettings({ ...settings, defaultShippingRate: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="freeShipping">Free shipping over ($)</Label>
+            <Input
+              id="freeShipping"
+              type="number"
+              step="0.01"
+              placeholder="Never"
+              value={settings.freeShippingThreshold}
+              onChange={(e) => setSettings({ ...settings, freeShippingThreshold: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="affiliateCommission">Storefront commission (%)</Label>
+            <Input
+              id="affiliateCommission"
+              type="number"
+              step="0.1"
+              value={settings.commissionPercent}
+              onChange={(e) => setSettings({ ...settings, commissionPercent: e.target.value })}
+            />
+          </div>
+          <Button
+            onClick={() => settingsMutation.mutate()}
+            disabled={settingsMutation.isPending}
+            className="md:col-start-5 bg-[#F25D22] hover:bg-[#E04A1A]"
+          >
+            Save
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Tax by Region
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {config?.taxRates.map(rate => (
+              <div key={rate.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                <span className="font-medium">{rate.region}</span>
+                <div className="flex items-center gap-2">
+                  <span>{toPercent(rate.rate)}%</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(`/api/admin/shop-pricing/tax-rates/${rate.id}`)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                placeholder="State, e.g. CA"
+                value={taxRate.region}
+                onChange={(e) => setTaxRate({ ...taxRate, region: e.target.value })}
+              />
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="%"
+                className="w-24"
+                value={taxRate.percent}
+                onChange={(e) => setTaxRate({ ...taxRate, percent: e.target.value })}
+              />
+              <Button
+                variant="outline"
+                onClick={() => taxRateMutation.mutate()}
+                disabled={!taxRate.region || taxRate.percent === "" || taxRateMutation.isPending}
+              >
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              Shipping Tiers ({settings.shippingBasis === "weight" ? "by weight" : "by subtotal"})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {tiers.length === 0 && (
+              <p className="text-sm text-gray-600">No tiers; every order pays the default shipping rate.</p>
+            )}
+            {tiers.map(rate => (
+              <div key={rate.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                <div>
+                  <p className="font-medium text-sm">{rate.label}</p>
+                  <p className="text-xs text-gray-600">
+                    {unit === "$" ? `$${rate.minValue}` : `${rate.minValue}g`} and up
+                    {rate.maxValue !== null && `, under ${unit === "$" ? `$${rate.maxValue}` : `${rate.maxValue}g`}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span>${rate.rate}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(`/api/admin/shop-pricing/shipping-rates/${rate.id}`)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                placeholder="Label, e.g. Standard"
+                className="col-span-2"
+                value={shippingRate.label}
+                onChange={(e) => setShippingRate({ ...shippingRate, label: e.target.value })}
+              />
+              <Input
+                type="number"
+                placeholder={`From (${unit})`}
+                value={shippingRate.minValue}
+                onChange={(e) => setShippingRate({ ...shippingRate, minValue: e.target.value })}
+              />
+              <Input
+                type="number"
+                placeholder={`Under (${unit}), blank for no limit`}
+                value={shippingRate.maxValue}
+                onChange={(e) => setShippingRate({ ...shippingRate, maxValue: e.target.value })}
+              />
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="Rate ($)"
+                value={shippingRate.rate}
+                onChange={(e) => setShippingRate({ ...shippingRate, rate: e.target.value })}
+              />
+              <Button
+                variant="outline"
+                onClick={() => shippingRateMutation.mutate()}
+                disabled={!shippingRate.label || shippingRate.rate === "" || shippingRateMutation.isPending}
+              >
+                Add Tier
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
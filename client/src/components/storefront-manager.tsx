@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { shopLinkFor, type AffiliateSummary, type StorefrontItem } from "@/lib/storefront";
+import type { Product, Professional } from "@shared/schema";
+import { Copy, DollarSign, ShoppingBag, Trash2 } from "lucide-react";
+
+export default function StorefrontManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [productId, setProductId] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: professional } = useQuery<Professional>({
+    queryKey: ["/api/professionals/me"],
+  });
+  const professionalId = professional?.id;
+
+  const storefrontKey = ["/api/providers", professionalId, "storefront"];
+
+  const { data: storefront = [] } = useQuery<StorefrontItem[]>({
+    queryKey: storefrontKey,
+    enabled: !!professionalId,
+  });
+
+  const { data: catalogue = [] } = useQuery<Product[]>({
+    queryKey: ["/api/shop/products"],
+  });
+
+  const { data: summary } = useQuery<AffiliateSummary>({
+    queryKey: ["/api/providers/me/affiliate-earnings"],
+  });
+
+  const available = catalogue.filter(product => !storefront.some(item => item.productId === product.id));
+
+  const onError = (error: Error) => {
+    toast({ title: "Storefront not updated", description: error.message, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/providers/me/storefront", { productId: parseInt(productId), note: note || undefined });
+    },
+    onSuccess: () => {
+      setProductId("");
+      setNote("");
+      toast({ title: "Added to your storefront" });
+      queryClient.invalidateQueries({ queryKey: storefrontKey });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/providers/me/storefront/${id}`),
+    onSuccess: () => {
+      toast({ title: "Removed from your storefront" });
+      queryClient.invalidateQueries({ queryKey: storefrontKey });
+    },
+    onError,
+  });
+
+  const copyLink = async () => {
+    if (!professionalId) return;
+    await navigator.clipboard.writeText(shopLinkFor(professionalId));
+    toast({ title: "Shop link copied", description: "Anything bought through it earns you commission." });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">Commission earned</p>
+            <p className="text-2xl font-bold">${(summary?.totalCommission ?? 0).toFixed(2)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">Awaiting payout</p>
+            <p className="text-2xl font-bold">${(summary?.pendingCommission ?? 0).toFixed(2)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">Orders referred</p>
+            <p className="text-2xl font-bold">{summary?.orderCount ?? 0}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingBag className="h-5 w-5" />
+            Your Storefront
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={copyLink}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy Shop Link
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Products you add here appear on your profile and to clients after their booking.
+          </p>
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger className="md:w-72">
+                <SelectValue placeholder="Choose a product" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(product => (
+                  <SelectItem key={product.id} value={product.id.toString()}>
+                    {product.name} (${product.price})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Why you recommend it (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button
+              onClick={() => addMutation.mutate()}
+              disabled={!productId || addMutation.isPending}
+              className="bg-[#F25D22] hover:bg-[#E04A1A]"
+            >
+              Add
+            </Button>
+          </div>
+
+          {storefront.length === 0 ? (
+            <p className="text-sm text-gray-600">Your storefront is empty.</p>
+          ) : (
+            <div className="space-y-2">
+              {storefront.map(item => (
+                <div key={item.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="font-medium text-sm">{item.product.name}</p>
+                    {item.note && <p className="text-xs text-gray-600">{item.note}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">${item.product.price}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeMutation.mutate(item.productId)}
+                      disabled={removeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {summary && summary.recent.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Recent Commission
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {summary.recent.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between text-sm">
+                <span className="font-mono text-xs">{entry.orderNumber}</span>
+                <div className="flex items-center gap-2">
+                  <span className={parseFloat(entry.netAmount) < 0 ? "text-red-600" : ""}>${entry.netAmount}</span>
+                  <Badge variant="outline" className="capitalize">{entry.payoutStatus}</Badge>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/useRealtime";
+import type { RealtimeEvent } from "@/lib/realtime";
 import { 
   Video, VideoOff, Mic, MicOff, Phone, PhoneOff, Share2, 
   Settings, MoreHorizontal, Users, MessageSquare, 
@@ -45,6 +47,71 @@ export default function VideoConsultation({
   const [callDuration, setCallDuration] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [waitingForPeer, setWaitingForPeer] = useState(true);
+
+  // The signaling handlers run outside React's render cycle, so they read the connection from refs
+  const pcRef = useRef<RTCPeerConnection | null>(null);
+  const roleRef = useRef<'initiator' | 'recipient' | null>(null);
+  const pendingCandidates = useRef<RTCIceCandidateInit[]>([]);
+
+  // Offers, answers and ICE candidates are relayed by the server between the two participants of the call
+  const { connected, send } = useRealtime(async (event: RealtimeEvent) => {
+    if (!callId || event.callId !== Number(callId)) return;
+    const pc = pcRef.current;
+
+    try {
+      switch (event.type) {
+        case 'call:joined':
+          roleRef.current = event.role;
+          setWaitingForPeer(!event.peerPresent);
+          // The initiator makes the offer once both sides are in
+          if (event.role === 'initiator' && event.peerPresent) await sendOffer();
+          break;
+        case 'call:peer-joined':
+          setWaitingForPeer(false);
+          if (roleRef.current === 'initiator') await sendOffer();
+          break;
+        case 'call:peer-left':
+          setWaitingForPeer(true);
+          toast({
+            title: "Participant Left",
+            description: "Waiting for them to rejoin...",
+          });
+          break;
+        case 'call:offer': {
+          if (!pc) return;
+          await pc.setRemoteDescription(event.sdp);
+          await flushCandidates();
+          const answer = await pc.createAnswer();
+          await pc.setLocalDescription(answer);
+          sendSignalingMessage({ type: 'call:answer', sdp: answer });
+          break;
+        }
+        case 'call:answer':
+          if (!pc) return;
+          await pc.setRemoteDescription(event.sdp);
+          await flushCandidates();
+          break;
+        case 'call:ice-candidate':
+          // Candidates can arrive before the description they belong to
+          if (pc?.remoteDescription) {
+            await pc.addIceCandidate(event.candidate);
+          } else {
+            pendingCandidates.current.push(event.candidate);
+          }
+          break;
+        case 'call:status':
+          if (event.status === 'ended') {
+            if (typeof event.duration === 'number') setCallDuration(event.duration);
+            cleanup();
+            setCallStatus('ended');
+          }
+          break;
+      }
+    } catch (error) {
+      console.error('Signaling error:', error);
+    }
+  });
 
   // Fetch call details
   const { data: callDetails } = useQuery({
@@ -54,7 +121,7 @@ export default function VideoConsultation({
 
   const endCallMutation = useMutation({
     mutationFn: async () => {
-      if (callId) {
+      if (callId && !sendSignalingMessage({ type: 'call:end' })) {
         await apiRequest("POST", `/api/video-calls/${callId}/end`);
       }
     },
@@ -68,18 +135,6 @@ export default function VideoConsultation({
     },
   });
 
-  const recordCallMutation = useMutation({
-    mutationFn: async ({ duration, quality }: { duration: number; quality: string }) => {
-      if (callId) {
-        await apiRequest("POST", `/api/video-calls/${callId}/record`, {
-          duration,
-          quality,
-          endTime: new Date().toISOString(),
-        });
-      }
-    },
-  });
-
   // Initialize WebRTC
   const initializeWebRTC = async () => {
     try {
@@ -130,32 +185,26 @@ export default function VideoConsultation({
         if (event.candidate) {
           // Send ICE candidate to remote peer via signaling server
           sendSignalingMessage({
-            type: 'ice-candidate',
-            candidate: event.candidate,
-            callId
+            type: 'call:ice-candidate',
+            candidate: event.candidate.toJSON(),
           });
         }
       };
 
       // Handle connection state changes
       pc.onconnectionstatechange = () => {
-        console.log('Connection state:', pc.connectionState);
         if (pc.connectionState === 'connected') {
           setCallStatus('connected');
-        } else if (pc.connectionState === 'failed' || pc.connectionState === 'disconnected') {
+          // The server starts the call's clock from here
+          sendSignalingMessage({ type: 'call:connected' });
+        } else if (pc.connectionState === 'failed') {
           setCallStatus('failed');
         }
       };
 
+      pcRef.current = pc;
       setPeerConnection(pc);
 
-      // Start call duration timer
-      const timer = setInterval(() => {
-        setCallDuration(prev => prev + 1);
-      }, 1000);
-
-      return () => clearInterval(timer);
-
     } catch (error) {
       console.error('Error initializing WebRTC:', error);
       toast({
@@ -167,12 +216,24 @@ export default function VideoConsultation({
     }
   };
 
-  const sendSignalingMessage = async (message: any) => {
-    // In a real implementation, this would send via WebSocket or polling
-    try {
-      await apiRequest("POST", "/api/video-calls/signaling", message);
-    } catch (error) {
-      console.error('Signaling error:', error);
+  // Returns false while the realtime connection is down
+  const sendSignalingMessage = (message: RealtimeEvent) => {
+    return send({ ...message, callId: Number(callId) });
+  };
+
+  const sendOffer = async () => {
+    const pc = pcRef.current;
+    if (!pc) return;
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    sendSignalingMessage({ type: 'call:offer', sdp: offer });
+  };
+
+  const flushCandidates = async () => {
+    const pc = pcRef.current;
+    if (!pc) return;
+    for (const candidate of pendingCandidates.current.splice(0)) {
+      await pc.addIceCandidate(candidate);
     }
   };
 
@@ -264,17 +325,8 @@ export default function VideoConsultation({
     }
     
     // Close peer connection
-    if (peerConnection) {
-      peerConnection.close();
-    }
-
-    // Record call details
-    if (callDuration > 0) {
-      recordCallMutation.mutate({
-        duration: callDuration,
-        quality: 'HD'
-      });
-    }
+    pcRef.current?.close();
+    pcRef.current = null;
 
     setLocalStream(null);
     setRemoteStream(null);
@@ -295,6 +347,22 @@ export default function VideoConsultation({
     };
   }, []);
 
+  // Join the call's signaling once the camera is up, and again after the socket reconnects
+  useEffect(() => {
+    if (connected && peerConnection && callId) {
+      sendSignalingMessage({ type: 'call:join' });
+    }
+  }, [connected, peerConnection, callId]);
+
+  // The on-screen clock; the recorded duration comes from the server when the call ends
+  useEffect(() => {
+    if (callStatus !== 'connected') return;
+    const timer = setInterval(() => {
+      setCallDuration(prev => prev + 1);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [callStatus]);
+
   useEffect(() => {
     const handleFullscreenChange = () => {
       setIsFullscreen(!!document.fullscreenElement);
@@ -429,8 +497,12 @@ export default function VideoConsultation({
           <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
             <Card className="p-6 text-center">
               <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-4" />
-              <h3 className="text-lg font-semibold mb-2">Connecting...</h3>
-              <p className="text-gray-600">Please wait while we establish the connection.</p>
+              <h3 className="text-lg font-semibold mb-2">
+                {waitingForPeer ? `Waiting for ${recipientName || "the other participant"}...` : "Connecting..."}
+              </h3>
+              <p className="text-gray-600">
+                {connected ? "Please wait while we establish the connection." : "Reconnecting to the call service..."}
+              </p>
             </Card>
           </div>
         )}
@@ -17,7 +17,7 @@ import {
   UserPlus, Clock, Calendar, Phone, Mail, MessageSquare, 
   CheckCircle, X, Users, AlertCircle, Send, Star
 } from "lucide-react";
-import { format, isFuture, isPast } from "date-fns";
+import { format, isFuture, isPast, addDays } from "date-fns";
 import { motion, AnimatePresence } from "framer-motion";
 import { z } from "zod";
 
@@ -34,6 +34,37 @@ const waitlistSchema = z.object({
 
 type WaitlistForm = z.infer<typeof waitlistSchema>;
 
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// How far ahead preferred weekdays are turned into concrete dates for the waitlist
+const WAITLIST_DAYS_AHEAD = 28;
+
+// Upcoming dates that fall on the chosen weekdays
+const upcomingDates = (days: string[]) => {
+  const dates: Date[] = [];
+  for (let offset = 1; offset <= WAITLIST_DAYS_AHEAD; offset++) {
+    const date = addDays(new Date(), offset);
+    if (days.includes(WEEKDAYS[date.getDay()])) {
+      dates.push(date);
+    }
+  }
+  return dates;
+};
+
+// The signed-in client's place on this provider's waitlist, and any slot being held for them
+type WaitlistStatus =
+  | { onWaitlist: false }
+  | {
+      onWaitlist: true;
+      id: string;
+      position: number;
+      status: string;
+      priority?: string;
+      createdAt: string;
+      offeredSlot: string | null;
+      holdExpiresAt: string | null;
+    };
+
 interface WaitlistManagerProps {
   professionalId: number;
   services: Array<{ id: string; name: string; duration: number; price: string }>;
@@ -56,7 +87,7 @@ export default function WaitlistManager({
     enabled: !!professionalId,
   });
 
-  const { data: userWaitlistStatus = {} } = useQuery({
+  const { data: userWaitlistStatus = { onWaitlist: false } } = useQuery<WaitlistStatus>({
     queryKey: ["/api/waitlist/status", professionalId],
     enabled: !!user && !isProvider,
   });
@@ -74,7 +105,14 @@ export default function WaitlistManager({
 
   const joinWaitlistMutation = useMutation({
     mutationFn: async (data: WaitlistForm) => {
-      await apiRequest("POST", "/api/waitlist", data);
+      // Flexible clients match any freed slot, so they don't send dates
+      const [preferredDate, ...alternativeDates] = data.priority === "flexible" ? [] : upcomingDates(data.preferredDates);
+      await apiRequest("POST", "/api/waitlist", {
+        professionalId: data.professionalId,
+        serviceIds: [parseInt(data.serviceId)],
+        preferredDate,
+        alternativeDates,
+      });
     },
     onSuccess: () => {
       toast({
@@ -114,6 +152,28 @@ export default function WaitlistManager({
     },
   });
 
+  const claimOfferMutation = useMutation({
+    mutationFn: async (waitlistId: string) => {
+      await apiRequest("POST", `/api/waitlist/${waitlistId}/claim`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Appointment Booked",
+        description: "The spot is yours. You can find it under My Bookings.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/status", professionalId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Claim Spot",
+        description: error.message || "The hold on this spot has expired.",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/status", professionalId] });
+    },
+  });
+
   const removeFromWaitlistMutation = useMutation({
     mutationFn: async (waitlistId: string) => {
       await apiRequest("DELETE", `/api/waitlist/${waitlistId}`);
@@ -163,16 +223,37 @@ export default function WaitlistManager({
           </CardTitle>
         </CardHeader>
         <CardContent>
-          {(userWaitlistStatus as any)?.onWaitlist ? (
+          {userWaitlistStatus.onWaitlist && userWaitlistStatus.status === "notified"
+            && userWaitlistStatus.offeredSlot && userWaitlistStatus.holdExpiresAt
+            && isFuture(new Date(userWaitlistStatus.holdExpiresAt)) ? (
+            <div className="text-center py-6">
+              <AlertCircle className="h-12 w-12 mx-auto mb-4 text-primary" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">A spot opened up!</h3>
+              <p className="text-gray-600 mb-4">
+                {format(new Date(userWaitlistStatus.offeredSlot), "EEEE, MMM d 'at' h:mm a")} is held for you
+                until {format(new Date(userWaitlistStatus.holdExpiresAt), "h:mm a")}.
+              </p>
+              <Button
+                className="gradient-primary"
+                onClick={() => claimOfferMutation.mutate(userWaitlistStatus.id)}
+                disabled={claimOfferMutation.isPending}
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                {claimOfferMutation.isPending ? "Booking..." : "Claim Spot"}
+              </Button>
+            </div>
+          ) : userWaitlistStatus.onWaitlist ? (
             <div className="text-center py-6">
               <CheckCircle className="h-12 w-12 mx-auto mb-4 text-green-600" />
               <h3 className="text-lg font-semibold text-gray-900 mb-2">You're on the waitlist!</h3>
               <p className="text-gray-600 mb-4">
-                Position: #{(userWaitlistStatus as any).position} • Added {format(new Date((userWaitlistStatus as any).createdAt), "MMM d, yyyy")}
+                Position: #{userWaitlistStatus.position} • Added {format(new Date(userWaitlistStatus.createdAt), "MMM d, yyyy")}
               </p>
-              <Badge className={getPriorityColor((userWaitlistStatus as any).priority)}>
-                {(userWaitlistStatus as any).priority} priority
-              </Badge>
+              {userWaitlistStatus.priority && (
+                <Badge className={getPriorityColor(userWaitlistStatus.priority)}>
+                  {userWaitlistStatus.priority} priority
+                </Badge>
+              )}
             </div>
           ) : (
             <div className="text-center py-6">
@@ -0,0 +1,23 @@
+import { useEffect, useRef, useState } from "react";
+import { realtime, type RealtimeEvent } from "@/lib/realtime";
+
+export function useRealtime(onEvent?: (event: RealtimeEvent) => void) {
+  const [connected, setConnected] = useState(realtime.connected);
+  const handler = useRef(onEvent);
+  handler.current = onEvent;
+
+  useEffect(() => {
+    const unsubscribe = realtime.subscribe(event => handler.current?.(event));
+    const unwatch = realtime.onStatusChange(setConnected);
+    setConnected(realtime.connected);
+    return () => {
+      unsubscribe();
+      unwatch();
+    };
+  }, []);
+
+  return {
+    connected,
+    send: (event: RealtimeEvent) => realtime.send(event),
+  };
+}
@@ -0,0 +1,84 @@
+import type { OrderItem, OrderReturn, OrderReturnItem, OrderShipment, Product, ProductOrder } from "@shared/schema";
+
+// Shape of the order detail routes, for both buyers and the fulfillment panel
+export interface OrderDetail extends ProductOrder {
+  items: (OrderItem & { product: Product; shippedQuantity: number })[];
+  shipments: (OrderShipment & { items: { orderItemId: number; quantity: number }[] })[];
+  timeline: { status: string; note: string | null; shipmentId: number | null; createdAt: string | null }[];
+}
+
+export const orderStatusLabels: Record<string, string> = {
+  pending: "Placed",
+  paid: "Paid",
+  processing: "Processing",
+  partially_shipped: "Partially Shipped",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+export const getOrderStatusColor = (status: string) => {
+  switch (status) {
+    case "paid":
+      return "bg-green-100 text-green-800";
+    case "pending":
+      return "bg-yellow-100 text-yellow-800";
+    case "processing":
+      return "bg-orange-100 text-orange-800";
+    case "partially_shipped":
+    case "shipped":
+      return "bg-blue-100 text-blue-800";
+    case "delivered":
+      return "bg-purple-100 text-purple-800";
+    case "cancelled":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+export interface OrderReturnDetail extends OrderReturn {
+  orderNumber: string;
+  items: (OrderReturnItem & { productId: number; productName: string; priceAtTime: string })[];
+}
+
+export const returnReasonLabels: Record<string, string> = {
+  damaged: "Arrived damaged",
+  wrong_item: "Wrong item sent",
+  not_as_described: "Not as described",
+  no_longer_needed: "No longer needed",
+  other: "Other",
+};
+
+export const getReturnStatusColor = (status: string) => {
+  switch (status) {
+    case "requested":
+      return "bg-yellow-100 text-yellow-800";
+    case "approved":
+      return "bg-blue-100 text-blue-800";
+    case "refunded":
+      return "bg-green-100 text-green-800";
+    case "rejected":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+// Shop pricing quote from /api/shop/quote, in dollars
+export interface ShopQuote {
+  lines: { productId: number; name: string; quantity: number; price: number; amount: number }[];
+  region: string | null;
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+  freeShippingThreshold: number | null;
+  promoCode: string | null;
+  giftCardCode: string | null;
+  giftCard: number;
+  amountDue: number;
+}
@@ -0,0 +1,93 @@
+// One socket per tab to the server's realtime gateway, shared by every component that listens.
+// Components keep polling while it is down, so a blocked or dropped socket only costs latency.
+
+export interface RealtimeEvent {
+  type: string;
+  [key: string]: any;
+}
+
+type Listener = (event: RealtimeEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// How long a typing indicator stays up without hearing from the other side again
+export const TYPING_TIMEOUT_MS = 5000;
+
+class RealtimeClient {
+  private socket: WebSocket | null = null;
+  private listeners = new Set<Listener>();
+  private statusListeners = new Set<StatusListener>();
+  private reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  connected = false;
+
+  // Connects on the first subscriber and stays connected while anyone is listening
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    this.connect();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Returns false when not connected, so the caller can fall back to REST
+  send(event: RealtimeEvent): boolean {
+    if (!this.connected || this.socket?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.socket.send(JSON.stringify(event));
+    return true;
+  }
+
+  private connect() {
+    if (this.socket || this.reconnectTimer || typeof WebSocket === "undefined") return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    this.socket = socket;
+
+    socket.onmessage = (message) => {
+      let event: RealtimeEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+
+      if (event.type === "ready") {
+        this.reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+        this.setConnected(true);
+      }
+      this.listeners.forEach(listener => listener(event));
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      this.setConnected(false);
+      if (this.listeners.size === 0) return;
+
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListeners.forEach(listener => listener(connected));
+  }
+}
+
+export const realtime = new RealtimeClient();
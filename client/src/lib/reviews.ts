@@ -0,0 +1,47 @@
+import type { Review, ReviewPhoto, ReviewResponse } from "@shared/schema";
+
+// Reviews as the API returns them, without screening results
+export type PublicReview = Omit<Review, "fraudScore" | "fraudReasons" | "screenedAt">;
+
+// Shape of /api/providers/:id/reviews/enhanced
+export interface ReviewDetail extends PublicReview {
+  clientName: string;
+  clientAvatar: string | null;
+  serviceType: string | null;
+  verifiedBooking: boolean;
+  photos: ReviewPhoto[];
+  helpfulCount: number;
+  notHelpfulCount: number;
+  userVote: "helpful" | "not_helpful" | null;
+  providerResponse: ReviewResponse | null;
+}
+
+export interface ReviewStats {
+  totalReviews: number;
+  averageRating: number;
+  weightedRating: number;
+  ratingDistribution: Record<string, number>;
+  responseRate: number;
+}
+
+export interface ReviewList {
+  reviews: ReviewDetail[];
+  stats: ReviewStats;
+  reviewableBookings: { id: string; appointmentDate: string; serviceType: string | null }[];
+}
+
+export const reviewSortLabels: Record<string, string> = {
+  helpful: "Most helpful",
+  newest: "Newest",
+  photos: "With photos",
+};
+
+export const reportReasonLabels: Record<string, string> = {
+  spam: "Spam",
+  fake: "Fake review",
+  inappropriate: "Inappropriate",
+  offensive: "Offensive",
+  other: "Other",
+};
+
+export const MAX_REVIEW_PHOTOS = 5;
@@ -0,0 +1,27 @@
+import type { Product, StorefrontProduct } from "@shared/schema";
+
+export type StorefrontItem = StorefrontProduct & { product: Product };
+
+export interface AffiliateSummary {
+  totalCommission: number;
+  pendingCommission: number;
+  orderCount: number;
+  recent: { id: number; orderNumber: string | null; netAmount: string; payoutStatus: string | null; createdAt: string | null }[];
+}
+
+// The provider whose shop link brought the shopper in, kept for the rest of the visit
+const REFERRAL_KEY = "shopReferral";
+
+export const captureShopReferral = () => {
+  const ref = new URLSearchParams(window.location.search).get("ref");
+  if (ref && /^\d+$/.test(ref)) {
+    sessionStorage.setItem(REFERRAL_KEY, ref);
+  }
+};
+
+export const getShopReferral = (): number | undefined => {
+  const ref = sessionStorage.getItem(REFERRAL_KEY);
+  return ref ? parseInt(ref) : undefined;
+};
+
+export const shopLinkFor = (professionalId: number) => `${window.location.origin}/shop?ref=${professionalId}`;
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import Navigation from "@/components/navigation";
+import ProviderStorefront from "@/components/provider-storefront";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Booking } from "@shared/schema";
@@ -14,6 +15,27 @@ import {
   Share2, Download, ArrowLeft, Phone, Mail
 } from "lucide-react";
 
+// Payment receipt for a booking, with the deposit and the balance listed separately
+interface BookingReceipt {
+  serviceAmount: number;
+  serviceFee: number;
+  homeVisitFee: number;
+  tipAmount: number;
+  total: number;
+  giftCardAmount: number;
+  deposit: { amount: number; status: string | null };
+  balance: { amount: number; status: 'not_applicable' | 'scheduled' | 'due' | 'paid' | 'cancelled' };
+  cancellationFee: number;
+}
+
+const balanceLabels: Record<BookingReceipt['balance']['status'], string> = {
+  not_applicable: '',
+  scheduled: 'Charged at completion',
+  due: 'Payment due',
+  paid: 'Paid',
+  cancelled: 'Not charged',
+};
+
 export default function BookingConfirmation() {
   const [, setLocation] = useLocation();
   const [match, params] = useRoute("/booking-confirmation");
@@ -42,6 +64,11 @@ export default function BookingConfirmation() {
     enabled: !!bookingId,
   });
 
+  const { data: receipt } = useQuery<BookingReceipt>({
+    queryKey: ["/api/bookings", bookingId, "receipt"],
+    enabled: !!bookingId,
+  });
+
   if (authLoading || bookingLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -175,6 +202,72 @@ export default function BookingConfirmation() {
               </CardContent>
             </Card>
 
+            {/* Receipt */}
+            {receipt && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Payment Summary</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Services</span>
+                    <span>${receipt.serviceAmount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Service Fee</span>
+                    <span>${receipt.serviceFee.toFixed(2)}</span>
+                  </div>
+                  {receipt.homeVisitFee > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Home Visit Fee</span>
+                      <span>${receipt.homeVisitFee.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {receipt.tipAmount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Tip</span>
+                      <span>${receipt.tipAmount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <Separator />
+                  <div className="flex justify-between font-semibold">
+                    <span>Total</span>
+                    <span>${receipt.total.toFixed(2)}</span>
+                  </div>
+                  {receipt.giftCardAmount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Paid by gift card</span>
+                      <span>${receipt.giftCardAmount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {receipt.deposit.amount > 0 && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">
+                          Deposit {receipt.deposit.status && <span className="capitalize">({receipt.deposit.status.replace('_', ' ')})</span>}
+                        </span>
+                        <span>${receipt.deposit.amount.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Balance ({balanceLabels[receipt.balance.status]})</span>
+                        <span>${receipt.balance.amount.toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
+                  {receipt.cancellationFee > 0 && (
+                    <div className="flex justify-between text-red-600">
+                      <span>Cancellation Fee</span>
+                      <span>${receipt.cancellationFee.toFixed(2)}</span>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {isConfirmed && (
+              <ProviderStorefront professionalId={booking.professionalId} title="Products Your Provider Recommends" limit={4} />
+            )}
+
             {/* Next Steps */}
             <Card>
               <CardHeader>
@@ -98,6 +98,19 @@ export default function Booking() {
         }, 500);
         return;
       }
+      if ((error as Error).message.startsWith("409")) {
+        queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith(`/api/professionals/${providerId}/slots`),
+        });
+        setSelectedTime("");
+        setStep(2);
+        toast({
+          title: "Time No Longer Available",
+          description: "That slot was just taken. Please pick another time.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Booking Failed",
         description: "Failed to create booking. Please try again.",
@@ -335,6 +348,8 @@ export default function Booking() {
                     onDateSelect={setSelectedDate}
                     onTimeSelect={setSelectedTime}
                     duration={totalDuration}
+                    professionalId={parseInt(providerId as string)}
+                    serviceIds={selectedServices}
                   />
                 </CardContent>
               </Card>
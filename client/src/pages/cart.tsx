@@ -14,6 +14,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Plus, Minus, Trash2, ShoppingBag, CreditCard, MapPin } from "lucide-react";
 import { motion } from "framer-motion";
+import type { ShopQuote } from "@/lib/orders";
 import type { ShoppingCart, Product } from "@shared/schema";
 
 interface CartItem extends ShoppingCart {
@@ -63,7 +64,7 @@ export default function Cart() {
         setTimeout(() => window.location.href = "/api/login", 1500);
         return;
       }
-      toast({ title: "Failed to update cart", variant: "destructive" });
+      toast({ title: "Failed to update cart", description: error.message, variant: "destructive" });
     },
   });
 
@@ -123,9 +124,23 @@ export default function Cart() {
     return total + (parseFloat(item.product.price) * item.quantity);
   }, 0);
 
-  const shipping = cartTotal > 50 ? 0 : 9.99;
-  const tax = cartTotal * 0.08; // 8% tax
-  const finalTotal = cartTotal + shipping + tax;
+  // Shipping and tax as the server will charge them; tax uses the default rate until a state is entered
+  const { data: quote } = useQuery<ShopQuote>({
+    queryKey: ["/api/shop/quote", cartItems, shippingInfo.state],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/shop/quote", {
+        items: cartItems.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        shippingAddress: { state: shippingInfo.state },
+      });
+      return response.json();
+    },
+    enabled: isAuthenticated && cartItems.length > 0,
+    placeholderData: (previous) => previous,
+  });
+
+  const shipping = quote?.shipping ?? 0;
+  const tax = quote?.tax ?? 0;
+  const finalTotal = quote?.total ?? cartTotal;
 
   const handleCheckout = () => {
     if (!isAuthenticated) {
@@ -301,8 +316,8 @@ export default function Cart() {
                     <span>Shipping</span>
                     <span>{shipping === 0 ? "Free" : `$${shipping.toFixed(2)}`}</span>
                   </div>
-                  {shipping === 0 && (
-                    <p className="text-sm text-green-600">🎉 Free shipping on orders over $50!</p>
+                  {shipping === 0 && quote && quote.freeShippingThreshold !== null && (
+                    <p className="text-sm text-green-600">🎉 Free shipping on orders over ${quote.freeShippingThreshold.toFixed(2)}!</p>
                   )}
                   <div className="flex justify-between">
                     <span>Tax</span>
@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import Navigation from "@/components/navigation";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
@@ -14,12 +15,38 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { 
   CreditCard, Calendar, Clock, MapPin, User, 
-  Shield, CheckCircle, AlertTriangle, ArrowLeft 
+  Shield, CheckCircle, AlertTriangle, ArrowLeft, Gift 
 } from "lucide-react";
 
 import { stripePromise, stripeError, isStripeAvailable } from "@/lib/stripe";
 
-const CheckoutForm = ({ booking, onSuccess }: { booking: any; onSuccess: () => void }) => {
+// Returned by the booking payment-intent route: what is charged now and how the total splits
+interface BookingPayment {
+  clientSecret: string;
+  paymentType: "deposit" | "balance" | "full";
+  amount: number;
+  plan: {
+    total: number;
+    giftCardAmount: number;
+    depositAmount: number;
+    balanceAmount: number;
+    fees: {
+      serviceAmount: number;
+      serviceFee: number;
+      homeVisitFee: number;
+      tipAmount: number;
+      providerPayout: number;
+    };
+  };
+}
+
+const paymentLabels: Record<BookingPayment["paymentType"], string> = {
+  deposit: "Pay Deposit",
+  balance: "Pay Balance",
+  full: "Complete Payment",
+};
+
+const CheckoutForm = ({ booking, payment, onSuccess }: { booking: any; payment: BookingPayment; onSuccess: () => void }) => {
   const stripe = useStripe();
   const elements = useElements();
   const { toast } = useToast();
@@ -91,7 +118,7 @@ const CheckoutForm = ({ booking, onSuccess }: { booking: any; onSuccess: () => v
         ) : (
           <>
             <CreditCard className="h-5 w-5 mr-2" />
-            Complete Payment - ${(parseFloat(booking?.totalPrice || "0") * 1.35).toFixed(2)}
+            {paymentLabels[payment.paymentType]} - ${payment.amount.toFixed(2)}
           </>
         )}
       </Button>
@@ -99,12 +126,59 @@ const CheckoutForm = ({ booking, onSuccess }: { booking: any; onSuccess: () => v
   );
 };
 
+// Gift cards go towards the booking before the card payment is set up again for what's left
+const GiftCardForm = ({ bookingId, onApplied }: { bookingId: string; onApplied: (paymentStatus: string) => void }) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/bookings/${bookingId}/gift-card`, { code: code.trim() });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Gift card applied",
+        description: `$${result.applied.toFixed(2)} was taken from your gift card.`,
+      });
+      setCode("");
+      onApplied(result.booking.paymentStatus);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gift card not applied", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="h-5 w-5" />
+          Gift Card
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-2">
+          <Input placeholder="BYOO-XXXX-XXXX-XXXX" value={code} onChange={(e) => setCode(e.target.value)} />
+          <Button
+            variant="outline"
+            onClick={() => applyMutation.mutate()}
+            disabled={!code.trim() || applyMutation.isPending}
+          >
+            Apply
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
 export default function Checkout() {
   const { bookingId } = useParams();
   const [, setLocation] = useLocation();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
-  const [clientSecret, setClientSecret] = useState("");
+  const [payment, setPayment] = useState<BookingPayment | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -125,15 +199,13 @@ export default function Checkout() {
     enabled: !!bookingId,
   });
 
-  // Create payment intent when booking is loaded
+  // Create payment intent when booking is loaded; the server decides between deposit, balance and full payment
   useEffect(() => {
-    if (booking && !clientSecret) {
-      apiRequest("POST", "/api/create-payment-intent", { 
-        amount: parseFloat(booking?.totalPrice || "0") * 1.35 // Include service fee and hold fee
-      })
+    if (booking && !payment) {
+      apiRequest("POST", `/api/bookings/${bookingId}/payment-intent`)
         .then((res) => res.json())
-        .then((data) => {
-          setClientSecret(data.clientSecret);
+        .then((data: BookingPayment) => {
+          setPayment(data);
         })
         .catch((error) => {
           if (isUnauthorizedError(error)) {
@@ -149,17 +221,26 @@ export default function Checkout() {
           }
           toast({
             title: "Payment Setup Failed",
-            description: "Unable to setup payment. Please try again.",
+            description: error.message || "Unable to setup payment. Please try again.",
             variant: "destructive",
           });
         });
     }
-  }, [booking, clientSecret, toast]);
+  }, [booking, bookingId, payment, toast]);
 
   const handlePaymentSuccess = () => {
     setLocation(`/booking-confirmation?booking_id=${bookingId}`);
   };
 
+  // Nothing left to pay now once the gift card covers the deposit or the whole booking
+  const handleGiftCardApplied = (paymentStatus: string) => {
+    if (paymentStatus === "paid" || paymentStatus === "deposit_paid") {
+      handlePaymentSuccess();
+    } else {
+      setPayment(null);
+    }
+  };
+
   if (authLoading || bookingLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -195,7 +276,7 @@ export default function Checkout() {
     );
   }
 
-  if (!clientSecret) {
+  if (!payment) {
     return (
       <div className="min-h-screen bg-gray-50">
         <Navigation />
@@ -234,9 +315,12 @@ export default function Checkout() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Payment Form */}
           <div className="lg:col-span-2">
+            {payment.paymentType !== "balance" && bookingId && (
+              <GiftCardForm bookingId={bookingId} onApplied={handleGiftCardApplied} />
+            )}
             {stripePromise ? (
-              <Elements stripe={stripePromise} options={{ clientSecret }}>
-                <CheckoutForm booking={booking} onSuccess={handlePaymentSuccess} />
+              <Elements stripe={stripePromise} options={{ clientSecret: payment.clientSecret }}>
+                <CheckoutForm booking={booking} payment={payment} onSuccess={handlePaymentSuccess} />
               </Elements>
             ) : (
               <Card>
@@ -357,32 +441,64 @@ export default function Checkout() {
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between items-center">
                       <span className="text-gray-600">Service Cost</span>
-                      <span className="font-medium">${parseFloat(booking?.totalPrice || "0").toFixed(2)}</span>
+                      <span className="font-medium">${payment.plan.fees.serviceAmount.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-gray-600">Service Fee (10%)</span>
-                      <span className="font-medium">${(parseFloat(booking?.totalPrice || "0") * 0.10).toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-gray-600">Hold Fee (25%)</span>
-                      <span className="font-medium">${(parseFloat(booking?.totalPrice || "0") * 0.25).toFixed(2)}</span>
+                      <span className="text-gray-600">Service Fee</span>
+                      <span className="font-medium">${payment.plan.fees.serviceFee.toFixed(2)}</span>
                     </div>
+                    {payment.plan.fees.homeVisitFee > 0 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Home Visit Fee</span>
+                        <span className="font-medium">${payment.plan.fees.homeVisitFee.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between items-center text-xs text-blue-600">
-                      <span>Provider receives (after 15% commission)</span>
-                      <span>${(parseFloat(booking?.totalPrice || "0") * 0.85).toFixed(2)}</span>
+                      <span>Provider receives (after commission)</span>
+                      <span>${payment.plan.fees.providerPayout.toFixed(2)}</span>
                     </div>
                   </div>
                   
                   <Separator />
                   
+                  <div className="flex justify-between items-center font-medium">
+                    <span>Total</span>
+                    <span>${payment.plan.total.toFixed(2)}</span>
+                  </div>
+
+                  {payment.plan.giftCardAmount > 0 && (
+                    <div className="flex justify-between items-center text-sm text-green-600">
+                      <span>Gift card</span>
+                      <span>-${payment.plan.giftCardAmount.toFixed(2)}</span>
+                    </div>
+                  )}
+
+                  {payment.plan.depositAmount > 0 && (
+                    <div className="space-y-2 text-sm">
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Deposit (due at booking)</span>
+                        <span className="font-medium">${payment.plan.depositAmount.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-gray-600">Balance (charged at completion)</span>
+                        <span className="font-medium">${payment.plan.balanceAmount.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="flex justify-between items-center text-lg font-semibold">
-                    <span>Total Due</span>
-                    <span>${(parseFloat(booking?.totalPrice || "0") * 1.35).toFixed(2)}</span>
+                    <span>Due Now</span>
+                    <span>${payment.amount.toFixed(2)}</span>
                   </div>
                   
                   <div className="text-xs text-gray-500 space-y-1">
-                    <p>• Hold fee refunded after service completion</p>
-                    <p>• 15% commission supports platform operations</p>
+                    {payment.paymentType === "deposit" && (
+                      <>
+                        <p>• Your card is saved and the balance is charged once your appointment is completed</p>
+                        <p>• The deposit is refunded or kept according to the provider's cancellation policy</p>
+                      </>
+                    )}
+                    <p>• Commission supports platform operations</p>
                     <p>• Provider gets next-day payout</p>
                   </div>
                 </div>
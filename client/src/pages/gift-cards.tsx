@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Elements, PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js";
+import { useAuth } from "@/hooks/useAuth";
+import Navigation from "@/components/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Gift, CreditCard, Search, AlertTriangle } from "lucide-react";
+import type { GiftCard } from "@shared/schema";
+
+import { stripePromise } from "@/lib/stripe";
+
+const PRESET_AMOUNTS = [25, 50, 100, 150];
+
+interface GiftCardBalance {
+  code: string;
+  balance: string;
+  status: string;
+}
+
+const PurchaseForm = ({ amount, onPaid }: { amount: number; onPaid: () => void }) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) {
+      return;
+    }
+
+    setIsProcessing(true);
+    const { error, paymentIntent } = await stripe.confirmPayment({
+      elements,
+      confirmParams: { return_url: `${window.location.origin}/gift-cards` },
+      redirect: "if_required",
+    });
+
+    if (error) {
+      toast({ title: "Payment Failed", description: error.message, variant: "destructive" });
+    } else if (paymentIntent && paymentIntent.status === "succeeded") {
+      try {
+        await apiRequest("POST", "/api/gift-cards/purchase/success", { paymentIntentId: paymentIntent.id });
+        toast({ title: "Gift card sent!", description: "The recipient will get their code by email." });
+        onPaid();
+      } catch (error: any) {
+        toast({ title: "Gift card pending", description: "Your payment went through; the gift card will be sent shortly." });
+        onPaid();
+      }
+    }
+    setIsProcessing(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      <Button
+        type="submit"
+        disabled={!stripe || isProcessing}
+        className="w-full bg-[#F25D22] hover:bg-[#E04A1A]"
+      >
+        <CreditCard className="h-4 w-4 mr-2" />
+        {isProcessing ? "Processing..." : `Pay $${amount.toFixed(2)}`}
+      </Button>
+    </form>
+  );
+};
+
+export default function GiftCards() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [amount, setAmount] = useState(50);
+  const [recipient, setRecipient] = useState({ email: "", name: "", message: "" });
+  const [purchase, setPurchase] = useState<{ clientSecret: string; amount: number } | null>(null);
+  const [lookupCode, setLookupCode] = useState("");
+  const [lookup, setLookup] = useState<GiftCardBalance | null>(null);
+
+  const { data: giftCards = [] } = useQuery<GiftCard[]>({
+    queryKey: ["/api/gift-cards"],
+    enabled: isAuthenticated,
+  });
+
+  const purchaseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/gift-cards/purchase", {
+        amount,
+        recipientEmail: recipient.email,
+        recipientName: recipient.name || undefined,
+        message: recipient.message || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setPurchase({ clientSecret: data.clientSecret, amount: data.amount });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start purchase", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const balanceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", `/api/gift-cards/${encodeURIComponent(lookupCode.trim())}/balance`);
+      return response.json();
+    },
+    onSuccess: (data: GiftCardBalance) => setLookup(data),
+    onError: (error: Error) => {
+      setLookup(null);
+      toast({ title: "Gift card not found", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handlePaid = () => {
+    setPurchase(null);
+    setRecipient({ email: "", name: "", message: "" });
+    queryClient.invalidateQueries({ queryKey: ["/api/gift-cards"] });
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <Gift className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Sign in to send gift cards</h1>
+          <Button onClick={() => window.location.href = "/api/login"} className="bg-[#F25D22] hover:bg-[#E04A1A]">
+            Sign In
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Gift Cards</h1>
+          <p className="text-gray-600">Give the gift of beauty, redeemable with any provider and in the shop</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gift className="h-5 w-5" />
+                Send a Gift Card
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {purchase ? (
+                stripePromise ? (
+                  <Elements stripe={stripePromise} options={{ clientSecret: purchase.clientSecret }}>
+                    <PurchaseForm amount={purchase.amount} onPaid={handlePaid} />
+                  </Elements>
+                ) : (
+                  <div className="text-center py-8">
+                    <AlertTriangle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+                    <p className="text-gray-600">Unable to load payment system. Please try refreshing the page.</p>
+                  </div>
+                )
+              ) : (
+                <>
+                  <div>
+                    <Label>Amount</Label>
+                    <div className="flex gap-2 mt-2">
+                      {PRESET_AMOUNTS.map(preset => (
+                        <Button
+                          key={preset}
+                          type="button"
+                          variant={amount === preset ? "default" : "outline"}
+                          onClick={() => setAmount(preset)}
+                        >
+                          ${preset}
+                        </Button>
+                      ))}
+                    </div>
+                    <Input
+                      className="mt-2"
+                      type="number"
+                      min={10}
+                      max={500}
+                      value={amount}
+                      onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="recipientEmail">Recipient Email</Label>
+                    <Input
+                      id="recipientEmail"
+                      type="email"
+                      value={recipient.email}
+                      onChange={(e) => setRecipient({ ...recipient, email: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="recipientName">Recipient Name</Label>
+                    <Input
+                      id="recipientName"
+                      value={recipient.name}
+                      onChange={(e) => setRecipient({ ...recipient, name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="message">Message</Label>
+                    <Textarea
+                      id="message"
+                      value={recipient.message}
+                      onChange={(e) => setRecipient({ ...recipient, message: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => purchaseMutation.mutate()}
+                    disabled={!recipient.email || purchaseMutation.isPending}
+                    className="w-full bg-[#F25D22] hover:bg-[#E04A1A]"
+                  >
+                    Continue to Payment
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Search className="h-5 w-5" />
+                  Check a Balance
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="BYOO-XXXX-XXXX-XXXX"
+                    value={lookupCode}
+                    onChange={(e) => setLookupCode(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => balanceMutation.mutate()}
+                    disabled={!lookupCode.trim() || balanceMutation.isPending}
+                  >
+                    Check
+                  </Button>
+                </div>
+                {lookup && (
+                  <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                    <span className="font-mono text-sm">{lookup.code}</span>
+                    <span className="font-semibold">${parseFloat(lookup.balance).toFixed(2)}</span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>My Gift Cards</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {giftCards.length === 0 ? (
+                  <p className="text-sm text-gray-600">No gift cards yet.</p>
+                ) : (
+                  giftCards.map(card => (
+                    <div key={card.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                      <div>
+                        <p className="font-mono text-sm">{card.code}</p>
+                        <p className="text-xs text-gray-600">To {card.recipientName || card.recipientEmail}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold">${parseFloat(card.balance).toFixed(2)}</p>
+                        <Badge variant="outline" className="capitalize">{card.status}</Badge>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
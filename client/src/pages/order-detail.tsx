@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import Navigation from "@/components/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Package, Truck, CheckCircle, Circle, MapPin, RotateCcw } from "lucide-react";
+import {
+  getOrderStatusColor,
+  getReturnStatusColor,
+  orderStatusLabels,
+  returnReasonLabels,
+  type OrderDetail,
+  type OrderReturnDetail,
+} from "@/lib/orders";
+
+const ReturnsCard = ({ order }: { order: OrderDetail }) => {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState("");
+
+  const { data: orderReturns = [] } = useQuery<OrderReturnDetail[]>({
+    queryKey: ["/api/shop/orders", order.id.toString(), "returns"],
+  });
+
+  // Items on returns that weren't declined can't be returned again
+  const returned = new Map<number, number>();
+  for (const orderReturn of orderReturns) {
+    if (orderReturn.status === "rejected") continue;
+    for (const item of orderReturn.items) {
+      returned.set(item.orderItemId, (returned.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+  }
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      const items = Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ orderItemId: Number(orderItemId), quantity }));
+      const response = await apiRequest("POST", `/api/shop/orders/${order.id}/returns`, { items, reason, details });
+      return response.json();
+    },
+    onSuccess: (data: OrderReturnDetail) => {
+      toast({
+        title: "Return requested",
+        description: `${data.rmaNumber}: we'll review it and refund $${data.refundAmount} once approved.`,
+      });
+      setShowForm(false);
+      setQuantities({});
+      setReason("");
+      setDetails("");
+      queryClient.invalidateQueries({ queryKey: ["/api/shop/orders", order.id.toString()] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Return not accepted", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hasSelection = Object.values(quantities).some(quantity => quantity > 0);
+
+  if (order.status !== "delivered" && orderReturns.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5" />
+            Returns
+          </CardTitle>
+          {order.status === "delivered" && !showForm && (
+            <Button variant="outline" onClick={() => setShowForm(true)}>
+              Return Items
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-4 p-4 border rounded-lg">
+            {order.items.map(item => {
+              const returnable = item.quantity - (returned.get(item.id) ?? 0);
+              return (
+                <div key={item.id} className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium">{item.product.name}</p>
+                    <p className="text-xs text-gray-600">
+                      {returnable > 0 ? `Up to ${returnable} can be returned` : "Already returned"}
+                    </p>
+                  </div>
+                  {returnable > 0 && (
+                    <Input
+                      type="number"
+                      min={0}
+                      max={returnable}
+                      className="w-20"
+                      value={quantities[item.id] ?? ""}
+                      onChange={(e) => setQuantities({ ...quantities, [item.id]: parseInt(e.target.value) || 0 })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+            <div>
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Why are you returning these?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(returnReasonLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="returnDetails">Details</Label>
+              <Textarea id="returnDetails" value={details} onChange={(e) => setDetails(e.target.value)} />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+              <Button
+                onClick={() => returnMutation.mutate()}
+                disabled={!hasSelection || !reason || returnMutation.isPending}
+                className="bg-[#F25D22] hover:bg-[#E04A1A]"
+              >
+                Request Return
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {orderReturns.map(orderReturn => (
+          <div key={orderReturn.id} className="p-3 bg-gray-50 rounded-lg space-y-1">
+            <div className="flex justify-between items-center">
+              <span className="font-mono text-sm">{orderReturn.rmaNumber}</span>
+              <Badge className={`capitalize ${getReturnStatusColor(orderReturn.status)}`}>{orderReturn.status}</Badge>
+            </div>
+            <ul className="text-xs text-gray-600">
+              {orderReturn.items.map(item => (
+                <li key={item.id}>{item.quantity} × {item.productName}</li>
+              ))}
+            </ul>
+            <p className="text-sm">
+              Refund ${orderReturn.refundAmount}
+              <span className="text-xs text-gray-500"> (incl. ${orderReturn.taxAmount} tax)</span>
+            </p>
+            {orderReturn.adminNote && <p className="text-xs text-gray-600">{orderReturn.adminNote}</p>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+// The usual path an order takes; cancelled and refunded orders show their own last step
+const PROGRESS = ["pending", "paid", "processing", "shipped", "delivered"];
+
+export default function OrderDetailPage() {
+  const { orderId } = useParams();
+  const { isAuthenticated } = useAuth();
+
+  const { data: order, isLoading } = useQuery<OrderDetail>({
+    queryKey: ["/api/shop/orders", orderId],
+    enabled: isAuthenticated && !!orderId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <div className="animate-spin w-8 h-8 border-4 border-[#F25D22] border-t-transparent rounded-full mx-auto mb-4" />
+          <p className="text-gray-600">Loading your order...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <Package className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Order not found</h1>
+          <Button onClick={() => window.location.href = "/orders"} className="bg-[#F25D22] hover:bg-[#E04A1A]">
+            Back to Orders
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const status = order.status || "pending";
+  const reached = new Set(order.timeline.map(event => event.status === "partially_shipped" ? "shipped" : event.status));
+  const address = order.shippingAddress as any;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => window.location.href = "/orders"} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Orders
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold text-gray-900">Order {order.orderNumber}</h1>
+            <p className="text-gray-600">Placed {new Date(order.createdAt || "").toLocaleDateString()}</p>
+          </div>
+          <Badge className={getOrderStatusColor(status)}>{orderStatusLabels[status] ?? status}</Badge>
+        </div>
+
+        {/* Progress */}
+        {status !== "cancelled" && status !== "refunded" && (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                {PROGRESS.map(step => (
+                  <div key={step} className="flex-1 flex flex-col items-center text-center">
+                    {reached.has(step) ? (
+                      <CheckCircle className="h-6 w-6 text-green-600" />
+                    ) : (
+                      <Circle className="h-6 w-6 text-gray-300" />
+                    )}
+                    <span className="text-xs mt-1 text-gray-700">
+                      {step === "shipped" && status === "partially_shipped" ? "Partially Shipped" : orderStatusLabels[step]}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Timeline */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Order History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-4">
+                {[...order.timeline].reverse().map((event, index) => (
+                  <li key={index} className="flex gap-3">
+                    <div className="w-2 h-2 mt-2 rounded-full bg-[#F25D22] flex-shrink-0" />
+                    <div>
+                      <p className="font-medium">{orderStatusLabels[event.status] ?? event.status}</p>
+                      {event.note && <p className="text-sm text-gray-600">{event.note}</p>}
+                      <p className="text-xs text-gray-500">{new Date(event.createdAt || "").toLocaleString()}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+
+          {/* Shipments */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Truck className="h-5 w-5" />
+                Shipments
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {order.shipments.length === 0 ? (
+                <p className="text-sm text-gray-600">Nothing has shipped yet.</p>
+              ) : (
+                order.shipments.map(shipment => (
+                  <div key={shipment.id} className="p-3 bg-gray-50 rounded-lg space-y-1">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">{shipment.carrier}</span>
+                      <Badge variant="outline" className="capitalize">{shipment.status}</Badge>
+                    </div>
+                    <p className="font-mono text-xs">{shipment.trackingNumber}</p>
+                    <ul className="text-xs text-gray-600">
+                      {shipment.items.map(line => {
+                        const item = order.items.find(orderItem => orderItem.id === line.orderItemId);
+                        return <li key={line.orderItemId}>{line.quantity} × {item?.product.name}</li>;
+                      })}
+                    </ul>
+                  </div>
+                ))
+              )}
+              {address && (
+                <>
+                  <Separator />
+                  <div className="text-sm text-gray-600">
+                    <p className="font-medium text-gray-900 flex items-center gap-1 mb-1">
+                      <MapPin className="h-4 w-4" />
+                      Shipping to
+                    </p>
+                    <p>{address.name}</p>
+                    <p>{address.address}</p>
+                    <p>{address.city}, {address.state} {address.zipCode}</p>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Items */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {order.items.map(item => (
+              <div key={item.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <p className="font-medium">{item.product.name}</p>
+                  <p className="text-xs text-gray-600">
+                    Qty {item.quantity} · {item.shippedQuantity} shipped
+                  </p>
+                </div>
+                <span className="font-medium">${(parseFloat(item.priceAtTime) * item.quantity).toFixed(2)}</span>
+              </div>
+            ))}
+            <Separator />
+            {order.subtotalAmount && (
+              <div className="text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span>Subtotal</span>
+                  <span>${order.subtotalAmount}</span>
+                </div>
+                {parseFloat(order.discountAmount || "0") > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Promo</span>
+                    <span>-${order.discountAmount}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Shipping</span>
+                  <span>{parseFloat(order.shippingAmount || "0") === 0 ? "Free" : `$${order.shippingAmount}`}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Tax</span>
+                  <span>${order.taxAmount}</span>
+                </div>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold">
+              <span>Total</span>
+              <span>${order.totalAmount}</span>
+            </div>
+            {parseFloat(order.refundedAmount || "0") > 0 && (
+              <div className="flex justify-between text-sm text-green-600">
+                <span>Refunded</span>
+                <span>${order.refundedAmount}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <ReturnsCard order={order} />
+      </div>
+    </div>
+  );
+}
@@ -6,12 +6,15 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Package, Calendar, MapPin, CreditCard, ArrowLeft } from "lucide-react";
+import { Package, Calendar, MapPin, CreditCard, ArrowLeft, ChevronRight } from "lucide-react";
 import { motion } from "framer-motion";
+import OrderFulfillmentPanel from "@/components/order-fulfillment-panel";
+import OrderReturnsPanel from "@/components/order-returns-panel";
+import { getOrderStatusColor, orderStatusLabels } from "@/lib/orders";
 import type { ProductOrder } from "@shared/schema";
 
 export default function Orders() {
-  const { isAuthenticated } = useAuth();
+  const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
 
   // Orders Query
@@ -30,23 +33,6 @@ export default function Orders() {
     },
   });
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "paid":
-        return "bg-green-100 text-green-800";
-      case "pending":
-        return "bg-yellow-100 text-yellow-800";
-      case "shipped":
-        return "bg-blue-100 text-blue-800";
-      case "delivered":
-        return "bg-purple-100 text-purple-800";
-      case "cancelled":
-        return "bg-red-100 text-red-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
-
   if (!isAuthenticated) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -96,6 +82,13 @@ export default function Orders() {
           </div>
         </div>
 
+        {user?.role === "super_admin" && (
+          <div className="mb-8 space-y-6">
+            <OrderFulfillmentPanel />
+            <OrderReturnsPanel />
+          </div>
+        )}
+
         {orders.length === 0 ? (
           <div className="text-center py-16">
             <Package className="h-16 w-16 text-gray-400 mx-auto mb-4" />
@@ -132,8 +125,8 @@ export default function Orders() {
                           )}
                         </div>
                       </div>
-                      <Badge className={getStatusColor(order.status || "pending")}>
-                        {order.status ? order.status.charAt(0).toUpperCase() + order.status.slice(1) : "Pending"}
+                      <Badge className={getOrderStatusColor(order.status || "pending")}>
+                        {orderStatusLabels[order.status || "pending"] ?? order.status}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -171,6 +164,12 @@ export default function Orders() {
                               <span className="font-medium">${order.paidAmount}</span>
                             </div>
                           )}
+                          {parseFloat(order.refundedAmount || "0") > 0 && (
+                            <div className="flex justify-between text-green-600">
+                              <span>Refunded</span>
+                              <span className="font-medium">${order.refundedAmount}</span>
+                            </div>
+                          )}
                           {order.trackingNumber && (
                             <div className="flex justify-between">
                               <span>Tracking</span>
@@ -192,6 +191,17 @@ export default function Orders() {
                         </p>
                       </div>
                     )}
+
+                    <div className="mt-6 flex justify-end">
+                      <Button
+                        variant="outline"
+                        onClick={() => window.location.href = `/orders/${order.id}`}
+                        className="flex items-center gap-1"
+                      >
+                        View Details
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </CardContent>
                 </Card>
               </motion.div>
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import Navigation from "@/components/navigation";
 import PortfolioUpload from "@/components/portfolio-upload";
 import EarningsTracker from "@/components/earnings-tracker";
+import StorefrontManager from "@/components/storefront-manager";
 import NotificationCenter from "@/components/notification-center";
 import { JobRequestSystem } from "@/components/job-request-system";
 import { useAuth } from "@/hooks/useAuth";
@@ -477,12 +478,13 @@ export default function ProfessionalDashboard() {
 
         {/* Enhanced Main Content with New Features */}
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="bookings">Bookings</TabsTrigger>
             <TabsTrigger value="jobs">Jobs</TabsTrigger>
             <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
             <TabsTrigger value="earnings">Earnings</TabsTrigger>
+            <TabsTrigger value="storefront">Storefront</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -715,6 +717,11 @@ export default function ProfessionalDashboard() {
             {professional && <EarningsTracker professionalId={professional.id} />}
           </TabsContent>
 
+          {/* Storefront Tab */}
+          <TabsContent value="storefront">
+            <StorefrontManager />
+          </TabsContent>
+
           {/* Services Tab */}
           <TabsContent value="services">
             <Card>
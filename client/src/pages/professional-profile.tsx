@@ -6,8 +6,10 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import Navigation from "@/components/navigation";
-import ReviewCard from "@/components/review-card";
-import { Professional, Service, Review } from "@shared/schema";
+import EnhancedReviewSystem from "@/components/enhanced-review-system";
+import ProviderStorefront from "@/components/provider-storefront";
+import { useAuth } from "@/hooks/useAuth";
+import { Professional, Service } from "@shared/schema";
 import { 
   Star, MapPin, Phone, Globe, Instagram, Verified, 
   Calendar, Clock, DollarSign, Award, Users, Scissors 
@@ -17,6 +19,7 @@ export default function ProfessionalProfile() {
   const { id } = useParams();
   const [, setLocation] = useLocation();
   const professionalId = parseInt(id as string);
+  const { user } = useAuth();
 
   const { data: professional, isLoading } = useQuery<Professional>({
     queryKey: ["/api/providers", professionalId],
@@ -28,11 +31,6 @@ export default function ProfessionalProfile() {
     enabled: !!professionalId,
   });
 
-  const { data: reviews = [] } = useQuery<Review[]>({
-    queryKey: ["/api/providers", professionalId, "reviews"],
-    enabled: !!professionalId,
-  });
-
   const { data: portfolio = [] } = useQuery<any[]>({
     queryKey: ["/api/providers", professionalId, "portfolio"],
     enabled: !!professionalId,
@@ -254,39 +252,14 @@ export default function ProfessionalProfile() {
               </Card>
             )}
 
+            <ProviderStorefront professionalId={professionalId} title="Shop My Picks" />
+
             {/* Reviews */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center justify-between">
-                  <span>Reviews ({reviewCount})</span>
-                  {rating > 0 && (
-                    <div className="flex items-center space-x-1">
-                      <Star className="h-5 w-5 fill-current text-yellow-400" />
-                      <span className="font-semibold">{rating.toFixed(1)}</span>
-                    </div>
-                  )}
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                {reviews.length > 0 ? (
-                  <div className="space-y-4">
-                    {reviews.slice(0, 5).map((review: any) => (
-                      <ReviewCard key={review.id} review={review} />
-                    ))}
-                    {reviews.length > 5 && (
-                      <Button variant="outline" className="w-full">
-                        View All Reviews
-                      </Button>
-                    )}
-                  </div>
-                ) : (
-                  <div className="text-center py-8 text-gray-500">
-                    <Star className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                    <p>No reviews yet. Be the first to leave a review!</p>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+            <EnhancedReviewSystem
+              providerId={professionalId}
+              showCreateReview={!!user}
+              canRespond={!!user && user.id === professional.userId}
+            />
           </div>
 
           {/* Sidebar */}
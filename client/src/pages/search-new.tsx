@@ -77,9 +77,10 @@ export default function Search() {
         ...(searchFilters.location && { location: searchFilters.location }),
         ...(searchFilters.category && searchFilters.category !== "all" && { category: searchFilters.category }),
         ...(searchFilters.priceMin && { priceMin: searchFilters.priceMin.toString() }),
-        ...(searchFilters.priceMax && { priceMax: searchFilters.priceMax.toString() }),
+        ...(searchFilters.priceMax < 500 && { priceMax: searchFilters.priceMax.toString() }),
         ...(searchFilters.rating && { rating: searchFilters.rating.toString() }),
         ...(searchFilters.distance && { distance: searchFilters.distance.toString() }),
+        ...(userLocation && { lat: userLocation.lat.toString(), lng: userLocation.lng.toString() }),
         ...(searchFilters.sortBy && { sortBy: searchFilters.sortBy }),
         ...(searchFilters.specialties.length > 0 && { specialties: searchFilters.specialties.join(',') }),
         ...(searchFilters.availability !== "flexible" && { availability: searchFilters.availability }),
@@ -541,7 +542,7 @@ export default function Search() {
                   location: p.location || 'Location',
                   rating: parseFloat(p.rating || '4.5'),
                   reviewCount: p.reviewCount || 0,
-                  priceRange: '$50-$150',
+                  priceRange: p.priceRange || '',
                   specialties: p.specialties || ['Hair', 'Nails'],
                   profileImageUrl: p.profilePicture,
                   verified: p.isVerified || false,
@@ -557,7 +558,7 @@ export default function Search() {
                   location: selectedProvider.location || 'Location',
                   rating: parseFloat(selectedProvider.rating || '4.5'),
                   reviewCount: selectedProvider.reviewCount || 0,
-                  priceRange: '$50-$150',
+                  priceRange: selectedProvider.priceRange || '',
                   specialties: selectedProvider.specialties || ['Hair', 'Nails'],
                   profileImageUrl: selectedProvider.profilePicture,
                   verified: selectedProvider.isVerified || false,
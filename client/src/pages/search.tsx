@@ -76,9 +76,10 @@ export default function Search() {
         ...(searchFilters.location && { location: searchFilters.location }),
         ...(searchFilters.category && searchFilters.category !== "all" && { category: searchFilters.category }),
         ...(searchFilters.priceMin && { priceMin: searchFilters.priceMin.toString() }),
-        ...(searchFilters.priceMax && { priceMax: searchFilters.priceMax.toString() }),
+        ...(searchFilters.priceMax < 500 && { priceMax: searchFilters.priceMax.toString() }),
         ...(searchFilters.rating && { rating: searchFilters.rating.toString() }),
         ...(searchFilters.distance && { distance: searchFilters.distance.toString() }),
+        ...(userLocation && { lat: userLocation.lat.toString(), lng: userLocation.lng.toString() }),
         ...(searchFilters.sortBy && { sortBy: searchFilters.sortBy }),
         ...(searchFilters.specialties.length > 0 && { specialties: searchFilters.specialties.join(',') }),
         ...(searchFilters.availability !== "flexible" && { availability: searchFilters.availability }),
@@ -12,8 +12,9 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { ArrowLeft, ShoppingBag, CreditCard, Truck, Shield, AlertTriangle } from "lucide-react";
+import { ArrowLeft, ShoppingBag, CreditCard, Truck, Shield, AlertTriangle, Gift } from "lucide-react";
 import { motion } from "framer-motion";
+import type { ShopQuote } from "@/lib/orders";
 import type { ShoppingCart, Product } from "@shared/schema";
 
 interface CartItem extends ShoppingCart {
@@ -22,6 +23,11 @@ interface CartItem extends ShoppingCart {
 
 import { stripePromise, stripeError, isStripeAvailable } from "@/lib/stripe";
 
+const toOrderItems = (cartItems: CartItem[]) => cartItems.map((item: CartItem) => ({
+  productId: item.productId,
+  quantity: item.quantity,
+}));
+
 const CheckoutForm = ({ 
   cartItems, 
   shippingInfo, 
@@ -101,14 +107,8 @@ const CheckoutForm = ({
       setIsProcessing(false);
     } else if (paymentIntent && paymentIntent.status === "succeeded") {
       // Create the order with payment confirmation
-      const orderItems = cartItems.map((item: CartItem) => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        price: parseFloat(item.product.price),
-      }));
-
       createOrderMutation.mutate({
-        items: orderItems,
+        items: toOrderItems(cartItems),
         shippingAddress: shippingInfo,
         paymentIntentId: paymentIntent.id,
       });
@@ -159,9 +159,70 @@ const CheckoutForm = ({
   );
 };
 
+// Orders the gift card pays for in full skip the card form
+const GiftCardOrderForm = ({
+  cartItems,
+  shippingInfo,
+  promoCode,
+  giftCardCode,
+}: {
+  cartItems: CartItem[];
+  shippingInfo: any;
+  promoCode: string;
+  giftCardCode: string;
+}) => {
+  const { toast } = useToast();
+
+  const placeOrderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/shop/orders", {
+        items: toOrderItems(cartItems),
+        shippingAddress: shippingInfo,
+        promoCode: promoCode || undefined,
+        giftCardCode,
+      });
+      return response.json();
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shop/cart"] });
+      toast({
+        title: "Order placed successfully!",
+        description: `Order ${order.orderNumber} was paid with your gift card.`,
+      });
+      window.location.href = "/orders";
+    },
+    onError: (error: Error) => {
+      toast({ title: "Order failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-green-50 p-4 rounded-lg flex items-center gap-2 text-green-800">
+        <Gift className="h-5 w-5" />
+        <span className="text-sm">Your gift card covers this order. No card payment is needed.</span>
+      </div>
+      <Button
+        onClick={() => placeOrderMutation.mutate()}
+        disabled={placeOrderMutation.isPending}
+        className="w-full bg-[#F25D22] hover:bg-[#E04A1A]"
+      >
+        {placeOrderMutation.isPending ? "Placing order..." : "Place Order"}
+      </Button>
+    </div>
+  );
+};
+
 export default function ShopCheckout() {
   const { user, isAuthenticated } = useAuth();
+  const { toast } = useToast();
   const [clientSecret, setClientSecret] = useState("");
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const [giftCardInput, setGiftCardInput] = useState("");
+  const [giftCardCode, setGiftCardCode] = useState("");
+  const [lastApplied, setLastApplied] = useState<"promo" | "giftCard" | null>(null);
+  const [paidByGiftCard, setPaidByGiftCard] = useState(false);
   const [shippingInfo, setShippingInfo] = useState({
     name: user?.firstName + " " + user?.lastName || "",
     email: user?.email || "",
@@ -178,35 +239,59 @@ export default function ShopCheckout() {
     enabled: isAuthenticated,
   });
 
-  const subtotal = cartItems.reduce((total: number, item: CartItem) => {
-    return total + (parseFloat(item.product.price) * (item.quantity || 1));
-  }, 0);
-  const shipping = subtotal > 50 ? 0 : 9.99;
-  const tax = subtotal * 0.08;
-  const total = subtotal + shipping + tax;
+  // Totals come from the server so they always match what the order is charged
+  const { data: quote } = useQuery<ShopQuote>({
+    queryKey: ["/api/shop/quote", cartItems, shippingInfo.state, promoCode, giftCardCode],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/shop/quote", {
+        items: toOrderItems(cartItems),
+        shippingAddress: { state: shippingInfo.state },
+        promoCode: promoCode || undefined,
+        giftCardCode: giftCardCode || undefined,
+      });
+      return response.json();
+    },
+    enabled: isAuthenticated && cartItems.length > 0,
+    placeholderData: (previous) => previous,
+  });
+
+  const subtotal = quote?.subtotal ?? 0;
+  const discount = quote?.discount ?? 0;
+  const shipping = quote?.shipping ?? 0;
+  const tax = quote?.tax ?? 0;
+  const total = quote?.total ?? 0;
+  const giftCardAmount = quote?.giftCard ?? 0;
+  const amountDue = quote?.amountDue ?? 0;
 
   // Create Payment Intent
   useEffect(() => {
     if (cartItems.length > 0 && isAuthenticated) {
-      const orderItems = cartItems.map((item: CartItem) => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        price: parseFloat(item.product.price),
-      }));
-
       apiRequest("POST", "/api/shop/create-payment-intent", {
-        items: orderItems,
+        items: toOrderItems(cartItems),
         shippingAddress: shippingInfo,
+        promoCode: promoCode || undefined,
+        giftCardCode: giftCardCode || undefined,
       })
         .then(res => res.json())
         .then(data => {
-          setClientSecret(data.clientSecret);
+          setClientSecret(data.clientSecret || "");
+          setPaidByGiftCard(!data.clientSecret);
         })
         .catch(error => {
           console.error("Error creating payment intent:", error);
+          // Stock conflicts come back as 409; otherwise the last code applied was rejected, so carry on without it
+          if (error.message.startsWith("409")) {
+            toast({ title: "Checkout unavailable", description: error.message, variant: "destructive" });
+          } else if (lastApplied === "giftCard" && giftCardCode) {
+            toast({ title: "Gift card not applied", description: error.message, variant: "destructive" });
+            setGiftCardCode("");
+          } else if (promoCode) {
+            toast({ title: "Promo code not applied", description: error.message, variant: "destructive" });
+            setPromoCode("");
+          }
         });
     }
-  }, [cartItems, shippingInfo, isAuthenticated]);
+  }, [cartItems, shippingInfo, isAuthenticated, promoCode, giftCardCode, lastApplied, toast]);
 
   if (!isAuthenticated) {
     return (
@@ -252,7 +337,7 @@ export default function ShopCheckout() {
     );
   }
 
-  if (!clientSecret) {
+  if ((!clientSecret && !paidByGiftCard) || !quote) {
     return (
       <div className="min-h-screen bg-gray-50">
         <Navigation />
@@ -360,7 +445,14 @@ export default function ShopCheckout() {
             {/* Payment Form */}
             <Card>
               <CardContent className="pt-6">
-                {stripePromise ? (
+                {paidByGiftCard ? (
+                  <GiftCardOrderForm
+                    cartItems={cartItems}
+                    shippingInfo={shippingInfo}
+                    promoCode={promoCode}
+                    giftCardCode={giftCardCode}
+                  />
+                ) : stripePromise ? (
                   <Elements stripe={stripePromise} options={{ clientSecret }}>
                     <CheckoutForm
                       cartItems={cartItems}
@@ -368,7 +460,7 @@ export default function ShopCheckout() {
                       subtotal={subtotal}
                       shipping={shipping}
                       tax={tax}
-                      total={total}
+                      total={amountDue}
                     />
                   </Elements>
                 ) : (
@@ -435,15 +527,21 @@ export default function ShopCheckout() {
                     <span>Subtotal</span>
                     <span>${subtotal.toFixed(2)}</span>
                   </div>
+                  {discount > 0 && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <span>Promo ({promoCode})</span>
+                      <span>-${discount.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span>Shipping</span>
                     <span>{shipping === 0 ? "Free" : `$${shipping.toFixed(2)}`}</span>
                   </div>
-                  {shipping === 0 && (
-                    <p className="text-xs text-green-600">🎉 Free shipping on orders over $50!</p>
+                  {shipping === 0 && quote.freeShippingThreshold !== null && (
+                    <p className="text-xs text-green-600">🎉 Free shipping on orders over ${quote.freeShippingThreshold.toFixed(2)}!</p>
                   )}
                   <div className="flex justify-between text-sm">
-                    <span>Tax</span>
+                    <span>Tax ({+(quote.taxRate * 100).toFixed(2)}%{quote.region ? `, ${quote.region}` : ""})</span>
                     <span>${tax.toFixed(2)}</span>
                   </div>
                   <div className="border-t pt-2">
@@ -452,6 +550,54 @@ export default function ShopCheckout() {
                       <span>${total.toFixed(2)}</span>
                     </div>
                   </div>
+                  {giftCardAmount > 0 && (
+                    <>
+                      <div className="flex justify-between text-sm text-green-600">
+                        <span>Gift card ({giftCardCode})</span>
+                        <span>-${giftCardAmount.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span>Due by card</span>
+                        <span>${amountDue.toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <div className="flex gap-2 mt-4">
+                  <Input
+                    placeholder="Promo code"
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setLastApplied("promo");
+                      setPromoCode(promoInput.trim().toUpperCase());
+                    }}
+                    disabled={!promoInput.trim()}
+                  >
+                    Apply
+                  </Button>
+                </div>
+
+                <div className="flex gap-2 mt-2">
+                  <Input
+                    placeholder="Gift card code"
+                    value={giftCardInput}
+                    onChange={(e) => setGiftCardInput(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setLastApplied("giftCard");
+                      setGiftCardCode(giftCardInput.trim().toUpperCase());
+                    }}
+                    disabled={!giftCardInput.trim()}
+                  >
+                    Redeem
+                  </Button>
                 </div>
 
                 <div className="mt-6 p-4 bg-blue-50 rounded-lg">
@@ -16,6 +16,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { captureShopReferral, getShopReferral } from "@/lib/storefront";
 import { useMobile } from "@/hooks/use-mobile";
 import { Star, Heart, ShoppingCart, Search, Plus, Minus, Package, Truck, Award } from "lucide-react";
 import { motion } from "framer-motion";
@@ -32,6 +33,11 @@ export default function Shop() {
   const [currentBannerIndex, setCurrentBannerIndex] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
 
+  // Shoppers arriving from a provider's shop link credit that provider for what they buy
+  useEffect(() => {
+    captureShopReferral();
+  }, []);
+
   // Mobile Layout
   if (isMobile) {
     return (
@@ -64,7 +70,7 @@ export default function Shop() {
   // Add to Cart Mutation
   const addToCartMutation = useMutation({
     mutationFn: async ({ productId, quantity = 1 }: { productId: number; quantity?: number }) => {
-      await apiRequest("POST", "/api/shop/cart", { productId, quantity });
+      await apiRequest("POST", "/api/shop/cart", { productId, quantity, referredBy: getShopReferral() });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/shop/cart"] });
@@ -80,7 +86,7 @@ export default function Shop() {
         setTimeout(() => window.location.href = "/api/login", 1500);
         return;
       }
-      toast({ title: "Failed to add to cart", variant: "destructive" });
+      toast({ title: "Failed to add to cart", description: error.message, variant: "destructive" });
     },
   });
 
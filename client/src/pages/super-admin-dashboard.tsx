@@ -16,9 +16,11 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import {
   Users, UserCheck, Calendar, DollarSign, TrendingUp, TrendingDown,
   AlertTriangle, Shield, Eye, Ban, CheckCircle, XCircle, Search,
-  Filter, Activity, BarChart3, PieChart, Clock, Star
+  Filter, Activity, BarChart3, PieChart, Clock, Star, Package
 } from "lucide-react";
 import { motion } from "framer-motion";
+import ShopPricingSettings from "@/components/shop-pricing-settings";
+import type { Product } from "@shared/schema";
 
 export default function SuperAdminDashboard() {
   const { user, isAuthenticated } = useAuth();
@@ -26,6 +28,7 @@ export default function SuperAdminDashboard() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedUserRole, setSelectedUserRole] = useState("all");
   const [selectedModerationStatus, setSelectedModerationStatus] = useState("pending");
+  const [restockQuantities, setRestockQuantities] = useState<Record<number, string>>({});
 
   // Redirect if not super admin
   useEffect(() => {
@@ -71,6 +74,26 @@ export default function SuperAdminDashboard() {
     enabled: isAuthenticated && user?.role === "super_admin",
   });
 
+  // Products at or below their low stock threshold
+  const { data: lowStockProducts = [], isLoading: lowStockLoading } = useQuery<Product[]>({
+    queryKey: ["/api/admin/inventory/low-stock"],
+    enabled: isAuthenticated && user?.role === "super_admin",
+  });
+
+  const restockMutation = useMutation({
+    mutationFn: async ({ productId, quantity }: { productId: number; quantity: number }) => {
+      await apiRequest("POST", `/api/admin/products/${productId}/restock`, { quantity });
+    },
+    onSuccess: (_, { productId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/inventory/low-stock"] });
+      setRestockQuantities(current => ({ ...current, [productId]: "" }));
+      toast({ title: "Product restocked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to restock product", description: error.message, variant: "destructive" });
+    },
+  });
+
   // User Action Mutations
   const suspendUserMutation = useMutation({
     mutationFn: async ({ userId, reason }: { userId: string; reason: string }) => {
@@ -237,12 +260,14 @@ export default function SuperAdminDashboard() {
 
         {/* Main Dashboard Tabs */}
         <Tabs defaultValue="users" className="w-full">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="providers">Providers</TabsTrigger>
             <TabsTrigger value="moderation">Moderation</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="logs">Activity Logs</TabsTrigger>
+            <TabsTrigger value="inventory">Inventory</TabsTrigger>
+            <TabsTrigger value="pricing">Shop Pricing</TabsTrigger>
           </TabsList>
 
           {/* Users Management */}
@@ -542,6 +567,64 @@ export default function SuperAdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Low Stock */}
+          <TabsContent value="inventory" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Package className="h-5 w-5" />
+                  Low Stock
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {lowStockLoading ? (
+                    <div className="text-center py-8">Loading inventory...</div>
+                  ) : lowStockProducts && lowStockProducts.length > 0 ? (
+                    lowStockProducts.map((product) => (
+                      <div key={product.id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <div>
+                          <p className="font-medium">{product.name}</p>
+                          <p className="text-sm text-gray-500">
+                            {product.stockQuantity} in stock (alert at {product.lowStockThreshold})
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {!product.inStock && <Badge variant="destructive">Out of stock</Badge>}
+                          <Input
+                            type="number"
+                            min={1}
+                            className="w-24"
+                            placeholder="Qty"
+                            value={restockQuantities[product.id] ?? ""}
+                            onChange={(e) => setRestockQuantities({ ...restockQuantities, [product.id]: e.target.value })}
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => restockMutation.mutate({
+                              productId: product.id,
+                              quantity: parseInt(restockQuantities[product.id] ?? ""),
+                            })}
+                            disabled={!restockQuantities[product.id] || restockMutation.isPending}
+                          >
+                            Restock
+                          </Button>
+                        </div>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="text-center py-8 text-gray-500">All products are well stocked</div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Shop Pricing */}
+          <TabsContent value="pricing" className="space-y-6">
+            <ShopPricingSettings />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,350 @@
+import { db } from './db';
+import {
+  availability,
+  bookings,
+  professionals,
+  services,
+  waitlist,
+  type Availability,
+  type Booking,
+  type InsertBooking,
+  type Service,
+} from '@shared/schema';
+import { eq, and, gt, gte, lt, inArray, notInArray, sql } from 'drizzle-orm';
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// Runs queries on its own or inside a caller's transaction
+export type Executor = typeof db | Transaction;
+
+// Amounts are kept to the cent, and written to decimal columns as strings
+export const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+export const money = (amount: number) => amount.toFixed(2);
+
+// Granularity of the start times offered to clients
+export const SLOT_INTERVAL_MINUTES = 15;
+
+// Bookings in these states no longer hold their time on the calendar
+export const INACTIVE_BOOKING_STATUSES = ['cancelled'];
+
+export interface TimeSlot {
+  time: string; // HH:MM, provider local time
+  start: Date;
+  end: Date;
+}
+
+interface BusyInterval {
+  start: number;
+  end: number;
+}
+
+// Raised when a requested appointment collides with the provider's calendar
+export class BookingConflictError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BookingConflictError';
+  }
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const formatTime = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+export class BookingEngine {
+
+  // Total calendar time for a set of services: each service's duration plus its buffer
+  calculateDuration(serviceIds: number[], serviceList: Service[]): number {
+    return serviceIds.reduce((total, serviceId) => {
+      const service = serviceList.find(s => s.id === serviceId);
+      return service ? total + service.duration + (service.bufferTime || 0) : total;
+    }, 0);
+  }
+
+  // Price of a set of services, as stored on bookings
+  calculatePrice(serviceIds: number[], serviceList: Service[]): string {
+    return serviceIds.reduce((total, serviceId) => {
+      const service = serviceList.find(s => s.id === serviceId);
+      return service ? total + parseFloat(service.price) : total;
+    }, 0).toFixed(2);
+  }
+
+  // Deposit a provider asks for up front: a percentage of each service's price or a fixed
+  // amount per service, never more than the service itself costs
+  calculateDeposit(serviceIds: number[], serviceList: Service[]): string {
+    return serviceIds.reduce((total, serviceId) => {
+      const service = serviceList.find(s => s.id === serviceId);
+      if (!service) return total;
+
+      const price = parseFloat(service.price);
+      const value = parseFloat(service.depositValue || '0');
+      if (service.depositType === 'percentage') {
+        return total + Math.min(price, Math.round(price * value) / 100);
+      }
+      if (service.depositType === 'fixed') {
+        return total + Math.min(price, value);
+      }
+      return total;
+    }, 0).toFixed(2);
+  }
+
+  // Load the requested services, making sure they are active and belong to the provider
+  async getBookableServices(professionalId: number, serviceIds: number[], executor: Executor = db): Promise<Service[]> {
+    if (!serviceIds.length) {
+      throw new Error('At least one service must be selected');
+    }
+
+    const serviceList = await executor
+      .select()
+      .from(services)
+      .where(and(
+        eq(services.professionalId, professionalId),
+        eq(services.isActive, true),
+        inArray(services.id, serviceIds)
+      ));
+
+    const missing = serviceIds.filter(id => !serviceList.some(s => s.id === id));
+    if (missing.length) {
+      throw new Error(`Services not offered by this provider: ${missing.join(', ')}`);
+    }
+
+    return serviceList;
+  }
+
+  // Busy intervals (minutes since midnight) for the provider on a given day.
+  // Bookings that are being moved are left out so they don't collide with themselves.
+  private async getBusyIntervals(
+    professionalId: number,
+    day: Date,
+    executor: Executor,
+    excludeBookingIds: string[] = []
+  ): Promise<BusyInterval[]> {
+    const dayStart = startOfDay(day);
+    const dayEnd = addMinutes(dayStart, 24 * 60);
+
+    const existing = await executor
+      .select()
+      .from(bookings)
+      .where(and(
+        eq(bookings.professionalId, professionalId),
+        gte(bookings.appointmentDate, dayStart),
+        lt(bookings.appointmentDate, dayEnd),
+        notInArray(bookings.status, INACTIVE_BOOKING_STATUSES),
+        excludeBookingIds.length ? notInArray(bookings.id, excludeBookingIds) : undefined
+      ));
+
+    // Older bookings were stored without a duration, so derive it from their services
+    const legacyServiceIds = Array.from(new Set(existing.filter(b => !b.duration).flatMap(b => b.serviceIds)));
+    const legacyServices = legacyServiceIds.length
+      ? await executor.select().from(services).where(inArray(services.id, legacyServiceIds))
+      : [];
+
+    // Slots offered to a waitlisted client stay blocked until their hold runs out
+    const holds = await executor
+      .select()
+      .from(waitlist)
+      .where(and(
+        eq(waitlist.professionalId, professionalId),
+        eq(waitlist.status, 'notified'),
+        gt(waitlist.holdExpiresAt, new Date()),
+        gte(waitlist.offeredSlot, dayStart),
+        lt(waitlist.offeredSlot, dayEnd)
+      ));
+
+    const toInterval = (date: Date, duration: number) => {
+      const start = (date.getTime() - dayStart.getTime()) / 60000;
+      return { start, end: start + duration };
+    };
+
+    return [
+      ...existing.map(booking =>
+        toInterval(booking.appointmentDate, booking.duration || this.calculateDuration(booking.serviceIds, legacyServices))
+      ),
+      ...holds.map(hold => toInterval(hold.offeredSlot!, hold.offeredDuration || 0)),
+    ];
+  }
+
+  private fitsAvailability(start: number, end: number, windows: Availability[]): boolean {
+    return windows.some(window => start >= toMinutes(window.startTime) && end <= toMinutes(window.endTime));
+  }
+
+  private overlaps(start: number, end: number, busy: BusyInterval[]): boolean {
+    return busy.some(interval => start < interval.end && end > interval.start);
+  }
+
+  private async getDayAvailability(professionalId: number, day: Date, executor: Executor): Promise<Availability[]> {
+    return await executor
+      .select()
+      .from(availability)
+      .where(and(
+        eq(availability.professionalId, professionalId),
+        eq(availability.dayOfWeek, day.getDay()),
+        eq(availability.isActive, true)
+      ));
+  }
+
+  // Open start times for the selected services on a given day
+  async getAvailableSlots(professionalId: number, date: Date, serviceIds: number[]): Promise<{ duration: number; slots: TimeSlot[] }> {
+    const serviceList = await this.getBookableServices(professionalId, serviceIds);
+    const duration = this.calculateDuration(serviceIds, serviceList);
+    const dayStart = startOfDay(date);
+
+    const windows = await this.getDayAvailability(professionalId, dayStart, db);
+    if (!windows.length) {
+      return { duration, slots: [] };
+    }
+
+    const busy = await this.getBusyIntervals(professionalId, dayStart, db);
+    const now = new Date();
+    const slots: TimeSlot[] = [];
+
+    for (const window of windows) {
+      const windowStart = toMinutes(window.startTime);
+      const windowEnd = toMinutes(window.endTime);
+      const firstSlot = Math.ceil(windowStart / SLOT_INTERVAL_MINUTES) * SLOT_INTERVAL_MINUTES;
+
+      for (let minutes = firstSlot; minutes + duration <= windowEnd; minutes += SLOT_INTERVAL_MINUTES) {
+        const start = addMinutes(dayStart, minutes);
+        if (start <= now || this.overlaps(minutes, minutes + duration, busy)) {
+          continue;
+        }
+        slots.push({ time: formatTime(minutes), start, end: addMinutes(start, duration) });
+      }
+    }
+
+    slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+    return { duration, slots };
+  }
+
+  // Check a proposed appointment against working hours and existing bookings
+  async assertSlotAvailable(
+    professionalId: number,
+    appointmentDate: Date,
+    duration: number,
+    executor: Executor = db,
+    excludeBookingIds: string[] = []
+  ): Promise<void> {
+    const dayStart = startOfDay(appointmentDate);
+    const start = (appointmentDate.getTime() - dayStart.getTime()) / 60000;
+    const end = start + duration;
+
+    const windows = await this.getDayAvailability(professionalId, dayStart, executor);
+    if (!this.fitsAvailability(start, end, windows)) {
+      throw new BookingConflictError('The requested time is outside the provider\'s working hours');
+    }
+
+    await this.assertNoOverlap(professionalId, appointmentDate, duration, executor, excludeBookingIds);
+  }
+
+  // Check a proposed appointment against existing bookings only, for appointments
+  // agreed directly with the provider outside their published hours
+  async assertNoOverlap(
+    professionalId: number,
+    appointmentDate: Date,
+    duration: number,
+    executor: Executor = db,
+    excludeBookingIds: string[] = []
+  ): Promise<void> {
+    const dayStart = startOfDay(appointmentDate);
+    const start = (appointmentDate.getTime() - dayStart.getTime()) / 60000;
+
+    const busy = await this.getBusyIntervals(professionalId, dayStart, executor, excludeBookingIds);
+    if (this.overlaps(start, start + duration, busy)) {
+      throw new BookingConflictError('The requested time slot is no longer available');
+    }
+  }
+
+  // Run calendar changes for a provider in a transaction holding a lock on the provider row,
+  // so two clients racing for the same slot are checked one after another
+  async withProfessionalLock<T>(professionalId: number, work: (tx: Transaction) => Promise<T>): Promise<T> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT ${professionals.id} FROM ${professionals} WHERE ${professionals.id} = ${professionalId} FOR UPDATE`);
+      return await work(tx);
+    });
+  }
+
+  // The provider's home visit fee for bookings at the client's home
+  private async getHomeVisitFee(booking: InsertBooking, executor: Executor): Promise<string> {
+    if (booking.serviceLocation !== 'home') {
+      return '0';
+    }
+
+    const [professional] = await executor
+      .select({ offersHomeVisits: professionals.offersHomeVisits, homeVisitFee: professionals.homeVisitFee })
+      .from(professionals)
+      .where(eq(professionals.id, booking.professionalId));
+    if (!professional?.offersHomeVisits) {
+      throw new Error('This provider does not offer home visits');
+    }
+    return professional.homeVisitFee || '0';
+  }
+
+  // Validate and insert a booking; callers must hold the provider lock. The price, like the
+  // duration and deposit, comes from the provider's services and never from the caller.
+  async insertBooking(booking: InsertBooking, tx: Transaction): Promise<Booking> {
+    const serviceList = await this.getBookableServices(booking.professionalId, booking.serviceIds, tx);
+    const duration = this.calculateDuration(booking.serviceIds, serviceList);
+    const price = this.calculatePrice(booking.serviceIds, serviceList);
+    const depositAmount = this.calculateDeposit(booking.serviceIds, serviceList);
+    const homeVisitFee = await this.getHomeVisitFee(booking, tx);
+    const appointmentDate = new Date(booking.appointmentDate);
+
+    await this.assertSlotAvailable(booking.professionalId, appointmentDate, duration, tx);
+
+    const [newBooking] = await tx
+      .insert(bookings)
+      .values({
+        ...booking,
+        appointmentDate,
+        duration,
+        totalPrice: price,
+        basePrice: price,
+        homeVisitFee,
+        depositAmount,
+        depositStatus: parseFloat(depositAmount) > 0 ? 'pending' : 'none',
+      })
+      .returning();
+    return newBooking;
+  }
+
+  // Create a booking, serialising concurrent requests for the same provider
+  async createBooking(booking: InsertBooking): Promise<Booking> {
+    return await this.withProfessionalLock(booking.professionalId, tx => this.insertBooking(booking, tx));
+  }
+
+  // Move an existing booking to a new start time; callers must hold the provider lock.
+  // Bookings in excludeBookingIds (e.g. the rest of a series being moved together) are ignored when checking overlaps.
+  async moveBooking(booking: Booking, appointmentDate: Date, tx: Transaction, excludeBookingIds: string[] = []): Promise<Booking> {
+    const duration = booking.duration
+      || this.calculateDuration(booking.serviceIds, await this.getBookableServices(booking.professionalId, booking.serviceIds, tx));
+
+    await this.assertSlotAvailable(
+      booking.professionalId,
+      appointmentDate,
+      duration,
+      tx,
+      Array.from(new Set([booking.id, ...excludeBookingIds]))
+    );
+
+    const [updated] = await tx
+      .update(bookings)
+      .set({ appointmentDate, duration, updatedAt: new Date() })
+      .where(eq(bookings.id, booking.id))
+      .returning();
+    return updated;
+  }
+}
+
+export const bookingEngine = new BookingEngine();
@@ -0,0 +1,452 @@
+import type Stripe from 'stripe';
+import { db } from './db';
+import {
+  bookings,
+  cancellationPolicies,
+  earnings,
+  feeStructure,
+  professionals,
+  type Booking,
+  type CancellationPolicy,
+} from '@shared/schema';
+import { eq, and, or, lt, sql } from 'drizzle-orm';
+import { stripe } from './stripe';
+import { feeCalculator, type FeeBreakdown } from './fee-calculator';
+import { waitlistMatcher } from './waitlist-matcher';
+import { promotions } from './promotions';
+import { giftCardService } from './gift-cards';
+import { notificationService } from './notification-service';
+
+// free: client cancelled inside the free window, late: client cancelled after it,
+// no_show: provider recorded that the client didn't turn up, provider: provider cancelled
+export const CANCELLATION_TYPES = ['free', 'late', 'no_show', 'provider'] as const;
+export type CancellationType = typeof CANCELLATION_TYPES[number];
+
+export type CancellationActor = 'client' | 'provider';
+
+export type PolicyTerms = Pick<CancellationPolicy, 'freeCancellationHours' | 'lateCancellationFeeRate' | 'noShowFeeRate'>;
+
+// Used for providers who haven't set a policy; matches the column defaults
+export const DEFAULT_CANCELLATION_POLICY: PolicyTerms = {
+  freeCancellationHours: 24,
+  lateCancellationFeeRate: '0.50',
+  noShowFeeRate: '1.00',
+};
+
+// Payment intents in these states haven't taken any money and can simply be voided
+const VOIDABLE_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+  'requires_capture',
+];
+
+// Cancelled bookings whose refund or capture failed are tried again this often. Settlements still
+// pending after the grace period were interrupted mid-way and are picked up too.
+const SETTLEMENT_RETRY_INTERVAL_MS = 30 * 60 * 1000;
+const SETTLEMENT_GRACE_MS = 10 * 60 * 1000;
+
+export interface CancellationQuote {
+  type: CancellationType;
+  feeRate: number;
+  fee: number;
+  policy: PolicyTerms;
+}
+
+export interface CancellationOptions {
+  noShow?: boolean;
+  reason?: string;
+}
+
+export interface PaymentSettlement {
+  paymentStatus: 'unpaid' | 'voided' | 'refunded' | 'partially_refunded' | 'fee_charged' | 'settlement_failed';
+  refundAmount: number;
+  stripeRefundId: string | null;
+}
+
+export interface CancellationResult extends PaymentSettlement {
+  booking: Booking;
+  type: CancellationType;
+  fees: FeeBreakdown;
+  giftCardRefund: number;
+}
+
+const describeType = (type: CancellationType) => type === 'no_show' ? 'no-show' : 'late cancellation';
+
+// What the client has paid or authorised by card so far
+const cardCollectable = (intent: Stripe.PaymentIntent | null) => intent?.status === 'succeeded'
+  ? intent.amount_received / 100
+  : intent?.status === 'requires_capture' ? intent.amount_capturable / 100 : 0;
+
+export class CancellationPolicyService {
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  async getPolicy(professionalId: number): Promise<PolicyTerms> {
+    const [policy] = await db
+      .select()
+      .from(cancellationPolicies)
+      .where(eq(cancellationPolicies.professionalId, professionalId));
+    return policy || DEFAULT_CANCELLATION_POLICY;
+  }
+
+  async savePolicy(professionalId: number, terms: PolicyTerms): Promise<CancellationPolicy> {
+    const lateRate = parseFloat(terms.lateCancellationFeeRate);
+    const noShowRate = parseFloat(terms.noShowFeeRate);
+    if (!Number.isInteger(terms.freeCancellationHours) || terms.freeCancellationHours < 0) {
+      throw new Error('freeCancellationHours must be a whole number of hours');
+    }
+    if (!(lateRate >= 0 && lateRate <= 1) || !(noShowRate >= 0 && noShowRate <= 1)) {
+      throw new Error('Fee rates must be between 0 and 1');
+    }
+
+    const values = {
+      freeCancellationHours: terms.freeCancellationHours,
+      lateCancellationFeeRate: lateRate.toFixed(4),
+      noShowFeeRate: noShowRate.toFixed(4),
+    };
+
+    const [policy] = await db
+      .insert(cancellationPolicies)
+      .values({ professionalId, ...values })
+      .onConflictDoUpdate({
+        target: cancellationPolicies.professionalId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return policy;
+  }
+
+  // Work out which rule applies to a cancellation and what it costs the client
+  async quote(booking: Booking, actor: CancellationActor, noShow = false, now = new Date()): Promise<CancellationQuote> {
+    if (booking.status === 'cancelled' || booking.status === 'completed') {
+      throw new Error(`This booking is already ${booking.status}`);
+    }
+
+    const policy = await this.getPolicy(booking.professionalId);
+    let type: CancellationType;
+    let feeRate = 0;
+
+    if (noShow) {
+      if (actor !== 'provider') {
+        throw new Error('Only the provider can record a no-show');
+      }
+      if (now < booking.appointmentDate) {
+        throw new Error('A no-show can only be recorded after the appointment time');
+      }
+      type = 'no_show';
+      feeRate = parseFloat(policy.noShowFeeRate);
+    } else if (actor === 'provider') {
+      type = 'provider';
+    } else {
+      if (now >= booking.appointmentDate) {
+        throw new Error('This appointment has already started');
+      }
+      const hoursBefore = (booking.appointmentDate.getTime() - now.getTime()) / (60 * 60 * 1000);
+      type = hoursBefore >= policy.freeCancellationHours ? 'free' : 'late';
+      feeRate = type === 'late' ? parseFloat(policy.lateCancellationFeeRate) : 0;
+    }
+
+    // Only the deposit (or whatever gift cards covered, if more) has been taken from clients who
+    // paid one, so that's the most they can lose
+    const maxFee = booking.depositStatus === 'paid'
+      ? Math.max(parseFloat(booking.depositAmount || '0'), parseFloat(booking.giftCardAmount || '0'))
+      : Infinity;
+    const fee = feeCalculator.calculateCancellation(booking, feeRate, maxFee).cancellationFee;
+    return { type, feeRate, fee, policy };
+  }
+
+  // Cancel a booking under the provider's policy: keep the fee, refund or release the rest of
+  // the client's payment, then offer the slot to the waitlist and tell both parties.
+  async cancel(booking: Booking, actor: CancellationActor, options: CancellationOptions = {}): Promise<CancellationResult> {
+    const quote = await this.quote(booking, actor, options.noShow);
+
+    const intent = booking.stripePaymentIntentId
+      ? await stripe.paymentIntents.retrieve(booking.stripePaymentIntentId)
+      : null;
+
+    // The fee can't exceed what the client has actually paid or authorised, by card or gift card
+    const cardAmount = cardCollectable(intent);
+    const giftCardAmount = parseFloat(booking.giftCardAmount || '0');
+    const collectable = cardAmount + giftCardAmount;
+    const fees = feeCalculator.calculateCancellation(booking, quote.feeRate, collectable);
+
+    // The fee is kept from the card payment first; gift card funds it doesn't need go back on the cards
+    const feeFromCard = Math.min(fees.cancellationFee, cardAmount);
+    const giftCardRefund = Math.max(0, Math.round((giftCardAmount - (fees.cancellationFee - feeFromCard)) * 100) / 100);
+
+    // With a deposit, the deposit is all that has been collected: the fee comes out of it and
+    // whatever the policy doesn't keep is refunded
+    const depositPaid = booking.depositStatus === 'paid';
+    let depositStatus = booking.depositStatus;
+    if (depositPaid) {
+      depositStatus = fees.cancellationFee <= 0
+        ? 'refunded'
+        : fees.cancellationFee >= collectable ? 'forfeited' : 'partially_forfeited';
+    }
+
+    const cancelled = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT ${bookings.id} FROM ${bookings} WHERE ${bookings.id} = ${booking.id} FOR UPDATE`);
+
+      const [current] = await tx.select().from(bookings).where(eq(bookings.id, booking.id));
+      if (!current || current.status === 'cancelled' || current.status === 'completed') {
+        throw new Error(`This booking is already ${current?.status ?? 'gone'}`);
+      }
+
+      const [updated] = await tx
+        .update(bookings)
+        .set({
+          status: 'cancelled',
+          cancelledAt: new Date(),
+          cancellationType: quote.type,
+          cancellationReason: options.reason,
+          depositStatus,
+          platformFees: fees.totalPlatformFees.toFixed(2),
+          // Until the card payment is settled below
+          paymentStatus: intent ? 'settlement_pending' : current.paymentStatus,
+          updatedAt: new Date(),
+        })
+        .where(eq(bookings.id, booking.id))
+        .returning();
+
+      await feeCalculator.recordFeeStructure(updated, fees, tx);
+      await promotions.releaseForBooking(updated.id, tx);
+      if (giftCardRefund > 0) {
+        await giftCardService.refund({ bookingId: updated.id }, giftCardRefund, tx);
+      }
+
+      // Credited to the provider only once the card part of the fee has actually been collected
+      if (fees.cancellationFee > 0) {
+        await tx.insert(earnings).values({
+          professionalId: updated.professionalId,
+          bookingId: updated.id,
+          amount: fees.cancellationFee.toFixed(2),
+          platformFee: fees.commission.toFixed(2),
+          netAmount: fees.providerPayout.toFixed(2),
+          payoutStatus: intent ? 'awaiting_settlement' : 'pending',
+        });
+      }
+
+      return updated;
+    });
+
+    const settlement = intent
+      ? await this.settle(cancelled, intent, feeFromCard)
+      : { paymentStatus: 'unpaid' as const, refundAmount: 0, stripeRefundId: null };
+
+    waitlistMatcher.offerFreedSlots([cancelled]).catch(error => {
+      console.error('Error offering freed slots to the waitlist:', error);
+    });
+
+    try {
+      await this.notifyParties(cancelled, actor, quote.type, fees, settlement, giftCardRefund);
+    } catch (error) {
+      console.error('Error sending cancellation notifications:', error);
+    }
+
+    return { booking: cancelled, type: quote.type, fees, ...settlement, giftCardRefund };
+  }
+
+  // Settle the card payment of a cancelled booking. Its fee earnings are released for payout only
+  // when that goes through, and only for the part of the fee actually collected; a failure is
+  // recorded on the booking and retried later.
+  private async settle(booking: Booking, intent: Stripe.PaymentIntent, fee: number): Promise<PaymentSettlement> {
+    let settlement: PaymentSettlement;
+    try {
+      settlement = await this.settlePayment(booking, intent, fee);
+    } catch (error) {
+      console.error(`Error settling payment for cancelled booking ${booking.id}:`, error);
+      await db
+        .update(bookings)
+        .set({ paymentStatus: 'settlement_failed', updatedAt: new Date() })
+        .where(eq(bookings.id, booking.id));
+      return { paymentStatus: 'settlement_failed', refundAmount: 0, stripeRefundId: null };
+    }
+
+    // Only a capture or a partial refund keeps the card part of the fee; a voided or unpaid
+    // intent took nothing, so the provider is credited just what gift cards covered
+    const uncollected = settlement.paymentStatus === 'fee_charged' || settlement.paymentStatus === 'partially_refunded' ? 0 : fee;
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(bookings)
+        .set({ paymentStatus: settlement.paymentStatus, updatedAt: new Date() })
+        .where(eq(bookings.id, booking.id));
+
+      const held = and(eq(earnings.bookingId, booking.id), eq(earnings.payoutStatus, 'awaiting_settlement'));
+      const [earning] = await tx.select().from(earnings).where(held);
+      if (!earning) return;
+
+      const amount = parseFloat(earning.amount);
+      const collected = Math.max(0, amount - uncollected);
+      if (collected <= 0) {
+        await tx
+          .update(earnings)
+          .set({ amount: '0.00', platformFee: '0.00', netAmount: '0.00', payoutStatus: 'void' })
+          .where(eq(earnings.id, earning.id));
+        return;
+      }
+
+      // Commission and payout shrink in proportion to what was collected
+      const share = collected / amount;
+      await tx
+        .update(earnings)
+        .set({
+          amount: collected.toFixed(2),
+          platformFee: (parseFloat(earning.platformFee) * share).toFixed(2),
+          netAmount: (parseFloat(earning.netAmount) * share).toFixed(2),
+          payoutStatus: 'pending',
+        })
+        .where(eq(earnings.id, earning.id));
+    });
+    return settlement;
+  }
+
+  // Try again for cancelled bookings whose payment didn't settle; returns how many went through.
+  // Refunds and captures carry idempotency keys, so a settlement that reached Stripe isn't repeated.
+  async retryFailedSettlements(): Promise<number> {
+    const unsettled = await db
+      .select()
+      .from(bookings)
+      .where(and(
+        eq(bookings.status, 'cancelled'),
+        or(
+          eq(bookings.paymentStatus, 'settlement_failed'),
+          and(eq(bookings.paymentStatus, 'settlement_pending'), lt(bookings.updatedAt, new Date(Date.now() - SETTLEMENT_GRACE_MS)))
+        )
+      ));
+
+    let settled = 0;
+    for (const booking of unsettled) {
+      if (!booking.stripePaymentIntentId) continue;
+      try {
+        const intent = await stripe.paymentIntents.retrieve(booking.stripePaymentIntentId);
+        const [structure] = await db.select().from(feeStructure).where(eq(feeStructure.bookingId, booking.id));
+        const fee = Math.min(parseFloat(structure?.cancellationFeeAmount || '0'), cardCollectable(intent));
+
+        const settlement = await this.settle(booking, intent, fee);
+        if (settlement.paymentStatus !== 'settlement_failed') settled++;
+      } catch (error) {
+        console.error(`Error retrying settlement for cancelled booking ${booking.id}:`, error);
+      }
+    }
+    return settled;
+  }
+
+  start(): void {
+    if (this.retryTimer) return;
+
+    this.retryTimer = setInterval(async () => {
+      try {
+        await this.retryFailedSettlements();
+      } catch (error) {
+        console.error('Error retrying cancellation settlements:', error);
+      }
+    }, SETTLEMENT_RETRY_INTERVAL_MS);
+  }
+
+  // Keep the fee from the client's payment and give the rest back
+  private async settlePayment(
+    booking: Booking,
+    intent: Stripe.PaymentIntent | null,
+    fee: number
+  ): Promise<PaymentSettlement> {
+    if (!intent) {
+      return { paymentStatus: 'unpaid', refundAmount: 0, stripeRefundId: null };
+    }
+
+    const feeCents = Math.round(fee * 100);
+
+    if (intent.status === 'succeeded') {
+      const refundCents = intent.amount_received - feeCents;
+      if (refundCents <= 0) {
+        return { paymentStatus: 'fee_charged', refundAmount: 0, stripeRefundId: null };
+      }
+
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: intent.id,
+          amount: refundCents,
+          metadata: { bookingId: booking.id, type: 'booking_cancellation' },
+        },
+        { idempotencyKey: `booking-cancel-refund-${booking.id}` }
+      );
+      return {
+        paymentStatus: feeCents > 0 ? 'partially_refunded' : 'refunded',
+        refundAmount: refundCents / 100,
+        stripeRefundId: refund.id,
+      };
+    }
+
+    // An authorised but uncaptured payment only has the fee captured; Stripe releases the rest
+    if (intent.status === 'requires_capture' && feeCents > 0) {
+      await stripe.paymentIntents.capture(
+        intent.id,
+        { amount_to_capture: feeCents },
+        { idempotencyKey: `booking-cancel-capture-${booking.id}` }
+      );
+      return {
+        paymentStatus: 'fee_charged',
+        refundAmount: (intent.amount_capturable - feeCents) / 100,
+        stripeRefundId: null,
+      };
+    }
+
+    if (VOIDABLE_INTENT_STATUSES.includes(intent.status)) {
+      await stripe.paymentIntents.cancel(intent.id);
+      return {
+        paymentStatus: 'voided',
+        refundAmount: intent.status === 'requires_capture' ? intent.amount_capturable / 100 : 0,
+        stripeRefundId: null,
+      };
+    }
+
+    return { paymentStatus: 'unpaid', refundAmount: 0, stripeRefundId: null };
+  }
+
+  // The client always hears what they were charged or refunded; the provider hears about client cancellations
+  private async notifyParties(
+    booking: Booking,
+    actor: CancellationActor,
+    type: CancellationType,
+    fees: FeeBreakdown,
+    settlement: PaymentSettlement,
+    giftCardRefund: number
+  ): Promise<void> {
+    const outcome: string[] = [];
+    if (fees.cancellationFee > 0) {
+      outcome.push(`A ${describeType(type)} fee of $${fees.cancellationFee.toFixed(2)} applies.`);
+    }
+    if (settlement.refundAmount > 0) {
+      outcome.push(`$${settlement.refundAmount.toFixed(2)} will be returned to your card.`);
+    }
+    if (giftCardRefund > 0) {
+      outcome.push(`$${giftCardRefund.toFixed(2)} has been put back on your gift card.`);
+    }
+
+    await notificationService.triggerBookingCancelled(
+      booking.clientId,
+      booking.id,
+      booking.appointmentDate,
+      outcome.join(' ') || 'You have not been charged.'
+    );
+
+    if (actor === 'client') {
+      const [professional] = await db
+        .select({ userId: professionals.userId })
+        .from(professionals)
+        .where(eq(professionals.id, booking.professionalId));
+      if (professional) {
+        await notificationService.triggerBookingCancelled(
+          professional.userId,
+          booking.id,
+          booking.appointmentDate,
+          fees.providerPayout > 0
+            ? `$${fees.providerPayout.toFixed(2)} from the ${describeType(type)} fee was added to your earnings.`
+            : 'The time is free again for other bookings.'
+        );
+      }
+    }
+  }
+}
+
+export const cancellationPolicy = new CancellationPolicyService();
@@ -1,8 +1,11 @@
 import type { Express } from "express";
 import { db } from "./db";
-import { conversations, messages, videoCalls, reviewPhotos, reviewHelpful, reviewResponses, reviewReports } from "@shared/schema";
+import { conversations, messages, videoCalls } from "@shared/schema";
 import { eq, and, or, desc, sql } from "drizzle-orm";
 import { isAuthenticated } from "./replitAuth";
+import { reviewService, type ReviewSort } from "./reviews";
+import { messaging } from "./messaging";
+import { videoSignaling } from "./video-signaling";
 
 export function registerCommunicationRoutes(app: Express) {
   // Get all conversations for a user
@@ -108,6 +111,13 @@ export function registerCommunicationRoutes(app: Express) {
 
       let finalConversationId = conversationId;
 
+      if (conversationId) {
+        const participants = await messaging.getConversationParticipants(parseInt(conversationId));
+        if (!participants.includes(userId)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
       // If no conversation exists, create one
       if (!conversationId && recipientId) {
         // Check if conversation already exists
@@ -163,6 +173,9 @@ export function registerCommunicationRoutes(app: Express) {
         })
         .where(eq(conversations.id, finalConversationId));
 
+      // Participants connected to the realtime gateway get it straight away
+      await messaging.publishMessage(newMessage);
+
       res.json(newMessage);
     } catch (error) {
       console.error("Error sending message:", error);
@@ -176,21 +189,21 @@ export function registerCommunicationRoutes(app: Express) {
       const userId = req.user.claims.sub;
       const { messageId } = req.params;
 
-      // Only mark as read if user is the recipient
-      await db
-        .update(messages)
-        .set({ isRead: true })
-        .where(
-          and(
-            eq(messages.id, parseInt(messageId)),
-            sql`sender_id != ${userId}`
-          )
-        );
+      const [message] = await db
+        .select({ conversationId: messages.conversationId })
+        .from(messages)
+        .where(eq(messages.id, parseInt(messageId)));
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      // Reading a message reads everything before it; the sender gets a receipt
+      await messaging.markConversationRead(message.conversationId, userId, parseInt(messageId));
 
       res.json({ success: true });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error marking message as read:", error);
-      res.status(500).json({ message: "Failed to mark message as read" });
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -200,6 +213,10 @@ export function registerCommunicationRoutes(app: Express) {
       const userId = req.user.claims.sub;
       const { recipientId } = req.body;
 
+      if (!recipientId || recipientId === userId) {
+        return res.status(400).json({ message: "Choose someone to call" });
+      }
+
       const [newCall] = await db
         .insert(videoCalls)
         .values({
@@ -209,6 +226,9 @@ export function registerCommunicationRoutes(app: Express) {
         })
         .returning();
 
+      // The recipient hears it ring if they're connected to the realtime gateway
+      videoSignaling.ring(newCall);
+
       res.json({ callId: newCall.id, status: "initiated" });
     } catch (error) {
       console.error("Error initiating video call:", error);
@@ -247,32 +267,14 @@ export function registerCommunicationRoutes(app: Express) {
     }
   });
 
-  // End video call
+  // End video call; the signaling service works out the duration and tells both participants
   app.post("/api/video-calls/:callId/end", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const { callId } = req.params;
-
-      await db
-        .update(videoCalls)
-        .set({
-          status: "ended",
-          endTime: new Date(),
-        })
-        .where(
-          and(
-            eq(videoCalls.id, parseInt(callId)),
-            or(
-              eq(videoCalls.initiatorId, userId),
-              eq(videoCalls.recipientId, userId)
-            )
-          )
-        );
-
-      res.json({ success: true });
-    } catch (error) {
+      const call = await videoSignaling.end(req.user.claims.sub, parseInt(req.params.callId));
+      res.json({ success: true, duration: call.duration });
+    } catch (error: any) {
       console.error("Error ending video call:", error);
-      res.status(500).json({ message: "Failed to end video call" });
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -281,12 +283,12 @@ export function registerCommunicationRoutes(app: Express) {
     try {
       const userId = req.user.claims.sub;
       const { callId } = req.params;
-      const { duration, quality } = req.body;
+      const { quality } = req.body;
 
+      // Duration isn't taken from the client; it's measured by the signaling service
       await db
         .update(videoCalls)
         .set({
-          duration,
           callQuality: quality,
         })
         .where(
@@ -307,50 +309,65 @@ export function registerCommunicationRoutes(app: Express) {
   });
 
   // Enhanced review endpoints
-  app.post("/api/reviews/:reviewId/helpful", isAuthenticated, async (req: any, res) => {
+  app.get("/api/providers/:providerId/reviews/enhanced", async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const { reviewId } = req.params;
-      const { isHelpful } = req.body;
+      const { sort, rating, limit, offset } = req.query;
+      const result = await reviewService.getProviderReviews(parseInt(req.params.providerId), {
+        sort: sort as ReviewSort,
+        rating: rating ? parseInt(rating as string) : undefined,
+        viewerId: req.user?.claims?.sub,
+        limit: limit ? parseInt(limit as string) : undefined,
+        offset: offset ? parseInt(offset as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
 
-      // Check if user already voted
-      const existingVote = await db
-        .select()
-        .from(reviewHelpful)
-        .where(
-          and(
-            eq(reviewHelpful.reviewId, parseInt(reviewId)),
-            eq(reviewHelpful.userId, userId)
-          )
-        )
-        .limit(1);
+  app.post("/api/reviews/:reviewId/photos", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const photos = await reviewService.addPhotos(parseInt(req.params.reviewId), userId, req.body.photos);
+      res.json(photos);
+    } catch (error: any) {
+      console.error("Error adding review photos:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
 
-      if (existingVote.length > 0) {
-        // Update existing vote
-        await db
-          .update(reviewHelpful)
-          .set({ isHelpful })
-          .where(
-            and(
-              eq(reviewHelpful.reviewId, parseInt(reviewId)),
-              eq(reviewHelpful.userId, userId)
-            )
-          );
-      } else {
-        // Create new vote
-        await db
-          .insert(reviewHelpful)
-          .values({
-            reviewId: parseInt(reviewId),
-            userId,
-            isHelpful,
-          });
-      }
+  app.delete("/api/reviews/:reviewId/photos/:photoId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await reviewService.removePhoto(parseInt(req.params.reviewId), parseInt(req.params.photoId), userId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error removing review photo:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
 
+  app.post("/api/reviews/:reviewId/helpful", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await reviewService.vote(parseInt(req.params.reviewId), userId, req.body.isHelpful !== false);
       res.json({ success: true });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error marking review as helpful:", error);
-      res.status(500).json({ message: "Failed to mark review as helpful" });
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  // Provider's public response; saving again edits it
+  app.put("/api/reviews/:reviewId/response", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const response = await reviewService.respond(parseInt(req.params.reviewId), userId, req.body.response);
+      res.json(response);
+    } catch (error: any) {
+      console.error("Error responding to review:", error);
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -358,22 +375,12 @@ export function registerCommunicationRoutes(app: Express) {
   app.post("/api/reviews/:reviewId/report", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { reviewId } = req.params;
       const { reason, description } = req.body;
-
-      await db
-        .insert(reviewReports)
-        .values({
-          reviewId: parseInt(reviewId),
-          reporterId: userId,
-          reason,
-          description,
-        });
-
-      res.json({ success: true });
-    } catch (error) {
+      const report = await reviewService.report(parseInt(req.params.reviewId), userId, reason, description);
+      res.json(report);
+    } catch (error: any) {
       console.error("Error reporting review:", error);
-      res.status(500).json({ message: "Failed to report review" });
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -398,7 +405,7 @@ export function registerCommunicationRoutes(app: Express) {
           verifiedReviews: sql<number>`COUNT(CASE WHEN booking_id IS NOT NULL THEN 1 END)`,
         })
         .from(sql`reviews`)
-        .where(sql`professional_id = ${providerId}`)
+        .where(sql`professional_id = ${providerId} AND status = 'published'`)
         .groupBy(sql`professional_id`);
 
       if (stats.length === 0) {
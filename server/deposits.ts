@@ -0,0 +1,377 @@
+import type Stripe from 'stripe';
+import { db } from './db';
+import {
+  bookings,
+  feeStructure,
+  paymentDetails,
+  users,
+  type Booking,
+} from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { stripe } from './stripe';
+import { feeCalculator, type FeeBreakdown } from './fee-calculator';
+import { notificationService } from './notification-service';
+import { giftCardService } from './gift-cards';
+import { roundCents } from './booking-engine';
+
+// deposit: part of the total taken at booking, balance: the rest taken at completion,
+// full: bookings without a deposit are paid in one go at booking
+export type BookingPaymentType = 'deposit' | 'balance' | 'full';
+
+export const DEPOSIT_TYPES = ['none', 'percentage', 'fixed'] as const;
+export type DepositType = typeof DEPOSIT_TYPES[number];
+
+// Intents the client can still complete, so reopening checkout reuses them instead of starting over
+const REUSABLE_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+];
+
+export interface PaymentPlan {
+  fees: FeeBreakdown;
+  total: number;
+  giftCardAmount: number;
+  depositAmount: number;
+  balanceAmount: number;
+}
+
+export interface BookingPaymentIntent {
+  clientSecret: string | null;
+  paymentType: BookingPaymentType;
+  amount: number;
+  plan: PaymentPlan;
+}
+
+export interface BalanceCharge {
+  status: 'not_required' | 'paid' | 'balance_due';
+  amount: number;
+  paymentIntentId: string | null;
+}
+
+export interface BookingReceipt {
+  bookingId: string;
+  status: string;
+  paymentStatus: string | null;
+  serviceAmount: number;
+  serviceFee: number;
+  homeVisitFee: number;
+  tipAmount: number;
+  total: number;
+  giftCardAmount: number;
+  deposit: { amount: number; status: string | null };
+  balance: { amount: number; status: 'not_applicable' | 'scheduled' | 'due' | 'paid' | 'cancelled' };
+  cancellationFee: number;
+}
+
+const cents = (amount: number) => Math.round(amount * 100);
+
+export class DepositService {
+
+  // Check deposit settings before they are saved on a service
+  validateSettings(depositType: string, depositValue: number, price: number): void {
+    if (!(DEPOSIT_TYPES as readonly string[]).includes(depositType)) {
+      throw new Error(`depositType must be one of ${DEPOSIT_TYPES.join(', ')}`);
+    }
+    if (depositType === 'none') return;
+
+    if (!(depositValue > 0)) {
+      throw new Error('depositValue must be more than zero');
+    }
+    if (depositType === 'percentage' && depositValue > 100) {
+      throw new Error('A percentage deposit cannot be more than 100');
+    }
+    if (depositType === 'fixed' && depositValue > price) {
+      throw new Error('A fixed deposit cannot be more than the price of the service');
+    }
+  }
+
+  // How the client's total splits between gift cards, the deposit and the balance. Gift card
+  // funds count towards the deposit first, so depositAmount is what is left to pay by card.
+  getPaymentPlan(booking: Booking): PaymentPlan {
+    const fees = feeCalculator.calculate(booking);
+    const giftCardAmount = Math.min(parseFloat(booking.giftCardAmount || '0'), fees.clientTotal);
+    const deposit = Math.min(parseFloat(booking.depositAmount || '0'), fees.clientTotal);
+    const depositAmount = roundCents(Math.max(0, deposit - giftCardAmount));
+    return {
+      fees,
+      total: fees.clientTotal,
+      giftCardAmount,
+      depositAmount,
+      balanceAmount: roundCents(fees.clientTotal - giftCardAmount - depositAmount),
+    };
+  }
+
+  // What the client has paid for the booking so far, by card and gift card, after any discount
+  getAmountPaid(booking: Booking): number {
+    const plan = this.getPaymentPlan(booking);
+    if (booking.paymentStatus === 'unpaid' || booking.paymentStatus === 'failed') {
+      return plan.giftCardAmount;
+    }
+    if (booking.paymentStatus === 'deposit_paid' || booking.paymentStatus === 'balance_due') {
+      return roundCents(plan.giftCardAmount + plan.depositAmount);
+    }
+    return plan.total;
+  }
+
+  // The payment the client owes right now: the deposit (or the full amount) before the
+  // appointment, or the balance once an off-session charge at completion didn't go through
+  async createPaymentIntent(booking: Booking): Promise<BookingPaymentIntent> {
+    const plan = this.getPaymentPlan(booking);
+
+    if (booking.status === 'cancelled') {
+      throw new Error('This booking has been cancelled');
+    }
+
+    if (booking.paymentStatus === 'balance_due') {
+      const intent = await this.reuseOrCreate(booking, booking.balancePaymentIntentId, 'balance', plan.balanceAmount);
+      await db
+        .update(bookings)
+        .set({ balancePaymentIntentId: intent.id, updatedAt: new Date() })
+        .where(eq(bookings.id, booking.id));
+      return { clientSecret: intent.client_secret, paymentType: 'balance', amount: plan.balanceAmount, plan };
+    }
+
+    if (booking.paymentStatus !== 'unpaid' && booking.paymentStatus !== 'failed') {
+      const message = booking.paymentStatus === 'deposit_paid'
+        ? 'The deposit is paid; the balance is charged when the appointment is completed'
+        : 'This booking has already been paid';
+      throw new Error(message);
+    }
+
+    const paymentType: BookingPaymentType = plan.depositAmount > 0 ? 'deposit' : 'full';
+    const amount = paymentType === 'deposit' ? plan.depositAmount : roundCents(plan.total - plan.giftCardAmount);
+    const intent = await this.reuseOrCreate(booking, booking.stripePaymentIntentId, paymentType, amount);
+
+    // Remembered so cancellations and disputes can refund against it
+    await db
+      .update(bookings)
+      .set({ stripePaymentIntentId: intent.id, updatedAt: new Date() })
+      .where(eq(bookings.id, booking.id));
+
+    return { clientSecret: intent.client_secret, paymentType, amount, plan };
+  }
+
+  private async reuseOrCreate(
+    booking: Booking,
+    existingIntentId: string | null,
+    paymentType: BookingPaymentType,
+    amount: number
+  ): Promise<Stripe.PaymentIntent> {
+    if (existingIntentId) {
+      const existing = await stripe.paymentIntents.retrieve(existingIntentId);
+      if (REUSABLE_INTENT_STATUSES.includes(existing.status) && existing.amount === cents(amount)) {
+        return existing;
+      }
+    }
+
+    // Deposits keep the card on file so the balance can be charged without the client present
+    const depositParams = paymentType === 'deposit'
+      ? { customer: await this.getOrCreateCustomer(booking.clientId), setup_future_usage: 'off_session' as const }
+      : {};
+
+    return await stripe.paymentIntents.create({
+      amount: cents(amount),
+      currency: 'usd',
+      ...depositParams,
+      metadata: {
+        bookingId: booking.id,
+        clientId: booking.clientId,
+        paymentType,
+      },
+    });
+  }
+
+  private async getOrCreateCustomer(userId: string): Promise<string> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('Client not found');
+    }
+    if (user.stripeCustomerId) {
+      return user.stripeCustomerId;
+    }
+
+    const customer = await stripe.customers.create(
+      {
+        email: user.email ?? undefined,
+        name: [user.firstName, user.lastName].filter(Boolean).join(' ') || undefined,
+        metadata: { userId },
+      },
+      { idempotencyKey: `customer-${userId}` }
+    );
+    await db
+      .update(users)
+      .set({ stripeCustomerId: customer.id, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+    return customer.id;
+  }
+
+  // Charge what's left after the deposit to the card saved at booking. If the card is declined
+  // or needs the client to authenticate, the booking is left with a balance due and the client
+  // is asked to pay it from checkout. Calling it again for a balance still due tries the card again.
+  async chargeBalance(booking: Booking): Promise<BalanceCharge> {
+    if (booking.paymentStatus !== 'deposit_paid' && booking.paymentStatus !== 'balance_due') {
+      return { status: 'not_required', amount: 0, paymentIntentId: null };
+    }
+
+    const { balanceAmount } = this.getPaymentPlan(booking);
+    if (balanceAmount <= 0) {
+      await this.markBalancePaid(booking.id, null);
+      return { status: 'paid', amount: 0, paymentIntentId: null };
+    }
+
+    // The client may have paid the earlier attempt from checkout meanwhile. Otherwise it is
+    // cancelled, so it can't be paid as well as the new charge.
+    if (booking.balancePaymentIntentId) {
+      const previous = await stripe.paymentIntents.retrieve(booking.balancePaymentIntentId);
+      if (previous.status === 'succeeded') {
+        await this.markBalancePaid(booking.id, previous.id);
+        return { status: 'paid', amount: balanceAmount, paymentIntentId: previous.id };
+      }
+      if (previous.status === 'processing') {
+        return { status: 'balance_due', amount: balanceAmount, paymentIntentId: previous.id };
+      }
+      if (previous.status !== 'canceled') {
+        await stripe.paymentIntents.cancel(previous.id);
+      }
+    }
+
+    // A deposit covered by gift cards leaves no saved card, so the client pays the balance from checkout
+    let intent: Stripe.PaymentIntent | null = null;
+    try {
+      if (!booking.stripePaymentIntentId) {
+        throw new Error('No card on file');
+      }
+      const deposit = await stripe.paymentIntents.retrieve(booking.stripePaymentIntentId);
+      const paymentMethod = typeof deposit.payment_method === 'string' ? deposit.payment_method : deposit.payment_method?.id;
+      const customer = typeof deposit.customer === 'string' ? deposit.customer : deposit.customer?.id;
+
+      if (paymentMethod && customer) {
+        intent = await stripe.paymentIntents.create(
+          {
+            amount: cents(balanceAmount),
+            currency: 'usd',
+            customer,
+            payment_method: paymentMethod,
+            off_session: true,
+            confirm: true,
+            metadata: { bookingId: booking.id, clientId: booking.clientId, paymentType: 'balance' },
+          },
+          // One key per attempt: retries after a failed attempt charge again, repeats of one attempt don't
+          { idempotencyKey: `booking-balance-${booking.id}-${booking.balancePaymentIntentId ?? 'first'}` }
+        );
+      }
+    } catch (error: any) {
+      // Declines and authentication requests come back as errors carrying the intent
+      console.error(`Error charging balance for booking ${booking.id}:`, error.message);
+      intent = error.raw?.payment_intent ?? null;
+    }
+
+    if (intent?.status === 'succeeded') {
+      await this.markBalancePaid(booking.id, intent.id);
+      return { status: 'paid', amount: balanceAmount, paymentIntentId: intent.id };
+    }
+
+    await db
+      .update(bookings)
+      .set({ paymentStatus: 'balance_due', balancePaymentIntentId: intent?.id ?? null, updatedAt: new Date() })
+      .where(eq(bookings.id, booking.id));
+    await this.recordBalanceStatus(booking.id, 'balance_due');
+
+    try {
+      await notificationService.triggerPaymentDue(booking.id, booking.clientId, balanceAmount);
+    } catch (error) {
+      console.error('Error sending balance due notification:', error);
+    }
+
+    return { status: 'balance_due', amount: balanceAmount, paymentIntentId: intent?.id ?? null };
+  }
+
+  private async markBalancePaid(bookingId: string, paymentIntentId: string | null): Promise<void> {
+    await db
+      .update(bookings)
+      .set({
+        paymentStatus: 'paid',
+        depositStatus: 'applied',
+        balancePaymentIntentId: paymentIntentId,
+        updatedAt: new Date(),
+      })
+      .where(eq(bookings.id, bookingId));
+    await this.recordBalanceStatus(bookingId, 'completed');
+  }
+
+  // Keep the completion ledger's payment status in step with the balance
+  private async recordBalanceStatus(bookingId: string, paymentStatus: 'completed' | 'balance_due'): Promise<void> {
+    await db
+      .update(paymentDetails)
+      .set({ paymentStatus })
+      .where(eq(paymentDetails.bookingId, bookingId));
+  }
+
+  // Refund a booking across its payments, the balance first, then the deposit, and anything
+  // paid by gift card back onto the cards it came from
+  async refund(booking: Booking, amount: number, idempotencyKey: string, metadata: Record<string, string>): Promise<string[]> {
+    const payments = [booking.balancePaymentIntentId, booking.stripePaymentIntentId].filter((id): id is string => !!id);
+
+    const refundIds: string[] = [];
+    let remaining = cents(amount);
+    for (const paymentIntentId of payments) {
+      if (remaining <= 0) break;
+
+      const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      if (intent.status !== 'succeeded') continue;
+
+      const refundCents = Math.min(remaining, intent.amount_received);
+      const refund = await stripe.refunds.create(
+        { payment_intent: paymentIntentId, amount: refundCents, metadata },
+        { idempotencyKey: `${idempotencyKey}-${paymentIntentId}` }
+      );
+      refundIds.push(refund.id);
+      remaining -= refundCents;
+    }
+
+    if (remaining > 0) {
+      remaining -= cents(await giftCardService.refund({ bookingId: booking.id }, remaining / 100));
+    }
+    if (remaining > 0) {
+      throw new Error('The refund is more than the client has paid for this booking');
+    }
+    return refundIds;
+  }
+
+  // What the client paid for a booking, with the deposit and balance shown separately
+  async getReceipt(booking: Booking): Promise<BookingReceipt> {
+    const plan = this.getPaymentPlan(booking);
+    const [fees] = await db.select().from(feeStructure).where(eq(feeStructure.bookingId, booking.id));
+
+    let balanceStatus: BookingReceipt['balance']['status'];
+    if (plan.depositAmount <= 0 && parseFloat(booking.depositAmount || '0') <= 0) {
+      balanceStatus = 'not_applicable';
+    } else if (booking.status === 'cancelled') {
+      balanceStatus = 'cancelled';
+    } else if (booking.paymentStatus === 'balance_due') {
+      balanceStatus = 'due';
+    } else if (booking.depositStatus === 'applied') {
+      balanceStatus = 'paid';
+    } else {
+      balanceStatus = 'scheduled';
+    }
+
+    return {
+      bookingId: booking.id,
+      status: booking.status,
+      paymentStatus: booking.paymentStatus,
+      serviceAmount: plan.fees.serviceAmount,
+      serviceFee: plan.fees.serviceFee,
+      homeVisitFee: plan.fees.homeVisitFee,
+      tipAmount: plan.fees.tipAmount,
+      total: plan.total,
+      giftCardAmount: plan.giftCardAmount,
+      deposit: { amount: plan.depositAmount, status: booking.depositStatus },
+      balance: { amount: plan.balanceAmount, status: balanceStatus },
+      cancellationFee: booking.status === 'cancelled' ? parseFloat(fees?.cancellationFeeAmount || '0') : 0,
+    };
+  }
+}
+
+export const deposits = new DepositService();
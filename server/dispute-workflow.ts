@@ -0,0 +1,456 @@
+import { db } from './db';
+import {
+  bookings,
+  disputeMessages,
+  disputes,
+  earnings,
+  professionals,
+  type Booking,
+  type Dispute,
+  type DisputeMessage,
+} from '@shared/schema';
+import { eq, and, or, lte, isNull, notInArray, sql } from 'drizzle-orm';
+import { deposits } from './deposits';
+import { notificationService } from './notification-service';
+import type { Transaction, Executor } from './booking-engine';
+
+export const DISPUTE_STATUSES = ['open', 'investigating', 'awaiting_response', 'resolved', 'closed'] as const;
+export type DisputeStatus = typeof DISPUTE_STATUSES[number];
+
+export const RESOLUTION_TYPES = ['refund', 'partial_refund', 'no_action'] as const;
+export type ResolutionType = typeof RESOLUTION_TYPES[number];
+
+export type DisputeParty = 'client' | 'provider';
+
+// How long a party has to answer before the dispute moves on without them
+export const DISPUTE_RESPONSE_HOURS = 72;
+
+// How often missed response deadlines are looked for
+const DEADLINE_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// Resolved disputes stay open for follow-up until an admin closes them
+const TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  open: ['investigating', 'closed'],
+  investigating: ['awaiting_response', 'resolved', 'closed'],
+  awaiting_response: ['investigating', 'resolved', 'closed'],
+  resolved: ['closed'],
+  closed: [],
+};
+
+const ACTIVE_STATUSES: DisputeStatus[] = ['open', 'investigating', 'awaiting_response'];
+
+export interface TransitionOptions {
+  adminNotes?: string;
+  awaitingResponseFrom?: DisputeParty | 'both';
+}
+
+export interface ResolutionParams {
+  resolutionType: ResolutionType;
+  refundAmount?: number;
+  resolution: string;
+}
+
+const responseDeadline = (from = new Date()) => new Date(from.getTime() + DISPUTE_RESPONSE_HOURS * 60 * 60 * 1000);
+
+const otherParty = (party: DisputeParty): DisputeParty => party === 'client' ? 'provider' : 'client';
+
+const deadlineColumn = (party: DisputeParty) => party === 'client' ? 'clientResponseDueAt' : 'providerResponseDueAt';
+
+export class DisputeWorkflow {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  // Which side of the booking a user is on, if either
+  async getParty(booking: Booking, userId: string): Promise<DisputeParty | null> {
+    if (booking.clientId === userId) return 'client';
+    const [professional] = await db
+      .select({ id: professionals.id })
+      .from(professionals)
+      .where(eq(professionals.userId, userId));
+    return professional?.id === booking.professionalId ? 'provider' : null;
+  }
+
+  // File a dispute. The other party gets a deadline to respond and the booking's
+  // earnings are held back from payouts until the dispute is closed.
+  async open(
+    booking: Booking,
+    disputantId: string,
+    disputantType: DisputeParty,
+    details: { reason: string; description: string; amount: number }
+  ): Promise<Dispute> {
+    if (!(details.amount > 0) || details.amount > deposits.getAmountPaid(booking)) {
+      throw new Error('The disputed amount must be more than zero and no more than the client paid');
+    }
+
+    const dispute = await db.transaction(async (tx) => {
+      const [active] = await tx
+        .select({ id: disputes.id })
+        .from(disputes)
+        .where(and(eq(disputes.bookingId, booking.id), notInArray(disputes.status, ['resolved', 'closed'])));
+      if (active) {
+        throw new Error('This booking already has an open dispute');
+      }
+
+      const [created] = await tx
+        .insert(disputes)
+        .values({
+          bookingId: booking.id,
+          disputantId,
+          disputantType,
+          reason: details.reason,
+          description: details.description,
+          amount: details.amount.toFixed(2),
+          status: 'open',
+          [deadlineColumn(otherParty(disputantType))]: responseDeadline(),
+        })
+        .returning();
+
+      await this.holdEarnings(booking.id, tx);
+      return created;
+    });
+
+    await this.notifyParties(dispute, booking, 'A dispute was opened on your booking. Please add your side of the story and any evidence.');
+    return dispute;
+  }
+
+  // Keep a booking's unpaid earnings out of payouts while it is disputed
+  async holdEarnings(bookingId: string, executor: Executor = db): Promise<void> {
+    await executor
+      .update(earnings)
+      .set({ payoutStatus: 'held' })
+      .where(and(eq(earnings.bookingId, bookingId), eq(earnings.payoutStatus, 'pending')));
+  }
+
+  private async releaseEarnings(bookingId: string, tx: Transaction): Promise<void> {
+    const [stillActive] = await tx
+      .select({ id: disputes.id })
+      .from(disputes)
+      .where(and(eq(disputes.bookingId, bookingId), notInArray(disputes.status, ['resolved', 'closed'])));
+    if (stillActive) return;
+
+    await tx
+      .update(earnings)
+      .set({ payoutStatus: 'pending' })
+      .where(and(eq(earnings.bookingId, bookingId), eq(earnings.payoutStatus, 'held')));
+  }
+
+  private async lock(disputeId: string, tx: Transaction): Promise<Dispute> {
+    await tx.execute(sql`SELECT ${disputes.id} FROM ${disputes} WHERE ${disputes.id} = ${disputeId} FOR UPDATE`);
+    const [dispute] = await tx.select().from(disputes).where(eq(disputes.id, disputeId));
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    return dispute;
+  }
+
+  private assertTransition(dispute: Dispute, to: DisputeStatus): void {
+    const from = (dispute.status || 'open') as DisputeStatus;
+    if (!TRANSITIONS[from]?.includes(to)) {
+      throw new Error(`A dispute can't move from ${from} to ${to}`);
+    }
+  }
+
+  // Admin moves between the review states. Resolving goes through resolve(), which moves money.
+  async transition(disputeId: string, to: DisputeStatus, options: TransitionOptions = {}): Promise<Dispute> {
+    if (to === 'resolved') {
+      throw new Error('Use the resolve action to resolve a dispute');
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const dispute = await this.lock(disputeId, tx);
+      this.assertTransition(dispute, to);
+
+      const changes: Partial<Dispute> = { status: to, updatedAt: new Date() };
+      if (options.adminNotes) {
+        changes.adminNotes = options.adminNotes;
+      }
+
+      if (to === 'awaiting_response') {
+        const parties: DisputeParty[] = options.awaitingResponseFrom === 'both'
+          ? ['client', 'provider']
+          : options.awaitingResponseFrom ? [options.awaitingResponseFrom] : [];
+        if (!parties.length) {
+          throw new Error('Say whether the client, the provider or both need to respond');
+        }
+        for (const party of parties) {
+          changes[deadlineColumn(party)] = responseDeadline();
+        }
+      } else {
+        changes.clientResponseDueAt = null;
+        changes.providerResponseDueAt = null;
+      }
+
+      if (to === 'closed') {
+        changes.closedAt = new Date();
+      }
+
+      const [saved] = await tx.update(disputes).set(changes).where(eq(disputes.id, disputeId)).returning();
+      if (to === 'closed') {
+        await this.releaseEarnings(saved.bookingId, tx);
+      }
+      return saved;
+    });
+
+    const messages: Partial<Record<DisputeStatus, string>> = {
+      investigating: 'Our team is reviewing your dispute.',
+      awaiting_response: `We need more information on your dispute. Please respond within ${DISPUTE_RESPONSE_HOURS} hours.`,
+      closed: 'Your dispute has been closed.',
+    };
+    await this.notifyParties(updated, null, messages[to]!);
+    return updated;
+  }
+
+  // Add a message or evidence. A party answering clears their deadline, and once nobody
+  // owes a response the dispute goes back to the reviewer.
+  async addEvidence(
+    disputeId: string,
+    senderId: string,
+    senderType: DisputeParty | 'admin',
+    message: string,
+    attachments?: string[]
+  ): Promise<DisputeMessage> {
+    if (!message?.trim()) {
+      throw new Error('A message is required');
+    }
+
+    return await db.transaction(async (tx) => {
+      const dispute = await this.lock(disputeId, tx);
+      if (!ACTIVE_STATUSES.includes(dispute.status as DisputeStatus)) {
+        throw new Error(`This dispute is already ${dispute.status}`);
+      }
+
+      const [created] = await tx
+        .insert(disputeMessages)
+        .values({ disputeId, senderId, senderType, message, attachments: attachments?.length ? attachments : null })
+        .returning();
+
+      if (senderType !== 'admin' && dispute[deadlineColumn(senderType)]) {
+        const changes: Partial<Dispute> = { [deadlineColumn(senderType)]: null, updatedAt: new Date() };
+        const otherDeadline = dispute[deadlineColumn(otherParty(senderType))];
+        if (dispute.status === 'awaiting_response' && !otherDeadline) {
+          changes.status = 'investigating';
+        }
+        await tx.update(disputes).set(changes).where(eq(disputes.id, disputeId));
+      }
+
+      return created;
+    });
+  }
+
+  // Carry out an admin decision: refund the client, take the refunded share back out of the
+  // provider's earnings, and keep the booking's payout held until the dispute is closed.
+  async resolve(disputeId: string, adminId: string, params: ResolutionParams): Promise<Dispute> {
+    if (!RESOLUTION_TYPES.includes(params.resolutionType)) {
+      throw new Error(`resolutionType must be one of: ${RESOLUTION_TYPES.join(', ')}`);
+    }
+
+    // Claim the resolution first, so a retried or concurrent resolve can't refund a second time
+    const { claimed, previous, booking, refundAmount } = await db.transaction(async (tx) => {
+      const current = await this.lock(disputeId, tx);
+      this.assertTransition(current, 'resolved');
+
+      const [booking] = await tx.select().from(bookings).where(eq(bookings.id, current.bookingId));
+      if (!booking) {
+        throw new Error('The disputed booking no longer exists');
+      }
+
+      const disputedAmount = parseFloat(current.amount);
+      let refundAmount = 0;
+      if (params.resolutionType === 'refund') {
+        refundAmount = disputedAmount;
+      } else if (params.resolutionType === 'partial_refund') {
+        refundAmount = Number(params.refundAmount);
+        if (!(refundAmount > 0) || refundAmount >= disputedAmount) {
+          throw new Error('A partial refund must be more than zero and less than the disputed amount');
+        }
+      }
+
+      const [claimed] = await tx
+        .update(disputes)
+        .set({
+          status: 'resolved',
+          resolution: params.resolution,
+          resolutionType: params.resolutionType,
+          refundAmount: refundAmount ? refundAmount.toFixed(2) : null,
+          clientResponseDueAt: null,
+          providerResponseDueAt: null,
+          resolvedAt: new Date(),
+          resolvedBy: adminId,
+          updatedAt: new Date(),
+        })
+        .where(eq(disputes.id, disputeId))
+        .returning();
+      return { claimed, previous: current, booking, refundAmount };
+    });
+
+    // Chargebacks have already been taken back by the card issuer, so only the ledger changes
+    let stripeRefundId: string | null = null;
+    if (refundAmount > 0 && !claimed.stripeDisputeId) {
+      try {
+        // Bookings paid as a deposit and a balance are refunded across both payments
+        const refundIds = await deposits.refund(
+          booking,
+          refundAmount,
+          `dispute-refund-${claimed.id}`,
+          { bookingId: booking.id, disputeId: claimed.id, type: 'dispute_resolution' }
+        );
+        stripeRefundId = refundIds.join(',');
+      } catch (error) {
+        // Hand the dispute back, so the resolution can be tried again
+        await db
+          .update(disputes)
+          .set({
+            status: previous.status,
+            resolution: null,
+            resolutionType: null,
+            refundAmount: null,
+            clientResponseDueAt: previous.clientResponseDueAt,
+            providerResponseDueAt: previous.providerResponseDueAt,
+            resolvedAt: null,
+            resolvedBy: null,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(disputes.id, claimed.id), eq(disputes.status, 'resolved')));
+        throw error;
+      }
+    }
+
+    const resolved = await db.transaction(async (tx) => {
+      const [saved] = await tx
+        .update(disputes)
+        .set({ stripeRefundId, updatedAt: new Date() })
+        .where(eq(disputes.id, claimed.id))
+        .returning();
+
+      if (refundAmount > 0) {
+        await this.reverseEarnings(booking, saved, refundAmount, tx);
+        const fullRefund = refundAmount >= deposits.getAmountPaid(booking);
+        await tx
+          .update(bookings)
+          .set({ paymentStatus: fullRefund ? 'refunded' : 'partially_refunded', updatedAt: new Date() })
+          .where(eq(bookings.id, booking.id));
+      }
+
+      return saved;
+    });
+
+    await this.notifyParties(
+      resolved,
+      booking,
+      refundAmount > 0
+        ? `Your dispute was resolved with a refund of $${refundAmount.toFixed(2)}. ${params.resolution}`
+        : `Your dispute was resolved without a refund. ${params.resolution}`
+    );
+    return resolved;
+  }
+
+  // Book the refunded share of the booking's earnings as a negative, held entry. It is netted
+  // against the provider's next payout once the dispute is closed.
+  private async reverseEarnings(booking: Booking, dispute: Dispute, refundAmount: number, tx: Transaction): Promise<void> {
+    const [alreadyReversed] = await tx.select({ id: earnings.id }).from(earnings).where(eq(earnings.disputeId, dispute.id));
+    if (alreadyReversed) return;
+
+    const original = await tx
+      .select()
+      .from(earnings)
+      .where(and(eq(earnings.bookingId, booking.id), isNull(earnings.disputeId)));
+    if (!original.length) return;
+
+    const paid = deposits.getAmountPaid(booking);
+    const share = paid > 0 ? Math.min(1, refundAmount / paid) : 1;
+    const reversed = (field: 'amount' | 'platformFee' | 'netAmount') =>
+      (-original.reduce((total, earning) => total + parseFloat(earning[field]), 0) * share).toFixed(2);
+
+    await tx.insert(earnings).values({
+      professionalId: booking.professionalId,
+      bookingId: booking.id,
+      amount: reversed('amount'),
+      platformFee: reversed('platformFee'),
+      netAmount: reversed('netAmount'),
+      payoutStatus: 'held',
+      disputeId: dispute.id,
+    });
+  }
+
+  // Note missed deadlines on the dispute and hand it back to the reviewer
+  async expireDeadlines(now = new Date()): Promise<number> {
+    const overdue = await db
+      .select()
+      .from(disputes)
+      .where(and(
+        notInArray(disputes.status, ['resolved', 'closed']),
+        or(lte(disputes.clientResponseDueAt, now), lte(disputes.providerResponseDueAt, now))
+      ));
+
+    for (const dispute of overdue) {
+      await db.transaction(async (tx) => {
+        const current = await this.lock(dispute.id, tx);
+        const changes: Partial<Dispute> = { updatedAt: now };
+        const missed: DisputeParty[] = [];
+
+        for (const party of ['client', 'provider'] as DisputeParty[]) {
+          const dueAt = current[deadlineColumn(party)];
+          if (dueAt && dueAt <= now) {
+            changes[deadlineColumn(party)] = null;
+            missed.push(party);
+          }
+        }
+        if (!missed.length) return;
+
+        const stillWaiting = (['client', 'provider'] as DisputeParty[])
+          .some(party => !missed.includes(party) && current[deadlineColumn(party)]);
+        if (current.status === 'awaiting_response' && !stillWaiting) {
+          changes.status = 'investigating';
+        }
+
+        await tx.update(disputes).set(changes).where(eq(disputes.id, current.id));
+        await tx.insert(disputeMessages).values(missed.map(party => ({
+          disputeId: current.id,
+          senderId: 'system',
+          senderType: 'system',
+          message: `The ${party} did not respond within ${DISPUTE_RESPONSE_HOURS} hours.`,
+        })));
+      });
+    }
+
+    return overdue.length;
+  }
+
+  private async notifyParties(dispute: Dispute, booking: Booking | null, detail: string): Promise<void> {
+    try {
+      const [row] = booking
+        ? [{ clientId: booking.clientId, professionalId: booking.professionalId }]
+        : await db
+          .select({ clientId: bookings.clientId, professionalId: bookings.professionalId })
+          .from(bookings)
+          .where(eq(bookings.id, dispute.bookingId));
+      if (!row) return;
+
+      const [professional] = await db
+        .select({ userId: professionals.userId })
+        .from(professionals)
+        .where(eq(professionals.id, row.professionalId));
+
+      for (const userId of [row.clientId, professional?.userId]) {
+        if (userId) {
+          await notificationService.triggerDisputeUpdate(userId, dispute.id, detail);
+        }
+      }
+    } catch (error) {
+      console.error('Error sending dispute notifications:', error);
+    }
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(async () => {
+      try {
+        await this.expireDeadlines();
+      } catch (error) {
+        console.error('Error expiring dispute deadlines:', error);
+      }
+    }, DEADLINE_SWEEP_INTERVAL_MS);
+  }
+}
+
+export const disputeWorkflow = new DisputeWorkflow();
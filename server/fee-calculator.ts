@@ -0,0 +1,214 @@
+import { db } from './db';
+import {
+  bookings,
+  earnings,
+  feeStructure,
+  paymentDetails,
+  type Booking,
+  type Earnings,
+  type FeeStructure,
+  type InsertFeeStructure,
+} from '@shared/schema';
+import { eq, sql } from 'drizzle-orm';
+import { roundCents, money, type Executor } from './booking-engine';
+
+// Platform rates as fractions of the service amount. Defaults match the fee_structure column defaults.
+export interface FeeRates {
+  commissionRate: number; // taken from the provider's service amount
+  serviceFeeRate: number; // charged to the client on top of the service amount
+  holdFeeRate: number; // held from the client at booking time, credited towards the total
+  cancellationFeeRate: number; // charged on late cancellations
+}
+
+export interface FeeBreakdown {
+  rates: FeeRates;
+  serviceAmount: number;
+  commission: number;
+  serviceFee: number;
+  holdFee: number;
+  homeVisitFee: number;
+  tipAmount: number;
+  cancellationFee: number;
+  totalPlatformFees: number;
+  clientTotal: number;
+  providerPayout: number;
+}
+
+export interface CompletionResult {
+  booking: Booking;
+  fees: FeeBreakdown;
+  earning: Earnings;
+  alreadyCompleted: boolean;
+}
+
+const readRate = (name: string, fallback: number) => {
+  const value = parseFloat(process.env[name] ?? '');
+  return Number.isFinite(value) && value >= 0 && value < 1 ? value : fallback;
+};
+
+export class FeeCalculator {
+
+  getRates(): FeeRates {
+    return {
+      commissionRate: readRate('PLATFORM_COMMISSION_RATE', 0.15),
+      serviceFeeRate: readRate('PLATFORM_SERVICE_FEE_RATE', 0.10),
+      holdFeeRate: readRate('PLATFORM_HOLD_FEE_RATE', 0.25),
+      cancellationFeeRate: readRate('PLATFORM_CANCELLATION_FEE_RATE', 0.15),
+    };
+  }
+
+  // Split a booking into what the client pays, what the platform keeps and what the provider earns.
+  // Home visit fees and tips pass through to the provider untouched.
+  calculate(booking: Booking, tipAmount = parseFloat(booking.tipAmount || '0')): FeeBreakdown {
+    const rates = this.getRates();
+    const serviceAmount = parseFloat(booking.basePrice || booking.totalPrice);
+    const homeVisitFee = parseFloat(booking.homeVisitFee || '0');
+
+    const commission = roundCents(serviceAmount * rates.commissionRate);
+    const serviceFee = roundCents(serviceAmount * rates.serviceFeeRate);
+    const holdFee = roundCents(serviceAmount * rates.holdFeeRate);
+
+    return {
+      rates,
+      serviceAmount,
+      commission,
+      serviceFee,
+      holdFee,
+      homeVisitFee,
+      tipAmount,
+      cancellationFee: 0,
+      totalPlatformFees: roundCents(commission + serviceFee),
+      clientTotal: roundCents(serviceAmount + serviceFee + homeVisitFee + tipAmount),
+      providerPayout: roundCents(serviceAmount - commission + homeVisitFee + tipAmount),
+    };
+  }
+
+  // Fees for a cancelled booking: the client owes only the cancellation fee, which the
+  // platform takes its usual commission from before the rest goes to the provider.
+  calculateCancellation(booking: Booking, feeRate: number, maxFee = Infinity): FeeBreakdown {
+    const rates = { ...this.getRates(), cancellationFeeRate: feeRate };
+    const serviceAmount = parseFloat(booking.basePrice || booking.totalPrice);
+    const cancellationFee = roundCents(Math.min(serviceAmount * feeRate, maxFee));
+    const commission = roundCents(cancellationFee * rates.commissionRate);
+
+    return {
+      rates,
+      serviceAmount,
+      commission,
+      serviceFee: 0,
+      holdFee: 0,
+      homeVisitFee: 0,
+      tipAmount: 0,
+      cancellationFee,
+      totalPlatformFees: commission,
+      clientTotal: cancellationFee,
+      providerPayout: roundCents(cancellationFee - commission),
+    };
+  }
+
+  private toFeeStructure(bookingId: string, fees: FeeBreakdown): InsertFeeStructure {
+    return {
+      bookingId,
+      serviceAmount: money(fees.serviceAmount),
+      commissionRate: fees.rates.commissionRate.toFixed(4),
+      commissionAmount: money(fees.commission),
+      holdFeeRate: fees.rates.holdFeeRate.toFixed(4),
+      holdFeeAmount: money(fees.holdFee),
+      serviceFeeRate: fees.rates.serviceFeeRate.toFixed(4),
+      serviceFeeAmount: money(fees.serviceFee),
+      cancellationFeeRate: fees.rates.cancellationFeeRate.toFixed(4),
+      cancellationFeeAmount: money(fees.cancellationFee),
+      tipAmount: money(fees.tipAmount),
+      totalPlatformFees: money(fees.totalPlatformFees),
+      providerPayout: money(fees.providerPayout),
+    };
+  }
+
+  // Keep a single fee_structure row per booking, refreshed whenever the fees are recalculated
+  async recordFeeStructure(booking: Booking, fees: FeeBreakdown = this.calculate(booking), executor: Executor = db): Promise<FeeStructure> {
+    const values = this.toFeeStructure(booking.id, fees);
+    const [existing] = await executor.select().from(feeStructure).where(eq(feeStructure.bookingId, booking.id));
+
+    if (existing) {
+      const [updated] = await executor
+        .update(feeStructure)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(feeStructure.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await executor.insert(feeStructure).values(values).returning();
+    return created;
+  }
+
+  // Mark a booking completed and write its fee_structure, earnings and payment_details rows together.
+  // Completing an already completed booking returns the existing ledger without writing anything.
+  async completeBooking(bookingId: string): Promise<CompletionResult> {
+    return await db.transaction(async (tx) => {
+      // Lock the booking so concurrent completions are applied once
+      await tx.execute(sql`SELECT ${bookings.id} FROM ${bookings} WHERE ${bookings.id} = ${bookingId} FOR UPDATE`);
+
+      const [booking] = await tx.select().from(bookings).where(eq(bookings.id, bookingId));
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      if (booking.status === 'cancelled') {
+        throw new Error('Cancelled bookings cannot be completed');
+      }
+
+      const [existingEarning] = await tx.select().from(earnings).where(eq(earnings.bookingId, bookingId));
+      if (booking.status === 'completed' && existingEarning) {
+        return { booking, fees: this.calculate(booking), earning: existingEarning, alreadyCompleted: true };
+      }
+
+      // Tips sent later through the tipping flow are paid out on their own, not through earnings
+      const fees = this.calculate(booking);
+
+      const [completed] = await tx
+        .update(bookings)
+        .set({
+          status: 'completed',
+          basePrice: money(fees.serviceAmount),
+          platformFees: money(fees.totalPlatformFees),
+          updatedAt: new Date(),
+        })
+        .where(eq(bookings.id, bookingId))
+        .returning();
+
+      await this.recordFeeStructure(completed, fees, tx);
+
+      const [earning] = await tx
+        .insert(earnings)
+        .values({
+          professionalId: booking.professionalId,
+          bookingId,
+          amount: money(fees.serviceAmount + fees.homeVisitFee + fees.tipAmount),
+          platformFee: money(fees.commission),
+          netAmount: money(fees.providerPayout),
+        })
+        .returning();
+
+      // Receipts show the deposit taken at booking apart from the balance charged now
+      const deposit = Math.min(parseFloat(booking.depositAmount || '0'), fees.clientTotal);
+      await tx.insert(paymentDetails).values({
+        bookingId,
+        subtotal: money(fees.serviceAmount),
+        serviceFee: money(fees.serviceFee),
+        commission: money(fees.commission),
+        holdFee: money(fees.holdFee),
+        depositAmount: money(deposit),
+        balanceAmount: money(fees.clientTotal - deposit),
+        totalAmount: money(fees.clientTotal),
+        providerEarnings: money(fees.providerPayout),
+        stripePaymentIntentId: booking.stripePaymentIntentId,
+        // A balance still to be charged is recorded once the charge is made or fails
+        paymentStatus: booking.paymentStatus === 'deposit_paid' || booking.paymentStatus === 'balance_due' ? 'balance_pending' : 'completed',
+      });
+
+      return { booking: completed, fees, earning, alreadyCompleted: false };
+    });
+  }
+}
+
+export const feeCalculator = new FeeCalculator();
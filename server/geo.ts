@@ -0,0 +1,28 @@
+import { sql, type SQL, type AnyColumn } from 'drizzle-orm';
+
+export const EARTH_RADIUS_MILES = 3958.8;
+
+// Default travel range for home-visit providers that haven't set one
+export const DEFAULT_MAX_TRAVEL_MILES = 25;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points in miles (haversine formula)
+export function haversineMiles(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// SQL equivalent of haversineMiles for a pair of latitude/longitude columns.
+// Evaluates to NULL when the row has no coordinates.
+export function distanceMilesSql(latColumn: AnyColumn, lngColumn: AnyColumn, lat: number, lng: number): SQL<number | null> {
+  return sql<number | null>`(2 * ${EARTH_RADIUS_MILES} * asin(least(1, sqrt(
+    power(sin(radians(${latColumn}::float8 - ${lat}) / 2), 2) +
+    cos(radians(${lat})) * cos(radians(${latColumn}::float8)) *
+    power(sin(radians(${lngColumn}::float8 - ${lng}) / 2), 2)
+  ))))`.mapWith(Number);
+}
@@ -0,0 +1,372 @@
+import crypto from 'crypto';
+import type Stripe from 'stripe';
+import { db } from './db';
+import {
+  bookings,
+  giftCardTransactions,
+  giftCards,
+  productOrders,
+  users,
+  type Booking,
+  type GiftCard,
+  type ProductOrder,
+} from '@shared/schema';
+import { eq, and, or, desc, inArray, sql } from 'drizzle-orm';
+import { stripe } from './stripe';
+import { feeCalculator } from './fee-calculator';
+import { notificationService } from './notification-service';
+import { roundCents, money, type Transaction, type Executor } from './booking-engine';
+
+export const GIFT_CARD_MIN_AMOUNT = 10;
+export const GIFT_CARD_MAX_AMOUNT = 500;
+
+// No 0/O or 1/I, so codes survive being read out or copied from an email
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface GiftCardPurchase {
+  amount: number;
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+}
+
+export interface GiftCardRedemption {
+  giftCard: GiftCard;
+  amount: number;
+}
+
+export interface BookingGiftCardResult extends GiftCardRedemption {
+  booking: Booking;
+}
+
+// What a ledger entry was for
+interface LedgerReference {
+  userId?: string;
+  bookingId?: string;
+  orderId?: number;
+}
+
+const normaliseCode = (code: string) => code.trim().toUpperCase();
+
+const generateCode = () => {
+  const group = () => Array.from({ length: 4 }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join('');
+  return `BYOO-${group()}-${group()}-${group()}`;
+};
+
+export class GiftCardService {
+
+  // Set up a gift card awaiting payment and the payment intent that pays for it. The card only
+  // becomes spendable once Stripe reports the payment as succeeded.
+  async createPurchase(purchaserId: string, purchase: GiftCardPurchase): Promise<{ giftCard: GiftCard; clientSecret: string | null }> {
+    const amount = roundCents(Number(purchase.amount));
+    if (!(amount >= GIFT_CARD_MIN_AMOUNT && amount <= GIFT_CARD_MAX_AMOUNT)) {
+      throw new Error(`Gift cards can be bought for $${GIFT_CARD_MIN_AMOUNT} to $${GIFT_CARD_MAX_AMOUNT}`);
+    }
+    if (!purchase.recipientEmail || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(purchase.recipientEmail.trim())) {
+      throw new Error('A valid recipientEmail is required');
+    }
+
+    const [giftCard] = await db
+      .insert(giftCards)
+      .values({
+        code: generateCode(),
+        initialAmount: money(amount),
+        purchaserId,
+        recipientEmail: purchase.recipientEmail.trim().toLowerCase(),
+        recipientName: purchase.recipientName,
+        message: purchase.message,
+      })
+      .returning();
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: Math.round(amount * 100),
+      currency: 'usd',
+      metadata: {
+        type: 'gift_card',
+        giftCardId: giftCard.id.toString(),
+        userId: purchaserId,
+      },
+    });
+
+    const [withIntent] = await db
+      .update(giftCards)
+      .set({ stripePaymentIntentId: paymentIntent.id, updatedAt: new Date() })
+      .where(eq(giftCards.id, giftCard.id))
+      .returning();
+
+    return { giftCard: withIntent, clientSecret: paymentIntent.client_secret };
+  }
+
+  // Load the balance of a paid gift card. Safe to call from both the webhook and the client's
+  // success callback: only the first call for a payment intent returns the card.
+  async activate(intent: Stripe.PaymentIntent, executor: Executor = db): Promise<GiftCard | null> {
+    const [activated] = await executor
+      .update(giftCards)
+      .set({ status: 'active', balance: sql`${giftCards.initialAmount}`, updatedAt: new Date() })
+      .where(and(eq(giftCards.stripePaymentIntentId, intent.id), eq(giftCards.status, 'pending')))
+      .returning();
+    if (!activated) {
+      return null;
+    }
+
+    await executor.insert(giftCardTransactions).values({
+      giftCardId: activated.id,
+      type: 'issue',
+      amount: activated.initialAmount,
+      balanceAfter: activated.initialAmount,
+      userId: activated.purchaserId,
+    });
+    return activated;
+  }
+
+  // The purchaser's success callback, for when the webhook hasn't arrived yet
+  async confirmPurchase(paymentIntentId: string, userId: string): Promise<GiftCard> {
+    const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (intent.metadata.type !== 'gift_card' || intent.metadata.userId !== userId) {
+      throw new Error('Gift card purchase not found');
+    }
+    if (intent.status !== 'succeeded') {
+      throw new Error('Payment not completed');
+    }
+
+    const activated = await this.activate(intent);
+    if (activated) {
+      await this.deliver(activated);
+    }
+
+    const [giftCard] = await db.select().from(giftCards).where(eq(giftCards.stripePaymentIntentId, paymentIntentId));
+    return giftCard;
+  }
+
+  // Email the code to the recipient, and tell them in the app too if they already have an account
+  async deliver(giftCard: GiftCard): Promise<void> {
+    const [purchaser] = await db.select().from(users).where(eq(users.id, giftCard.purchaserId));
+    const senderName = [purchaser?.firstName, purchaser?.lastName].filter(Boolean).join(' ') || 'A friend';
+    const amount = parseFloat(giftCard.initialAmount);
+
+    await notificationService.queueEmail('gift_card_delivery', giftCard.recipientEmail, {
+      code: giftCard.code,
+      amount: money(amount),
+      senderName,
+      recipientName: giftCard.recipientName,
+      message: giftCard.message,
+    });
+
+    const [recipient] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(sql`lower(${users.email})`, giftCard.recipientEmail));
+    if (recipient) {
+      await notificationService.triggerGiftCardReceived(recipient.id, giftCard.id, amount, senderName);
+    }
+
+    await db
+      .update(giftCards)
+      .set({ deliveredAt: new Date(), updatedAt: new Date() })
+      .where(eq(giftCards.id, giftCard.id));
+  }
+
+  async getBalance(code: string): Promise<Pick<GiftCard, 'code' | 'balance' | 'status'>> {
+    const [giftCard] = await db.select().from(giftCards).where(eq(giftCards.code, normaliseCode(code)));
+    if (!giftCard || giftCard.status === 'pending') {
+      throw new Error('Gift card not found');
+    }
+    return { code: giftCard.code, balance: giftCard.balance, status: giftCard.status };
+  }
+
+  // Cards the user bought, and cards sent to their email address
+  async getForUser(userId: string): Promise<GiftCard[]> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    return await db
+      .select()
+      .from(giftCards)
+      .where(and(
+        inArray(giftCards.status, ['active', 'exhausted']),
+        user?.email
+          ? or(eq(giftCards.purchaserId, userId), eq(giftCards.recipientEmail, user.email.toLowerCase()))
+          : eq(giftCards.purchaserId, userId)
+      ))
+      .orderBy(desc(giftCards.createdAt));
+  }
+
+  // Take up to maxAmount off a card's balance. With exact set, anything less than maxAmount is an error.
+  async redeem(code: string, maxAmount: number, reference: LedgerReference, tx: Transaction, exact = false): Promise<GiftCardRedemption> {
+    const normalised = normaliseCode(code);
+    await tx.execute(sql`SELECT ${giftCards.id} FROM ${giftCards} WHERE ${giftCards.code} = ${normalised} FOR UPDATE`);
+
+    const [giftCard] = await tx.select().from(giftCards).where(eq(giftCards.code, normalised));
+    if (!giftCard || giftCard.status === 'pending' || giftCard.status === 'cancelled') {
+      throw new Error('Gift card not found');
+    }
+
+    const balance = parseFloat(giftCard.balance);
+    if (balance <= 0) {
+      throw new Error('This gift card has no balance left');
+    }
+    if (exact && balance < maxAmount) {
+      throw new Error(`This gift card only has $${money(balance)} left`);
+    }
+
+    const amount = roundCents(Math.min(balance, maxAmount));
+    const balanceAfter = roundCents(balance - amount);
+    const [updated] = await tx
+      .update(giftCards)
+      .set({ balance: money(balanceAfter), status: balanceAfter > 0 ? 'active' : 'exhausted', updatedAt: new Date() })
+      .where(eq(giftCards.id, giftCard.id))
+      .returning();
+
+    await tx.insert(giftCardTransactions).values({
+      giftCardId: giftCard.id,
+      type: 'redemption',
+      amount: money(-amount),
+      balanceAfter: money(balanceAfter),
+      ...reference,
+    });
+
+    return { giftCard: updated, amount };
+  }
+
+  // Pay some or all of a booking from a gift card before any card payment is taken. Gift card
+  // funds count towards the deposit first; the provider's earnings are unaffected by how the
+  // client paid.
+  async applyToBooking(bookingId: string, code: string, userId: string): Promise<BookingGiftCardResult> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT ${bookings.id} FROM ${bookings} WHERE ${bookings.id} = ${bookingId} FOR UPDATE`);
+      const [booking] = await tx.select().from(bookings).where(eq(bookings.id, bookingId));
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      if (booking.clientId !== userId) {
+        throw new Error('Not authorized');
+      }
+      if (booking.status === 'cancelled' || booking.status === 'completed') {
+        throw new Error(`This booking is already ${booking.status}`);
+      }
+      if (booking.paymentStatus !== 'unpaid' && booking.paymentStatus !== 'failed') {
+        throw new Error('Gift cards can only be used before the booking is paid');
+      }
+
+      const total = feeCalculator.calculate(booking).clientTotal;
+      const alreadyApplied = parseFloat(booking.giftCardAmount || '0');
+      const outstanding = roundCents(total - alreadyApplied);
+      if (outstanding <= 0) {
+        throw new Error('This booking is already covered by gift cards');
+      }
+
+      const redemption = await this.redeem(code, outstanding, { userId, bookingId }, tx);
+      const giftCardAmount = roundCents(alreadyApplied + redemption.amount);
+      const deposit = parseFloat(booking.depositAmount || '0');
+
+      let paymentStatus = booking.paymentStatus;
+      let depositStatus = booking.depositStatus;
+      if (giftCardAmount >= total) {
+        paymentStatus = 'paid';
+        depositStatus = deposit > 0 ? 'applied' : depositStatus;
+      } else if (deposit > 0 && giftCardAmount >= deposit) {
+        paymentStatus = 'deposit_paid';
+        depositStatus = 'paid';
+      }
+
+      const [updated] = await tx
+        .update(bookings)
+        .set({ giftCardAmount: money(giftCardAmount), paymentStatus, depositStatus, updatedAt: new Date() })
+        .where(eq(bookings.id, bookingId))
+        .returning();
+
+      return { ...redemption, booking: updated };
+    });
+  }
+
+  // Pay part or all of a shop order from a gift card. The amount was agreed when checkout was priced,
+  // so a card that no longer covers it is an error rather than a smaller redemption.
+  async payOrder(order: ProductOrder, code: string, amount: number, paidInFull: boolean): Promise<GiftCardRedemption> {
+    return await db.transaction(async (tx) => {
+      const redemption = await this.redeem(code, amount, { userId: order.userId, orderId: order.id }, tx, true);
+      await tx
+        .update(productOrders)
+        .set({
+          giftCardAmount: money(redemption.amount),
+          ...(paidInFull ? { status: 'paid', paidAmount: '0.00' } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(productOrders.id, order.id));
+      return redemption;
+    });
+  }
+
+  // Put money back on the cards a booking or order was paid with, latest redemption first.
+  // Returns how much was credited, which is never more than was redeemed.
+  async refund(reference: { bookingId: string } | { orderId: number }, amount: number, executor: Executor = db): Promise<number> {
+    const byReference = 'bookingId' in reference
+      ? eq(giftCardTransactions.bookingId, reference.bookingId)
+      : eq(giftCardTransactions.orderId, reference.orderId);
+
+    const entries = await executor
+      .select()
+      .from(giftCardTransactions)
+      .where(and(byReference, inArray(giftCardTransactions.type, ['redemption', 'refund'])))
+      .orderBy(desc(giftCardTransactions.createdAt));
+
+    // Net amount still owed back to each card
+    const owed = new Map<number, number>();
+    for (const entry of entries) {
+      owed.set(entry.giftCardId, roundCents((owed.get(entry.giftCardId) ?? 0) - parseFloat(entry.amount)));
+    }
+
+    let remaining = roundCents(amount);
+    let credited = 0;
+    for (const [giftCardId, due] of Array.from(owed.entries())) {
+      if (remaining <= 0) break;
+      const credit = roundCents(Math.min(due, remaining));
+      if (credit <= 0) continue;
+
+      const [updated] = await executor
+        .update(giftCards)
+        .set({
+          balance: sql`${giftCards.balance} + ${money(credit)}`,
+          status: sql`CASE WHEN ${giftCards.status} = 'exhausted' THEN 'active' ELSE ${giftCards.status} END`,
+          updatedAt: new Date(),
+        })
+        .where(eq(giftCards.id, giftCardId))
+        .returning();
+
+      await executor.insert(giftCardTransactions).values({
+        giftCardId,
+        type: 'refund',
+        amount: money(credit),
+        balanceAfter: updated.balance,
+        ...reference,
+      });
+      remaining = roundCents(remaining - credit);
+      credited = roundCents(credited + credit);
+    }
+    return credited;
+  }
+
+  // A refunded purchase takes back whatever is left on the card
+  async voidPurchase(paymentIntentId: string, executor: Executor = db): Promise<void> {
+    const [giftCard] = await executor
+      .select()
+      .from(giftCards)
+      .where(and(eq(giftCards.stripePaymentIntentId, paymentIntentId), inArray(giftCards.status, ['active', 'exhausted'])));
+    if (!giftCard) return;
+
+    const balance = parseFloat(giftCard.balance);
+    if (balance < parseFloat(giftCard.initialAmount)) {
+      console.warn(`Refunded gift card ${giftCard.id} had already been partly spent`);
+    }
+
+    await executor
+      .update(giftCards)
+      .set({ balance: '0.00', status: 'cancelled', updatedAt: new Date() })
+      .where(eq(giftCards.id, giftCard.id));
+    await executor.insert(giftCardTransactions).values({
+      giftCardId: giftCard.id,
+      type: 'void',
+      amount: money(-balance),
+      balanceAfter: '0.00',
+    });
+  }
+}
+
+export const giftCardService = new GiftCardService();
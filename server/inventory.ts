@@ -0,0 +1,344 @@
+import { db } from './db';
+import {
+  orderItems,
+  productOrders,
+  products,
+  shoppingCart,
+  stockReservations,
+  users,
+  type Product,
+} from '@shared/schema';
+import { eq, and, gt, lte, inArray, isNull, sql } from 'drizzle-orm';
+import { notificationService } from './notification-service';
+import type { Transaction, Executor } from './booking-engine';
+
+// How long stock stays held for a shopper who has started paying
+export const RESERVATION_MINUTES = 15;
+
+export interface StockLine {
+  productId: number;
+  quantity: number;
+}
+
+// A held line with the unit price it was charged at; null for holds made before prices were kept
+export interface ReservedLine extends StockLine {
+  price: number | null;
+}
+
+export interface StockReservationResult {
+  expiresAt: Date;
+  lines: StockLine[];
+}
+
+type LowStockProduct = Pick<Product, 'id' | 'name' | 'stockQuantity' | 'lowStockThreshold'>;
+
+// Merge repeated products so each is checked and reserved once
+const combineLines = (items: StockLine[]): StockLine[] => {
+  const quantities = new Map<number, number>();
+  for (const item of items) {
+    const quantity = Number(item.quantity) || 0;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error('Quantities must be whole numbers of at least 1');
+    }
+    quantities.set(Number(item.productId), (quantities.get(Number(item.productId)) ?? 0) + quantity);
+  }
+  return Array.from(quantities.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([productId, quantity]) => ({ productId, quantity }));
+};
+
+const sameLines = (a: StockLine[], b: StockLine[]) => {
+  const left = combineLines(a);
+  const right = combineLines(b);
+  return left.length === right.length
+    && left.every((line, i) => line.productId === right[i].productId && line.quantity === right[i].quantity);
+};
+
+const isLow = (product: Pick<Product, 'stockQuantity' | 'lowStockThreshold'>) => (product.stockQuantity ?? 0) <= (product.lowStockThreshold ?? 0);
+
+export class InventoryService {
+
+  // Stock that isn't held for another shopper's pending payment
+  async getAvailable(productIds: number[], excludeUserId?: string, executor: Executor = db): Promise<Map<number, number>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const stock = await executor
+      .select({ id: products.id, stockQuantity: products.stockQuantity })
+      .from(products)
+      .where(inArray(products.id, productIds));
+
+    const held = await executor
+      .select({
+        productId: stockReservations.productId,
+        quantity: sql<number>`coalesce(sum(${stockReservations.quantity}), 0)::int`,
+      })
+      .from(stockReservations)
+      .where(and(
+        inArray(stockReservations.productId, productIds),
+        eq(stockReservations.status, 'active'),
+        gt(stockReservations.expiresAt, new Date()),
+        excludeUserId ? sql`${stockReservations.userId} <> ${excludeUserId}` : undefined
+      ))
+      .groupBy(stockReservations.productId);
+
+    const heldByProduct = new Map(held.map(row => [row.productId, Number(row.quantity)]));
+    return new Map(stock.map(row => [row.id, Math.max(0, (row.stockQuantity ?? 0) - (heldByProduct.get(row.id) ?? 0))]));
+  }
+
+  // Check a cart change against what's available. With replace unset, quantity is added to what
+  // is already in the cart.
+  async checkCart(userId: string, productId: number, quantity: number, replace = false): Promise<void> {
+    const [product] = await db.select().from(products).where(eq(products.id, productId));
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    if (!product.inStock) {
+      throw new Error(`${product.name} is out of stock`);
+    }
+
+    const [inCart] = await db
+      .select({ quantity: shoppingCart.quantity })
+      .from(shoppingCart)
+      .where(and(eq(shoppingCart.userId, userId), eq(shoppingCart.productId, productId)));
+    const wanted = replace ? quantity : (inCart?.quantity ?? 0) + quantity;
+
+    const available = (await this.getAvailable([productId], userId)).get(productId) ?? 0;
+    if (wanted > available) {
+      throw new Error(available > 0 ? `Only ${available} of ${product.name} left` : `${product.name} is out of stock`);
+    }
+  }
+
+  // Hold stock for a shopper while they pay. Any earlier hold of theirs is replaced, since each
+  // checkout attempt covers the whole cart. Items are the priced checkout lines, so the order can
+  // later be written at exactly the prices that were charged.
+  async reserve(userId: string, items: (StockLine & { price: number })[]): Promise<StockReservationResult> {
+    const lines = combineLines(items);
+    const productIds = lines.map(line => line.productId);
+
+    return await db.transaction(async (tx) => {
+      // Locked in id order so concurrent checkouts for overlapping carts can't deadlock
+      await tx.execute(sql`SELECT ${products.id} FROM ${products} WHERE ${inArray(products.id, productIds)} ORDER BY ${products.id} FOR UPDATE`);
+
+      await this.releaseForUser(userId, tx);
+
+      const catalogue = await tx.select().from(products).where(inArray(products.id, productIds));
+      const available = await this.getAvailable(productIds, userId, tx);
+      for (const line of lines) {
+        const product = catalogue.find(p => p.id === line.productId);
+        if (!product) {
+          throw new Error('Product not found');
+        }
+        const left = product.inStock ? available.get(line.productId) ?? 0 : 0;
+        if (line.quantity > left) {
+          throw new Error(left > 0 ? `Only ${left} of ${product.name} left` : `${product.name} is out of stock`);
+        }
+      }
+
+      const expiresAt = new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000);
+      const priceOf = new Map(items.map(item => [Number(item.productId), item.price]));
+      await tx.insert(stockReservations).values(lines.map(line => ({
+        ...line,
+        price: priceOf.get(line.productId)?.toFixed(2),
+        userId,
+        expiresAt,
+      })));
+      return { expiresAt, lines };
+    });
+  }
+
+  async attachPaymentIntent(userId: string, paymentIntentId: string): Promise<void> {
+    await db
+      .update(stockReservations)
+      .set({ paymentIntentId })
+      .where(and(eq(stockReservations.userId, userId), eq(stockReservations.status, 'active')));
+  }
+
+  // What was held for a payment, whether or not the hold is still active, at the prices checkout
+  // charged for it. These lines are exactly what the payment covers.
+  async getReservedLines(paymentIntentId: string, executor: Executor = db): Promise<ReservedLine[]> {
+    const held = await executor
+      .select({ productId: stockReservations.productId, quantity: stockReservations.quantity, price: stockReservations.price })
+      .from(stockReservations)
+      .where(eq(stockReservations.paymentIntentId, paymentIntentId));
+    if (!held.length) {
+      return [];
+    }
+    const priceOf = new Map(held.map(line => [line.productId, line.price === null ? null : parseFloat(line.price)]));
+    return combineLines(held).map(line => ({ ...line, price: priceOf.get(line.productId) ?? null }));
+  }
+
+  // Whether an order's items are the ones held; malformed items never match
+  matchesReservation(items: StockLine[], reserved: StockLine[]): boolean {
+    try {
+      return sameLines(items, reserved);
+    } catch {
+      return false;
+    }
+  }
+
+  // Let go of the stock held for a payment that won't become an order
+  async releaseForPayment(paymentIntentId: string, executor: Executor = db): Promise<void> {
+    await executor
+      .update(stockReservations)
+      .set({ status: 'released' })
+      .where(and(eq(stockReservations.paymentIntentId, paymentIntentId), eq(stockReservations.status, 'active')));
+  }
+
+  async releaseForUser(userId: string, executor: Executor = db): Promise<void> {
+    await executor
+      .update(stockReservations)
+      .set({ status: 'released' })
+      .where(and(eq(stockReservations.userId, userId), eq(stockReservations.status, 'active')));
+  }
+
+  // Take a paid order's items out of stock. Safe to call from both the webhook and the order
+  // route: only the first call for an order changes anything. The order must be for exactly the
+  // stock held for its payment; an order that doesn't match is refused and nothing is taken.
+  async commitOrder(orderId: number, tx?: Transaction): Promise<void> {
+    const lowStock = tx
+      ? await this.applyCommit(orderId, tx)
+      : await db.transaction(async (inner) => await this.applyCommit(orderId, inner));
+
+    if (lowStock.length > 0) {
+      this.alertLowStock(lowStock).catch(error => {
+        console.error('Error sending low stock alerts:', error);
+      });
+    }
+  }
+
+  private async applyCommit(orderId: number, tx: Transaction): Promise<LowStockProduct[]> {
+    const [order] = await tx
+      .update(productOrders)
+      .set({ stockStatus: 'committed', updatedAt: new Date() })
+      .where(and(eq(productOrders.id, orderId), eq(productOrders.stockStatus, 'none')))
+      .returning();
+    if (!order) {
+      return [];
+    }
+
+    const lines = combineLines(await tx
+      .select({ productId: orderItems.productId, quantity: orderItems.quantity })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId)));
+
+    // Card orders are bound to their payment's hold; gift card orders to the hold made just before them
+    const holdCondition = order.stripePaymentIntentId
+      ? eq(stockReservations.paymentIntentId, order.stripePaymentIntentId)
+      : and(eq(stockReservations.userId, order.userId), eq(stockReservations.status, 'active'), isNull(stockReservations.paymentIntentId));
+    const held = await tx
+      .select({ productId: stockReservations.productId, quantity: stockReservations.quantity })
+      .from(stockReservations)
+      .where(holdCondition);
+    if (held.length && !sameLines(lines, held)) {
+      throw new Error(`Order ${orderId} does not match the stock held for its payment`);
+    }
+
+    const lowStock: LowStockProduct[] = [];
+    for (const line of lines) {
+      // Reservations should leave enough stock; if one lapsed and the product sold out meanwhile,
+      // stock stops at zero and the oversell is logged for the shop team
+      const [before] = await tx
+        .select({ stockQuantity: products.stockQuantity, lowStockThreshold: products.lowStockThreshold })
+        .from(products)
+        .where(eq(products.id, line.productId));
+      if ((before?.stockQuantity ?? 0) < line.quantity) {
+        console.warn(`Order ${orderId} takes ${line.quantity} of product ${line.productId} but only ${before?.stockQuantity ?? 0} are in stock`);
+      }
+
+      const [updated] = await tx
+        .update(products)
+        .set({
+          stockQuantity: sql`GREATEST(${products.stockQuantity} - ${line.quantity}, 0)`,
+          inStock: sql`${products.stockQuantity} - ${line.quantity} > 0`,
+          updatedAt: new Date(),
+        })
+        .where(eq(products.id, line.productId))
+        .returning();
+
+      // Alert once, when the product first drops to its threshold
+      if (updated && isLow(updated) && before && !isLow(before)) {
+        lowStock.push(updated);
+      }
+    }
+
+    await tx
+      .update(stockReservations)
+      .set({ status: 'committed', orderId })
+      .where(and(holdCondition, eq(stockReservations.status, 'active')));
+
+    return lowStock;
+  }
+
+  // Put a cancelled or refunded order's items back in stock. Only orders that were taken out of
+  // stock are restored, and only once.
+  async restoreOrder(orderId: number, executor: Executor = db): Promise<void> {
+    const [order] = await executor
+      .update(productOrders)
+      .set({ stockStatus: 'restored', updatedAt: new Date() })
+      .where(and(eq(productOrders.id, orderId), eq(productOrders.stockStatus, 'committed')))
+      .returning();
+    if (!order) return;
+
+    await this.restoreItems(await executor
+      .select({ productId: orderItems.productId, quantity: orderItems.quantity })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId)), executor);
+  }
+
+  // Put individual items back in stock, e.g. from an approved return
+  async restoreItems(items: StockLine[], executor: Executor = db): Promise<void> {
+    for (const line of combineLines(items)) {
+      await this.adjustStock(line.productId, line.quantity, executor);
+    }
+  }
+
+  // Admin restock
+  async restock(productId: number, quantity: number): Promise<Product> {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error('Restock quantity must be a whole number of at least 1');
+    }
+    const product = await this.adjustStock(productId, quantity);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    return product;
+  }
+
+  private async adjustStock(productId: number, quantity: number, executor: Executor = db): Promise<Product | undefined> {
+    const [product] = await executor
+      .update(products)
+      .set({
+        stockQuantity: sql`${products.stockQuantity} + ${quantity}`,
+        inStock: sql`${products.stockQuantity} + ${quantity} > 0`,
+        updatedAt: new Date(),
+      })
+      .where(eq(products.id, productId))
+      .returning();
+    return product;
+  }
+
+  async getLowStock(): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .where(lte(products.stockQuantity, products.lowStockThreshold))
+      .orderBy(products.stockQuantity);
+  }
+
+  private async alertLowStock(lowStock: LowStockProduct[]): Promise<void> {
+    const admins = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(inArray(users.role, ['admin', 'super_admin']));
+
+    for (const product of lowStock) {
+      for (const admin of admins) {
+        await notificationService.triggerLowStock(admin.id, product.id, product.name, product.stockQuantity ?? 0);
+      }
+    }
+  }
+}
+
+export const inventory = new InventoryService();
@@ -0,0 +1,366 @@
+import { db } from './db';
+import {
+  bookings,
+  jobRequests,
+  professionals,
+  providerBids,
+  services,
+  type Booking,
+  type JobRequest,
+  type Professional,
+  type ProviderBid,
+} from '@shared/schema';
+import { eq, and, ne, or, gt, lte, isNull, inArray, notInArray, desc, sql, getTableColumns } from 'drizzle-orm';
+import { bookingEngine } from './booking-engine';
+import { notificationService } from './notification-service';
+import { distanceMilesSql, DEFAULT_MAX_TRAVEL_MILES } from './geo';
+
+// Calendar time blocked for a job when the winning bid doesn't say how long it takes
+export const DEFAULT_JOB_DURATION_MINUTES = 60;
+
+// How often open jobs past their expiry are closed
+const EXPIRY_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// Most providers told about a single new job
+const MAX_JOB_MATCH_NOTIFICATIONS = 20;
+
+// Newest jobs a provider's feed is ranked from, after SQL narrows them to the provider's categories and reach.
+// Paging past this many returns nothing; older jobs drop out of the feed as new ones are posted.
+const MAX_FEED_CANDIDATES = 200;
+
+// Weight of each signal in the 0-100 match score
+const MATCH_WEIGHTS = {
+  category: 40,
+  distance: 25,
+  urgency: 15,
+  budget: 10,
+  homeVisit: 10,
+};
+
+const URGENCY_SCORES: Record<string, number> = {
+  urgent: 1,
+  normal: 0.6,
+  flexible: 0.3,
+};
+
+export interface JobMatch {
+  score: number;
+  reasons: string[];
+}
+
+export type JobFeedItem = JobRequest & { distanceMiles: number | null; matchScore: number; matchReasons: string[] };
+
+const categoryMatches = (category: string, specialties: string[]) => {
+  const wanted = category.toLowerCase();
+  return specialties.some(specialty => {
+    const offered = specialty.toLowerCase();
+    return offered.includes(wanted) || wanted.includes(offered);
+  });
+};
+
+// Score how well a job suits a provider, or null when the provider can't take it at all
+const scoreMatch = (
+  job: JobRequest,
+  professional: Professional,
+  minServicePrice: number | null,
+  distanceMiles: number | null
+): JobMatch | null => {
+  if (job.homeVisitRequired && !professional.offersHomeVisits) {
+    return null;
+  }
+
+  // Home visits are limited by how far the provider travels, salon visits by the area they serve
+  const reach = job.homeVisitRequired
+    ? professional.maxTravelDistance ?? DEFAULT_MAX_TRAVEL_MILES
+    : professional.availabilityRadius ?? DEFAULT_MAX_TRAVEL_MILES;
+  if (distanceMiles !== null && distanceMiles > reach) {
+    return null;
+  }
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (categoryMatches(job.serviceCategory, professional.specialties || [])) {
+    score += MATCH_WEIGHTS.category;
+    reasons.push(`Matches your ${job.serviceCategory} specialty`);
+  }
+
+  if (distanceMiles === null) {
+    score += MATCH_WEIGHTS.distance / 2;
+  } else {
+    score += MATCH_WEIGHTS.distance * (1 - distanceMiles / Math.max(reach, 1));
+    reasons.push(`${distanceMiles.toFixed(1)} miles away`);
+  }
+
+  if (job.homeVisitRequired) {
+    score += MATCH_WEIGHTS.homeVisit;
+    reasons.push('Home visit you can cover');
+  } else {
+    score += MATCH_WEIGHTS.homeVisit / 2;
+  }
+
+  score += MATCH_WEIGHTS.urgency * (URGENCY_SCORES[job.urgency || 'normal'] ?? URGENCY_SCORES.normal);
+  if (job.urgency === 'urgent') {
+    reasons.push('Urgent request');
+  }
+
+  if (job.budget === null || minServicePrice === null) {
+    score += MATCH_WEIGHTS.budget / 2;
+  } else {
+    const budget = parseFloat(job.budget);
+    score += MATCH_WEIGHTS.budget * Math.min(1, budget / Math.max(minServicePrice, 1));
+    if (budget >= minServicePrice) {
+      reasons.push('Budget fits your prices');
+    }
+  }
+
+  return { score: Math.round(score), reasons };
+};
+
+export class JobMarketplaceService {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  // Award the job to one bid: accept it, decline the rest and book the provider at the bid amount.
+  // Accepting the bid that already won returns its booking, so a client whose payment step
+  // failed can pick up where they left off.
+  async acceptBid(job: JobRequest, bid: ProviderBid, appointmentDate: Date): Promise<Booking> {
+    if (job.status === 'assigned' && job.bookingId && bid.status === 'accepted') {
+      const [existing] = await db.select().from(bookings).where(eq(bookings.id, job.bookingId));
+      if (existing) return existing;
+    }
+
+    const now = new Date();
+    if (appointmentDate <= now) {
+      throw new Error('The appointment must be in the future');
+    }
+
+    const duration = bid.proposedDuration || DEFAULT_JOB_DURATION_MINUTES;
+
+    const booking = await bookingEngine.withProfessionalLock(bid.professionalId, async (tx) => {
+      // Claiming the job first means two acceptances for the same job can't both succeed
+      const [assigned] = await tx
+        .update(jobRequests)
+        .set({ status: 'assigned', selectedProviderId: bid.professionalId, updatedAt: now })
+        .where(and(
+          eq(jobRequests.id, job.id),
+          eq(jobRequests.status, 'open'),
+          or(isNull(jobRequests.expiresAt), gt(jobRequests.expiresAt, now))
+        ))
+        .returning();
+      if (!assigned) {
+        throw new Error('This job is no longer open for bids');
+      }
+
+      const [accepted] = await tx
+        .update(providerBids)
+        .set({ status: 'accepted' })
+        .where(and(eq(providerBids.id, bid.id), eq(providerBids.status, 'pending')))
+        .returning();
+      if (!accepted) {
+        throw new Error('This bid can no longer be accepted');
+      }
+
+      await tx
+        .update(providerBids)
+        .set({ status: 'declined' })
+        .where(and(
+          eq(providerBids.jobRequestId, job.id),
+          ne(providerBids.id, bid.id),
+          eq(providerBids.status, 'pending')
+        ));
+
+      // The time was agreed in the bid, so only clashes with other bookings block it
+      await bookingEngine.assertNoOverlap(bid.professionalId, appointmentDate, duration, tx);
+
+      const [newBooking] = await tx
+        .insert(bookings)
+        .values({
+          clientId: job.clientId,
+          professionalId: bid.professionalId,
+          serviceIds: [],
+          appointmentDate,
+          duration,
+          status: 'pending',
+          serviceLocation: job.preferredLocation,
+          totalPrice: bid.bidAmount,
+          basePrice: bid.bidAmount,
+          notes: `Job request: ${job.title}`,
+        })
+        .returning();
+
+      await tx
+        .update(jobRequests)
+        .set({ bookingId: newBooking.id })
+        .where(eq(jobRequests.id, job.id));
+      return newBooking;
+    });
+
+    try {
+      await this.notifyBidders(job, bid, appointmentDate);
+    } catch (error) {
+      console.error('Error notifying bidders:', error);
+    }
+
+    return booking;
+  }
+
+  // Tell the winner their bid was accepted and everyone else that the job went elsewhere
+  private async notifyBidders(job: JobRequest, winningBid: ProviderBid, appointmentDate: Date): Promise<void> {
+    const bidders = await db
+      .select({ bidId: providerBids.id, userId: professionals.userId })
+      .from(providerBids)
+      .innerJoin(professionals, eq(providerBids.professionalId, professionals.id))
+      .where(eq(providerBids.jobRequestId, job.id));
+
+    for (const bidder of bidders) {
+      if (bidder.bidId === winningBid.id) {
+        await notificationService.triggerBidAccepted(bidder.userId, job.id, job.title, appointmentDate);
+      } else {
+        await notificationService.triggerBidDeclined(bidder.userId, job.id, job.title);
+      }
+    }
+  }
+
+  // Close open jobs past their expiry and decline the bids still waiting on them
+  async closeExpiredJobs(): Promise<JobRequest[]> {
+    return await db.transaction(async (tx) => {
+      const expired = await tx
+        .update(jobRequests)
+        .set({ status: 'expired', updatedAt: new Date() })
+        .where(and(eq(jobRequests.status, 'open'), lte(jobRequests.expiresAt, new Date())))
+        .returning();
+
+      if (expired.length) {
+        await tx
+          .update(providerBids)
+          .set({ status: 'declined' })
+          .where(and(
+            inArray(providerBids.jobRequestId, expired.map(job => job.id)),
+            eq(providerBids.status, 'pending')
+          ));
+      }
+
+      return expired;
+    });
+  }
+
+  // Cheapest active service per provider, used to judge whether a job's budget is realistic
+  private async getMinServicePrices(professionalIds: number[]): Promise<Map<number, number>> {
+    if (!professionalIds.length) {
+      return new Map();
+    }
+
+    const rows = await db
+      .select({
+        professionalId: services.professionalId,
+        minPrice: sql<number>`min(${services.price})`.mapWith(Number),
+      })
+      .from(services)
+      .where(and(eq(services.isActive, true), inArray(services.professionalId, professionalIds)))
+      .groupBy(services.professionalId);
+
+    return new Map(rows.map(row => [row.professionalId, row.minPrice]));
+  }
+
+  // Open jobs the provider can take and hasn't bid on yet, best matches first
+  async getProviderFeed(professional: Professional, limit = 20, offset = 0): Promise<JobFeedItem[]> {
+    const now = new Date();
+    const distanceMiles = professional.latitude && professional.longitude
+      ? distanceMilesSql(jobRequests.latitude, jobRequests.longitude, parseFloat(professional.latitude), parseFloat(professional.longitude))
+      : sql<number | null>`NULL::float8`;
+
+    const biddedJobs = db
+      .select({ jobRequestId: providerBids.jobRequestId })
+      .from(providerBids)
+      .where(eq(providerBids.professionalId, professional.id));
+
+    // The same category and reach rules as scoreMatch, so only jobs it can accept are loaded.
+    // Providers without specialties see every category.
+    const specialties = (professional.specialties || []).filter(Boolean);
+    const category = sql`lower(${jobRequests.serviceCategory})`;
+    const inCategory = specialties.length
+      ? or(...specialties.map(specialty =>
+          sql`(position(lower(${specialty}) in ${category}) > 0 or position(${category} in lower(${specialty})) > 0)`
+        ))
+      : undefined;
+
+    const travelReach = professional.maxTravelDistance ?? DEFAULT_MAX_TRAVEL_MILES;
+    const serviceReach = professional.availabilityRadius ?? DEFAULT_MAX_TRAVEL_MILES;
+    const homeVisitsInReach = professional.offersHomeVisits
+      ? sql`(${distanceMiles} is null or ${distanceMiles} <= ${travelReach})`
+      : sql`false`;
+    const inReach = sql`case when ${jobRequests.homeVisitRequired} then ${homeVisitsInReach}
+      else (${distanceMiles} is null or ${distanceMiles} <= ${serviceReach}) end`;
+
+    const jobs = await db
+      .select({ ...getTableColumns(jobRequests), distanceMiles })
+      .from(jobRequests)
+      .where(and(
+        eq(jobRequests.status, 'open'),
+        or(isNull(jobRequests.expiresAt), gt(jobRequests.expiresAt, now)),
+        ne(jobRequests.clientId, professional.userId),
+        notInArray(jobRequests.id, biddedJobs),
+        inCategory,
+        inReach
+      ))
+      .orderBy(desc(jobRequests.createdAt))
+      .limit(MAX_FEED_CANDIDATES);
+
+    const minPrice = (await this.getMinServicePrices([professional.id])).get(professional.id) ?? null;
+
+    const feed: JobFeedItem[] = [];
+    for (const job of jobs) {
+      const match = scoreMatch(job, professional, minPrice, job.distanceMiles);
+      if (match) {
+        feed.push({ ...job, matchScore: match.score, matchReasons: match.reasons });
+      }
+    }
+
+    feed.sort((a, b) => b.matchScore - a.matchScore || b.createdAt!.getTime() - a.createdAt!.getTime());
+    return feed.slice(offset, offset + limit);
+  }
+
+  // Tell the best-suited providers about a newly posted job. Only providers whose
+  // specialties cover the job's category count as a match.
+  async notifyMatchingProviders(job: JobRequest, clientName: string): Promise<number> {
+    const distanceMiles = job.latitude && job.longitude
+      ? distanceMilesSql(professionals.latitude, professionals.longitude, parseFloat(job.latitude), parseFloat(job.longitude))
+      : sql<number | null>`NULL::float8`;
+
+    const candidates = await db
+      .select({ ...getTableColumns(professionals), distanceMiles })
+      .from(professionals)
+      .where(and(eq(professionals.isActive, true), ne(professionals.userId, job.clientId)));
+
+    const matching = candidates.filter(candidate => categoryMatches(job.serviceCategory, candidate.specialties || []));
+    const minPrices = await this.getMinServicePrices(matching.map(candidate => candidate.id));
+
+    const ranked = matching
+      .map(candidate => ({
+        candidate,
+        match: scoreMatch(job, candidate, minPrices.get(candidate.id) ?? null, candidate.distanceMiles),
+      }))
+      .filter((entry): entry is { candidate: typeof entry.candidate; match: JobMatch } => entry.match !== null)
+      .sort((a, b) => b.match.score - a.match.score)
+      .slice(0, MAX_JOB_MATCH_NOTIFICATIONS);
+
+    for (const { candidate } of ranked) {
+      await notificationService.triggerJobMatch(candidate.userId, job.id, clientName);
+    }
+    return ranked.length;
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(async () => {
+      try {
+        await this.closeExpiredJobs();
+      } catch (error) {
+        console.error('Error closing expired job requests:', error);
+      }
+    }, EXPIRY_SWEEP_INTERVAL_MS);
+  }
+}
+
+export const jobMarketplace = new JobMarketplaceService();
@@ -0,0 +1,160 @@
+import { db } from './db';
+import {
+  anonymousChannels,
+  anonymousMessages,
+  conversations,
+  messages,
+  professionals,
+  type AnonymousMessage,
+  type Message,
+} from '@shared/schema';
+import { eq, and, ne, lte } from 'drizzle-orm';
+import { realtime, type RealtimeEvent } from './realtime';
+
+// Who can see an anonymous channel. Events on it carry the sender's side, never a user id.
+interface ChannelParties {
+  clientId: string;
+  providerUserId: string;
+}
+
+type SenderType = 'client' | 'provider';
+
+export class MessagingService {
+
+  async getConversationParticipants(conversationId: number): Promise<string[]> {
+    const [conversation] = await db
+      .select({ participantOneId: conversations.participantOneId, participantTwoId: conversations.participantTwoId })
+      .from(conversations)
+      .where(eq(conversations.id, conversationId));
+    return conversation ? [conversation.participantOneId, conversation.participantTwoId] : [];
+  }
+
+  async getChannelParties(channelCode: string): Promise<ChannelParties | null> {
+    const [channel] = await db
+      .select({ clientId: anonymousChannels.clientId, providerUserId: professionals.userId })
+      .from(anonymousChannels)
+      .innerJoin(professionals, eq(anonymousChannels.providerId, professionals.id))
+      .where(eq(anonymousChannels.channelCode, channelCode));
+    return channel ?? null;
+  }
+
+  // Which side of an anonymous channel a user is on; null for anyone else
+  async getChannelSide(channelCode: string, userId: string): Promise<SenderType | null> {
+    const parties = await this.getChannelParties(channelCode);
+    return parties && this.sideOf(parties, userId);
+  }
+
+  // Push a message to every open tab of both participants, the sender's other tabs included
+  async publishMessage(message: Message): Promise<void> {
+    const participants = await this.getConversationParticipants(message.conversationId);
+    this.sendTo(participants, { type: 'message', conversationId: message.conversationId, message });
+  }
+
+  async publishAnonymousMessage(message: AnonymousMessage): Promise<void> {
+    const parties = await this.getChannelParties(message.channelCode);
+    if (!parties) return;
+    this.sendTo([parties.clientId, parties.providerUserId], { type: 'anonymous_message', channelCode: message.channelCode, message });
+  }
+
+  // Mark the other participant's messages read, up to a message if given, and send them the receipt
+  async markConversationRead(conversationId: number, userId: string, upToMessageId?: number): Promise<number[]> {
+    const participants = await this.getConversationParticipants(conversationId);
+    if (!participants.includes(userId)) {
+      throw new Error('You are not part of this conversation');
+    }
+
+    const conditions = [
+      eq(messages.conversationId, conversationId),
+      ne(messages.senderId, userId),
+      eq(messages.isRead, false),
+    ];
+    if (upToMessageId) {
+      conditions.push(lte(messages.id, upToMessageId));
+    }
+
+    const read = await db
+      .update(messages)
+      .set({ isRead: true })
+      .where(and(...conditions))
+      .returning({ id: messages.id });
+
+    if (read.length) {
+      this.sendTo(participants, { type: 'read', conversationId, messageIds: read.map(message => message.id), readBy: userId });
+    }
+    return read.map(message => message.id);
+  }
+
+  async markChannelRead(channelCode: string, userId: string): Promise<number[]> {
+    const parties = await this.getChannelParties(channelCode);
+    const side = parties && this.sideOf(parties, userId);
+    if (!parties || !side) {
+      throw new Error('You are not part of this conversation');
+    }
+
+    const read = await db
+      .update(anonymousMessages)
+      .set({ isRead: true })
+      .where(and(
+        eq(anonymousMessages.channelCode, channelCode),
+        ne(anonymousMessages.senderType, side),
+        eq(anonymousMessages.isRead, false)
+      ))
+      .returning({ id: anonymousMessages.id });
+
+    if (read.length) {
+      this.sendTo([parties.clientId, parties.providerUserId], {
+        type: 'anonymous_read',
+        channelCode,
+        messageIds: read.map(message => message.id),
+        readBy: side,
+      });
+    }
+    return read.map(message => message.id);
+  }
+
+  // Typing indicators aren't stored; they go to whoever is connected right now
+  async typing(userId: string, event: RealtimeEvent): Promise<void> {
+    const isTyping = Boolean(event.isTyping);
+
+    if (typeof event.channelCode === 'string') {
+      const parties = await this.getChannelParties(event.channelCode);
+      const side = parties && this.sideOf(parties, userId);
+      if (!parties || !side) {
+        throw new Error('You are not part of this conversation');
+      }
+      const other = side === 'client' ? parties.providerUserId : parties.clientId;
+      this.sendTo([other], { type: 'anonymous_typing', channelCode: event.channelCode, senderType: side, isTyping });
+      return;
+    }
+
+    const conversationId = Number(event.conversationId);
+    const participants = await this.getConversationParticipants(conversationId);
+    if (!participants.includes(userId)) {
+      throw new Error('You are not part of this conversation');
+    }
+    this.sendTo(participants.filter(id => id !== userId), { type: 'typing', conversationId, userId, isTyping });
+  }
+
+  start(): void {
+    realtime.on('typing', (userId, event) => this.typing(userId, event));
+    realtime.on('read', async (userId, event) => {
+      if (typeof event.channelCode === 'string') {
+        await this.markChannelRead(event.channelCode, userId);
+      } else {
+        await this.markConversationRead(Number(event.conversationId), userId, Number(event.upToMessageId) || undefined);
+      }
+    });
+  }
+
+  private sideOf(parties: ChannelParties, userId: string): SenderType | null {
+    if (parties.clientId === userId) return 'client';
+    if (parties.providerUserId === userId) return 'provider';
+    return null;
+  }
+
+  private sendTo(userIds: string[], event: RealtimeEvent): void {
+    new Set(userIds).forEach(userId => realtime.sendToUser(userId, event));
+  }
+}
+
+export const messaging = new MessagingService();
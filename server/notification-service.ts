@@ -262,6 +262,27 @@ export class SmartNotificationService {
     return await this.createFromTemplate('job_match', providerId, variables);
   }
 
+  async triggerBidAccepted(providerId: string, jobId: string, jobTitle: string, appointmentTime: Date) {
+    const variables = {
+      jobId,
+      jobTitle,
+      appointmentTime: appointmentTime.toLocaleString(),
+      actionUrl: '/dashboard?tab=bookings',
+    };
+
+    return await this.createFromTemplate('bid_accepted', providerId, variables);
+  }
+
+  async triggerBidDeclined(providerId: string, jobId: string, jobTitle: string) {
+    const variables = {
+      jobId,
+      jobTitle,
+      actionUrl: '/jobs',
+    };
+
+    return await this.createFromTemplate('bid_declined', providerId, variables);
+  }
+
   async triggerTokenExpiry(providerId: string, expiryDate: Date) {
     const variables = {
       expiryDate: expiryDate.toLocaleDateString(),
@@ -281,6 +302,95 @@ export class SmartNotificationService {
     return await this.createFromTemplate('review_request', providerId, variables);
   }
 
+  async triggerWaitlistOffer(clientId: string, waitlistId: string, professionalId: number, appointmentTime: Date, holdExpiresAt: Date) {
+    const variables = {
+      waitlistId,
+      professionalId,
+      appointmentTime: appointmentTime.toLocaleString(),
+      holdExpiresAt: holdExpiresAt.toLocaleTimeString(),
+      actionUrl: `/advanced-booking/${professionalId}`,
+    };
+
+    return await this.createFromTemplate('waitlist_offer', clientId, variables);
+  }
+
+  async triggerBookingCancelled(userId: string, bookingId: string, appointmentTime: Date, outcome: string) {
+    const variables = {
+      bookingId,
+      appointmentTime: appointmentTime.toLocaleString(),
+      outcome,
+      actionUrl: `/booking/${bookingId}`,
+    };
+
+    return await this.createFromTemplate('booking_cancelled', userId, variables);
+  }
+
+  async triggerDisputeUpdate(userId: string, disputeId: string, detail: string) {
+    const variables = {
+      disputeId,
+      detail,
+      actionUrl: '/phase-3-payment-payout',
+    };
+
+    return await this.createFromTemplate('dispute_update', userId, variables);
+  }
+
+  // Queue an email on the automated delivery pipeline; the recipient doesn't need an account
+  async queueEmail(type: string, recipientEmail: string, metadata: Record<string, any>) {
+    return await storage.createAutomatedNotification({
+      type,
+      templateId: type,
+      recipientId: recipientEmail,
+      recipientType: 'client',
+      scheduledFor: new Date(),
+      channels: ['email'],
+      metadata,
+    });
+  }
+
+  async triggerGiftCardReceived(userId: string, giftCardId: number, amount: number, senderName: string) {
+    const variables = {
+      giftCardId,
+      amount: amount.toFixed(2),
+      senderName,
+      actionUrl: '/gift-cards',
+    };
+
+    return await this.createFromTemplate('gift_card_received', userId, variables);
+  }
+
+  async triggerOrderUpdate(userId: string, orderId: number, orderNumber: string, detail: string) {
+    const variables = {
+      orderId,
+      orderNumber,
+      detail,
+      actionUrl: `/orders/${orderId}`,
+    };
+
+    return await this.createFromTemplate('order_update', userId, variables);
+  }
+
+  async triggerLowStock(adminId: string, productId: number, productName: string, stockQuantity: number) {
+    const variables = {
+      productId,
+      productName,
+      stockQuantity,
+      actionUrl: '/super-admin',
+    };
+
+    return await this.createFromTemplate('low_stock', adminId, variables);
+  }
+
+  async triggerAffiliateCommission(userId: string, orderNumber: string, amount: number) {
+    const variables = {
+      orderNumber,
+      amount: amount.toFixed(2),
+      actionUrl: '/dashboard',
+    };
+
+    return await this.createFromTemplate('affiliate_commission', userId, variables);
+  }
+
   // Initialize default notification templates
   async initializeTemplates() {
     const defaultTemplates: NotificationTemplate[] = [
@@ -314,6 +424,26 @@ export class SmartNotificationService {
         actionUrl: '/jobs/{jobId}',
         priority: 'normal',
       },
+      {
+        key: 'bid_accepted',
+        category: 'business',
+        title: 'Your Bid Was Accepted',
+        message: 'Your bid on "{jobTitle}" was accepted. The appointment is booked for {appointmentTime}.',
+        variables: ['jobTitle', 'appointmentTime'],
+        actionText: 'View Booking',
+        actionUrl: '/dashboard?tab=bookings',
+        priority: 'high',
+      },
+      {
+        key: 'bid_declined',
+        category: 'business',
+        title: 'Job Awarded to Another Provider',
+        message: 'The client chose another provider for "{jobTitle}". Keep bidding on new jobs near you.',
+        variables: ['jobTitle'],
+        actionText: 'Browse Jobs',
+        actionUrl: '/jobs',
+        priority: 'low',
+      },
       {
         key: 'token_expiry',
         category: 'business',
@@ -343,6 +473,76 @@ export class SmartNotificationService {
         actionUrl: '/onboarding/provider',
         priority: 'high',
       },
+      {
+        key: 'waitlist_offer',
+        category: 'booking',
+        title: 'A Spot Just Opened Up',
+        message: 'An appointment on {appointmentTime} is being held for you until {holdExpiresAt}. Claim it before it goes to the next person on the waitlist.',
+        variables: ['appointmentTime', 'holdExpiresAt', 'professionalId'],
+        actionText: 'Claim Spot',
+        actionUrl: '/advanced-booking/{professionalId}',
+        priority: 'urgent',
+      },
+      {
+        key: 'booking_cancelled',
+        category: 'booking',
+        title: 'Appointment Cancelled',
+        message: 'The appointment on {appointmentTime} was cancelled. {outcome}',
+        variables: ['appointmentTime', 'outcome'],
+        actionText: 'View Booking',
+        actionUrl: '/booking/{bookingId}',
+        priority: 'high',
+      },
+      {
+        key: 'dispute_update',
+        category: 'payment',
+        title: 'Dispute Update',
+        message: '{detail}',
+        variables: ['detail'],
+        actionText: 'View Dispute',
+        actionUrl: '/phase-3-payment-payout',
+        priority: 'high',
+      },
+      {
+        key: 'gift_card_received',
+        category: 'payment',
+        title: 'You Received a Gift Card',
+        message: '{senderName} sent you a ${amount} Byootify gift card. It works with any provider and in the shop.',
+        variables: ['senderName', 'amount'],
+        actionText: 'View Gift Card',
+        actionUrl: '/gift-cards',
+        priority: 'normal',
+      },
+      {
+        key: 'order_update',
+        category: 'system',
+        title: 'Order {orderNumber}',
+        message: '{detail}',
+        variables: ['orderNumber', 'detail'],
+        actionText: 'View Order',
+        actionUrl: '/orders/{orderId}',
+        priority: 'normal',
+      },
+      {
+        key: 'low_stock',
+        category: 'system',
+        title: 'Low Stock',
+        message: '{productName} is down to {stockQuantity} in stock.',
+        variables: ['productName', 'stockQuantity'],
+        actionText: 'Restock',
+        actionUrl: '/super-admin',
+        priority: 'high',
+      },
+      {
+        key: 'affiliate_commission',
+        category: 'business',
+        title: 'Storefront Sale',
+        message: 'Order {orderNumber} came through your storefront. ${amount} commission was added to your earnings.',
+        variables: ['orderNumber', 'amount'],
+        actionText: 'View Earnings',
+        actionUrl: '/dashboard',
+        priority: 'normal',
+      },
       {
         key: 'booking_confirmed',
         category: 'booking',
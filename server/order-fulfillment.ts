@@ -0,0 +1,490 @@
+import type Stripe from 'stripe';
+import { db } from './db';
+import {
+  orderEvents,
+  orderItems,
+  orderShipmentItems,
+  orderShipments,
+  productOrders,
+  products,
+  type OrderEvent,
+  type OrderItem,
+  type OrderShipment,
+  type Product,
+  type ProductOrder,
+} from '@shared/schema';
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm';
+import { stripe } from './stripe';
+import { inventory } from './inventory';
+import { giftCardService } from './gift-cards';
+import { promotions } from './promotions';
+import { storefronts } from './storefronts';
+import { notificationService } from './notification-service';
+import type { Transaction, Executor } from './booking-engine';
+import { shopPricing, type OrderTotals } from './shop-pricing';
+
+export const ORDER_STATUSES = [
+  'pending',
+  'paid',
+  'processing',
+  'partially_shipped',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'refunded',
+] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Shipping states are reached by recording shipments, not set directly
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['processing', 'partially_shipped', 'shipped', 'cancelled'],
+  processing: ['partially_shipped', 'shipped', 'cancelled'],
+  partially_shipped: ['shipped'],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+const MANUAL_STATUSES: OrderStatus[] = ['processing', 'delivered', 'cancelled'];
+
+// What the buyer is told at each step
+const STATUS_MESSAGES: Partial<Record<OrderStatus, string>> = {
+  paid: 'Payment received.',
+  processing: "We're preparing your order.",
+  partially_shipped: 'Part of your order is on its way.',
+  shipped: 'Your order is on its way.',
+  delivered: 'Your order was delivered.',
+  cancelled: 'Your order was cancelled.',
+  refunded: 'Your order was refunded.',
+};
+
+// Raised when a card payment can't be turned into its order; the payment has to be given back
+export class OrderPaymentError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderPaymentError';
+  }
+}
+
+export interface PaidOrderInput {
+  userId: string;
+  paymentIntentId: string;
+  paidAmount: number; // taken by card, in dollars
+  lines: { productId: number; quantity: number; price: number }[];
+  shippingAddress: any;
+  totals: OrderTotals;
+  // Part of the total paid from a gift card
+  giftCard?: { code: string; amount: number };
+}
+
+export interface ShipmentLine {
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface ShipmentInput {
+  carrier: string;
+  trackingNumber: string;
+  // Everything not yet shipped when left out
+  items?: ShipmentLine[];
+}
+
+export type OrderLine = OrderItem & { product: Product; shippedQuantity: number };
+
+export interface OrderShipmentDetail extends OrderShipment {
+  items: { orderItemId: number; quantity: number }[];
+}
+
+export interface OrderDetail extends ProductOrder {
+  items: OrderLine[];
+  shipments: OrderShipmentDetail[];
+  timeline: Pick<OrderEvent, 'status' | 'note' | 'shipmentId' | 'createdAt'>[];
+}
+
+export class OrderFulfillmentService {
+
+  // Add a step to the order's timeline
+  async recordEvent(orderId: number, status: OrderStatus, note: string | null, actorId: string | null, executor: Executor = db, shipmentId?: number): Promise<void> {
+    await executor.insert(orderEvents).values({ orderId, status, note, actorId, shipmentId });
+  }
+
+  // Write the order a card payment paid for, with the payment intent on it from the start, so a
+  // retried confirmation can't create a second order. The gift card part is redeemed in the same
+  // transaction. Returns null if the payment already has its order.
+  async createPaidOrder(input: PaidOrderInput, tx: Transaction): Promise<ProductOrder | null> {
+    const [created] = await tx
+      .insert(productOrders)
+      .values({
+        userId: input.userId,
+        orderNumber: `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
+        totalAmount: input.totals.total.toFixed(2),
+        subtotalAmount: input.totals.subtotal.toFixed(2),
+        shippingAmount: input.totals.shipping.toFixed(2),
+        taxAmount: input.totals.tax.toFixed(2),
+        taxRate: input.totals.taxRate.toFixed(4),
+        shippingAddress: input.shippingAddress,
+        status: 'paid',
+        stripePaymentIntentId: input.paymentIntentId,
+        paidAmount: input.paidAmount.toFixed(2),
+      })
+      .onConflictDoNothing({ target: productOrders.stripePaymentIntentId })
+      .returning();
+    if (!created) {
+      return null;
+    }
+
+    await tx.insert(orderItems).values(input.lines.map(line => ({
+      orderId: created.id,
+      productId: line.productId,
+      quantity: line.quantity,
+      priceAtTime: line.price.toFixed(2),
+    })));
+
+    let order = created;
+    if (input.giftCard) {
+      let redeemed: number;
+      try {
+        ({ amount: redeemed } = await giftCardService.redeem(
+          input.giftCard.code, input.giftCard.amount, { userId: input.userId, orderId: created.id }, tx, true
+        ));
+      } catch (error: any) {
+        throw new OrderPaymentError(error.message);
+      }
+      [order] = await tx
+        .update(productOrders)
+        .set({ giftCardAmount: redeemed.toFixed(2) })
+        .where(eq(productOrders.id, created.id))
+        .returning();
+    }
+
+    await inventory.commitOrder(order.id, tx);
+    await this.recordEvent(order.id, 'paid', null, null, tx);
+    return order;
+  }
+
+  // Create the order for a succeeded shop payment from the stock held for it and the breakdown it
+  // was priced at. The client's confirmation and the payment webhook both call this; whichever
+  // comes second gets null.
+  async placeCardOrder(intent: Stripe.PaymentIntent, tx: Transaction): Promise<ProductOrder | null> {
+    const { metadata } = intent;
+    const reserved = await inventory.getReservedLines(intent.id, tx);
+    if (!reserved.length) {
+      throw new OrderPaymentError('No items were checked out with this payment');
+    }
+
+    const shippingAddress = metadata.shippingAddress ? JSON.parse(metadata.shippingAddress) : null;
+    const discount = metadata.promoCode ? parseFloat(metadata.discountAmount) : 0;
+    // Lines are written at the prices the payment was charged, even if the catalogue changed since
+    const lines = reserved.every(line => line.price !== null)
+      ? reserved.map(line => ({ productId: line.productId, quantity: line.quantity, price: line.price! }))
+      : await shopPricing.priceItems(reserved);
+    const totals = shopPricing.fromMetadata(metadata, discount)
+      ?? await shopPricing.calculate(await shopPricing.priceItems(reserved), shippingAddress?.state ?? null, discount);
+
+    return await this.createPaidOrder({
+      userId: metadata.userId,
+      paymentIntentId: intent.id,
+      paidAmount: intent.amount_received / 100,
+      lines,
+      shippingAddress,
+      totals,
+      giftCard: metadata.giftCardCode ? { code: metadata.giftCardCode, amount: parseFloat(metadata.giftCardAmount) } : undefined,
+    }, tx);
+  }
+
+  // Give back a shop payment that couldn't become an order, and the stock held for it
+  async refundCardPayment(intent: Stripe.PaymentIntent, executor: Executor = db): Promise<void> {
+    await inventory.releaseForPayment(intent.id, executor);
+    await stripe.refunds.create(
+      { payment_intent: intent.id, metadata: { type: 'order_unavailable' } },
+      { idempotencyKey: `shop-order-refund-${intent.id}` }
+    );
+  }
+
+  // Bookkeeping once a card order has committed: the promo redemption and storefront credit.
+  // Storefront referrals are read from the cart, so this has to run before it is cleared.
+  async completeCardOrder(order: ProductOrder, intent: Stripe.PaymentIntent): Promise<void> {
+    const { promoCode, discountAmount } = intent.metadata;
+    if (promoCode) {
+      await promotions.redeemForOrder(order, promoCode, parseFloat(discountAmount));
+    }
+    await storefronts.creditOrder(order.id, order.userId);
+  }
+
+  async getOrders(status?: string): Promise<ProductOrder[]> {
+    return await db
+      .select()
+      .from(productOrders)
+      .where(status ? eq(productOrders.status, status) : undefined)
+      .orderBy(desc(productOrders.createdAt));
+  }
+
+  // An order with its items, what has shipped of each, its shipments and its timeline
+  async getDetail(orderId: number): Promise<OrderDetail | null> {
+    const [order] = await db.select().from(productOrders).where(eq(productOrders.id, orderId));
+    if (!order) {
+      return null;
+    }
+
+    const lines = await db
+      .select({ item: orderItems, product: products })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(eq(orderItems.orderId, orderId));
+
+    const shipments = await db
+      .select()
+      .from(orderShipments)
+      .where(eq(orderShipments.orderId, orderId))
+      .orderBy(asc(orderShipments.shippedAt));
+
+    const shipped = shipments.length > 0
+      ? await db
+          .select()
+          .from(orderShipmentItems)
+          .where(inArray(orderShipmentItems.shipmentId, shipments.map(shipment => shipment.id)))
+      : [];
+
+    const events = await db
+      .select()
+      .from(orderEvents)
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(asc(orderEvents.createdAt));
+
+    const shippedQuantity = (orderItemId: number) => shipped
+      .filter(line => line.orderItemId === orderItemId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+
+    return {
+      ...order,
+      items: lines.map(({ item, product }) => ({ ...item, product, shippedQuantity: shippedQuantity(item.id) })),
+      shipments: shipments.map(shipment => ({
+        ...shipment,
+        items: shipped
+          .filter(line => line.shipmentId === shipment.id)
+          .map(line => ({ orderItemId: line.orderItemId, quantity: line.quantity })),
+      })),
+      timeline: [
+        { status: 'pending', note: 'Order placed.', shipmentId: null, createdAt: order.createdAt },
+        ...events.map(({ status, note, shipmentId, createdAt }) => ({ status, note, shipmentId, createdAt })),
+      ],
+    };
+  }
+
+  // Move an order along by hand: start processing, confirm delivery or cancel
+  async setStatus(orderId: number, status: OrderStatus, actorId: string, note?: string): Promise<ProductOrder> {
+    if (!MANUAL_STATUSES.includes(status)) {
+      throw new Error(`Status must be one of ${MANUAL_STATUSES.join(', ')}; shipping is recorded with a shipment`);
+    }
+    if (status === 'cancelled') {
+      return await this.cancel(orderId, actorId, note);
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const order = await this.lockOrder(orderId, tx);
+      this.assertTransition(order, status);
+
+      if (status === 'delivered') {
+        await tx
+          .update(orderShipments)
+          .set({ status: 'delivered', deliveredAt: new Date() })
+          .where(and(eq(orderShipments.orderId, orderId), eq(orderShipments.status, 'shipped')));
+      }
+
+      const [result] = await tx
+        .update(productOrders)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(productOrders.id, orderId))
+        .returning();
+      await this.recordEvent(orderId, status, note ?? null, actorId, tx);
+      return result;
+    });
+
+    await this.notifyBuyer(updated, status, note);
+    return updated;
+  }
+
+  // Record a parcel going out. The order becomes shipped once every item has left, and partially
+  // shipped until then.
+  async createShipment(orderId: number, input: ShipmentInput, actorId: string): Promise<OrderShipmentDetail> {
+    if (!input.carrier?.trim() || !input.trackingNumber?.trim()) {
+      throw new Error('Carrier and tracking number are required');
+    }
+
+    const { order, shipment } = await db.transaction(async (tx) => {
+      const order = await this.lockOrder(orderId, tx);
+      if (!['paid', 'processing', 'partially_shipped'].includes(order.status ?? '')) {
+        throw new Error(`A ${order.status} order can't be shipped`);
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const alreadyShipped = await tx
+        .select({
+          orderItemId: orderShipmentItems.orderItemId,
+          quantity: sql<number>`sum(${orderShipmentItems.quantity})::int`,
+        })
+        .from(orderShipmentItems)
+        .innerJoin(orderShipments, eq(orderShipmentItems.shipmentId, orderShipments.id))
+        .where(eq(orderShipments.orderId, orderId))
+        .groupBy(orderShipmentItems.orderItemId);
+      const remaining = new Map(items.map(item => [
+        item.id,
+        item.quantity - Number(alreadyShipped.find(line => line.orderItemId === item.id)?.quantity ?? 0),
+      ]));
+
+      const lines = input.items?.length
+        ? input.items.map(line => ({ orderItemId: Number(line.orderItemId), quantity: Number(line.quantity) }))
+        : Array.from(remaining.entries())
+            .filter(([, quantity]) => quantity > 0)
+            .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+      if (lines.length === 0) {
+        throw new Error('Everything in this order has already shipped');
+      }
+      for (const line of lines) {
+        const left = remaining.get(line.orderItemId);
+        if (left === undefined) {
+          throw new Error(`Item ${line.orderItemId} is not part of this order`);
+        }
+        if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > left) {
+          throw new Error(`Item ${line.orderItemId} has ${left} left to ship`);
+        }
+        remaining.set(line.orderItemId, left - line.quantity);
+      }
+
+      const [shipment] = await tx
+        .insert(orderShipments)
+        .values({
+          orderId,
+          carrier: input.carrier.trim(),
+          trackingNumber: input.trackingNumber.trim(),
+          createdBy: actorId,
+        })
+        .returning();
+      await tx.insert(orderShipmentItems).values(lines.map(line => ({ ...line, shipmentId: shipment.id })));
+
+      const status: OrderStatus = Array.from(remaining.values()).every(quantity => quantity === 0) ? 'shipped' : 'partially_shipped';
+      const [updated] = await tx
+        .update(productOrders)
+        .set({ status, trackingNumber: shipment.trackingNumber, updatedAt: new Date() })
+        .where(eq(productOrders.id, orderId))
+        .returning();
+      await this.recordEvent(orderId, status, `${shipment.carrier} tracking ${shipment.trackingNumber}`, actorId, tx, shipment.id);
+
+      return { order: updated, shipment: { ...shipment, items: lines } };
+    });
+
+    await this.notifyBuyer(order, order.status as OrderStatus, `${shipment.carrier} tracking number ${shipment.trackingNumber}.`);
+    return shipment;
+  }
+
+  // Confirm a parcel arrived. The order is delivered once everything has shipped and arrived.
+  async markShipmentDelivered(shipmentId: number, actorId: string): Promise<ProductOrder> {
+    const [shipment] = await db.select().from(orderShipments).where(eq(orderShipments.id, shipmentId));
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+
+    const { order, delivered } = await db.transaction(async (tx) => {
+      const current = await this.lockOrder(shipment.orderId, tx);
+
+      await tx
+        .update(orderShipments)
+        .set({ status: 'delivered', deliveredAt: new Date() })
+        .where(and(eq(orderShipments.id, shipmentId), eq(orderShipments.status, 'shipped')));
+
+      const [outstanding] = await tx
+        .select({ id: orderShipments.id })
+        .from(orderShipments)
+        .where(and(eq(orderShipments.orderId, current.id), eq(orderShipments.status, 'shipped')));
+      if (current.status !== 'shipped' || outstanding) {
+        await this.recordEvent(current.id, current.status as OrderStatus, `Parcel ${shipment.trackingNumber} delivered`, actorId, tx, shipmentId);
+        return { order: current, delivered: false };
+      }
+
+      const [updated] = await tx
+        .update(productOrders)
+        .set({ status: 'delivered', updatedAt: new Date() })
+        .where(eq(productOrders.id, current.id))
+        .returning();
+      await this.recordEvent(current.id, 'delivered', null, actorId, tx, shipmentId);
+      return { order: updated, delivered: true };
+    });
+
+    if (delivered) {
+      await this.notifyBuyer(order, 'delivered');
+    }
+    return order;
+  }
+
+  // Cancel an order that hasn't shipped: its stock goes back, the card payment is refunded and
+  // anything paid by gift card is put back on the card
+  async cancel(orderId: number, actorId: string, note?: string): Promise<ProductOrder> {
+    const cancelled = await db.transaction(async (tx) => {
+      const order = await this.lockOrder(orderId, tx);
+      this.assertTransition(order, 'cancelled');
+
+      const [updated] = await tx
+        .update(productOrders)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(eq(productOrders.id, orderId))
+        .returning();
+
+      await inventory.restoreOrder(orderId, tx);
+      await promotions.releaseForOrder(orderId, tx);
+      await storefronts.reverseOrder(orderId, tx);
+      const giftCardAmount = parseFloat(order.giftCardAmount || '0');
+      if (giftCardAmount > 0) {
+        await giftCardService.refund({ orderId }, giftCardAmount, tx);
+      }
+      await this.recordEvent(orderId, 'cancelled', note ?? null, actorId, tx);
+      return updated;
+    });
+
+    if (cancelled.stripePaymentIntentId && parseFloat(cancelled.paidAmount || '0') > 0) {
+      try {
+        await stripe.refunds.create(
+          { payment_intent: cancelled.stripePaymentIntentId, metadata: { orderId: orderId.toString(), type: 'order_cancellation' } },
+          { idempotencyKey: `shop-order-cancel-${orderId}` }
+        );
+      } catch (error) {
+        // The order stays cancelled; the payment has to be refunded by hand
+        console.error(`Error refunding cancelled order ${orderId}:`, error);
+      }
+    }
+
+    await this.notifyBuyer(cancelled, 'cancelled', note);
+    return cancelled;
+  }
+
+  // Locks the order row until the caller's transaction ends
+  async lockOrder(orderId: number, tx: Transaction): Promise<ProductOrder> {
+    await tx.execute(sql`SELECT ${productOrders.id} FROM ${productOrders} WHERE ${productOrders.id} = ${orderId} FOR UPDATE`);
+    const [order] = await tx.select().from(productOrders).where(eq(productOrders.id, orderId));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  private assertTransition(order: ProductOrder, to: OrderStatus): void {
+    const from = (order.status ?? 'pending') as OrderStatus;
+    if (!TRANSITIONS[from]?.includes(to)) {
+      throw new Error(`Order can't move from ${from} to ${to}`);
+    }
+  }
+
+  private async notifyBuyer(order: ProductOrder, status: OrderStatus, detail?: string): Promise<void> {
+    try {
+      const message = [STATUS_MESSAGES[status], detail].filter(Boolean).join(' ');
+      await notificationService.triggerOrderUpdate(order.userId, order.id, order.orderNumber, message);
+    } catch (error) {
+      console.error('Error sending order notification:', error);
+    }
+  }
+}
+
+export const orderFulfillment = new OrderFulfillmentService();
@@ -0,0 +1,432 @@
+import { db } from './db';
+import {
+  orderEvents,
+  orderItems,
+  orderReturnItems,
+  orderReturns,
+  productOrders,
+  products,
+  type OrderReturn,
+  type OrderReturnItem,
+  type ProductOrder,
+} from '@shared/schema';
+import { eq, and, desc, inArray, ne, sql } from 'drizzle-orm';
+import { stripe } from './stripe';
+import { inventory } from './inventory';
+import { giftCardService } from './gift-cards';
+import { promotions } from './promotions';
+import { orderFulfillment, type OrderStatus } from './order-fulfillment';
+import { notificationService } from './notification-service';
+import { DEFAULT_PRICING } from './shop-pricing';
+import { storefronts } from './storefronts';
+import { roundCents, money, type Transaction } from './booking-engine';
+
+export const RETURN_REASONS = ['damaged', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other'] as const;
+export type ReturnReason = typeof RETURN_REASONS[number];
+
+// Days after delivery a buyer can still ask to send items back
+export const RETURN_WINDOW_DAYS = 30;
+
+export interface ReturnLine {
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface ReturnRequestInput {
+  items: ReturnLine[];
+  reason: ReturnReason;
+  details?: string;
+}
+
+export interface ReturnDecision {
+  // Order items that can't be resold; everything else goes back into stock
+  noRestock?: number[];
+  note?: string;
+}
+
+export interface OrderReturnDetail extends OrderReturn {
+  orderNumber: string;
+  items: (OrderReturnItem & { productId: number; productName: string; priceAtTime: string })[];
+}
+
+const generateRmaNumber = () => `RMA-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+
+export class ReturnsService {
+
+  // Ask to send back some of a delivered order. The refund is priced now so the buyer sees what
+  // they'll get back; nothing is refunded until an admin approves.
+  async requestReturn(orderId: number, userId: string, input: ReturnRequestInput): Promise<OrderReturnDetail> {
+    if (!RETURN_REASONS.includes(input.reason)) {
+      throw new Error(`Reason must be one of: ${RETURN_REASONS.join(', ')}`);
+    }
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      throw new Error('Choose at least one item to return');
+    }
+
+    const created = await db.transaction(async (tx) => {
+      const order = await orderFulfillment.lockOrder(orderId, tx);
+      if (order.userId !== userId) {
+        throw new Error('Order not found');
+      }
+      if (order.status !== 'delivered') {
+        throw new Error('Only delivered orders can be returned');
+      }
+
+      const deliveredAt = await this.getDeliveredAt(order, tx);
+      if (Date.now() - deliveredAt.getTime() > RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+        throw new Error(`Returns are accepted for ${RETURN_WINDOW_DAYS} days after delivery`);
+      }
+
+      const lines = await this.getReturnableLines(orderId, tx);
+      const requested = new Map<number, number>();
+      for (const line of input.items) {
+        const quantity = Number(line.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1) {
+          throw new Error('Quantities must be whole numbers of at least 1');
+        }
+        requested.set(Number(line.orderItemId), (requested.get(Number(line.orderItemId)) ?? 0) + quantity);
+      }
+      for (const [orderItemId, quantity] of Array.from(requested.entries())) {
+        const line = lines.find(l => l.id === orderItemId);
+        if (!line) {
+          throw new Error('Item is not part of this order');
+        }
+        if (quantity > line.returnable) {
+          throw new Error(line.returnable > 0
+            ? `Only ${line.returnable} of ${line.productName} can still be returned`
+            : `${line.productName} has already been returned`);
+        }
+      }
+
+      const { itemsAmount, taxAmount } = this.priceLines(order, lines, requested);
+      // Never more than is left of what the buyer paid
+      const refundable = roundCents(parseFloat(order.totalAmount) - parseFloat(order.refundedAmount || '0'));
+      const refundAmount = Math.min(roundCents(itemsAmount + taxAmount), refundable);
+
+      const [orderReturn] = await tx
+        .insert(orderReturns)
+        .values({
+          orderId,
+          userId,
+          rmaNumber: generateRmaNumber(),
+          reason: input.reason,
+          details: input.details?.trim() || null,
+          itemsAmount: money(itemsAmount),
+          taxAmount: money(taxAmount),
+          refundAmount: money(refundAmount),
+        })
+        .returning();
+      await tx.insert(orderReturnItems).values(
+        Array.from(requested.entries()).map(([orderItemId, quantity]) => ({ returnId: orderReturn.id, orderItemId, quantity }))
+      );
+      await orderFulfillment.recordEvent(orderId, 'delivered', `Return ${orderReturn.rmaNumber} requested`, userId, tx);
+      return { order, orderReturn };
+    });
+
+    await this.notifyBuyer(created.order, `Return ${created.orderReturn.rmaNumber} received. We'll let you know once it's reviewed.`);
+    return (await this.getReturn(created.orderReturn.id))!;
+  }
+
+  // Approve a return: returned items go back into stock unless marked otherwise, and the refund is
+  // split between card and gift card in the same proportions the order was paid. Approving a
+  // return whose card refund failed retries the refund.
+  async approve(returnId: number, adminId: string, decision: ReturnDecision = {}): Promise<OrderReturnDetail> {
+    const existing = await this.getReturn(returnId);
+    if (!existing) {
+      throw new Error('Return not found');
+    }
+    if (existing.status !== 'requested' && existing.status !== 'approved') {
+      throw new Error(`Return has already been ${existing.status}`);
+    }
+
+    if (existing.status === 'requested') {
+      const { order } = await db.transaction(async (tx) => {
+        const order = await orderFulfillment.lockOrder(existing.orderId, tx);
+        if (order.status !== 'delivered') {
+          throw new Error(`A ${order.status} order can't take returns`);
+        }
+
+        const [orderReturn] = await tx
+          .update(orderReturns)
+          .set({ status: 'approved', adminNote: decision.note ?? null, reviewedBy: adminId, reviewedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(orderReturns.id, returnId), eq(orderReturns.status, 'requested')))
+          .returning();
+        if (!orderReturn) {
+          throw new Error('Return has already been reviewed');
+        }
+
+        const noRestock = new Set((decision.noRestock ?? []).map(Number));
+        if (noRestock.size > 0) {
+          await tx
+            .update(orderReturnItems)
+            .set({ restock: false })
+            .where(and(eq(orderReturnItems.returnId, returnId), inArray(orderReturnItems.orderItemId, Array.from(noRestock))));
+        }
+        // Orders that never came out of stock have nothing to put back
+        if (order.stockStatus === 'committed') {
+          await inventory.restoreItems(
+            existing.items
+              .filter(item => !noRestock.has(item.orderItemId))
+              .map(item => ({ productId: item.productId, quantity: item.quantity })),
+            tx
+          );
+        }
+
+        await storefronts.reverseItems(
+          order.id,
+          existing.items.map(item => ({ orderItemId: item.orderItemId, quantity: item.quantity })),
+          tx
+        );
+
+        const refundAmount = parseFloat(orderReturn.refundAmount);
+        const giftCard = await this.giftCardShare(order, refundAmount, tx);
+        const giftCardRefund = giftCard > 0 ? await giftCardService.refund({ orderId: order.id }, giftCard, tx) : 0;
+        // Whatever the gift cards couldn't take back goes to the card
+        const cardRefund = roundCents(refundAmount - giftCardRefund);
+
+        await tx
+          .update(orderReturns)
+          .set({
+            cardRefundAmount: money(cardRefund),
+            giftCardRefundAmount: money(giftCardRefund),
+            // Gift card only refunds are complete as soon as the cards are credited
+            status: cardRefund > 0 ? 'approved' : 'refunded',
+          })
+          .where(eq(orderReturns.id, returnId));
+
+        const refundedAmount = roundCents(parseFloat(order.refundedAmount || '0') + refundAmount);
+        const fullyReturned = await this.isFullyReturned(order.id, tx);
+        const [updated] = await tx
+          .update(productOrders)
+          .set({
+            refundedAmount: money(refundedAmount),
+            ...(fullyReturned ? { status: 'refunded' } : {}),
+            updatedAt: new Date(),
+          })
+          .where(eq(productOrders.id, order.id))
+          .returning();
+
+        const status: OrderStatus = fullyReturned ? 'refunded' : 'delivered';
+        await orderFulfillment.recordEvent(order.id, status, `Return ${orderReturn.rmaNumber} approved, $${money(refundAmount)} refunded`, adminId, tx);
+        if (fullyReturned) {
+          await promotions.releaseForOrder(order.id, tx);
+        }
+        return { order: updated };
+      });
+
+      await this.notifyBuyer(order, `Return ${existing.rmaNumber} approved. $${existing.refundAmount} is on its way back to you.`);
+    }
+
+    await this.refundCard(returnId);
+    return (await this.getReturn(returnId))!;
+  }
+
+  async reject(returnId: number, adminId: string, note?: string): Promise<OrderReturnDetail> {
+    const [orderReturn] = await db
+      .update(orderReturns)
+      .set({ status: 'rejected', adminNote: note ?? null, reviewedBy: adminId, reviewedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(orderReturns.id, returnId), eq(orderReturns.status, 'requested')))
+      .returning();
+    if (!orderReturn) {
+      throw new Error('Only requested returns can be rejected');
+    }
+
+    const [order] = await db.select().from(productOrders).where(eq(productOrders.id, orderReturn.orderId));
+    await orderFulfillment.recordEvent(order.id, (order.status ?? 'delivered') as OrderStatus, `Return ${orderReturn.rmaNumber} declined`, adminId);
+    await this.notifyBuyer(order, [`Return ${orderReturn.rmaNumber} was declined.`, note].filter(Boolean).join(' '));
+    return (await this.getReturn(returnId))!;
+  }
+
+  async getReturn(returnId: number): Promise<OrderReturnDetail | null> {
+    const [orderReturn] = await db.select().from(orderReturns).where(eq(orderReturns.id, returnId));
+    if (!orderReturn) {
+      return null;
+    }
+    return (await this.withItems([orderReturn]))[0];
+  }
+
+  async getForOrder(orderId: number): Promise<OrderReturnDetail[]> {
+    const rows = await db
+      .select()
+      .from(orderReturns)
+      .where(eq(orderReturns.orderId, orderId))
+      .orderBy(desc(orderReturns.createdAt));
+    return await this.withItems(rows);
+  }
+
+  // Admin queue, newest first
+  async getReturns(status?: string): Promise<OrderReturnDetail[]> {
+    const rows = await db
+      .select()
+      .from(orderReturns)
+      .where(status ? eq(orderReturns.status, status) : undefined)
+      .orderBy(desc(orderReturns.createdAt));
+    return await this.withItems(rows);
+  }
+
+  // Send the card part of an approved return back through Stripe. Keyed on the return, so a retry
+  // after a failure never refunds twice.
+  private async refundCard(returnId: number): Promise<void> {
+    const [orderReturn] = await db.select().from(orderReturns).where(eq(orderReturns.id, returnId));
+    if (!orderReturn || orderReturn.status !== 'approved') return;
+
+    const [order] = await db.select().from(productOrders).where(eq(productOrders.id, orderReturn.orderId));
+    const amount = Math.round(parseFloat(orderReturn.cardRefundAmount || '0') * 100);
+    if (!order?.stripePaymentIntentId || amount <= 0) {
+      console.error(`Return ${orderReturn.rmaNumber} has a card refund but order ${orderReturn.orderId} has no card payment`);
+      return;
+    }
+
+    try {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: order.stripePaymentIntentId,
+          amount,
+          metadata: { orderId: order.id.toString(), returnId: returnId.toString(), type: 'order_return' },
+        },
+        { idempotencyKey: `order-return-${returnId}` }
+      );
+      await db
+        .update(orderReturns)
+        .set({ status: 'refunded', stripeRefundId: refund.id, updatedAt: new Date() })
+        .where(eq(orderReturns.id, returnId));
+    } catch (error) {
+      // Left approved so the admin can approve again to retry
+      console.error(`Error refunding return ${orderReturn.rmaNumber}:`, error);
+    }
+  }
+
+  // The gift card share of a refund, in proportion to how the order was paid and never more than
+  // is left unrefunded on the cards
+  private async giftCardShare(order: ProductOrder, amount: number, tx: Transaction): Promise<number> {
+    const cardPaid = parseFloat(order.paidAmount || '0');
+    const giftCardPaid = parseFloat(order.giftCardAmount || '0');
+    if (giftCardPaid <= 0) {
+      return 0;
+    }
+
+    const [refunded] = await tx
+      .select({ giftCard: sql<string>`coalesce(sum(${orderReturns.giftCardRefundAmount}), 0)` })
+      .from(orderReturns)
+      .where(and(eq(orderReturns.orderId, order.id), inArray(orderReturns.status, ['approved', 'refunded'])));
+    const giftCardLeft = roundCents(giftCardPaid - parseFloat(refunded?.giftCard ?? '0'));
+
+    return Math.max(Math.min(roundCents(amount * giftCardPaid / (cardPaid + giftCardPaid)), giftCardLeft), 0);
+  }
+
+  // Line amounts less their share of the order's promo discount, plus the tax charged on them at the
+  // order's rate
+  private priceLines(order: ProductOrder, lines: { id: number; priceAtTime: string; quantity: number }[], requested: Map<number, number>) {
+    const subtotal = lines.reduce((sum, line) => sum + parseFloat(line.priceAtTime) * line.quantity, 0);
+    const discount = parseFloat(order.discountAmount || '0');
+
+    let gross = 0;
+    for (const [orderItemId, quantity] of Array.from(requested.entries())) {
+      const line = lines.find(l => l.id === orderItemId)!;
+      gross += parseFloat(line.priceAtTime) * quantity;
+    }
+
+    const itemsAmount = roundCents(subtotal > 0 ? gross - discount * gross / subtotal : 0);
+    // Orders from before tax was configurable were all charged the default rate
+    const taxRate = order.taxRate ? parseFloat(order.taxRate) : DEFAULT_PRICING.defaultTaxRate;
+    return { itemsAmount, taxAmount: roundCents(itemsAmount * taxRate) };
+  }
+
+  // Each order line with how much of it is still free to return
+  private async getReturnableLines(orderId: number, executor: typeof db | Transaction) {
+    const lines = await executor
+      .select({
+        id: orderItems.id,
+        quantity: orderItems.quantity,
+        priceAtTime: orderItems.priceAtTime,
+        productName: products.name,
+      })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(eq(orderItems.orderId, orderId));
+
+    const returned = await this.getReturnedQuantities(orderId, executor);
+    return lines.map(line => ({ ...line, returnable: line.quantity - (returned.get(line.id) ?? 0) }));
+  }
+
+  // Quantities on returns that haven't been turned down
+  private async getReturnedQuantities(orderId: number, executor: typeof db | Transaction): Promise<Map<number, number>> {
+    const rows = await executor
+      .select({
+        orderItemId: orderReturnItems.orderItemId,
+        quantity: sql<number>`coalesce(sum(${orderReturnItems.quantity}), 0)::int`,
+      })
+      .from(orderReturnItems)
+      .innerJoin(orderReturns, eq(orderReturnItems.returnId, orderReturns.id))
+      .where(and(eq(orderReturns.orderId, orderId), ne(orderReturns.status, 'rejected')))
+      .groupBy(orderReturnItems.orderItemId);
+    return new Map(rows.map(row => [row.orderItemId, Number(row.quantity)]));
+  }
+
+  // True once every item has been sent back on an approved return
+  private async isFullyReturned(orderId: number, tx: Transaction): Promise<boolean> {
+    const lines = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+    const rows = await tx
+      .select({
+        orderItemId: orderReturnItems.orderItemId,
+        quantity: sql<number>`coalesce(sum(${orderReturnItems.quantity}), 0)::int`,
+      })
+      .from(orderReturnItems)
+      .innerJoin(orderReturns, eq(orderReturnItems.returnId, orderReturns.id))
+      .where(and(eq(orderReturns.orderId, orderId), inArray(orderReturns.status, ['approved', 'refunded'])))
+      .groupBy(orderReturnItems.orderItemId);
+    const returned = new Map(rows.map(row => [row.orderItemId, Number(row.quantity)]));
+    return lines.every(line => (returned.get(line.id) ?? 0) >= line.quantity);
+  }
+
+  private async getDeliveredAt(order: ProductOrder, tx: Transaction): Promise<Date> {
+    const [event] = await tx
+      .select({ createdAt: orderEvents.createdAt })
+      .from(orderEvents)
+      .where(and(eq(orderEvents.orderId, order.id), eq(orderEvents.status, 'delivered')))
+      .orderBy(orderEvents.createdAt)
+      .limit(1);
+    return event?.createdAt ?? order.updatedAt ?? new Date();
+  }
+
+  private async withItems(rows: OrderReturn[]): Promise<OrderReturnDetail[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const items = await db
+      .select({
+        item: orderReturnItems,
+        productId: orderItems.productId,
+        productName: products.name,
+        priceAtTime: orderItems.priceAtTime,
+      })
+      .from(orderReturnItems)
+      .innerJoin(orderItems, eq(orderReturnItems.orderItemId, orderItems.id))
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(inArray(orderReturnItems.returnId, rows.map(row => row.id)));
+
+    const orders = await db
+      .select({ id: productOrders.id, orderNumber: productOrders.orderNumber })
+      .from(productOrders)
+      .where(inArray(productOrders.id, Array.from(new Set(rows.map(row => row.orderId)))));
+
+    return rows.map(row => ({
+      ...row,
+      orderNumber: orders.find(order => order.id === row.orderId)?.orderNumber ?? '',
+      items: items
+        .filter(entry => entry.item.returnId === row.id)
+        .map(entry => ({ ...entry.item, productId: entry.productId, productName: entry.productName, priceAtTime: entry.priceAtTime })),
+    }));
+  }
+
+  private async notifyBuyer(order: ProductOrder, detail: string): Promise<void> {
+    try {
+      await notificationService.triggerOrderUpdate(order.userId, order.id, order.orderNumber, detail);
+    } catch (error) {
+      console.error('Error sending return notification:', error);
+    }
+  }
+}
+
+export const returns = new ReturnsService();
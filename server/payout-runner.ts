@@ -0,0 +1,412 @@
+import { db } from './db';
+import {
+  earnings,
+  payoutSchedules,
+  professionals,
+  providerPayouts,
+  tips,
+  type PayoutSchedule,
+  type ProviderPayout,
+} from '@shared/schema';
+import { eq, and, lt, lte, isNull, desc, inArray, sql } from 'drizzle-orm';
+import { stripe } from './stripe';
+import { money } from './booking-engine';
+
+// How often due payout schedules are looked for
+const PAYOUT_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// A payout still processing after this long was interrupted or its transfer never confirmed
+const STALE_PAYOUT_MS = 30 * 60 * 1000;
+
+// Stripe errors that mean the transfer request was rejected outright, so no money moved.
+// Anything else (timeouts, connection resets, 5xx) may have created the transfer anyway.
+const DECLINED_STRIPE_ERRORS = [
+  'StripeInvalidRequestError',
+  'StripeAuthenticationError',
+  'StripePermissionError',
+  'StripeRateLimitError',
+];
+
+export interface TransferRequest {
+  payoutId: string;
+  providerId: number;
+  amount: number; // cents
+  destination: string; // connected account id
+  description: string;
+}
+
+export interface TransferResult {
+  transferId: string;
+}
+
+// Moves a payout to the provider's account. Swapped for a fake when running without Stripe Connect.
+export interface TransferBackend {
+  name: string;
+  transfer(request: TransferRequest): Promise<TransferResult>;
+  // The transfer already made for a payout, if any
+  findTransfer(payoutId: string): Promise<TransferResult | null>;
+  // Whether a transfer error means nothing was sent, as opposed to an unknown outcome
+  isDeclined(error: any): boolean;
+}
+
+export class StripeConnectBackend implements TransferBackend {
+  name = 'stripe';
+
+  async transfer(request: TransferRequest): Promise<TransferResult> {
+    const transfer = await stripe.transfers.create(
+      {
+        amount: request.amount,
+        currency: 'usd',
+        destination: request.destination,
+        transfer_group: `payout_${request.payoutId}`,
+        description: request.description,
+        metadata: { payoutId: request.payoutId, providerId: request.providerId.toString() },
+      },
+      // A retried payout must never pay the provider twice
+      { idempotencyKey: `payout-${request.payoutId}` }
+    );
+    return { transferId: transfer.id };
+  }
+
+  async findTransfer(payoutId: string): Promise<TransferResult | null> {
+    const { data } = await stripe.transfers.list({ transfer_group: `payout_${payoutId}`, limit: 1 });
+    return data.length ? { transferId: data[0].id } : null;
+  }
+
+  isDeclined(error: any): boolean {
+    return DECLINED_STRIPE_ERRORS.includes(error?.type);
+  }
+}
+
+// Records transfers in memory instead of moving money, for local runs and manual testing
+export class FakeTransferBackend implements TransferBackend {
+  name = 'fake';
+  transfers: TransferRequest[] = [];
+  failNext = false;
+
+  async transfer(request: TransferRequest): Promise<TransferResult> {
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error('Simulated transfer failure');
+    }
+    this.transfers.push(request);
+    return { transferId: `fake_tr_${request.payoutId}` };
+  }
+
+  async findTransfer(payoutId: string): Promise<TransferResult | null> {
+    return this.transfers.some(transfer => transfer.payoutId === payoutId) ? { transferId: `fake_tr_${payoutId}` } : null;
+  }
+
+  // Simulated failures never send anything
+  isDeclined(): boolean {
+    return true;
+  }
+}
+
+export interface PayoutRunResult {
+  providerId: number;
+  status: 'paid' | 'failed' | 'unconfirmed' | 'below_minimum' | 'no_account' | 'not_due';
+  payout?: ProviderPayout;
+  amount: number;
+  error?: string;
+}
+
+// The payout date after `from` for a schedule's frequency
+export const advancePayoutDate = (from: Date, frequency: string | null): Date => {
+  const next = new Date(from);
+  switch (frequency) {
+    case 'weekly':
+      next.setDate(next.getDate() + 7);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + 1);
+      break;
+    default:
+      next.setDate(next.getDate() + 1);
+  }
+  return next;
+};
+
+// Step past `now`, so a runner that was down for a while doesn't pay out once per missed period
+const nextPayoutAfter = (schedule: PayoutSchedule, now: Date): Date => {
+  let next = advancePayoutDate(schedule.nextPayoutDate, schedule.frequency);
+  while (next <= now) {
+    next = advancePayoutDate(next, schedule.frequency);
+  }
+  return next;
+};
+
+const sum = (values: (string | null)[]) => values.reduce((total, value) => total + parseFloat(value || '0'), 0);
+
+export class PayoutRunner {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private backend: TransferBackend) {}
+
+  setBackend(backend: TransferBackend): void {
+    this.backend = backend;
+  }
+
+  // Pay every provider whose schedule has come due
+  async runDuePayouts(now = new Date()): Promise<PayoutRunResult[]> {
+    const due = await db
+      .select()
+      .from(payoutSchedules)
+      .where(and(eq(payoutSchedules.isActive, true), lte(payoutSchedules.nextPayoutDate, now)));
+
+    const results: PayoutRunResult[] = [];
+    for (const schedule of due) {
+      try {
+        results.push(await this.runSchedule(schedule.id, now));
+      } catch (error: any) {
+        console.error(`Error running payout for provider ${schedule.providerId}:`, error);
+        results.push({ providerId: schedule.providerId, status: 'failed', amount: 0, error: error.message });
+      }
+    }
+    return results;
+  }
+
+  // Gather the provider's unpaid earnings and tips into one payout and transfer it
+  async runSchedule(scheduleId: string, now = new Date()): Promise<PayoutRunResult> {
+    const batch = await db.transaction(async (tx) => {
+      // Lock the schedule so overlapping runs can't batch the same earnings twice
+      await tx.execute(sql`SELECT ${payoutSchedules.id} FROM ${payoutSchedules} WHERE ${payoutSchedules.id} = ${scheduleId} FOR UPDATE`);
+
+      const [schedule] = await tx.select().from(payoutSchedules).where(eq(payoutSchedules.id, scheduleId));
+      if (!schedule || schedule.nextPayoutDate > now) {
+        return { providerId: schedule?.providerId ?? 0, status: 'not_due' as const, amount: 0 };
+      }
+
+      const nextPayoutDate = nextPayoutAfter(schedule, now);
+      const advance = () => tx
+        .update(payoutSchedules)
+        .set({ nextPayoutDate, updatedAt: now })
+        .where(eq(payoutSchedules.id, schedule.id));
+
+      const [professional] = await tx
+        .select({ stripeAccountId: professionals.stripeAccountId })
+        .from(professionals)
+        .where(eq(professionals.id, schedule.providerId));
+      const destination = schedule.stripeAccountId || professional?.stripeAccountId;
+
+      const unpaidEarnings = await tx
+        .select()
+        .from(earnings)
+        .where(and(
+          eq(earnings.professionalId, schedule.providerId),
+          eq(earnings.payoutStatus, 'pending'),
+          lte(earnings.createdAt, now)
+        ));
+      const unpaidTips = await tx
+        .select()
+        .from(tips)
+        .where(and(
+          eq(tips.providerId, schedule.providerId),
+          eq(tips.status, 'completed'),
+          isNull(tips.payoutId),
+          lte(tips.createdAt, now)
+        ));
+
+      const totalTips = sum(unpaidTips.map(tip => tip.amount));
+      const netAmount = sum(unpaidEarnings.map(earning => earning.netAmount)) + totalTips;
+
+      // Too little to pay out yet: everything rolls into the next period
+      if (netAmount < parseFloat(schedule.minimumAmount || '0') || netAmount <= 0) {
+        await advance();
+        return { providerId: schedule.providerId, status: 'below_minimum' as const, amount: netAmount };
+      }
+      if (!destination) {
+        await advance();
+        return { providerId: schedule.providerId, status: 'no_account' as const, amount: netAmount };
+      }
+
+      const [lastPayout] = await tx
+        .select({ periodEnd: providerPayouts.periodEnd })
+        .from(providerPayouts)
+        .where(eq(providerPayouts.providerId, schedule.providerId))
+        .orderBy(desc(providerPayouts.periodEnd))
+        .limit(1);
+      const itemDates = [...unpaidEarnings, ...unpaidTips].map(item => item.createdAt!.getTime());
+      const periodStart = lastPayout?.periodEnd ?? new Date(Math.min(now.getTime(), ...itemDates));
+
+      const [payout] = await tx
+        .insert(providerPayouts)
+        .values({
+          providerId: schedule.providerId,
+          amount: money(sum(unpaidEarnings.map(earning => earning.amount)) + totalTips),
+          fees: money(sum(unpaidEarnings.map(earning => earning.platformFee))),
+          netAmount: money(netAmount),
+          payoutDate: now,
+          status: 'processing',
+          periodStart,
+          periodEnd: now,
+          totalBookings: new Set(unpaidEarnings.filter(earning => earning.bookingId).map(earning => earning.bookingId)).size,
+          totalCommission: money(sum(unpaidEarnings.map(earning => earning.platformFee))),
+          totalTips: money(totalTips),
+          totalAffiliate: money(sum(unpaidEarnings.filter(earning => earning.source === 'affiliate').map(earning => earning.netAmount))),
+        })
+        .returning();
+
+      if (unpaidEarnings.length) {
+        await tx
+          .update(earnings)
+          .set({ payoutStatus: 'processing', payoutId: payout.id })
+          .where(inArray(earnings.id, unpaidEarnings.map(earning => earning.id)));
+      }
+      if (unpaidTips.length) {
+        await tx
+          .update(tips)
+          .set({ payoutId: payout.id })
+          .where(inArray(tips.id, unpaidTips.map(tip => tip.id)));
+      }
+
+      await advance();
+      return { providerId: schedule.providerId, status: 'paid' as const, amount: netAmount, payout, destination };
+    });
+
+    if (batch.status !== 'paid') {
+      return batch;
+    }
+
+    return await this.transferPayout(batch.payout, batch.destination);
+  }
+
+  // Send the money. A declined transfer puts the earnings and tips back into the next payout;
+  // when the outcome is unknown the payout stays processing until it is reconciled with Stripe.
+  private async transferPayout(payout: ProviderPayout, destination: string): Promise<PayoutRunResult> {
+    const amount = parseFloat(payout.netAmount);
+
+    let transferId: string;
+    try {
+      ({ transferId } = await this.backend.transfer({
+        payoutId: payout.id,
+        providerId: payout.providerId,
+        amount: Math.round(amount * 100),
+        destination,
+        description: `Byootify payout ${payout.periodStart.toDateString()} - ${payout.periodEnd.toDateString()}`,
+      }));
+    } catch (error: any) {
+      console.error(`Transfer for payout ${payout.id} failed:`, error);
+
+      if (this.backend.isDeclined(error)) {
+        const failed = await this.repool(payout);
+        return { providerId: payout.providerId, status: 'failed', payout: failed, amount, error: error.message };
+      }
+
+      // Restart the grace period, so a transfer still in flight isn't reconciled too early
+      const [unconfirmed] = await db
+        .update(providerPayouts)
+        .set({ updatedAt: new Date() })
+        .where(eq(providerPayouts.id, payout.id))
+        .returning();
+      return { providerId: payout.providerId, status: 'unconfirmed', payout: unconfirmed, amount, error: error.message };
+    }
+
+    const paid = await this.markPaid(payout, transferId);
+    return { providerId: payout.providerId, status: 'paid', payout: paid, amount };
+  }
+
+  private async markPaid(payout: ProviderPayout, transferId: string): Promise<ProviderPayout> {
+    const [paid] = await db.transaction(async (tx) => {
+      await tx
+        .update(earnings)
+        .set({ payoutStatus: 'paid', payoutDate: payout.payoutDate })
+        .where(eq(earnings.payoutId, payout.id));
+      return await tx
+        .update(providerPayouts)
+        .set({ status: 'completed', stripePayoutId: transferId, updatedAt: new Date() })
+        .where(and(eq(providerPayouts.id, payout.id), eq(providerPayouts.status, 'processing')))
+        .returning();
+    });
+    return paid ?? payout;
+  }
+
+  // Release the payout's earnings and tips so the next run picks them up again
+  private async repool(payout: ProviderPayout): Promise<ProviderPayout> {
+    const [failed] = await db.transaction(async (tx) => {
+      await tx
+        .update(earnings)
+        .set({ payoutStatus: 'pending', payoutId: null })
+        .where(eq(earnings.payoutId, payout.id));
+      await tx
+        .update(tips)
+        .set({ payoutId: null })
+        .where(eq(tips.payoutId, payout.id));
+      return await tx
+        .update(providerPayouts)
+        .set({ status: 'failed', updatedAt: new Date() })
+        .where(and(eq(providerPayouts.id, payout.id), eq(providerPayouts.status, 'processing')))
+        .returning();
+    });
+    return failed ?? payout;
+  }
+
+  // Settle payouts left processing by a crash between batching and transfer, or by a transfer
+  // whose outcome was unknown. A transfer Stripe already made completes the payout; otherwise
+  // the transfer is sent again under the same idempotency key, so it can't pay twice.
+  async reconcileStalePayouts(now = new Date()): Promise<PayoutRunResult[]> {
+    const stale = await db
+      .select()
+      .from(providerPayouts)
+      .where(and(
+        eq(providerPayouts.status, 'processing'),
+        lt(providerPayouts.updatedAt, new Date(now.getTime() - STALE_PAYOUT_MS))
+      ));
+
+    const results: PayoutRunResult[] = [];
+    for (const payout of stale) {
+      const amount = parseFloat(payout.netAmount);
+      try {
+        const existing = await this.backend.findTransfer(payout.id);
+        if (existing) {
+          const paid = await this.markPaid(payout, existing.transferId);
+          results.push({ providerId: payout.providerId, status: 'paid', payout: paid, amount });
+          continue;
+        }
+
+        const destination = await this.getDestination(payout.providerId);
+        if (!destination) {
+          const failed = await this.repool(payout);
+          results.push({ providerId: payout.providerId, status: 'no_account', payout: failed, amount });
+          continue;
+        }
+
+        results.push(await this.transferPayout(payout, destination));
+      } catch (error: any) {
+        console.error(`Error reconciling payout ${payout.id}:`, error);
+        results.push({ providerId: payout.providerId, status: 'failed', payout, amount, error: error.message });
+      }
+    }
+    return results;
+  }
+
+  private async getDestination(providerId: number): Promise<string | null> {
+    const [schedule] = await db
+      .select({ stripeAccountId: payoutSchedules.stripeAccountId })
+      .from(payoutSchedules)
+      .where(eq(payoutSchedules.providerId, providerId));
+    const [professional] = await db
+      .select({ stripeAccountId: professionals.stripeAccountId })
+      .from(professionals)
+      .where(eq(professionals.id, providerId));
+    return schedule?.stripeAccountId || professional?.stripeAccountId || null;
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(async () => {
+      try {
+        await this.reconcileStalePayouts();
+        await this.runDuePayouts();
+      } catch (error) {
+        console.error('Error running scheduled payouts:', error);
+      }
+    }, PAYOUT_SWEEP_INTERVAL_MS);
+  }
+}
+
+// PAYOUT_TRANSFER_BACKEND=fake runs payouts without touching Stripe Connect
+export const payoutRunner = new PayoutRunner(
+  process.env.PAYOUT_TRANSFER_BACKEND === 'fake' ? new FakeTransferBackend() : new StripeConnectBackend()
+);
@@ -0,0 +1,487 @@
+import { db } from './db';
+import {
+  bookings,
+  campaigns,
+  productOrders,
+  products,
+  promoCodes,
+  promoRedemptions,
+  type Booking,
+  type Campaign,
+  type InsertBooking,
+  type ProductOrder,
+  type PromoCode,
+} from '@shared/schema';
+import { eq, and, ne, notInArray, inArray, isNull, desc, sql, type SQL } from 'drizzle-orm';
+import { bookingEngine, INACTIVE_BOOKING_STATUSES, roundCents, type Transaction, type Executor } from './booking-engine';
+
+export const CAMPAIGN_TYPES = ['discount', 'referral', 'social', 'loyalty'] as const;
+export const DISCOUNT_TYPES = ['percentage', 'fixed'] as const;
+export const CAMPAIGN_SCOPES = ['bookings', 'shop', 'all'] as const;
+export const CAMPAIGN_STATUSES = ['draft', 'active', 'paused'] as const;
+
+export type CampaignScope = typeof CAMPAIGN_SCOPES[number];
+export type CampaignStatus = typeof CAMPAIGN_STATUSES[number];
+
+// Orders that never went through don't count as a previous purchase
+const UNPAID_ORDER_STATUSES = ['pending', 'cancelled'];
+
+export interface CampaignInput {
+  title: string;
+  type?: string;
+  description?: string;
+  status?: string;
+  discountType?: string;
+  discount: number;
+  appliesTo?: string;
+  firstVisitOnly?: boolean;
+  serviceIds?: number[];
+  categories?: string[];
+  maxUsage?: number | null;
+  maxUsagePerUser?: number | null;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  code?: string;
+}
+
+// Campaign as shown to its owner; status reflects the validity window and usage cap
+export interface CampaignSummary extends Omit<Campaign, 'status'> {
+  status: 'draft' | 'paused' | 'scheduled' | 'active' | 'completed';
+  discount: number;
+  codes: PromoCode[];
+}
+
+// A priced line of a booking or order, tagged so campaigns can target it
+export interface DiscountLine {
+  amount: number;
+  category: string;
+  serviceId?: number;
+}
+
+export interface PromoQuote {
+  code: string;
+  promoCodeId: number;
+  campaignId: number;
+  title: string;
+  eligibleAmount: number;
+  discountAmount: number;
+}
+
+interface RedemptionTarget {
+  scope: 'bookings' | 'shop';
+  userId: string;
+  professionalId?: number;
+  excludeBookingId?: string;
+  excludeOrderId?: number;
+}
+
+const normaliseCode = (code: string) => code.trim().toUpperCase();
+
+const generateCode = (title: string) => {
+  const prefix = title.replace(/[^a-z0-9]/gi, '').slice(0, 6).toUpperCase() || 'PROMO';
+  return `${prefix}${Math.random().toString(36).slice(2, 7).toUpperCase()}`;
+};
+
+export class PromotionService {
+
+  async createCampaign(professionalId: number | null, createdBy: string, input: CampaignInput): Promise<CampaignSummary> {
+    const discountType = input.discountType || 'percentage';
+    const discount = Number(input.discount);
+    // Provider campaigns only ever discount that provider's bookings
+    const appliesTo = professionalId ? 'bookings' : input.appliesTo || 'all';
+
+    if (!input.title) {
+      throw new Error('title is required');
+    }
+    if (input.type && !(CAMPAIGN_TYPES as readonly string[]).includes(input.type)) {
+      throw new Error(`type must be one of ${CAMPAIGN_TYPES.join(', ')}`);
+    }
+    if (input.status && !(CAMPAIGN_STATUSES as readonly string[]).includes(input.status)) {
+      throw new Error(`status must be one of ${CAMPAIGN_STATUSES.join(', ')}`);
+    }
+    if (!(DISCOUNT_TYPES as readonly string[]).includes(discountType)) {
+      throw new Error(`discountType must be one of ${DISCOUNT_TYPES.join(', ')}`);
+    }
+    if (!(CAMPAIGN_SCOPES as readonly string[]).includes(appliesTo)) {
+      throw new Error(`appliesTo must be one of ${CAMPAIGN_SCOPES.join(', ')}`);
+    }
+    if (!(discount > 0) || (discountType === 'percentage' && discount > 100)) {
+      throw new Error('discount must be more than zero, and no more than 100 for percentages');
+    }
+    // Form posts send numbers as strings
+    const maxUsage = input.maxUsage == null || String(input.maxUsage) === '' ? null : Number(input.maxUsage);
+    const maxUsagePerUser = input.maxUsagePerUser == null || String(input.maxUsagePerUser) === '' ? 1 : Number(input.maxUsagePerUser);
+    if (maxUsage !== null && !(Number.isInteger(maxUsage) && maxUsage > 0)) {
+      throw new Error('maxUsage must be a positive whole number');
+    }
+    if (!(Number.isInteger(maxUsagePerUser) && maxUsagePerUser > 0)) {
+      throw new Error('maxUsagePerUser must be a positive whole number');
+    }
+
+    const validFrom = input.validFrom ? new Date(input.validFrom) : null;
+    const validUntil = input.validUntil ? new Date(input.validUntil) : null;
+    if (validUntil && input.validUntil && /^\d{4}-\d{2}-\d{2}$/.test(input.validUntil)) {
+      // A date without a time is valid to the end of that day
+      validUntil.setHours(23, 59, 59, 999);
+    }
+    if (validFrom && validUntil && validFrom > validUntil) {
+      throw new Error('validFrom must be before validUntil');
+    }
+
+    const code = normaliseCode(input.code || generateCode(input.title));
+    const [existingCode] = await db.select().from(promoCodes).where(eq(promoCodes.code, code));
+    if (existingCode) {
+      throw new Error(`The code ${code} is already in use`);
+    }
+
+    const campaign = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(campaigns)
+        .values({
+          professionalId,
+          title: input.title,
+          type: input.type || 'discount',
+          description: input.description,
+          status: input.status || 'active',
+          discountType,
+          discountValue: discount.toFixed(2),
+          appliesTo,
+          firstVisitOnly: !!input.firstVisitOnly,
+          serviceIds: input.serviceIds?.length ? input.serviceIds : null,
+          categories: input.categories?.length ? input.categories : null,
+          maxUsage,
+          maxUsagePerUser,
+          validFrom,
+          validUntil,
+          createdBy,
+        })
+        .returning();
+
+      await tx.insert(promoCodes).values({ campaignId: created.id, code });
+      return created;
+    });
+
+    const [summary] = await this.summarise([campaign]);
+    return summary;
+  }
+
+  // Campaigns owned by a provider, or the platform's own when professionalId is null
+  async getCampaigns(professionalId: number | null): Promise<CampaignSummary[]> {
+    const rows = await db
+      .select()
+      .from(campaigns)
+      .where(professionalId ? eq(campaigns.professionalId, professionalId) : isNull(campaigns.professionalId))
+      .orderBy(desc(campaigns.createdAt));
+    return await this.summarise(rows);
+  }
+
+  async setCampaignStatus(campaignId: number, professionalId: number | null, status: string): Promise<CampaignSummary> {
+    if (!(CAMPAIGN_STATUSES as readonly string[]).includes(status)) {
+      throw new Error(`status must be one of ${CAMPAIGN_STATUSES.join(', ')}`);
+    }
+
+    const [updated] = await db
+      .update(campaigns)
+      .set({ status, updatedAt: new Date() })
+      .where(and(
+        eq(campaigns.id, campaignId),
+        professionalId ? eq(campaigns.professionalId, professionalId) : isNull(campaigns.professionalId)
+      ))
+      .returning();
+    if (!updated) {
+      throw new Error('Campaign not found');
+    }
+
+    const [summary] = await this.summarise([updated]);
+    return summary;
+  }
+
+  private async summarise(rows: Campaign[], now = new Date()): Promise<CampaignSummary[]> {
+    if (rows.length === 0) return [];
+
+    const codes = await db
+      .select()
+      .from(promoCodes)
+      .where(inArray(promoCodes.campaignId, rows.map(campaign => campaign.id)));
+
+    return rows.map(campaign => ({
+      ...campaign,
+      status: this.displayStatus(campaign, now),
+      discount: parseFloat(campaign.discountValue),
+      codes: codes.filter(code => code.campaignId === campaign.id),
+    }));
+  }
+
+  private displayStatus(campaign: Campaign, now: Date): CampaignSummary['status'] {
+    if (campaign.status === 'draft' || campaign.status === 'paused') {
+      return campaign.status;
+    }
+    if (campaign.validFrom && now < campaign.validFrom) {
+      return 'scheduled';
+    }
+    if ((campaign.validUntil && now > campaign.validUntil)
+      || (campaign.maxUsage != null && campaign.usageCount >= campaign.maxUsage)) {
+      return 'completed';
+    }
+    return 'active';
+  }
+
+  // Look a code up and check it can be used for this booking or order. With lock set, the code and
+  // campaign rows stay locked until the transaction ends so usage caps hold under concurrent redemptions.
+  private async findRedeemable(
+    code: string,
+    target: RedemptionTarget,
+    executor: Executor,
+    lock = false,
+    now = new Date()
+  ): Promise<{ promo: PromoCode; campaign: Campaign }> {
+    const normalised = normaliseCode(code);
+    if (lock) {
+      await executor.execute(sql`SELECT ${promoCodes.id} FROM ${promoCodes} WHERE ${promoCodes.code} = ${normalised} FOR UPDATE`);
+    }
+
+    const [promo] = await executor.select().from(promoCodes).where(eq(promoCodes.code, normalised));
+    if (!promo || !promo.isActive) {
+      throw new Error('This promo code is not valid');
+    }
+
+    if (lock) {
+      await executor.execute(sql`SELECT ${campaigns.id} FROM ${campaigns} WHERE ${campaigns.id} = ${promo.campaignId} FOR UPDATE`);
+    }
+    const [campaign] = await executor.select().from(campaigns).where(eq(campaigns.id, promo.campaignId));
+    if (!campaign || this.displayStatus(campaign, now) !== 'active') {
+      throw new Error('This promo code has expired or is not active');
+    }
+
+    if (campaign.appliesTo !== 'all' && campaign.appliesTo !== target.scope) {
+      throw new Error(target.scope === 'shop' ? 'This promo code is only valid for bookings' : 'This promo code is only valid in the shop');
+    }
+    if (campaign.professionalId && campaign.professionalId !== target.professionalId) {
+      throw new Error('This promo code is not valid for this provider');
+    }
+    if (promo.maxUsage != null && promo.usageCount >= promo.maxUsage) {
+      throw new Error('This promo code has reached its usage limit');
+    }
+
+    const [{ count: userRedemptions }] = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(promoRedemptions)
+      .where(and(
+        eq(promoRedemptions.campaignId, campaign.id),
+        eq(promoRedemptions.userId, target.userId),
+        eq(promoRedemptions.status, 'applied')
+      ));
+    if (campaign.maxUsagePerUser != null && userRedemptions >= campaign.maxUsagePerUser) {
+      throw new Error('You have already used this promotion');
+    }
+
+    if (campaign.firstVisitOnly && !(await this.isFirstVisit(campaign, target, executor))) {
+      throw new Error('This promo code is only valid on your first visit');
+    }
+
+    return { promo, campaign };
+  }
+
+  // First booking with the provider (or on the platform for platform campaigns), or first shop order
+  private async isFirstVisit(campaign: Campaign, target: RedemptionTarget, executor: Executor): Promise<boolean> {
+    if (target.scope === 'shop') {
+      const [previous] = await executor
+        .select({ id: productOrders.id })
+        .from(productOrders)
+        .where(and(
+          eq(productOrders.userId, target.userId),
+          notInArray(productOrders.status, UNPAID_ORDER_STATUSES),
+          target.excludeOrderId ? ne(productOrders.id, target.excludeOrderId) : undefined
+        ))
+        .limit(1);
+      return !previous;
+    }
+
+    const [previous] = await executor
+      .select({ id: bookings.id })
+      .from(bookings)
+      .where(and(
+        eq(bookings.clientId, target.userId),
+        notInArray(bookings.status, INACTIVE_BOOKING_STATUSES),
+        campaign.professionalId ? eq(bookings.professionalId, campaign.professionalId) : undefined,
+        target.excludeBookingId ? ne(bookings.id, target.excludeBookingId) : undefined
+      ))
+      .limit(1);
+    return !previous;
+  }
+
+  // Discount on the lines the campaign targets; fixed discounts never exceed what they apply to
+  private applyDiscount(campaign: Campaign, lines: DiscountLine[]): { eligibleAmount: number; discountAmount: number } {
+    const eligibleAmount = roundCents(lines
+      .filter(line => !campaign.serviceIds?.length || (line.serviceId != null && campaign.serviceIds.includes(line.serviceId)))
+      .filter(line => !campaign.categories?.length || campaign.categories.includes(line.category))
+      .reduce((total, line) => total + line.amount, 0));
+    if (eligibleAmount <= 0) {
+      throw new Error('This promo code does not apply to anything selected');
+    }
+
+    const value = parseFloat(campaign.discountValue);
+    const discountAmount = campaign.discountType === 'fixed'
+      ? Math.min(value, eligibleAmount)
+      : roundCents(eligibleAmount * value / 100);
+    return { eligibleAmount, discountAmount };
+  }
+
+  private toQuote(promo: PromoCode, campaign: Campaign, amounts: { eligibleAmount: number; discountAmount: number }): PromoQuote {
+    return {
+      code: promo.code,
+      promoCodeId: promo.id,
+      campaignId: campaign.id,
+      title: campaign.title,
+      ...amounts,
+    };
+  }
+
+  private async bookingLines(professionalId: number, serviceIds: number[], executor: Executor): Promise<DiscountLine[]> {
+    const serviceList = await bookingEngine.getBookableServices(professionalId, serviceIds, executor);
+    return serviceIds.flatMap(serviceId => {
+      const service = serviceList.find(s => s.id === serviceId);
+      return service ? [{ amount: parseFloat(service.price), category: service.category, serviceId }] : [];
+    });
+  }
+
+  private async orderLines(items: { productId: number; quantity: number; price: number }[], executor: Executor): Promise<DiscountLine[]> {
+    const productList = await executor
+      .select({ id: products.id, category: products.category })
+      .from(products)
+      .where(inArray(products.id, items.map(item => item.productId)));
+    return items.map(item => ({
+      amount: item.price * item.quantity,
+      category: productList.find(product => product.id === item.productId)?.category ?? '',
+    }));
+  }
+
+  // Preview a code against a booking before it is made
+  async quoteBooking(code: string, userId: string, professionalId: number, serviceIds: number[]): Promise<PromoQuote> {
+    const { promo, campaign } = await this.findRedeemable(code, { scope: 'bookings', userId, professionalId }, db);
+    return this.toQuote(promo, campaign, this.applyDiscount(campaign, await this.bookingLines(professionalId, serviceIds, db)));
+  }
+
+  // Price a code against shop items; the payment intent is created for the discounted total
+  async quoteOrder(code: string, userId: string, items: { productId: number; quantity: number; price: number }[]): Promise<PromoQuote> {
+    const { promo, campaign } = await this.findRedeemable(code, { scope: 'shop', userId }, db);
+    return this.toQuote(promo, campaign, this.applyDiscount(campaign, await this.orderLines(items, db)));
+  }
+
+  // Create a booking with a promo code applied. The booking and the redemption are written in one
+  // transaction, so an invalid or exhausted code leaves no booking behind.
+  async createBookingWithCode(booking: InsertBooking, code: string): Promise<Booking> {
+    return await bookingEngine.withProfessionalLock(booking.professionalId, async (tx) => {
+      const created = await bookingEngine.insertBooking(booking, tx);
+      const { promo, campaign } = await this.findRedeemable(
+        code,
+        { scope: 'bookings', userId: created.clientId, professionalId: created.professionalId, excludeBookingId: created.id },
+        tx,
+        true
+      );
+      const { discountAmount } = this.applyDiscount(
+        campaign,
+        await this.bookingLines(created.professionalId, created.serviceIds, tx)
+      );
+
+      await this.recordRedemption(promo, campaign, { userId: created.clientId, bookingId: created.id }, discountAmount, tx);
+
+      // Fees, deposits and the provider's earnings are all worked out from the discounted amount,
+      // and the booking's price shows it too
+      const serviceAmount = parseFloat(created.basePrice || created.totalPrice);
+      const discountedPrice = Math.max(0, serviceAmount - discountAmount).toFixed(2);
+      const [discounted] = await tx
+        .update(bookings)
+        .set({
+          basePrice: discountedPrice,
+          totalPrice: discountedPrice,
+          discountAmount: discountAmount.toFixed(2),
+          promoCodeId: promo.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(bookings.id, created.id))
+        .returning();
+      return discounted;
+    });
+  }
+
+  // Record the code on a paid shop order. The client has already paid the discounted price, so the
+  // discount agreed when the payment was set up is honoured even if the cap was reached since.
+  async redeemForOrder(order: ProductOrder, code: string, discountAmount: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const normalised = normaliseCode(code);
+      await tx.execute(sql`SELECT ${promoCodes.id} FROM ${promoCodes} WHERE ${promoCodes.code} = ${normalised} FOR UPDATE`);
+      const [promo] = await tx.select().from(promoCodes).where(eq(promoCodes.code, normalised));
+      if (!promo) {
+        throw new Error(`Promo code ${normalised} no longer exists`);
+      }
+      const [campaign] = await tx.select().from(campaigns).where(eq(campaigns.id, promo.campaignId));
+
+      await this.recordRedemption(promo, campaign, { userId: order.userId, orderId: order.id }, discountAmount, tx);
+      await tx
+        .update(productOrders)
+        .set({ discountAmount: discountAmount.toFixed(2), promoCodeId: promo.id, updatedAt: new Date() })
+        .where(eq(productOrders.id, order.id));
+    });
+  }
+
+  private async recordRedemption(
+    promo: PromoCode,
+    campaign: Campaign,
+    target: { userId: string; bookingId?: string; orderId?: number },
+    discountAmount: number,
+    tx: Transaction
+  ): Promise<void> {
+    const [redemption] = await tx
+      .insert(promoRedemptions)
+      .values({
+        promoCodeId: promo.id,
+        campaignId: campaign.id,
+        userId: target.userId,
+        bookingId: target.bookingId,
+        orderId: target.orderId,
+        discountAmount: discountAmount.toFixed(2),
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!redemption) return;
+
+    await tx
+      .update(promoCodes)
+      .set({ usageCount: sql`${promoCodes.usageCount} + 1` })
+      .where(eq(promoCodes.id, promo.id));
+    await tx
+      .update(campaigns)
+      .set({ usageCount: sql`${campaigns.usageCount} + 1`, updatedAt: new Date() })
+      .where(eq(campaigns.id, campaign.id));
+  }
+
+  // Give a cancelled booking's redemption back so it no longer counts towards the caps
+  async releaseForBooking(bookingId: string, tx: Transaction): Promise<void> {
+    await this.release(eq(promoRedemptions.bookingId, bookingId), tx);
+  }
+
+  async releaseForOrder(orderId: number, tx: Transaction): Promise<void> {
+    await this.release(eq(promoRedemptions.orderId, orderId), tx);
+  }
+
+  private async release(target: SQL, tx: Transaction): Promise<void> {
+    const [released] = await tx
+      .update(promoRedemptions)
+      .set({ status: 'released', releasedAt: new Date() })
+      .where(and(target, eq(promoRedemptions.status, 'applied')))
+      .returning();
+    if (!released) return;
+
+    await tx
+      .update(promoCodes)
+      .set({ usageCount: sql`GREATEST(${promoCodes.usageCount} - 1, 0)` })
+      .where(eq(promoCodes.id, released.promoCodeId));
+    await tx
+      .update(campaigns)
+      .set({ usageCount: sql`GREATEST(${campaigns.usageCount} - 1, 0)`, updatedAt: new Date() })
+      .where(eq(campaigns.id, released.campaignId));
+  }
+}
+
+export const promotions = new PromotionService();
@@ -0,0 +1,171 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import type { Request, Response } from 'express';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { getSession } from './replitAuth';
+
+// Clients connect here; the Vite dev server keeps its own HMR socket on the same server
+export const REALTIME_PATH = '/ws';
+
+// Sockets that miss a ping are dropped, so nobody looks connected after their network goes away
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Session descriptions are the largest events, at a few kilobytes
+const MAX_EVENT_BYTES = 64 * 1024;
+
+export interface RealtimeEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export type RealtimeHandler = (userId: string, event: RealtimeEvent) => Promise<void>;
+
+const reject = (socket: Duplex, status: number, reason: string) => {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+// The session cookie goes along with any page's handshake, so only pages served by the app itself
+// may open a socket. Browsers always send Origin on WebSocket handshakes.
+const isSameOrigin = (req: IncomingMessage) => {
+  const { origin, host } = req.headers;
+  if (!origin || !host) return false;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+};
+
+export class RealtimeGateway {
+  private wss: WebSocketServer | null = null;
+  private sockets = new Map<string, Set<WebSocket>>();
+  private handlers = new Map<string, RealtimeHandler>();
+  private disconnectListeners: ((userId: string) => void)[] = [];
+  private alive = new WeakSet<WebSocket>();
+
+  attach(server: Server): void {
+    if (this.wss) return;
+    const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_EVENT_BYTES });
+    this.wss = wss;
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (new URL(req.url ?? '/', 'http://localhost').pathname !== REALTIME_PATH) return;
+      if (!isSameOrigin(req)) {
+        reject(socket, 403, 'Forbidden');
+        return;
+      }
+
+      this.authenticate(req)
+        .then(userId => {
+          if (!userId) {
+            reject(socket, 401, 'Unauthorized');
+            return;
+          }
+          wss.handleUpgrade(req, socket, head, ws => this.connect(userId, ws));
+        })
+        .catch(error => {
+          console.error('Error authenticating realtime connection:', error);
+          reject(socket, 500, 'Internal Server Error');
+        });
+    });
+
+    setInterval(() => {
+      wss.clients.forEach(ws => {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          return;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  // Handle one type of client event. The handler's errors are sent back to the client.
+  on(type: string, handler: RealtimeHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  // Called when a user's last open socket closes
+  onDisconnect(listener: (userId: string) => void): void {
+    this.disconnectListeners.push(listener);
+  }
+
+  // Deliver an event to every socket the user has open, e.g. one per tab
+  sendToUser(userId: string, event: RealtimeEvent): void {
+    const payload = JSON.stringify(event);
+    this.sockets.get(userId)?.forEach(ws => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
+      }
+    });
+  }
+
+  isConnected(userId: string): boolean {
+    return (this.sockets.get(userId)?.size ?? 0) > 0;
+  }
+
+  // The session cookie that authenticates REST calls authenticates the socket too.
+  // Expired logins are refused; the client's next REST call refreshes them and it reconnects.
+  private authenticate(req: IncomingMessage): Promise<string | null> {
+    return new Promise((resolve, rejectSession) => {
+      getSession()(req as Request, {} as Response, (error?: unknown) => {
+        if (error) {
+          rejectSession(error);
+          return;
+        }
+        const user = (req as any).session?.passport?.user;
+        const now = Math.floor(Date.now() / 1000);
+        resolve(user?.claims?.sub && user.expires_at && now <= user.expires_at ? user.claims.sub : null);
+      });
+    });
+  }
+
+  private connect(userId: string, ws: WebSocket): void {
+    const userSockets = this.sockets.get(userId) ?? new Set<WebSocket>();
+    userSockets.add(ws);
+    this.sockets.set(userId, userSockets);
+    this.alive.add(ws);
+
+    ws.on('pong', () => this.alive.add(ws));
+    ws.on('message', data => this.dispatch(userId, ws, data));
+    ws.on('close', () => {
+      userSockets.delete(ws);
+      if (userSockets.size === 0) {
+        this.sockets.delete(userId);
+        for (const listener of this.disconnectListeners) {
+          listener(userId);
+        }
+      }
+    });
+
+    ws.send(JSON.stringify({ type: 'ready', userId }));
+  }
+
+  private async dispatch(userId: string, ws: WebSocket, data: RawData): Promise<void> {
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(data.toString());
+    } catch {
+      ws.send(JSON.stringify({ type: 'error', message: 'Events must be JSON' }));
+      return;
+    }
+
+    const handler = typeof event?.type === 'string' ? this.handlers.get(event.type) : undefined;
+    if (!handler) {
+      ws.send(JSON.stringify({ type: 'error', event: event?.type, message: 'Unknown event type' }));
+      return;
+    }
+
+    try {
+      await handler(userId, event);
+    } catch (error: any) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'error', event: event.type, message: error.message }));
+      }
+    }
+  }
+}
+
+export const realtime = new RealtimeGateway();
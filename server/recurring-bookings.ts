@@ -0,0 +1,239 @@
+import { db } from './db';
+import { bookings, type Booking } from '@shared/schema';
+import { eq, or, asc } from 'drizzle-orm';
+import { bookingEngine, BookingConflictError } from './booking-engine';
+import { waitlistMatcher } from './waitlist-matcher';
+import { cancellationPolicy, type CancellationActor, type CancellationResult } from './cancellation-policy';
+
+export const RECURRING_FREQUENCIES = ['weekly', 'biweekly', 'monthly'] as const;
+export type RecurringFrequency = typeof RECURRING_FREQUENCIES[number];
+
+// Which occurrences of a series an edit applies to
+export const SERIES_SCOPES = ['occurrence', 'following', 'series'] as const;
+export type SeriesScope = typeof SERIES_SCOPES[number];
+
+// Upper bound on the number of occurrences generated for one series
+export const MAX_SERIES_OCCURRENCES = 52;
+
+// Occurrences in these states can no longer be moved or cancelled
+const CLOSED_BOOKING_STATUSES = ['cancelled', 'completed'];
+
+export interface CreateSeriesParams {
+  clientId: string;
+  professionalId: number;
+  serviceIds: number[];
+  firstAppointment: Date;
+  frequency: RecurringFrequency;
+  occurrences?: number;
+  endDate?: Date;
+  skipDates?: Date[];
+  notes?: string;
+}
+
+export interface SkippedOccurrence {
+  date: Date;
+  reason: string;
+}
+
+export interface SeriesCancellation {
+  cancelled: CancellationResult[];
+  failed: { bookingId: string; reason: string }[];
+}
+
+export interface SeriesResult {
+  seriesId: string | null;
+  bookings: Booking[];
+  skipped: SkippedOccurrence[];
+}
+
+const isOpen = (booking: Booking) => !CLOSED_BOOKING_STATUSES.includes(booking.status);
+
+export class RecurringBookingService {
+
+  // Appointment times for a series, stopping at whichever of occurrences/endDate comes first
+  generateDates(first: Date, frequency: RecurringFrequency, occurrences?: number, endDate?: Date): Date[] {
+    const count = Math.min(occurrences || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+    const dates: Date[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const date = new Date(first);
+      switch (frequency) {
+        case 'weekly':
+          date.setDate(first.getDate() + i * 7);
+          break;
+        case 'biweekly':
+          date.setDate(first.getDate() + i * 14);
+          break;
+        case 'monthly':
+          // Always step from the first date, and land on the last day of months too short
+          // for it (Jan 31 -> Feb 28 -> Mar 31), so the day of month never drifts
+          date.setDate(1);
+          date.setMonth(first.getMonth() + i);
+          date.setDate(Math.min(first.getDate(), new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()));
+          break;
+      }
+
+      if (endDate && date > endDate) break;
+      dates.push(date);
+    }
+
+    return dates;
+  }
+
+  // Book every date of the series that fits the provider's calendar; the rest are reported back
+  async createSeries(params: CreateSeriesParams): Promise<SeriesResult> {
+    const dates = this.generateDates(params.firstAppointment, params.frequency, params.occurrences, params.endDate)
+      .filter(date => !params.skipDates?.some(skip => skip.toDateString() === date.toDateString()));
+
+    if (!dates.length) {
+      throw new Error('The series does not contain any appointments');
+    }
+
+    const recurringEndDate = params.endDate || dates[dates.length - 1];
+
+    return await bookingEngine.withProfessionalLock(params.professionalId, async (tx) => {
+      const created: Booking[] = [];
+      const skipped: SkippedOccurrence[] = [];
+      const now = new Date();
+
+      for (const appointmentDate of dates) {
+        if (appointmentDate <= now) {
+          skipped.push({ date: appointmentDate, reason: 'The date is in the past' });
+          continue;
+        }
+
+        try {
+          const booking = await bookingEngine.insertBooking({
+            clientId: params.clientId,
+            professionalId: params.professionalId,
+            serviceIds: params.serviceIds,
+            appointmentDate,
+            status: 'pending',
+            notes: params.notes,
+            isRecurring: true,
+            recurringFrequency: params.frequency,
+            recurringEndDate,
+            // The first booked occurrence anchors the series
+            parentBookingId: created[0]?.id ?? null,
+          }, tx);
+          created.push(booking);
+        } catch (error) {
+          if (!(error instanceof BookingConflictError)) throw error;
+          skipped.push({ date: appointmentDate, reason: error.message });
+        }
+      }
+
+      return { seriesId: created[0]?.id ?? null, bookings: created, skipped };
+    });
+  }
+
+  getSeriesId(booking: Booking): string {
+    return booking.parentBookingId || booking.id;
+  }
+
+  // All occurrences of the series a booking belongs to, in date order
+  async getSeries(booking: Booking): Promise<Booking[]> {
+    if (!booking.isRecurring) {
+      return [booking];
+    }
+
+    const seriesId = this.getSeriesId(booking);
+    return await db
+      .select()
+      .from(bookings)
+      .where(or(eq(bookings.id, seriesId), eq(bookings.parentBookingId, seriesId)))
+      .orderBy(asc(bookings.appointmentDate));
+  }
+
+  // The open occurrences an edit with the given scope applies to
+  private async getScopedOccurrences(booking: Booking, scope: SeriesScope): Promise<Booking[]> {
+    if (!SERIES_SCOPES.includes(scope)) {
+      throw new Error(`Scope must be one of: ${SERIES_SCOPES.join(', ')}`);
+    }
+    if (!isOpen(booking)) {
+      throw new Error(`This booking is already ${booking.status}`);
+    }
+
+    if (scope === 'occurrence' || !booking.isRecurring) {
+      return [booking];
+    }
+
+    const from = scope === 'following' ? booking.appointmentDate : new Date();
+    const occurrences = await this.getSeries(booking);
+    return occurrences.filter(occurrence => isOpen(occurrence) && occurrence.appointmentDate >= from);
+  }
+
+  // Move the selected occurrences by the same offset as the chosen booking. All or nothing:
+  // if any occurrence would collide, nothing is moved and the conflicting dates are reported.
+  async reschedule(booking: Booking, scope: SeriesScope, appointmentDate: Date): Promise<Booking[]> {
+    if (appointmentDate <= new Date()) {
+      throw new Error('Appointments can only be moved to a future time');
+    }
+
+    const targets = await this.getScopedOccurrences(booking, scope);
+    const offset = appointmentDate.getTime() - booking.appointmentDate.getTime();
+    const targetIds = targets.map(target => target.id);
+
+    const moved = await bookingEngine.withProfessionalLock(booking.professionalId, async (tx) => {
+      const updated: Booking[] = [];
+      const conflicts: string[] = [];
+
+      for (const target of targets) {
+        const newDate = new Date(target.appointmentDate.getTime() + offset);
+        try {
+          updated.push(await bookingEngine.moveBooking(target, newDate, tx, targetIds));
+        } catch (error) {
+          if (!(error instanceof BookingConflictError)) throw error;
+          conflicts.push(newDate.toISOString());
+        }
+      }
+
+      if (conflicts.length) {
+        throw new BookingConflictError(`These appointments conflict with the provider's calendar: ${conflicts.join(', ')}`);
+      }
+      return updated;
+    });
+
+    this.releaseSlots(targets);
+    return moved;
+  }
+
+  // Cancel the selected occurrences one by one under the provider's cancellation policy, so each
+  // settles its own fee, refund, promotion and gift card and offers its slot to the waitlist.
+  // Cancelling this-and-following ends the series early.
+  async cancel(booking: Booking, scope: SeriesScope, actor: CancellationActor, reason?: string): Promise<SeriesCancellation> {
+    const targets = await this.getScopedOccurrences(booking, scope);
+    const result: SeriesCancellation = { cancelled: [], failed: [] };
+
+    for (const target of targets) {
+      try {
+        result.cancelled.push(await cancellationPolicy.cancel(target, actor, { reason }));
+      } catch (error: any) {
+        result.failed.push({ bookingId: target.id, reason: error.message });
+      }
+    }
+
+    if (scope === 'following' && booking.isRecurring && result.cancelled.length) {
+      const remaining = (await this.getSeries(booking))
+        .filter(occurrence => occurrence.appointmentDate < booking.appointmentDate);
+      if (remaining.length) {
+        const seriesId = this.getSeriesId(booking);
+        await db
+          .update(bookings)
+          .set({ recurringEndDate: remaining[remaining.length - 1].appointmentDate, updatedAt: new Date() })
+          .where(or(eq(bookings.id, seriesId), eq(bookings.parentBookingId, seriesId)));
+      }
+    }
+
+    return result;
+  }
+
+  // Offer freed times to the waitlist without holding up the caller
+  private releaseSlots(freed: Booking[]): void {
+    waitlistMatcher.offerFreedSlots(freed).catch(error => {
+      console.error('Error offering freed slots to the waitlist:', error);
+    });
+  }
+}
+
+export const recurringBookings = new RecurringBookingService();
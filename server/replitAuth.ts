@@ -22,7 +22,13 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
+let sessionMiddleware: RequestHandler | null = null;
+
+// One session middleware for the app, shared with the realtime gateway so sockets
+// authenticate with the same cookie as REST calls
 export function getSession() {
+  if (sessionMiddleware) return sessionMiddleware;
+
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -31,7 +37,7 @@ export function getSession() {
     ttl: sessionTtl,
     tableName: "sessions",
   });
-  return session({
+  sessionMiddleware = session({
     secret: process.env.SESSION_SECRET!,
     store: sessionStore,
     resave: false,
@@ -42,6 +48,7 @@ export function getSession() {
       maxAge: sessionTtl,
     },
   });
+  return sessionMiddleware;
 }
 
 function updateUserSession(
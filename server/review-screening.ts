@@ -0,0 +1,315 @@
+import { db } from './db';
+import { bookings, moderationQueue, professionals, reviews, users, type Review } from '@shared/schema';
+import { eq, and, or, ne, gte, lte, isNull, isNotNull, asc, desc, sql } from 'drizzle-orm';
+import { storage } from './storage';
+
+// A review scoring this much or more is hidden until a moderator decides on it
+export const FLAG_THRESHOLD = 50;
+
+// What each signal adds to a review's score. Signals that are weak alone, like a first-time
+// reviewer, only flag a review together with another one.
+const SIGNAL_WEIGHTS = {
+  burst: 30,
+  inactive_reviewer: 20,
+  duplicate_text: 50,
+  linked_account: 60,
+  profanity: 50,
+  contact_info: 50,
+} as const;
+
+export type FraudSignal = keyof typeof SIGNAL_WEIGHTS;
+
+export interface FraudFinding {
+  signal: FraudSignal;
+  detail: string;
+}
+
+export interface ScreeningResult {
+  score: number;
+  findings: FraudFinding[];
+  flagged: boolean;
+}
+
+// This many reviews for one provider inside the window is a burst
+const BURST_WINDOW_HOURS = 24;
+const BURST_THRESHOLD = 5;
+
+// Short comments ("Great service, thank you!") are too common to count as copies
+const MIN_WORDS_TO_COMPARE = 6;
+const DUPLICATE_SIMILARITY = 0.8;
+const DUPLICATE_LOOKBACK_DAYS = 180;
+const DUPLICATE_CANDIDATES = 1000;
+
+// Bursts and copies only show once later reviews arrive, so recent history is screened again
+const RESCREEN_LOOKBACK_DAYS = 30;
+const SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Sharing one of these domains says nothing about two accounts
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'msn.com',
+]);
+
+const PROFANITY = ['fuck', 'fucking', 'shit', 'bitch', 'cunt', 'asshole', 'bastard', 'dickhead', 'whore', 'slut', 'motherfucker'];
+const profanityPattern = new RegExp(`\\b(?:${PROFANITY.join('|')})s?\\b`, 'i');
+
+// Reviews aren't a way to take clients off the platform
+const CONTACT_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: 'an email address', pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i },
+  { label: 'a phone number', pattern: /\+?\d(?:[\s.\-()]*\d){9,}/ },
+  { label: 'a link', pattern: /\b(?:https?:\/\/|www\.)\S+/i },
+  { label: 'a social media handle', pattern: /(?:^|\s)@[a-z0-9_.]{3,}/i },
+];
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+// Word triples, so reordered or lightly edited copies still match
+const shingles = (words: string[]) => {
+  const set = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) {
+    set.add(words.slice(i, i + 3).join(' '));
+  }
+  return set;
+};
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  a.forEach(shingle => {
+    if (b.has(shingle)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+// jane.doe+reviews@gmail.com and janedoe@gmail.com are the same inbox
+const normalizeEmail = (email: string) => {
+  const [local, domain] = email.toLowerCase().trim().split('@');
+  if (!local || !domain) return null;
+  let address = local.split('+')[0];
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    address = address.replace(/\./g, '');
+  }
+  return { address: `${address}@${domain === 'googlemail.com' ? 'gmail.com' : domain}`, domain };
+};
+
+const hoursFrom = (date: Date, hours: number) => new Date(date.getTime() + hours * 60 * 60 * 1000);
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+export class ReviewScreening {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  // Score a review and hide it for moderation if it crosses the threshold
+  async screen(reviewId: number): Promise<ScreeningResult> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, reviewId));
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    const findings = [
+      ...await this.findBurst(review),
+      ...await this.findInactiveReviewer(review),
+      ...await this.findDuplicateText(review),
+      ...await this.findLinkedAccount(review),
+      ...this.findAbusiveText(review),
+    ];
+    const score = Math.min(100, findings.reduce((sum, finding) => sum + SIGNAL_WEIGHTS[finding.signal], 0));
+    const flagged = score >= FLAG_THRESHOLD;
+
+    await this.record(review, score, findings, flagged);
+    return { score, findings, flagged };
+  }
+
+  // Screen every review that never was, and recent published ones again; returns how many were flagged
+  async sweep(): Promise<number> {
+    const recent = await db
+      .select({ id: reviews.id })
+      .from(reviews)
+      .where(or(
+        isNull(reviews.screenedAt),
+        and(eq(reviews.status, 'published'), gte(reviews.createdAt, daysAgo(RESCREEN_LOOKBACK_DAYS)))
+      ))
+      .orderBy(asc(reviews.id));
+
+    let flagged = 0;
+    for (const { id } of recent) {
+      try {
+        const result = await this.screen(id);
+        if (result.flagged) flagged++;
+      } catch (error) {
+        console.error(`Error screening review ${id}:`, error);
+      }
+    }
+    return flagged;
+  }
+
+  private async findBurst(review: Review): Promise<FraudFinding[]> {
+    const createdAt = review.createdAt ?? new Date();
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(reviews)
+      .where(and(
+        eq(reviews.professionalId, review.professionalId),
+        gte(reviews.createdAt, hoursFrom(createdAt, -BURST_WINDOW_HOURS / 2)),
+        lte(reviews.createdAt, hoursFrom(createdAt, BURST_WINDOW_HOURS / 2))
+      ));
+
+    return count >= BURST_THRESHOLD
+      ? [{ signal: 'burst', detail: `${count} reviews for this provider within ${BURST_WINDOW_HOURS} hours` }]
+      : [];
+  }
+
+  private async findInactiveReviewer(review: Review): Promise<FraudFinding[]> {
+    const [{ otherBookings }] = await db
+      .select({ otherBookings: sql<number>`count(*)::int` })
+      .from(bookings)
+      .where(and(eq(bookings.clientId, review.clientId), ne(bookings.id, review.bookingId)));
+    const [{ otherReviews }] = await db
+      .select({ otherReviews: sql<number>`count(*)::int` })
+      .from(reviews)
+      .where(and(eq(reviews.clientId, review.clientId), ne(reviews.id, review.id)));
+
+    return otherBookings === 0 && otherReviews === 0
+      ? [{ signal: 'inactive_reviewer', detail: 'Reviewer has no other bookings or reviews' }]
+      : [];
+  }
+
+  private async findDuplicateText(review: Review): Promise<FraudFinding[]> {
+    const words = normalizeText(review.comment ?? '');
+    if (words.length < MIN_WORDS_TO_COMPARE) return [];
+    const own = shingles(words);
+
+    const candidates = await db
+      .select({ id: reviews.id, comment: reviews.comment })
+      .from(reviews)
+      .where(and(
+        ne(reviews.id, review.id),
+        isNotNull(reviews.comment),
+        gte(reviews.createdAt, daysAgo(DUPLICATE_LOOKBACK_DAYS))
+      ))
+      .orderBy(desc(reviews.createdAt))
+      .limit(DUPLICATE_CANDIDATES);
+
+    let best = { id: 0, score: 0 };
+    for (const candidate of candidates) {
+      const score = similarity(own, shingles(normalizeText(candidate.comment!)));
+      if (score > best.score) best = { id: candidate.id, score };
+    }
+
+    return best.score >= DUPLICATE_SIMILARITY
+      ? [{ signal: 'duplicate_text', detail: `${Math.round(best.score * 100)}% the same as review #${best.id}` }]
+      : [];
+  }
+
+  private async findLinkedAccount(review: Review): Promise<FraudFinding[]> {
+    const [provider] = await db
+      .select({ userId: professionals.userId, email: users.email })
+      .from(professionals)
+      .innerJoin(users, eq(professionals.userId, users.id))
+      .where(eq(professionals.id, review.professionalId));
+    if (!provider) return [];
+
+    if (provider.userId === review.clientId) {
+      return [{ signal: 'linked_account', detail: "Reviewer is the provider's own account" }];
+    }
+
+    const [reviewer] = await db.select({ email: users.email }).from(users).where(eq(users.id, review.clientId));
+    const reviewerEmail = reviewer?.email ? normalizeEmail(reviewer.email) : null;
+    const providerEmail = provider.email ? normalizeEmail(provider.email) : null;
+    if (!reviewerEmail || !providerEmail) return [];
+
+    if (reviewerEmail.address === providerEmail.address) {
+      return [{ signal: 'linked_account', detail: "Reviewer's email is an alias of the provider's" }];
+    }
+    if (reviewerEmail.domain === providerEmail.domain && !FREE_EMAIL_DOMAINS.has(reviewerEmail.domain)) {
+      return [{ signal: 'linked_account', detail: `Reviewer shares the provider's email domain ${reviewerEmail.domain}` }];
+    }
+    return [];
+  }
+
+  private findAbusiveText(review: Review): FraudFinding[] {
+    const comment = review.comment ?? '';
+    const findings: FraudFinding[] = [];
+
+    if (profanityPattern.test(comment)) {
+      findings.push({ signal: 'profanity', detail: 'Comment contains profanity' });
+    }
+    const contact = CONTACT_PATTERNS.filter(({ pattern }) => pattern.test(comment)).map(({ label }) => label);
+    if (contact.length) {
+      findings.push({ signal: 'contact_info', detail: `Comment contains ${contact.join(', ')}` });
+    }
+    return findings;
+  }
+
+  // Keep the latest score on the review. A new review is published unless it is flagged; a flagged
+  // review is hidden and queued once. Reviews a moderator already cleared stay up.
+  private async record(review: Review, score: number, findings: FraudFinding[], flagged: boolean): Promise<void> {
+    const statusChanged = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT ${reviews.id} FROM ${reviews} WHERE ${reviews.id} = ${review.id} FOR UPDATE`);
+      const [current] = await tx.select({ status: reviews.status }).from(reviews).where(eq(reviews.id, review.id));
+
+      const [cleared] = await tx
+        .select({ id: moderationQueue.id })
+        .from(moderationQueue)
+        .where(and(
+          eq(moderationQueue.contentType, 'review'),
+          eq(moderationQueue.contentId, review.id.toString()),
+          eq(moderationQueue.status, 'approved')
+        ));
+      const awaitingScreening = current?.status === 'pending';
+      const shouldHide = flagged && !cleared && (current?.status === 'published' || awaitingScreening);
+      const shouldPublish = awaitingScreening && !shouldHide;
+
+      await tx
+        .update(reviews)
+        .set({
+          fraudScore: score,
+          fraudReasons: findings,
+          screenedAt: new Date(),
+          ...(shouldHide ? { status: 'hidden' } : shouldPublish ? { status: 'published' } : {}),
+        })
+        .where(eq(reviews.id, review.id));
+
+      if (shouldHide) {
+        const [queued] = await tx
+          .select({ id: moderationQueue.id })
+          .from(moderationQueue)
+          .where(and(
+            eq(moderationQueue.contentType, 'review'),
+            eq(moderationQueue.contentId, review.id.toString()),
+            eq(moderationQueue.status, 'pending')
+          ));
+        const reason = `Automated screening (score ${score}): ${findings.map(finding => finding.detail).join('; ')}`;
+        if (queued) {
+          await tx.update(moderationQueue).set({ reason, updatedAt: new Date() }).where(eq(moderationQueue.id, queued.id));
+        } else {
+          await tx.insert(moderationQueue).values({ contentType: 'review', contentId: review.id.toString(), reason });
+        }
+      }
+      return shouldHide || shouldPublish;
+    });
+
+    if (statusChanged) {
+      await storage.updateProfessionalRating(review.professionalId);
+    }
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(async () => {
+      try {
+        await this.sweep();
+      } catch (error) {
+        console.error('Error screening reviews:', error);
+      }
+    }, SWEEP_INTERVAL_MS);
+  }
+}
+
+export const reviewScreening = new ReviewScreening();
@@ -0,0 +1,424 @@
+import { db } from './db';
+import {
+  bookings,
+  moderationQueue,
+  professionals,
+  reviewHelpful,
+  reviewPhotos,
+  reviewReports,
+  reviewResponses,
+  reviews,
+  services,
+  users,
+  type Review,
+  type ReviewPhoto,
+  type ReviewReport,
+  type ReviewResponse,
+} from '@shared/schema';
+import { eq, and, asc, desc, gte, inArray, isNull, sql } from 'drizzle-orm';
+import { storage } from './storage';
+import { reviewScreening } from './review-screening';
+
+// Days after the appointment a client can still review it
+export const REVIEW_WINDOW_DAYS = 60;
+
+export const MAX_REVIEW_PHOTOS = 5;
+
+export const REVIEW_SORTS = ['helpful', 'newest', 'photos'] as const;
+export type ReviewSort = typeof REVIEW_SORTS[number];
+
+export const REPORT_REASONS = ['spam', 'fake', 'inappropriate', 'offensive', 'other'] as const;
+
+export interface PhotoInput {
+  imageUrl: string;
+  caption?: string | null;
+}
+
+export interface ReviewInput {
+  bookingId: string;
+  rating: number;
+  comment?: string | null;
+  photos?: PhotoInput[];
+}
+
+export interface ReviewListOptions {
+  sort?: ReviewSort;
+  rating?: number;
+  viewerId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// A review without its screening results, which only moderators see
+export type PublicReview = Omit<Review, 'fraudScore' | 'fraudReasons' | 'screenedAt'>;
+
+// A review as shown on a provider's page
+export interface ReviewDetail extends PublicReview {
+  clientName: string;
+  clientAvatar: string | null;
+  serviceType: string | null;
+  verifiedBooking: boolean;
+  photos: ReviewPhoto[];
+  helpfulCount: number;
+  notHelpfulCount: number;
+  userVote: 'helpful' | 'not_helpful' | null;
+  providerResponse: ReviewResponse | null;
+}
+
+export interface ReviewStats {
+  totalReviews: number;
+  averageRating: number;
+  weightedRating: number; // what the provider is ranked by; see updateProfessionalRating
+  ratingDistribution: Record<string, number>;
+  responseRate: number; // percent of reviews the provider has answered
+}
+
+export interface ReviewList {
+  reviews: ReviewDetail[];
+  stats: ReviewStats;
+  // The viewer's own bookings with this provider that are still open for a review
+  reviewableBookings: { id: string; appointmentDate: Date; serviceType: string | null }[];
+}
+
+const helpfulCountSql = sql<number>`(select count(*)::int from ${reviewHelpful} where ${reviewHelpful.reviewId} = ${reviews.id} and ${reviewHelpful.isHelpful})`;
+const notHelpfulCountSql = sql<number>`(select count(*)::int from ${reviewHelpful} where ${reviewHelpful.reviewId} = ${reviews.id} and not ${reviewHelpful.isHelpful})`;
+const hasPhotosSql = sql<boolean>`exists (select 1 from ${reviewPhotos} where ${reviewPhotos.reviewId} = ${reviews.id})`;
+const serviceNamesSql = sql<string | null>`(select string_agg(${services.name}, ', ') from ${services} where ${services.id} = any(${bookings.serviceIds}))`;
+
+const reviewWindowStart = () => {
+  const start = new Date();
+  start.setDate(start.getDate() - REVIEW_WINDOW_DAYS);
+  return start;
+};
+
+const toPublic = ({ fraudScore, fraudReasons, screenedAt, ...review }: Review): PublicReview => review;
+
+const assertPhotos = (photos: PhotoInput[]) => {
+  for (const photo of photos) {
+    if (typeof photo?.imageUrl !== 'string' || !/^https?:\/\/\S+$/i.test(photo.imageUrl.trim())) {
+      throw new Error('Photos must be http or https image URLs');
+    }
+  }
+};
+
+export class ReviewService {
+
+  // Reviews are only taken from the client who booked, for a completed booking, once, inside the window.
+  // The provider is taken from the booking, never from the request. Every review is screened, and one
+  // that looks fraudulent or abusive comes back hidden until a moderator decides on it.
+  async submit(clientId: string, input: ReviewInput): Promise<PublicReview> {
+    const rating = Number(input.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new Error('Rating must be a whole number from 1 to 5');
+    }
+    if (!input.bookingId) {
+      throw new Error('Booking is required');
+    }
+    const photos = input.photos ?? [];
+    if (photos.length > MAX_REVIEW_PHOTOS) {
+      throw new Error(`A review can have up to ${MAX_REVIEW_PHOTOS} photos`);
+    }
+    assertPhotos(photos);
+
+    const review = await db.transaction(async (tx) => {
+      // Lock the booking so two submissions for it can't both get through
+      await tx.execute(sql`SELECT ${bookings.id} FROM ${bookings} WHERE ${bookings.id} = ${input.bookingId} FOR UPDATE`);
+      const [booking] = await tx.select().from(bookings).where(eq(bookings.id, input.bookingId));
+      if (!booking || booking.clientId !== clientId) {
+        throw new Error('You can only review your own bookings');
+      }
+      if (booking.status !== 'completed') {
+        throw new Error('Bookings can be reviewed once the appointment is completed');
+      }
+
+      const closesAt = new Date(booking.appointmentDate);
+      closesAt.setDate(closesAt.getDate() + REVIEW_WINDOW_DAYS);
+      if (closesAt < new Date()) {
+        throw new Error(`Reviews can only be left within ${REVIEW_WINDOW_DAYS} days of the appointment`);
+      }
+
+      const [existing] = await tx.select({ id: reviews.id }).from(reviews).where(eq(reviews.bookingId, booking.id));
+      if (existing) {
+        throw new Error('This booking has already been reviewed');
+      }
+
+      const [review] = await tx
+        .insert(reviews)
+        .values({
+          bookingId: booking.id,
+          clientId,
+          professionalId: booking.professionalId,
+          rating,
+          comment: input.comment?.trim() || null,
+          // Published by screening, unless it is flagged
+          status: 'pending',
+        })
+        .returning();
+
+      if (photos.length) {
+        await tx.insert(reviewPhotos).values(photos.map(photo => ({
+          reviewId: review.id,
+          imageUrl: photo.imageUrl.trim(),
+          caption: photo.caption?.trim() || null,
+        })));
+      }
+      return review;
+    });
+
+    try {
+      await reviewScreening.screen(review.id);
+    } catch (error) {
+      // It stays pending until the next sweep screens it
+      console.error(`Error screening review ${review.id}:`, error);
+    }
+
+    const [screened] = await db.select().from(reviews).where(eq(reviews.id, review.id));
+    return toPublic(screened ?? review);
+  }
+
+  async getProviderReviews(professionalId: number, options: ReviewListOptions = {}): Promise<ReviewList> {
+    const sort: ReviewSort = REVIEW_SORTS.includes(options.sort as ReviewSort) ? options.sort as ReviewSort : 'newest';
+    const limit = Math.min(Math.max(Number(options.limit) || 20, 1), 100);
+    const offset = Math.max(Number(options.offset) || 0, 0);
+
+    const conditions = [eq(reviews.professionalId, professionalId), eq(reviews.status, 'published')];
+    if (options.rating) {
+      conditions.push(eq(reviews.rating, Number(options.rating)));
+    }
+    if (sort === 'photos') {
+      conditions.push(hasPhotosSql);
+    }
+
+    const rows = await db
+      .select({
+        review: reviews,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        profileImageUrl: users.profileImageUrl,
+        serviceType: serviceNamesSql,
+        helpfulCount: helpfulCountSql,
+        notHelpfulCount: notHelpfulCountSql,
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.clientId, users.id))
+      .leftJoin(bookings, eq(reviews.bookingId, bookings.id))
+      .where(and(...conditions))
+      .orderBy(...(sort === 'helpful' ? [desc(helpfulCountSql), desc(reviews.createdAt)] : [desc(reviews.createdAt)]))
+      .limit(limit)
+      .offset(offset);
+
+    const ids = rows.map(row => row.review.id);
+    const photos = ids.length
+      ? await db.select().from(reviewPhotos).where(inArray(reviewPhotos.reviewId, ids)).orderBy(asc(reviewPhotos.id))
+      : [];
+    const responses = ids.length
+      ? await db.select().from(reviewResponses).where(inArray(reviewResponses.reviewId, ids))
+      : [];
+    const votes = ids.length && options.viewerId
+      ? await db
+          .select()
+          .from(reviewHelpful)
+          .where(and(inArray(reviewHelpful.reviewId, ids), eq(reviewHelpful.userId, options.viewerId)))
+      : [];
+
+    const details: ReviewDetail[] = rows.map(row => {
+      const vote = votes.find(v => v.reviewId === row.review.id);
+      return {
+        ...toPublic(row.review),
+        clientName: [row.firstName, row.lastName].filter(Boolean).join(' ') || 'Client',
+        clientAvatar: row.profileImageUrl,
+        serviceType: row.serviceType,
+        verifiedBooking: true,
+        photos: photos.filter(photo => photo.reviewId === row.review.id),
+        helpfulCount: row.helpfulCount,
+        notHelpfulCount: row.notHelpfulCount,
+        userVote: vote ? (vote.isHelpful ? 'helpful' : 'not_helpful') : null,
+        providerResponse: responses.find(response => response.reviewId === row.review.id) ?? null,
+      };
+    });
+
+    return {
+      reviews: details,
+      stats: await this.getStats(professionalId),
+      reviewableBookings: options.viewerId ? await this.getReviewableBookings(options.viewerId, professionalId) : [],
+    };
+  }
+
+  async getStats(professionalId: number): Promise<ReviewStats> {
+    const [totals] = await db
+      .select({
+        totalReviews: sql<number>`count(*)::int`,
+        averageRating: sql<string | null>`avg(${reviews.rating})`,
+        responded: sql<number>`count(${reviewResponses.id})::int`,
+      })
+      .from(reviews)
+      .leftJoin(reviewResponses, eq(reviewResponses.reviewId, reviews.id))
+      .where(and(eq(reviews.professionalId, professionalId), eq(reviews.status, 'published')));
+
+    const distribution = await db
+      .select({ rating: reviews.rating, count: sql<number>`count(*)::int` })
+      .from(reviews)
+      .where(and(eq(reviews.professionalId, professionalId), eq(reviews.status, 'published')))
+      .groupBy(reviews.rating);
+
+    const [professional] = await db
+      .select({ rating: professionals.rating })
+      .from(professionals)
+      .where(eq(professionals.id, professionalId));
+
+    const ratingDistribution: Record<string, number> = { '5': 0, '4': 0, '3': 0, '2': 0, '1': 0 };
+    for (const row of distribution) {
+      ratingDistribution[row.rating.toString()] = row.count;
+    }
+
+    return {
+      totalReviews: totals.totalReviews,
+      averageRating: totals.averageRating === null ? 0 : Math.round(parseFloat(totals.averageRating) * 100) / 100,
+      weightedRating: parseFloat(professional?.rating || '0'),
+      ratingDistribution,
+      responseRate: totals.totalReviews > 0 ? Math.round((totals.responded / totals.totalReviews) * 100) : 0,
+    };
+  }
+
+  async getReviewableBookings(clientId: string, professionalId: number): Promise<ReviewList['reviewableBookings']> {
+    return await db
+      .select({ id: bookings.id, appointmentDate: bookings.appointmentDate, serviceType: serviceNamesSql })
+      .from(bookings)
+      .leftJoin(reviews, eq(reviews.bookingId, bookings.id))
+      .where(and(
+        eq(bookings.clientId, clientId),
+        eq(bookings.professionalId, professionalId),
+        eq(bookings.status, 'completed'),
+        gte(bookings.appointmentDate, reviewWindowStart()),
+        isNull(reviews.id)
+      ))
+      .orderBy(desc(bookings.appointmentDate));
+  }
+
+  // Only the reviewer can add photos, up to the limit across all of them
+  async addPhotos(reviewId: number, userId: string, photos: PhotoInput[]): Promise<ReviewPhoto[]> {
+    const review = await this.getReview(reviewId);
+    if (review.clientId !== userId) {
+      throw new Error('Only the reviewer can add photos');
+    }
+    if (!Array.isArray(photos) || photos.length === 0) {
+      throw new Error('Photos are required');
+    }
+    assertPhotos(photos);
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(reviewPhotos)
+      .where(eq(reviewPhotos.reviewId, reviewId));
+    if (count + photos.length > MAX_REVIEW_PHOTOS) {
+      throw new Error(`A review can have up to ${MAX_REVIEW_PHOTOS} photos`);
+    }
+
+    return await db
+      .insert(reviewPhotos)
+      .values(photos.map(photo => ({ reviewId, imageUrl: photo.imageUrl.trim(), caption: photo.caption?.trim() || null })))
+      .returning();
+  }
+
+  async removePhoto(reviewId: number, photoId: number, userId: string): Promise<void> {
+    const review = await this.getReview(reviewId);
+    if (review.clientId !== userId) {
+      throw new Error('Only the reviewer can remove photos');
+    }
+    await db.delete(reviewPhotos).where(and(eq(reviewPhotos.id, photoId), eq(reviewPhotos.reviewId, reviewId)));
+  }
+
+  // Each user votes once on a review, and not on their own
+  async vote(reviewId: number, userId: string, isHelpful: boolean): Promise<void> {
+    const review = await this.getReview(reviewId);
+    if (review.clientId === userId) {
+      throw new Error("You can't vote on your own review");
+    }
+
+    const [vote] = await db
+      .insert(reviewHelpful)
+      .values({ reviewId, userId, isHelpful: Boolean(isHelpful) })
+      .onConflictDoNothing()
+      .returning();
+    if (!vote) {
+      throw new Error("You've already voted on this review");
+    }
+  }
+
+  // The reviewed provider's public reply. Posting again edits it.
+  async respond(reviewId: number, userId: string, response: string): Promise<ReviewResponse> {
+    const text = response?.trim();
+    if (!text) {
+      throw new Error('Response is required');
+    }
+    if (text.length > 2000) {
+      throw new Error('Responses can be up to 2000 characters');
+    }
+
+    const review = await this.getReview(reviewId);
+    const professional = await storage.getProfessionalByUserId(userId);
+    if (!professional || professional.id !== review.professionalId) {
+      throw new Error('Only the reviewed provider can respond');
+    }
+
+    const [saved] = await db
+      .insert(reviewResponses)
+      .values({ reviewId, providerId: professional.id, response: text })
+      .onConflictDoUpdate({ target: reviewResponses.reviewId, set: { response: text, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  // Reports go to the moderation queue; a review already waiting there isn't queued twice
+  async report(reviewId: number, userId: string, reason: string, description?: string): Promise<ReviewReport> {
+    if (!REPORT_REASONS.includes(reason as typeof REPORT_REASONS[number])) {
+      throw new Error(`Reason must be one of: ${REPORT_REASONS.join(', ')}`);
+    }
+    await this.getReview(reviewId);
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT ${reviews.id} FROM ${reviews} WHERE ${reviews.id} = ${reviewId} FOR UPDATE`);
+
+      const [existing] = await tx
+        .select({ id: reviewReports.id })
+        .from(reviewReports)
+        .where(and(eq(reviewReports.reviewId, reviewId), eq(reviewReports.reporterId, userId)));
+      if (existing) {
+        throw new Error("You've already reported this review");
+      }
+
+      const [report] = await tx
+        .insert(reviewReports)
+        .values({ reviewId, reporterId: userId, reason, description: description?.trim() || null })
+        .returning();
+
+      const [queued] = await tx
+        .select({ id: moderationQueue.id })
+        .from(moderationQueue)
+        .where(and(
+          eq(moderationQueue.contentType, 'review'),
+          eq(moderationQueue.contentId, reviewId.toString()),
+          eq(moderationQueue.status, 'pending')
+        ));
+      if (!queued) {
+        await tx.insert(moderationQueue).values({
+          contentType: 'review',
+          contentId: reviewId.toString(),
+          reportedBy: userId,
+          reason,
+        });
+      }
+      return report;
+    });
+  }
+
+  private async getReview(reviewId: number): Promise<Review> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, reviewId));
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    return review;
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -1,6 +1,5 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import Stripe from "stripe";
 import { eq, and } from "drizzle-orm";
 import { 
   tokenPackages, 
@@ -10,20 +9,45 @@ import {
   trustScores
 } from "../shared/schema";
 import { db } from "./db";
+import { stripe } from "./stripe";
 import { storage } from "./storage";
+import { bookingEngine } from "./booking-engine";
+import { recurringBookings, RECURRING_FREQUENCIES } from "./recurring-bookings";
+import { waitlistMatcher } from "./waitlist-matcher";
+import { jobMarketplace } from "./job-marketplace";
+import { feeCalculator } from "./fee-calculator";
+import { deposits } from "./deposits";
+import { promotions } from "./promotions";
+import { giftCardService } from "./gift-cards";
+import { inventory } from "./inventory";
+import { orderFulfillment, OrderPaymentError, ORDER_STATUSES, type OrderStatus } from "./order-fulfillment";
+import { returns } from "./order-returns";
+import { shopPricing, type PricingSettings } from "./shop-pricing";
+import { storefronts } from "./storefronts";
+import { reviewService } from "./reviews";
+import { cancellationPolicy, type CancellationActor } from "./cancellation-policy";
+import { payoutRunner, advancePayoutDate } from "./payout-runner";
+import { stripeWebhooks } from "./stripe-webhooks";
+import { disputeWorkflow, DISPUTE_STATUSES } from "./dispute-workflow";
+import { reviewScreening } from "./review-screening";
+import { realtime } from "./realtime";
+import { messaging } from "./messaging";
+import { videoSignaling } from "./video-signaling";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { 
   insertProfessionalSchema, 
   insertServiceSchema, 
   insertBookingSchema, 
-  insertReviewSchema,
   insertProviderTokenSchema,
   insertTokenTransactionSchema,
   insertFeeStructureSchema,
   insertJobRequestSchema,
   insertProviderBidSchema,
   insertProviderCertificationSchema,
-  insertProviderReferenceSchema
+  insertProviderReferenceSchema,
+  insertWaitlistSchema,
+  type Booking,
+  type Dispute
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -58,18 +82,10 @@ import {
 } from "./middleware/monitoring";
 import { backupManager, DisasterRecovery } from "./middleware/backup";
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
-}
-
 if (!process.env.OPENAI_API_KEY) {
   throw new Error('Missing required OpenAI API key: OPENAI_API_KEY');
 }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2025-06-30.basil",
-});
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Production middleware setup
   app.use(securityHeaders);
@@ -171,6 +187,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Smart Notification System Endpoints
   const { notificationService } = await import('./notification-service');
+  await notificationService.initializeTemplates();
 
   // Get user notifications
   app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
@@ -515,6 +532,215 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Run payouts that have come due now instead of waiting for the hourly sweep
+  app.post("/api/admin/payouts/run", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const results = await payoutRunner.runDuePayouts();
+      res.json(results);
+    } catch (error) {
+      console.error("Error running payouts:", error);
+      res.status(500).json({ message: "Failed to run payouts" });
+    }
+  });
+
+  // Platform-wide campaigns; unlike provider campaigns these can discount shop orders too
+  app.get("/api/admin/campaigns", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const campaigns = await promotions.getCampaigns(null);
+      res.json(campaigns);
+    } catch (error) {
+      console.error("Error fetching campaigns:", error);
+      res.status(500).json({ message: "Failed to fetch campaigns" });
+    }
+  });
+
+  app.post("/api/admin/campaigns", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const campaign = await promotions.createCampaign(null, req.user.claims.sub, req.body);
+      res.json(campaign);
+    } catch (error: any) {
+      console.error("Error creating campaign:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  // Shop stock levels
+  app.get("/api/admin/inventory/low-stock", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      res.json(await inventory.getLowStock());
+    } catch (error) {
+      console.error("Error fetching low stock products:", error);
+      res.status(500).json({ message: "Failed to fetch low stock products" });
+    }
+  });
+
+  app.post("/api/admin/products/:id/restock", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const product = await inventory.restock(parseInt(req.params.id), Number(req.body.quantity));
+      res.json(product);
+    } catch (error: any) {
+      console.error("Error restocking product:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  // Shop order fulfillment
+  app.get("/api/admin/orders", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const status = typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined;
+      res.json(await orderFulfillment.getOrders(status));
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  app.get("/api/admin/orders/:id", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const order = await orderFulfillment.getDetail(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
+
+  app.post("/api/admin/orders/:id/status", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { status, note } = req.body;
+      if (!ORDER_STATUSES.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of: ${ORDER_STATUSES.join(', ')}` });
+      }
+      const order = await orderFulfillment.setStatus(parseInt(req.params.id), status as OrderStatus, req.user.claims.sub, note);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Error updating order status:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/orders/:id/shipments", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { carrier, trackingNumber, items } = req.body;
+      const shipment = await orderFulfillment.createShipment(parseInt(req.params.id), { carrier, trackingNumber, items }, req.user.claims.sub);
+      res.json(shipment);
+    } catch (error: any) {
+      console.error("Error creating shipment:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/shipments/:id/delivered", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const order = await orderFulfillment.markShipmentDelivered(parseInt(req.params.id), req.user.claims.sub);
+      res.json(order);
+    } catch (error: any) {
+      console.error("Error marking shipment delivered:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/returns", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const status = typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined;
+      res.json(await returns.getReturns(status));
+    } catch (error) {
+      console.error("Error fetching returns:", error);
+      res.status(500).json({ message: "Failed to fetch returns" });
+    }
+  });
+
+  app.post("/api/admin/returns/:id/approve", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { noRestock, note } = req.body;
+      const orderReturn = await returns.approve(parseInt(req.params.id), req.user.claims.sub, { noRestock, note });
+      res.json(orderReturn);
+    } catch (error: any) {
+      console.error("Error approving return:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/returns/:id/reject", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const orderReturn = await returns.reject(parseInt(req.params.id), req.user.claims.sub, req.body.note);
+      res.json(orderReturn);
+    } catch (error: any) {
+      console.error("Error rejecting return:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/shop-pricing", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      res.json(await shopPricing.getConfig());
+    } catch (error) {
+      console.error("Error fetching shop pricing:", error);
+      res.status(500).json({ message: "Failed to fetch shop pricing" });
+    }
+  });
+
+  app.put("/api/admin/shop-pricing", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { defaultTaxRate, shippingBasis, defaultShippingRate, freeShippingThreshold, affiliateCommissionRate } = req.body;
+      const input: Partial<PricingSettings> = {};
+      if (defaultTaxRate !== undefined) input.defaultTaxRate = Number(defaultTaxRate);
+      if (shippingBasis !== undefined) input.shippingBasis = shippingBasis;
+      if (defaultShippingRate !== undefined) input.defaultShippingRate = Number(defaultShippingRate);
+      if (freeShippingThreshold !== undefined) {
+        input.freeShippingThreshold = freeShippingThreshold === null || freeShippingThreshold === "" ? null : Number(freeShippingThreshold);
+      }
+      if (affiliateCommissionRate !== undefined) input.affiliateCommissionRate = Number(affiliateCommissionRate);
+      res.json(await shopPricing.updateSettings(input, req.user.claims.sub));
+    } catch (error: any) {
+      console.error("Error updating shop pricing:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/shop-pricing/tax-rates", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { region, rate } = req.body;
+      res.json(await shopPricing.setTaxRate(region, Number(rate)));
+    } catch (error: any) {
+      console.error("Error saving tax rate:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/admin/shop-pricing/tax-rates/:id", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      await shopPricing.deleteTaxRate(parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting tax rate:", error);
+      res.status(500).json({ message: "Failed to delete tax rate" });
+    }
+  });
+
+  app.post("/api/admin/shop-pricing/shipping-rates", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { label, basis, minValue, maxValue, rate } = req.body;
+      res.json(await shopPricing.createShippingRate({ label, basis, minValue, maxValue, rate }));
+    } catch (error: any) {
+      console.error("Error saving shipping rate:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/admin/shop-pricing/shipping-rates/:id", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      await shopPricing.deleteShippingRate(parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting shipping rate:", error);
+      res.status(500).json({ message: "Failed to delete shipping rate" });
+    }
+  });
+
   // Provider routes
   app.post('/api/providers', isAuthenticated, async (req: any, res) => {
     try {
@@ -547,6 +773,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         verified,
         portfolio,
         instant,
+        homeVisit,
         lat, 
         lng 
       } = req.query;
@@ -566,6 +793,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         instantBooking: instant === 'true',
         lat: lat ? parseFloat(lat as string) : undefined,
         lng: lng ? parseFloat(lng as string) : undefined,
+        homeVisit: homeVisit === 'true',
       });
       
       res.json(professionals);
@@ -663,31 +891,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      // Mock campaign data
-      const campaigns = [
-        {
-          id: "1",
-          title: "New Client Special",
-          type: "discount",
-          status: "active",
-          description: "20% off first appointment for new clients",
-          discount: 20,
-          validUntil: "2025-08-31",
-          usageCount: 12,
-          maxUsage: 50,
-          createdAt: "2025-07-15"
-        },
-        {
-          id: "2",
-          title: "Referral Rewards",
-          type: "referral",
-          status: "active",
-          description: "Earn $10 for every successful referral",
-          usageCount: 8,
-          createdAt: "2025-07-01"
-        }
-      ];
-      
+      const campaigns = await promotions.getCampaigns(professional.id);
       res.json(campaigns);
     } catch (error) {
       console.error("Error fetching campaigns:", error);
@@ -706,21 +910,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      const campaignData = req.body;
-      
-      // Mock campaign creation
-      const newCampaign = {
-        id: Date.now().toString(),
-        ...campaignData,
-        status: "active",
-        usageCount: 0,
-        createdAt: new Date().toISOString()
-      };
-      
+      const newCampaign = await promotions.createCampaign(professional.id, userId, req.body);
       res.json(newCampaign);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error creating campaign:", error);
-      res.status(500).json({ message: "Failed to create campaign" });
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.post('/api/providers/:id/campaigns/:campaignId/status', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, campaignId } = req.params;
+      const userId = req.user?.claims?.sub;
+      
+      // Verify provider ownership
+      const professional = await storage.getProfessionalByUserId(userId);
+      if (!professional || professional.id !== parseInt(id)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const campaign = await promotions.setCampaignStatus(parseInt(campaignId), professional.id, req.body.status);
+      res.json(campaign);
+    } catch (error: any) {
+      console.error("Error updating campaign status:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  // Check a promo code before booking or checking out. Send professionalId and serviceIds for a
+  // booking, or items for a shop order.
+  app.post('/api/promo-codes/validate', isAuthenticated, async (req: any, res) => {
+    try {
+      const { code, professionalId, serviceIds, items } = req.body;
+      const userId = req.user.claims.sub;
+      if (!code) {
+        return res.status(400).json({ message: "code is required" });
+      }
+
+      const quote = Array.isArray(items)
+        ? await promotions.quoteOrder(code, userId, items)
+        : await promotions.quoteBooking(code, userId, parseInt(professionalId), serviceIds || []);
+      res.json(quote);
+    } catch (error: any) {
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -1123,7 +1355,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/providers/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const provider = await storage.getProfessional(id);
+      const provider = await storage.getProfessionalProfile(id);
       
       if (!provider) {
         return res.status(404).json({ message: "Provider not found" });
@@ -1138,7 +1370,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/professionals/:id', async (req, res) => {
     try {
-      const professional = await storage.getProfessional(parseInt(req.params.id));
+      const professional = await storage.getProfessionalProfile(parseInt(req.params.id));
       if (!professional) {
         return res.status(404).json({ message: "Professional not found" });
       }
@@ -1181,6 +1413,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         professionalId: professional.id,
       });
+      deposits.validateSettings(
+        serviceData.depositType || 'none',
+        parseFloat(serviceData.depositValue || '0'),
+        parseFloat(serviceData.price)
+      );
       
       const service = await storage.createService(serviceData);
       res.json(service);
@@ -1189,6 +1426,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Deposit a provider requires for a service: a percentage of its price or a fixed amount
+  app.put('/api/services/:id/deposit', isAuthenticated, async (req: any, res) => {
+    try {
+      const professional = await storage.getProfessionalByUserId(req.user.claims.sub);
+      const service = await storage.getService(parseInt(req.params.id));
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      if (!professional || professional.id !== service.professionalId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const depositType = req.body.depositType;
+      const depositValue = depositType === 'none' ? 0 : Number(req.body.depositValue);
+      deposits.validateSettings(depositType, depositValue, parseFloat(service.price));
+
+      const updated = await storage.updateService(service.id, {
+        depositType,
+        depositValue: depositValue.toFixed(2),
+      });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error saving service deposit:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
   // Get provider services
   app.get("/api/providers/:id/services", async (req, res) => {
     try {
@@ -1225,6 +1489,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Products the provider recommends from the shop
+  app.get("/api/providers/:id/storefront", async (req, res) => {
+    try {
+      const providerId = parseInt(req.params.id);
+      const storefront = await storefronts.getStorefront(providerId);
+      res.json(storefront);
+    } catch (error) {
+      console.error("Error fetching storefront:", error);
+      res.status(500).json({ message: "Failed to fetch storefront" });
+    }
+  });
+
+  app.post("/api/providers/me/storefront", isAuthenticated, async (req: any, res) => {
+    try {
+      const professional = await storage.getProfessionalByUserId(req.user.claims.sub);
+      if (!professional) {
+        return res.status(404).json({ message: "Professional profile not found" });
+      }
+      const { productId, note } = req.body;
+      const item = await storefronts.addProduct(professional.id, parseInt(productId), note);
+      res.json(item);
+    } catch (error: any) {
+      console.error("Error adding storefront product:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/providers/me/storefront/:productId", isAuthenticated, async (req: any, res) => {
+    try {
+      const professional = await storage.getProfessionalByUserId(req.user.claims.sub);
+      if (!professional) {
+        return res.status(404).json({ message: "Professional profile not found" });
+      }
+      await storefronts.removeProduct(professional.id, parseInt(req.params.productId));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing storefront product:", error);
+      res.status(500).json({ message: "Failed to remove storefront product" });
+    }
+  });
+
+  app.get("/api/providers/me/affiliate-earnings", isAuthenticated, async (req: any, res) => {
+    try {
+      const professional = await storage.getProfessionalByUserId(req.user.claims.sub);
+      if (!professional) {
+        return res.status(404).json({ message: "Professional profile not found" });
+      }
+      res.json(await storefronts.getAffiliateSummary(professional.id));
+    } catch (error) {
+      console.error("Error fetching affiliate earnings:", error);
+      res.status(500).json({ message: "Failed to fetch affiliate earnings" });
+    }
+  });
+
   // Get provider availability
   app.get("/api/providers/:id/availability", async (req, res) => {
     try {
@@ -1256,10 +1574,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         clientId,
       });
       
-      const booking = await storage.createBooking(bookingData);
+      const booking = req.body.promoCode
+        ? await promotions.createBookingWithCode(bookingData, req.body.promoCode)
+        : await storage.createBooking(bookingData);
       res.json(booking);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -1293,15 +1613,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/reviews', isAuthenticated, async (req: any, res) => {
     try {
       const clientId = req.user.claims.sub;
-      const reviewData = insertReviewSchema.parse({
-        ...req.body,
-        clientId,
-      });
-      
-      const review = await storage.createReview(reviewData);
+      const { bookingId, rating, comment, photos } = req.body;
+      const review = await reviewService.submit(clientId, { bookingId, rating, comment, photos });
       res.json(review);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      console.error("Error creating review:", error);
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -1337,6 +1654,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Open appointment slots for the selected services on a given day
+  app.get('/api/professionals/:id/slots', async (req, res) => {
+    try {
+      const professionalId = parseInt(req.params.id);
+      const { date, serviceIds } = req.query;
+
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date as string)) {
+        return res.status(400).json({ message: "date is required in YYYY-MM-DD format" });
+      }
+      if (!serviceIds) {
+        return res.status(400).json({ message: "serviceIds is required" });
+      }
+
+      const ids = (serviceIds as string).split(',').map(id => parseInt(id)).filter(id => !isNaN(id));
+      const day = new Date(`${date}T00:00:00`);
+      const { duration, slots } = await bookingEngine.getAvailableSlots(professionalId, day, ids);
+
+      res.json({ date, duration, slots });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // Stripe payment routes
   app.post("/api/create-payment-intent", isAuthenticated, async (req, res) => {
     try {
@@ -1366,18 +1706,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized" });
       }
 
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(parseFloat(booking.totalPrice) * 100), // Convert to cents
-        currency: "usd",
-        metadata: {
-          bookingId: booking.id,
-          clientId: booking.clientId,
-        },
+      // The deposit when the services require one, the balance if it couldn't be charged at
+      // completion, otherwise the full amount
+      const payment = await deposits.createPaymentIntent(booking);
+      res.json(payment);
+    } catch (error: any) {
+      console.error("Error creating booking payment intent:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  // Booking receipt with the deposit and balance shown separately
+  app.get("/api/bookings/:id/receipt", isAuthenticated, async (req: any, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      const userId = req.user.claims.sub;
+      if (booking.clientId !== userId) {
+        const professional = await storage.getProfessionalByUserId(userId);
+        if (!professional || professional.id !== booking.professionalId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+      }
+
+      res.json(await deposits.getReceipt(booking));
+    } catch (error) {
+      console.error("Error fetching booking receipt:", error);
+      res.status(500).json({ message: "Failed to fetch receipt" });
+    }
+  });
+
+  // Pay some or all of a booking with a gift card before paying the rest by card
+  app.post("/api/bookings/:id/gift-card", isAuthenticated, async (req: any, res) => {
+    try {
+      const { code } = req.body;
+      if (!code) {
+        return res.status(400).json({ message: "Gift card code is required" });
+      }
+
+      const result = await giftCardService.applyToBooking(req.params.id, code, req.user.claims.sub);
+      res.json({
+        booking: result.booking,
+        applied: result.amount,
+        giftCardBalance: parseFloat(result.giftCard.balance),
+        plan: deposits.getPaymentPlan(result.booking),
       });
+    } catch (error: any) {
+      console.error("Error applying gift card to booking:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
 
-      res.json({ clientSecret: paymentIntent.client_secret });
+  // Gift cards
+  app.get("/api/gift-cards", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await giftCardService.getForUser(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching gift cards:", error);
+      res.status(500).json({ message: "Failed to fetch gift cards" });
+    }
+  });
+
+  app.get("/api/gift-cards/:code/balance", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await giftCardService.getBalance(req.params.code));
     } catch (error: any) {
-      res.status(500).json({ message: "Error creating payment intent: " + error.message });
+      res.status(404).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/gift-cards/purchase", isAuthenticated, async (req: any, res) => {
+    try {
+      const { amount, recipientEmail, recipientName, message } = req.body;
+      const { giftCard, clientSecret } = await giftCardService.createPurchase(req.user.claims.sub, {
+        amount: parseFloat(amount),
+        recipientEmail,
+        recipientName,
+        message,
+      });
+      res.json({ giftCardId: giftCard.id, amount: parseFloat(giftCard.initialAmount), clientSecret });
+    } catch (error: any) {
+      console.error("Error starting gift card purchase:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/gift-cards/purchase/success", isAuthenticated, async (req: any, res) => {
+    try {
+      const { paymentIntentId } = req.body;
+      if (!paymentIntentId) {
+        return res.status(400).json({ message: "Payment intent ID is required" });
+      }
+
+      const giftCard = await giftCardService.confirmPurchase(paymentIntentId, req.user.claims.sub);
+      res.json({ id: giftCard.id, status: giftCard.status, amount: parseFloat(giftCard.initialAmount), recipientEmail: giftCard.recipientEmail });
+    } catch (error: any) {
+      console.error("Error confirming gift card purchase:", error);
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -1462,14 +1890,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/shop/cart", isAuthenticated, async (req: any, res) => {
     try {
-      const { productId, quantity = 1 } = req.body;
+      const { productId, quantity = 1, referredBy } = req.body;
       const userId = req.user.claims.sub;
       
       if (!productId) {
         return res.status(400).json({ message: "Product ID is required" });
       }
 
-      const cartItem = await storage.addToCart(userId, parseInt(productId), quantity);
+      try {
+        await inventory.checkCart(userId, parseInt(productId), quantity);
+      } catch (error: any) {
+        return res.status(409).json({ message: error.message });
+      }
+
+      // Products added from a provider's storefront or shop link earn them commission when bought
+      const referrer = referredBy ? await storefronts.referrerFor(referredBy, userId) : null;
+      const cartItem = await storage.addToCart(userId, parseInt(productId), quantity, referrer);
       res.json(cartItem);
     } catch (error) {
       console.error("Error adding to cart:", error);
@@ -1487,6 +1923,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Valid quantity is required" });
       }
 
+      try {
+        await inventory.checkCart(userId, productId, quantity, true);
+      } catch (error: any) {
+        return res.status(409).json({ message: error.message });
+      }
+
       await storage.updateCartItem(userId, productId, quantity);
       res.json({ message: "Cart updated successfully" });
     } catch (error) {
@@ -1591,10 +2033,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Order detail with shipments and a status timeline, for the buyer
+  app.get("/api/shop/orders/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const order = await orderFulfillment.getDetail(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
+
+  app.get("/api/shop/orders/:id/returns", isAuthenticated, async (req: any, res) => {
+    try {
+      const order = await orderFulfillment.getDetail(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      res.json(await returns.getForOrder(order.id));
+    } catch (error) {
+      console.error("Error fetching returns:", error);
+      res.status(500).json({ message: "Failed to fetch returns" });
+    }
+  });
+
+  app.post("/api/shop/orders/:id/returns", isAuthenticated, async (req: any, res) => {
+    try {
+      const { items, reason, details } = req.body;
+      const orderReturn = await returns.requestReturn(parseInt(req.params.id), req.user.claims.sub, { items, reason, details });
+      res.json(orderReturn);
+    } catch (error: any) {
+      console.error("Error requesting return:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  // Exact breakdown a cart will be charged; the checkout page shows this rather than working it out
+  app.post("/api/shop/quote", isAuthenticated, async (req: any, res) => {
+    try {
+      const { items, shippingAddress, promoCode, giftCardCode } = req.body;
+      const quote = await shopPricing.quote(req.user.claims.sub, { items, shippingAddress, promoCode, giftCardCode });
+      res.json(quote);
+    } catch (error: any) {
+      console.error("Error quoting order:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
   // Create payment intent for shop checkout
   app.post("/api/shop/create-payment-intent", isAuthenticated, async (req: any, res) => {
     try {
-      const { items, shippingAddress } = req.body;
+      const { items, shippingAddress, promoCode, giftCardCode } = req.body;
       const userId = req.user.claims.sub;
 
       if (!items || !Array.isArray(items) || items.length === 0) {
@@ -1605,31 +2103,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Shipping address is required" });
       }
 
-      // Calculate total amount
-      const subtotal = items.reduce((sum: number, item: any) => sum + (item.price * item.quantity), 0);
-      const shipping = subtotal > 50 ? 0 : 9.99;
-      const tax = subtotal * 0.08; // 8% tax
-      const totalAmount = Math.round((subtotal + shipping + tax) * 100); // Convert to cents
+      let quote;
+      try {
+        quote = await shopPricing.quote(userId, { items, shippingAddress, promoCode, giftCardCode });
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      const totalAmount = Math.round(quote.total * 100); // Convert to cents
+      const giftCardCents = Math.round(quote.giftCard * 100);
+      const cardAmount = Math.round(quote.amountDue * 100);
+
+      // Stock is held while the client pays, and released if it isn't paid for in time
+      let reservation;
+      try {
+        reservation = await inventory.reserve(userId, quote.lines);
+      } catch (error: any) {
+        return res.status(409).json({ message: error.message });
+      }
+
+      const pricing = {
+        amount: totalAmount,
+        subtotal: Math.round(quote.subtotal * 100),
+        discount: Math.round(quote.discount * 100),
+        shipping: Math.round(quote.shipping * 100),
+        tax: Math.round(quote.tax * 100),
+        giftCard: giftCardCents,
+        reservedUntil: reservation.expiresAt,
+      };
+
+      // Fully covered by the gift card: the order is placed without a card payment
+      if (quote.giftCardCode && cardAmount === 0) {
+        return res.json({ clientSecret: null, ...pricing });
+      }
 
       // Create payment intent
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: totalAmount,
+        amount: cardAmount,
         currency: "usd",
         metadata: {
           userId,
           orderType: "shop_order",
           itemCount: items.length.toString(),
           shippingAddress: JSON.stringify(shippingAddress),
+          ...shopPricing.toMetadata(quote),
+          ...(quote.promoCode ? { promoCode: quote.promoCode, discountAmount: quote.discount.toFixed(2) } : {}),
+          ...(quote.giftCardCode && giftCardCents > 0 ? { giftCardCode: quote.giftCardCode, giftCardAmount: quote.giftCard.toFixed(2) } : {}),
         },
       });
 
-      res.json({ 
-        clientSecret: paymentIntent.client_secret,
-        amount: totalAmount,
-        subtotal: Math.round(subtotal * 100),
-        shipping: Math.round(shipping * 100),
-        tax: Math.round(tax * 100),
-      });
+      await inventory.attachPaymentIntent(userId, paymentIntent.id);
+
+      res.json({ clientSecret: paymentIntent.client_secret, ...pricing });
     } catch (error) {
       console.error("Error creating payment intent:", error);
       res.status(500).json({ message: "Failed to create payment intent" });
@@ -1638,7 +2162,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/shop/orders", isAuthenticated, async (req: any, res) => {
     try {
-      const { items, shippingAddress, paymentIntentId } = req.body;
+      const { items, shippingAddress, paymentIntentId, giftCardCode, promoCode: orderPromoCode } = req.body;
       const userId = req.user.claims.sub;
 
       if (!items || !Array.isArray(items) || items.length === 0) {
@@ -1649,22 +2173,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Shipping address is required" });
       }
 
+      // Orders paid entirely by gift card have no card payment to confirm
+      if (!paymentIntentId && giftCardCode) {
+        let quote;
+        try {
+          quote = await shopPricing.quote(userId, { items, shippingAddress, promoCode: orderPromoCode });
+        } catch (error: any) {
+          return res.status(400).json({ message: error.message });
+        }
+
+        try {
+          await inventory.reserve(userId, quote.lines);
+        } catch (error: any) {
+          return res.status(409).json({ message: error.message });
+        }
+
+        const order = await storage.createOrder(userId, quote.lines, shippingAddress, quote);
+        try {
+          await giftCardService.payOrder(order, giftCardCode, parseFloat(order.totalAmount), true);
+        } catch (error: any) {
+          await storage.updateOrderStatus(order.id, "cancelled");
+          await inventory.releaseForUser(userId);
+          return res.status(409).json({ message: error.message });
+        }
+        await inventory.commitOrder(order.id);
+        await orderFulfillment.recordEvent(order.id, "paid", "Paid by gift card", null);
+        if (quote.promoCode) {
+          await promotions.redeemForOrder(order, quote.promoCode, quote.discount);
+        }
+        await storefronts.creditOrder(order.id, userId);
+
+        await storage.clearCart(userId);
+        return res.json({ ...order, status: "paid", paymentStatus: "completed", giftCardAmount: order.totalAmount });
+      }
+
       if (!paymentIntentId) {
         return res.status(400).json({ message: "Payment confirmation required" });
       }
 
+      // A payment only ever pays for one order, however often the client retries
+      const existingOrder = await storage.getOrderByPaymentIntent(paymentIntentId);
+      if (existingOrder) {
+        if (existingOrder.userId !== userId) {
+          return res.status(403).json({ message: "Unauthorized" });
+        }
+        // The payment webhook may have placed it before the client got back
+        await storage.clearCart(userId);
+        return res.json({ ...existingOrder, paymentStatus: "completed", paymentIntentId });
+      }
+
       // Verify payment intent with Stripe
       const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
       
-      if (paymentIntent.status !== "succeeded") {
+      if (paymentIntent.status !== "succeeded" || paymentIntent.metadata.userId !== userId) {
         return res.status(400).json({ message: "Payment not completed" });
       }
 
-      // Create the order
-      const order = await storage.createOrder(userId, items, shippingAddress);
-      
-      // Update order with payment information
-      await storage.updateOrderPayment(order.id, paymentIntentId, paymentIntent.amount / 100);
+      // The payment covers exactly the items held for it at checkout; an order for anything else is refused
+      const reserved = await inventory.getReservedLines(paymentIntentId);
+      if (!reserved.length) {
+        return res.status(409).json({ message: "No items were checked out with this payment" });
+      }
+      if (!inventory.matchesReservation(items, reserved)) {
+        return res.status(400).json({ message: "The order items don't match what was paid for" });
+      }
+
+      // If the gift card was spent elsewhere in the meantime, nothing is written and the card payment is given back
+      let order;
+      try {
+        order = await db.transaction(async (tx) => await orderFulfillment.placeCardOrder(paymentIntent, tx));
+      } catch (error: any) {
+        if (!(error instanceof OrderPaymentError)) throw error;
+        await orderFulfillment.refundCardPayment(paymentIntent);
+        return res.status(409).json({ message: `${error.message}. Your card payment has been refunded.` });
+      }
+
+      // A concurrent confirmation or the payment webhook got there first
+      if (!order) {
+        const placed = await storage.getOrderByPaymentIntent(paymentIntentId);
+        await storage.clearCart(userId);
+        return res.json({ ...placed, paymentStatus: "completed", paymentIntentId });
+      }
+
+      await orderFulfillment.completeCardOrder(order, paymentIntent);
       
       // Clear the cart after successful order
       await storage.clearCart(userId);
@@ -1681,78 +2272,217 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Advanced Booking Features - Recurring Appointments
-  app.post('/api/providers/:id/recurring-bookings', isAuthenticated, async (req, res) => {
+  app.post('/api/providers/:id/recurring-bookings', isAuthenticated, async (req: any, res) => {
     try {
       const professionalId = parseInt(req.params.id);
-      const { serviceId, startDate, frequency, occurrences, skipDates, timeSlot, notes } = req.body;
-      
-      // Generate recurring booking dates
-      const bookingDates = [];
-      let currentDate = new Date(startDate);
-      
-      for (let i = 0; i < (occurrences || 12); i++) {
-        if (!skipDates?.some((skipDate: string) => 
-          new Date(skipDate).toDateString() === currentDate.toDateString()
-        )) {
-          bookingDates.push(new Date(currentDate));
-        }
-        
-        // Increment based on frequency
-        switch (frequency) {
-          case 'weekly':
-            currentDate.setDate(currentDate.getDate() + 7);
-            break;
-          case 'biweekly':
-            currentDate.setDate(currentDate.getDate() + 14);
-            break;
-          case 'monthly':
-            currentDate.setMonth(currentDate.getMonth() + 1);
-            break;
-        }
+      const { serviceId, serviceIds, startDate, endDate, frequency, occurrences, skipDates, timeSlot, notes } = req.body;
+
+      if (!RECURRING_FREQUENCIES.includes(frequency)) {
+        return res.status(400).json({ message: `Frequency must be one of: ${RECURRING_FREQUENCIES.join(', ')}` });
+      }
+      if (!startDate || !timeSlot) {
+        return res.status(400).json({ message: "startDate and timeSlot are required" });
       }
 
-      // Create individual bookings for each date
-      const bookings = [];
-      for (const date of bookingDates) {
-        const appointmentDateTime = new Date(date);
-        const [time, period] = timeSlot.split(' ');
-        const [hours, minutes] = time.split(':').map(Number);
-        appointmentDateTime.setHours(
-          period === 'PM' && hours !== 12 ? hours + 12 : hours,
-          minutes || 0
-        );
-
-        const booking = await storage.createBooking({
-          clientId: (req as any).user.claims.sub,
-          professionalId,
-          serviceIds: [parseInt(serviceId)],
-          appointmentDate: appointmentDateTime,
-          status: 'pending',
-          totalPrice: '0', // Will be calculated
-          notes: `${notes || ''} (Recurring booking - ${frequency})`,
-          isRecurring: true,
-        });
-        bookings.push(booking);
+      // Time slots arrive as "10:00 AM" or "14:30"
+      const firstAppointment = new Date(startDate);
+      const [time, period] = timeSlot.split(' ');
+      const [hours, minutes] = time.split(':').map(Number);
+      firstAppointment.setHours(
+        period === 'PM' && hours !== 12 ? hours + 12 : period === 'AM' && hours === 12 ? 0 : hours,
+        minutes || 0,
+        0,
+        0
+      );
+
+      const result = await recurringBookings.createSeries({
+        clientId: req.user.claims.sub,
+        professionalId,
+        serviceIds: (serviceIds || [serviceId]).map((id: string | number) => parseInt(id as string)),
+        firstAppointment,
+        frequency,
+        occurrences: occurrences ? parseInt(occurrences) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+        skipDates: (skipDates || []).map((date: string) => new Date(date)),
+        notes,
+      });
+
+      const message = result.skipped.length
+        ? `${result.bookings.length} recurring appointments scheduled, ${result.skipped.length} skipped`
+        : `${result.bookings.length} recurring appointments scheduled`;
+      res.json({ ...result, message });
+    } catch (error: any) {
+      console.error('Error creating recurring booking:', error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  // Bookings in a series can be managed by the client or by the provider
+  const canManageBooking = async (booking: Booking, userId: string) => {
+    if (booking.clientId === userId) return true;
+    const professional = await storage.getProfessionalByUserId(userId);
+    return professional?.id === booking.professionalId;
+  };
+
+  app.get('/api/bookings/:id/series', isAuthenticated, async (req: any, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!(await canManageBooking(booking, req.user.claims.sub))) {
+        return res.status(403).json({ message: "Unauthorized" });
       }
 
-      res.json({ bookings, message: `${bookings.length} recurring appointments scheduled` });
+      const occurrences = await recurringBookings.getSeries(booking);
+      res.json({ seriesId: recurringBookings.getSeriesId(booking), occurrences });
     } catch (error) {
-      console.error('Error creating recurring booking:', error);
-      res.status(500).json({ message: 'Failed to create recurring booking' });
+      console.error('Error fetching booking series:', error);
+      res.status(500).json({ message: 'Failed to fetch booking series' });
+    }
+  });
+
+  // scope: occurrence (default), following (this and later occurrences) or series (all upcoming occurrences)
+  app.post('/api/bookings/:id/series/reschedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const { scope = 'occurrence', appointmentDate } = req.body;
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!(await canManageBooking(booking, req.user.claims.sub))) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const newDate = new Date(appointmentDate);
+      if (!appointmentDate || isNaN(newDate.getTime())) {
+        return res.status(400).json({ message: "A valid appointmentDate is required" });
+      }
+
+      const rescheduled = await recurringBookings.reschedule(booking, scope, newDate);
+      res.json({ bookings: rescheduled, message: `${rescheduled.length} appointments rescheduled` });
+    } catch (error: any) {
+      console.error('Error rescheduling booking:', error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  // Cancellation policy: who cancels and how close to the appointment decides the fee
+  const getCancellationActor = async (booking: Booking, userId: string): Promise<CancellationActor | null> => {
+    if (booking.clientId === userId) return 'client';
+    const professional = await storage.getProfessionalByUserId(userId);
+    return professional?.id === booking.professionalId ? 'provider' : null;
+  };
+
+  app.post('/api/bookings/:id/series/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const { scope = 'occurrence', reason } = req.body;
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const actor = await getCancellationActor(booking, req.user.claims.sub);
+      if (!actor) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { cancelled, failed } = await recurringBookings.cancel(booking, scope, actor, reason);
+      res.json({
+        bookings: cancelled.map(result => result.booking),
+        cancellations: cancelled,
+        failed,
+        message: `${cancelled.length} appointments cancelled`,
+      });
+    } catch (error: any) {
+      console.error('Error cancelling booking:', error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.get('/api/bookings/:id/cancellation-quote', isAuthenticated, async (req: any, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const actor = await getCancellationActor(booking, req.user.claims.sub);
+      if (!actor) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const quote = await cancellationPolicy.quote(booking, actor, req.query.noShow === 'true');
+      res.json(quote);
+    } catch (error: any) {
+      console.error('Error quoting cancellation:', error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.post('/api/bookings/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const { reason, noShow = false } = req.body;
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const actor = await getCancellationActor(booking, req.user.claims.sub);
+      if (!actor) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const result = await cancellationPolicy.cancel(booking, actor, { reason, noShow: noShow === true });
+      res.json(result);
+    } catch (error: any) {
+      console.error('Error cancelling booking:', error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.get('/api/providers/:providerId/cancellation-policy', async (req, res) => {
+    try {
+      const policy = await cancellationPolicy.getPolicy(parseInt(req.params.providerId));
+      res.json(policy);
+    } catch (error) {
+      console.error('Error fetching cancellation policy:', error);
+      res.status(500).json({ message: 'Failed to fetch cancellation policy' });
+    }
+  });
+
+  app.put('/api/providers/:providerId/cancellation-policy', isAuthenticated, async (req: any, res) => {
+    try {
+      const professional = await storage.getProfessionalByUserId(req.user.claims.sub);
+      if (!professional || professional.id !== parseInt(req.params.providerId)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const { freeCancellationHours, lateCancellationFeeRate, noShowFeeRate } = req.body;
+      const policy = await cancellationPolicy.savePolicy(professional.id, {
+        freeCancellationHours: Number(freeCancellationHours),
+        lateCancellationFeeRate: String(lateCancellationFeeRate),
+        noShowFeeRate: String(noShowFeeRate),
+      });
+      res.json(policy);
+    } catch (error: any) {
+      console.error('Error updating cancellation policy:', error);
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
   // Waitlist Management
-  app.post('/api/waitlist', isAuthenticated, async (req, res) => {
+  app.post('/api/waitlist', isAuthenticated, async (req: any, res) => {
     try {
-      const waitlistItem = await storage.addToWaitlist({
-        userId: (req as any).user.claims.sub,
+      const { preferredDate, alternativeDates } = req.body;
+      const waitlistData = insertWaitlistSchema.parse({
         ...req.body,
+        preferredDate: preferredDate ? new Date(preferredDate) : undefined,
+        alternativeDates: alternativeDates?.map((date: string) => new Date(date)),
+        clientId: req.user.claims.sub,
       });
+      const waitlistItem = await storage.addToWaitlist(waitlistData);
       res.json(waitlistItem);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error adding to waitlist:', error);
-      res.status(500).json({ message: 'Failed to add to waitlist' });
+      res.status(400).json({ message: error.message });
     }
   });
 
@@ -1761,8 +2491,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const professionalId = parseInt(req.params.professionalId);
       const userId = (req as any).user.claims.sub;
       
-      const waitlistItems = await storage.getWaitlist(professionalId);
-      const userItem = waitlistItems.find((item: any) => item.userId === userId);
+      // Position counts only entries still waiting or holding an offer
+      const waitlistItems = (await storage.getWaitlist(professionalId))
+        .filter(item => item.status === 'active' || item.status === 'notified');
+      const userItem = waitlistItems.find(item => item.clientId === userId);
       
       if (userItem) {
         const position = waitlistItems.indexOf(userItem) + 1;
@@ -1771,6 +2503,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           position,
           createdAt: userItem.createdAt,
           id: userItem.id,
+          status: userItem.status,
+          offeredSlot: userItem.offeredSlot,
+          holdExpiresAt: userItem.holdExpiresAt,
         });
       } else {
         res.json({ onWaitlist: false });
@@ -1792,14 +2527,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/waitlist/:id/notify', isAuthenticated, async (req, res) => {
+  app.post('/api/waitlist/:id/notify', isAuthenticated, async (req: any, res) => {
     try {
       const waitlistId = req.params.id;
       const { message } = req.body;
+
+      const entry = await storage.getWaitlistEntry(waitlistId);
+      if (!entry) {
+        return res.status(404).json({ message: 'Waitlist entry not found' });
+      }
+
+      // Only the provider can message their waitlist
+      const professional = await storage.getProfessionalByUserId(req.user.claims.sub);
+      if (!professional || professional.id !== entry.professionalId) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
       
       // Create notification for the waitlisted user
       await storage.createNotification({
-        userId: (req as any).user.claims.sub, // This should be the waitlisted user's ID
+        userId: entry.clientId,
         title: 'Appointment Available!',
         message,
         type: 'booking_available',
@@ -1814,6 +2560,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Book the slot currently held for the waitlisted client
+  app.post('/api/waitlist/:id/claim', isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: 'Waitlist entry not found' });
+      }
+
+      const booking = await waitlistMatcher.claim(entry, req.user.claims.sub);
+      res.json(booking);
+    } catch (error: any) {
+      console.error('Error claiming waitlist offer:', error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
   app.delete('/api/waitlist/:id', isAuthenticated, async (req, res) => {
     try {
       const waitlistId = req.params.id;
@@ -2101,6 +2863,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const jobRequest = await storage.createJobRequest(jobRequestData);
+
+      // Let suitable providers know without holding up the client
+      storage.getUser(userId)
+        .then(user => jobMarketplace.notifyMatchingProviders(jobRequest, user?.firstName || 'A client'))
+        .catch(error => console.error("Error notifying matching providers:", error));
+
       res.json(jobRequest);
     } catch (error: any) {
       console.error("Error creating job request:", error);
@@ -2137,6 +2905,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Personalised feed of open jobs for the logged-in provider, best matches first
+  app.get('/api/job-requests/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const professional = await storage.getProfessionalByUserId(req.user.claims.sub);
+      if (!professional) {
+        return res.status(403).json({ message: "Only providers have a job feed" });
+      }
+
+      const { limit = 20, offset = 0 } = req.query;
+      const feed = await jobMarketplace.getProviderFeed(professional, parseInt(limit as string), parseInt(offset as string));
+      res.json(feed);
+    } catch (error) {
+      console.error("Error fetching job feed:", error);
+      res.status(500).json({ message: "Failed to fetch job feed" });
+    }
+  });
+
   app.get('/api/job-requests/:id', async (req, res) => {
     try {
       const jobRequestId = req.params.id;
@@ -2182,6 +2967,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The client who posted the job picks the winning bid, which becomes a booking awaiting payment
+  app.post('/api/job-requests/:id/bids/:bidId/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const jobRequest = await storage.getJobRequest(req.params.id);
+      if (!jobRequest) {
+        return res.status(404).json({ message: "Job request not found" });
+      }
+      if (jobRequest.clientId !== userId) {
+        return res.status(403).json({ message: "Only the client who posted this job can accept bids" });
+      }
+
+      const bids = await storage.getJobRequestBids(jobRequest.id);
+      const bid = bids.find(b => b.id === parseInt(req.params.bidId));
+      if (!bid) {
+        return res.status(404).json({ message: "Bid not found" });
+      }
+
+      const requestedDate = req.body.appointmentDate || jobRequest.preferredDate;
+      if (!requestedDate) {
+        return res.status(400).json({ message: "appointmentDate is required when the job has no preferred date" });
+      }
+
+      const booking = await jobMarketplace.acceptBid(jobRequest, bid, new Date(requestedDate));
+
+      // The job is awarded either way. If Stripe is down the client pays from checkout, which
+      // gets or creates the booking's intent through /api/bookings/:id/payment-intent.
+      let payment = null;
+      try {
+        payment = await deposits.createPaymentIntent(booking);
+      } catch (error) {
+        console.error("Error creating payment intent for accepted bid:", error);
+      }
+      const updatedBooking = await storage.getBooking(booking.id);
+
+      res.json({ booking: updatedBooking, clientSecret: payment?.clientSecret ?? null, payment });
+    } catch (error: any) {
+      console.error("Error accepting bid:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
   app.get('/api/job-requests/:id/bids', async (req, res) => {
     try {
       const jobRequestId = req.params.id;
@@ -2286,7 +3113,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(booking);
     } catch (error: any) {
       console.error("Error creating booking with fees:", error);
-      res.status(400).json({ message: error.message });
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -2302,6 +3129,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
 
   memoryMonitor.start();
+  waitlistMatcher.start();
+  jobMarketplace.start();
+  payoutRunner.start();
+  disputeWorkflow.start();
+  cancellationPolicy.start();
+  reviewScreening.start();
   logger.info('Application middleware and routes registered successfully');
 
   // Enhanced Token System API - Aligned with wireframes vision
@@ -2409,6 +3242,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // STRIPE INTEGRATION FOR TOKEN PURCHASES & REVENUE MODEL
   // ============================================================================
 
+  // Stripe webhook: the source of truth for payment state. Unauthenticated, but only
+  // events signed with STRIPE_WEBHOOK_SECRET are accepted.
+  app.post('/api/stripe/webhook', async (req: any, res) => {
+    let event;
+    try {
+      event = stripeWebhooks.verify(req.rawBody, req.headers['stripe-signature']);
+    } catch (error: any) {
+      console.error('Rejected Stripe webhook:', error.message);
+      return res.status(400).json({ message: 'Invalid webhook signature' });
+    }
+
+    try {
+      const outcome = await stripeWebhooks.process(event);
+      res.json({ received: true, outcome });
+    } catch (error) {
+      // A non-2xx response makes Stripe deliver the event again later
+      console.error(`Error processing Stripe event ${event.id}:`, error);
+      res.status(500).json({ message: 'Failed to process webhook' });
+    }
+  });
+
   // Token Purchase System with Stripe Integration
   app.post('/api/tokens/purchase', isAuthenticated, async (req, res) => {
     try {
@@ -2465,11 +3319,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Payment not completed' });
       }
 
-      const professionalId = parseInt(paymentIntent.metadata.professionalId);
-      const tokenAmount = parseInt(paymentIntent.metadata.tokenAmount);
+      const professional = await storage.getProfessionalByUserId(userId);
+      if (!professional || paymentIntent.metadata.professionalId !== professional.id.toString()) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
 
-      // Add tokens to provider balance
-      await storage.updateTokenBalance(professionalId, tokenAmount, 'add');
+      // The webhook may already have credited this purchase; tokens are only added once
+      const tokenAmount = await stripeWebhooks.creditTokenPurchase(paymentIntent);
+      if (!tokenAmount) {
+        return res.json({ message: 'Tokens already added', tokensAdded: 0 });
+      }
 
       // Create notification for successful purchase
       await storage.createNotification({
@@ -2590,7 +3449,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Commission & Fee Processing (Automated during booking completion)
-  app.post('/api/bookings/:id/complete', isAuthenticated, async (req, res) => {
+  app.post('/api/bookings/:id/complete', isAuthenticated, async (req: any, res) => {
     try {
       const bookingId = req.params.id;
       const booking = await storage.getBooking(bookingId);
@@ -2599,44 +3458,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Booking not found' });
       }
 
-      const totalAmount = parseFloat(booking.totalPrice);
-      const commission = totalAmount * 0.15; // 15% commission
-      const serviceFee = totalAmount * 0.10; // 10% service fee
-      const providerPayout = totalAmount - commission - serviceFee;
-
-      // Update booking status
-      await storage.updateBooking(bookingId, { 
-        status: 'completed'
-      });
-
-      // Record commission and fee
-      await storage.recordCommission({
-        bookingId,
-        totalAmount,
-        commissionAmount: commission,
-        serviceFeeAmount: serviceFee,
-        providerPayoutAmount: providerPayout,
-        payoutDate: new Date(Date.now() + 24 * 60 * 60 * 1000) // Next day payout
-      });
+      const userId = req.user.claims.sub;
+      const professional = await storage.getProfessionalByUserId(userId);
+      if (!professional || professional.id !== booking.professionalId) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
 
-      // Create payout notification
-      await storage.createNotification({
-        userId: booking.professionalId.toString(),
-        title: 'Booking Completed - Payout Scheduled',
-        message: `Your payout of $${providerPayout.toFixed(2)} will be deposited tomorrow.`,
-        type: 'payout_scheduled',
-        category: 'earnings',
-        isRead: false,
-      });
+      const result = await feeCalculator.completeBooking(bookingId);
+      const providerPayout = result.fees.providerPayout.toFixed(2);
+
+      // Bookings secured with a deposit have the rest charged to the saved card now. Completing
+      // again tries a balance that couldn't be charged the first time.
+      const balance = await deposits.chargeBalance(result.booking);
+
+      if (!result.alreadyCompleted) {
+        await storage.createNotification({
+          userId: professional.userId,
+          title: 'Booking Completed - Payout Scheduled',
+          message: `$${providerPayout} was added to your earnings and will be included in your next payout.`,
+          type: 'payout_scheduled',
+          category: 'earnings',
+          isRead: false,
+        });
+      }
 
       res.json({ 
-        message: 'Booking completed successfully',
-        providerPayout: providerPayout.toFixed(2),
-        payoutDate: 'Tomorrow'
+        message: result.alreadyCompleted ? 'Booking was already completed' : 'Booking completed successfully',
+        providerPayout,
+        fees: result.fees,
+        balance,
+        alreadyCompleted: result.alreadyCompleted,
       });
     } catch (error: any) {
       console.error('Error completing booking:', error);
-      res.status(500).json({ message: 'Failed to complete booking: ' + error.message });
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -2696,9 +3551,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send anonymous message
-  app.post('/api/communication/messages', isAuthenticated, async (req, res) => {
+  app.post('/api/communication/messages', isAuthenticated, async (req: any, res) => {
     try {
-      const { channelCode, senderType, message, messageType, attachmentUrl } = req.body;
+      const { channelCode, message, messageType, attachmentUrl } = req.body;
+
+      // The sender's side comes from who they are, never from the request
+      const senderType = await messaging.getChannelSide(channelCode, req.user.claims.sub);
+      if (!senderType) {
+        return res.status(403).json({ message: 'You are not part of this conversation' });
+      }
       
       const newMessage = await storage.createAnonymousMessage({
         channelCode,
@@ -2712,6 +3573,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update communication history
       await storage.updateCommunicationHistory(channelCode);
 
+      await messaging.publishAnonymousMessage(newMessage);
+
       res.json(newMessage);
     } catch (error: any) {
       console.error('Error sending message:', error);
@@ -2719,6 +3582,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Mark the other side's messages read; clients on the realtime gateway send this over the socket instead
+  app.put('/api/communication/messages/:channelCode/read', isAuthenticated, async (req: any, res) => {
+    try {
+      const messageIds = await messaging.markChannelRead(req.params.channelCode, req.user.claims.sub);
+      res.json({ messageIds });
+    } catch (error: any) {
+      console.error('Error marking messages as read:', error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
   // Rate communication session
   app.post('/api/communication/channels/:channelCode/rate', isAuthenticated, async (req, res) => {
     try {
@@ -2899,8 +3773,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { providerId } = req.params;
       const { frequency, minimumAmount, stripeAccountId, bankAccountLast4 } = req.body;
       
-      const nextPayoutDate = new Date();
-      nextPayoutDate.setDate(nextPayoutDate.getDate() + (frequency === 'daily' ? 1 : frequency === 'weekly' ? 7 : 30));
+      const nextPayoutDate = advancePayoutDate(new Date(), frequency);
 
       const scheduleData = {
         providerId: parseInt(providerId),
@@ -2943,6 +3816,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { amount } = req.body;
       const userId = (req as any).user?.claims?.sub;
 
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
       // Create Stripe payment intent for tip
       const paymentIntent = await stripe.paymentIntents.create({
         amount: Math.round(amount * 100), // Convert to cents
@@ -2958,8 +3836,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tipData = {
         bookingId,
         clientId: userId,
-        providerId: 1, // Demo provider
+        providerId: booking.professionalId,
         amount: amount.toString(),
+        stripeTipId: paymentIntent.id,
         status: "pending",
       };
 
@@ -2993,27 +3872,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dispute Management Routes
-  app.post("/api/bookings/:bookingId/dispute", isAuthenticated, async (req, res) => {
+  app.post("/api/bookings/:bookingId/dispute", isAuthenticated, async (req: any, res) => {
     try {
       const { bookingId } = req.params;
-      const { reason, description, amount, disputantType } = req.body;
-      const userId = (req as any).user?.claims?.sub;
+      const { reason, description, amount } = req.body;
+      const userId = req.user.claims.sub;
 
-      const disputeData = {
-        bookingId,
-        disputantId: userId,
-        disputantType,
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const party = await disputeWorkflow.getParty(booking, userId);
+      if (!party) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      if (!reason || !description) {
+        return res.status(400).json({ message: "A reason and description are required" });
+      }
+
+      const dispute = await disputeWorkflow.open(booking, userId, party, {
         reason,
         description,
-        amount: amount.toString(),
-        status: "open",
-      };
-
-      const dispute = await storage.createDispute(disputeData);
+        amount: parseFloat(amount),
+      });
       res.json(dispute);
     } catch (error: any) {
       console.error("Error creating dispute:", error);
-      res.status(500).json({ message: "Failed to create dispute" });
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -3028,7 +3913,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/disputes/:disputeId", isAuthenticated, async (req, res) => {
+  // The parties to a dispute's booking and admins may read and add to it
+  const getDisputeRole = async (dispute: Dispute, userId: string) => {
+    const user = await storage.getUser(userId);
+    if (user?.role === 'admin' || user?.role === 'super_admin') return 'admin';
+    const booking = await storage.getBooking(dispute.bookingId);
+    return booking ? await disputeWorkflow.getParty(booking, userId) : null;
+  };
+
+  app.get("/api/disputes/:disputeId", isAuthenticated, async (req: any, res) => {
     try {
       const { disputeId } = req.params;
       const dispute = await storage.getDispute(disputeId);
@@ -3036,6 +3929,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!dispute) {
         return res.status(404).json({ message: "Dispute not found" });
       }
+      if (!(await getDisputeRole(dispute, req.user.claims.sub))) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
 
       const messages = await storage.getDisputeMessages(disputeId);
       res.json({ ...dispute, messages });
@@ -3045,25 +3941,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/disputes/:disputeId/messages", isAuthenticated, async (req, res) => {
+  // Messages double as evidence; attachments are uploaded file URLs
+  app.post("/api/disputes/:disputeId/messages", isAuthenticated, async (req: any, res) => {
     try {
       const { disputeId } = req.params;
       const { message, attachments } = req.body;
-      const userId = (req as any).user?.claims?.sub;
+      const userId = req.user.claims.sub;
 
-      const messageData = {
-        disputeId,
-        senderId: userId,
-        senderType: "client", // Would need logic to determine if admin/provider
-        message,
-        attachments,
-      };
+      const dispute = await storage.getDispute(disputeId);
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      const role = await getDisputeRole(dispute, userId);
+      if (!role) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
 
-      const disputeMessage = await storage.createDisputeMessage(messageData);
+      const disputeMessage = await disputeWorkflow.addEvidence(disputeId, userId, role, message, attachments);
       res.json(disputeMessage);
     } catch (error: any) {
       console.error("Error creating dispute message:", error);
-      res.status(500).json({ message: "Failed to create message" });
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/disputes", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const disputes = await storage.getDisputes(req.query.status as string | undefined);
+      res.json(disputes);
+    } catch (error) {
+      console.error("Error fetching disputes:", error);
+      res.status(500).json({ message: "Failed to fetch disputes" });
+    }
+  });
+
+  // status: investigating, awaiting_response (with awaitingResponseFrom) or closed
+  app.post("/api/admin/disputes/:disputeId/status", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { status, adminNotes, awaitingResponseFrom } = req.body;
+      if (!DISPUTE_STATUSES.includes(status)) {
+        return res.status(400).json({ message: `status must be one of: ${DISPUTE_STATUSES.join(', ')}` });
+      }
+
+      const dispute = await disputeWorkflow.transition(req.params.disputeId, status, { adminNotes, awaitingResponseFrom });
+      res.json(dispute);
+    } catch (error: any) {
+      console.error("Error updating dispute status:", error);
+      res.status(error.status || 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/disputes/:disputeId/resolve", isAuthenticated, requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { resolutionType, refundAmount, resolution } = req.body;
+      if (!resolution) {
+        return res.status(400).json({ message: "A resolution summary is required" });
+      }
+
+      const dispute = await disputeWorkflow.resolve(req.params.disputeId, req.user.claims.sub, {
+        resolutionType,
+        refundAmount: refundAmount !== undefined ? parseFloat(refundAmount) : undefined,
+        resolution,
+      });
+      res.json(dispute);
+    } catch (error: any) {
+      console.error("Error resolving dispute:", error);
+      res.status(error.status || 400).json({ message: error.message });
     }
   });
 
@@ -3497,6 +4440,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api/ai", aiRouter);
 
   const httpServer = createServer(app);
+  realtime.attach(httpServer);
+  messaging.start();
+  videoSignaling.start();
   return httpServer;
 }
 
@@ -0,0 +1,335 @@
+import { db } from './db';
+import {
+  products,
+  shopPricingSettings,
+  shopShippingRates,
+  shopTaxRates,
+  type ShopShippingRate,
+  type ShopTaxRate,
+} from '@shared/schema';
+import { eq, asc, inArray } from 'drizzle-orm';
+import { promotions } from './promotions';
+import { giftCardService } from './gift-cards';
+import { roundCents } from './booking-engine';
+
+export const SHIPPING_BASES = ['subtotal', 'weight'] as const;
+export type ShippingBasis = typeof SHIPPING_BASES[number];
+
+export interface PricingSettings {
+  defaultTaxRate: number;
+  shippingBasis: ShippingBasis;
+  defaultShippingRate: number;
+  freeShippingThreshold: number | null;
+  affiliateCommissionRate: number; // share of a storefront sale paid to the provider
+}
+
+// What the shop charged before admins could configure it
+export const DEFAULT_PRICING: PricingSettings = {
+  defaultTaxRate: 0.08,
+  shippingBasis: 'subtotal',
+  defaultShippingRate: 9.99,
+  freeShippingThreshold: 50,
+  affiliateCommissionRate: 0.1,
+};
+
+// Stripe won't take a card payment under 50 cents
+const MIN_CARD_CENTS = 50;
+
+export interface PricedLine {
+  productId: number;
+  name: string;
+  quantity: number;
+  price: number;
+  amount: number;
+}
+
+// Everything an order is charged, in dollars
+export interface OrderTotals {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+export interface ShopQuote extends OrderTotals {
+  lines: PricedLine[];
+  region: string | null;
+  freeShippingThreshold: number | null;
+  promoCode: string | null;
+  giftCardCode: string | null;
+  // Part of the total the gift card covers, and what is left to pay by card
+  giftCard: number;
+  amountDue: number;
+}
+
+export interface QuoteInput {
+  items: { productId: number; quantity: number }[];
+  shippingAddress?: { state?: string } | null;
+  promoCode?: string;
+  giftCardCode?: string;
+}
+
+export interface PricingConfig {
+  settings: PricingSettings;
+  taxRates: ShopTaxRate[];
+  shippingRates: ShopShippingRate[];
+}
+
+const normaliseRegion = (region?: string | null) => region?.trim().toUpperCase() || null;
+
+export class ShopPricingService {
+
+  // The full breakdown a cart will be charged. The payment intent, the order and the checkout page
+  // all use this, so they can't disagree.
+  async quote(userId: string, input: QuoteInput): Promise<ShopQuote> {
+    const lines = await this.priceItems(input.items);
+
+    const promo = input.promoCode ? await promotions.quoteOrder(input.promoCode, userId, lines) : null;
+    const region = normaliseRegion(input.shippingAddress?.state);
+    const totals = await this.calculate(lines, region, promo?.discountAmount ?? 0);
+    const settings = await this.getSettings();
+
+    // A gift card pays what it can; anything left has to be at least Stripe's minimum
+    let giftCardCode: string | null = null;
+    let giftCardCents = 0;
+    const totalCents = Math.round(totals.total * 100);
+    if (input.giftCardCode) {
+      const giftCard = await giftCardService.getBalance(input.giftCardCode);
+      giftCardCode = giftCard.code;
+      giftCardCents = Math.min(Math.round(parseFloat(giftCard.balance) * 100), totalCents);
+      if (totalCents - giftCardCents > 0 && totalCents - giftCardCents < MIN_CARD_CENTS) {
+        giftCardCents = Math.max(totalCents - MIN_CARD_CENTS, 0);
+      }
+    }
+
+    return {
+      ...totals,
+      lines,
+      region,
+      freeShippingThreshold: settings.freeShippingThreshold,
+      promoCode: promo?.code ?? null,
+      giftCardCode,
+      giftCard: giftCardCents / 100,
+      amountDue: (totalCents - giftCardCents) / 100,
+    };
+  }
+
+  // Catalogue prices for the items; whatever price the client sent is ignored
+  async priceItems(items: { productId: number; quantity: number }[]): Promise<PricedLine[]> {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new Error('Order items are required');
+    }
+
+    const catalogue = await db
+      .select({ id: products.id, name: products.name, price: products.price })
+      .from(products)
+      .where(inArray(products.id, items.map(item => Number(item.productId))));
+
+    return items.map(item => {
+      const quantity = Number(item.quantity);
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new Error('Quantities must be whole numbers of at least 1');
+      }
+      const product = catalogue.find(p => p.id === Number(item.productId));
+      if (!product) {
+        throw new Error('Product not found');
+      }
+      const price = parseFloat(product.price);
+      return { productId: product.id, name: product.name, quantity, price, amount: roundCents(price * quantity) };
+    });
+  }
+
+  async calculate(lines: PricedLine[], region: string | null, discount: number): Promise<OrderTotals> {
+    const settings = await this.getSettings();
+    const subtotal = roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+    discount = roundCents(Math.min(discount, subtotal));
+
+    const shipping = await this.shippingFor(lines, subtotal, settings);
+    const taxRate = await this.taxRateFor(region, settings);
+    // Promo discounts come off the subtotal before tax; shipping isn't taxed
+    const tax = roundCents((subtotal - discount) * taxRate);
+
+    return { subtotal, discount, shipping, taxRate, tax, total: roundCents(subtotal - discount + shipping + tax) };
+  }
+
+  // Breakdown recorded on a payment intent, so the order is written with what was actually charged
+  toMetadata(quote: OrderTotals): Record<string, string> {
+    return {
+      subtotal: quote.subtotal.toFixed(2),
+      shippingAmount: quote.shipping.toFixed(2),
+      taxAmount: quote.tax.toFixed(2),
+      taxRate: quote.taxRate.toString(),
+    };
+  }
+
+  fromMetadata(metadata: Record<string, string>, discount: number): OrderTotals | null {
+    if (!metadata.subtotal) {
+      return null;
+    }
+    const subtotal = parseFloat(metadata.subtotal);
+    const shipping = parseFloat(metadata.shippingAmount);
+    const tax = parseFloat(metadata.taxAmount);
+    return {
+      subtotal,
+      discount,
+      shipping,
+      taxRate: parseFloat(metadata.taxRate),
+      tax,
+      total: roundCents(subtotal - discount + shipping + tax),
+    };
+  }
+
+  async getSettings(): Promise<PricingSettings> {
+    const [row] = await db.select().from(shopPricingSettings).limit(1);
+    if (!row) {
+      return DEFAULT_PRICING;
+    }
+    return {
+      defaultTaxRate: parseFloat(row.defaultTaxRate),
+      shippingBasis: row.shippingBasis as ShippingBasis,
+      defaultShippingRate: parseFloat(row.defaultShippingRate),
+      freeShippingThreshold: row.freeShippingThreshold === null ? null : parseFloat(row.freeShippingThreshold),
+      affiliateCommissionRate: parseFloat(row.affiliateCommissionRate),
+    };
+  }
+
+  async getConfig(): Promise<PricingConfig> {
+    return {
+      settings: await this.getSettings(),
+      taxRates: await db.select().from(shopTaxRates).orderBy(asc(shopTaxRates.region)),
+      shippingRates: await db.select().from(shopShippingRates).orderBy(asc(shopShippingRates.basis), asc(shopShippingRates.minValue)),
+    };
+  }
+
+  async updateSettings(input: Partial<PricingSettings>, adminId: string): Promise<PricingSettings> {
+    const settings = { ...(await this.getSettings()), ...input };
+    if (!SHIPPING_BASES.includes(settings.shippingBasis)) {
+      throw new Error(`Shipping basis must be one of: ${SHIPPING_BASES.join(', ')}`);
+    }
+    this.assertRate(settings.defaultTaxRate);
+    this.assertRate(settings.affiliateCommissionRate, 'Commission rates');
+    this.assertAmount(settings.defaultShippingRate, 'Default shipping rate');
+    if (settings.freeShippingThreshold !== null) {
+      this.assertAmount(settings.freeShippingThreshold, 'Free shipping threshold');
+    }
+
+    const values = {
+      defaultTaxRate: settings.defaultTaxRate.toFixed(4),
+      shippingBasis: settings.shippingBasis,
+      defaultShippingRate: settings.defaultShippingRate.toFixed(2),
+      freeShippingThreshold: settings.freeShippingThreshold === null ? null : settings.freeShippingThreshold.toFixed(2),
+      affiliateCommissionRate: settings.affiliateCommissionRate.toFixed(4),
+      updatedBy: adminId,
+      updatedAt: new Date(),
+    };
+    const [existing] = await db.select({ id: shopPricingSettings.id }).from(shopPricingSettings).limit(1);
+    if (existing) {
+      await db.update(shopPricingSettings).set(values).where(eq(shopPricingSettings.id, existing.id));
+    } else {
+      await db.insert(shopPricingSettings).values(values);
+    }
+    return settings;
+  }
+
+  async setTaxRate(region: string, rate: number): Promise<ShopTaxRate> {
+    const normalised = normaliseRegion(region);
+    if (!normalised) {
+      throw new Error('Region is required');
+    }
+    this.assertRate(rate);
+
+    const [taxRate] = await db
+      .insert(shopTaxRates)
+      .values({ region: normalised, rate: rate.toFixed(4) })
+      .onConflictDoUpdate({ target: shopTaxRates.region, set: { rate: rate.toFixed(4), updatedAt: new Date() } })
+      .returning();
+    return taxRate;
+  }
+
+  async deleteTaxRate(id: number): Promise<void> {
+    await db.delete(shopTaxRates).where(eq(shopTaxRates.id, id));
+  }
+
+  async createShippingRate(input: { label: string; basis: ShippingBasis; minValue?: number; maxValue?: number | null; rate: number }): Promise<ShopShippingRate> {
+    if (!input.label?.trim()) {
+      throw new Error('Label is required');
+    }
+    if (!SHIPPING_BASES.includes(input.basis)) {
+      throw new Error(`Basis must be one of: ${SHIPPING_BASES.join(', ')}`);
+    }
+    const minValue = Number(input.minValue ?? 0);
+    const maxValue = input.maxValue === null || input.maxValue === undefined ? null : Number(input.maxValue);
+    this.assertAmount(minValue, 'Minimum');
+    if (maxValue !== null && !(maxValue > minValue)) {
+      throw new Error('Maximum must be above the minimum');
+    }
+    this.assertAmount(Number(input.rate), 'Rate');
+
+    const [shippingRate] = await db
+      .insert(shopShippingRates)
+      .values({
+        label: input.label.trim(),
+        basis: input.basis,
+        minValue: minValue.toFixed(2),
+        maxValue: maxValue === null ? null : maxValue.toFixed(2),
+        rate: Number(input.rate).toFixed(2),
+      })
+      .returning();
+    return shippingRate;
+  }
+
+  async deleteShippingRate(id: number): Promise<void> {
+    await db.delete(shopShippingRates).where(eq(shopShippingRates.id, id));
+  }
+
+  private async shippingFor(lines: PricedLine[], subtotal: number, settings: PricingSettings): Promise<number> {
+    if (settings.freeShippingThreshold !== null && subtotal > settings.freeShippingThreshold) {
+      return 0;
+    }
+
+    let measure = subtotal;
+    if (settings.shippingBasis === 'weight') {
+      const weights = await db
+        .select({ id: products.id, weightGrams: products.weightGrams })
+        .from(products)
+        .where(inArray(products.id, lines.map(line => line.productId)));
+      measure = lines.reduce((sum, line) => sum + (weights.find(w => w.id === line.productId)?.weightGrams ?? 0) * line.quantity, 0);
+    }
+
+    const rates = await db
+      .select()
+      .from(shopShippingRates)
+      .where(eq(shopShippingRates.basis, settings.shippingBasis))
+      .orderBy(asc(shopShippingRates.minValue));
+    const tier = rates.find(rate =>
+      measure >= parseFloat(rate.minValue) && (rate.maxValue === null || measure < parseFloat(rate.maxValue))
+    );
+    return tier ? parseFloat(tier.rate) : settings.defaultShippingRate;
+  }
+
+  private async taxRateFor(region: string | null, settings: PricingSettings): Promise<number> {
+    if (region) {
+      const [taxRate] = await db.select().from(shopTaxRates).where(eq(shopTaxRates.region, region));
+      if (taxRate) {
+        return parseFloat(taxRate.rate);
+      }
+    }
+    return settings.defaultTaxRate;
+  }
+
+  private assertRate(rate: number, label = 'Tax rates'): void {
+    if (!Number.isFinite(rate) || rate < 0 || rate >= 1) {
+      throw new Error(`${label} are fractions between 0 and 1, e.g. 0.0725`);
+    }
+  }
+
+  private assertAmount(amount: number, label: string): void {
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new Error(`${label} can't be negative`);
+    }
+  }
+}
+
+export const shopPricing = new ShopPricingService();
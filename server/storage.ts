@@ -12,6 +12,7 @@ import {
   platformStats,
   adminActionLogs,
   moderationQueue,
+  reviewReports,
   products,
   productReviews,
   shoppingCart,
@@ -120,9 +121,34 @@ import {
   type InsertTwoFactorAuth,
   type VerificationCode,
   type InsertVerificationCode,
+  type Dispute,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, sql, ilike, between, or } from "drizzle-orm";
+import { bookingEngine } from "./booking-engine";
+import { feeCalculator } from "./fee-calculator";
+import { eq, and, desc, asc, sql, ilike, between, or, gt, isNull, getTableColumns, inArray } from "drizzle-orm";
+import { distanceMilesSql, DEFAULT_MAX_TRAVEL_MILES } from "./geo";
+import type { OrderTotals } from "./shop-pricing";
+
+// Search results carry the distance from the client's location, when one was given,
+// and the price band of the provider's active services
+export type ProfessionalSearchResult = Professional & {
+  distanceMiles: number | null;
+  minPrice: number | null;
+  avgPrice: number | null;
+  maxPrice: number | null;
+};
+
+const formatPrice = (amount: number) => (Number.isInteger(amount) ? `${amount}` : amount.toFixed(2));
+
+// "$35-85" style band shown on provider cards, matching the format providers used to type in
+const formatPriceBand = (minPrice: number, maxPrice: number) =>
+  minPrice === maxPrice ? `$${formatPrice(minPrice)}` : `$${formatPrice(minPrice)}-${formatPrice(maxPrice)}`;
+
+// Provider ratings are weighted toward this score as if every provider had this many extra reviews at it,
+// so a handful of perfect reviews can't outrank a long track record
+const RATING_PRIOR_MEAN = 4;
+const RATING_PRIOR_WEIGHT = 10;
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -133,6 +159,7 @@ export interface IStorage {
   createProfessional(professional: InsertProfessional): Promise<Professional>;
   getProfessional(id: number): Promise<Professional | undefined>;
   getProfessionalByUserId(userId: string): Promise<Professional | undefined>;
+  getProfessionalProfile(id: number): Promise<Professional | undefined>;
   updateProfessional(id: number, updates: Partial<InsertProfessional>): Promise<Professional>;
   searchProfessionals(params: {
     location?: string;
@@ -149,11 +176,13 @@ export interface IStorage {
     instantBooking?: boolean;
     lat?: number;
     lng?: number;
-  }): Promise<Professional[]>;
+    homeVisit?: boolean;
+  }): Promise<ProfessionalSearchResult[]>;
   getFeaturedProfessionals(): Promise<Professional[]>;
 
   // Service operations
   createService(service: InsertService): Promise<Service>;
+  getService(id: number): Promise<Service | undefined>;
   getServicesByProfessional(professionalId: number): Promise<Service[]>;
   updateService(id: number, updates: Partial<InsertService>): Promise<Service>;
   deleteService(id: number): Promise<void>;
@@ -195,6 +224,7 @@ export interface IStorage {
   // Waitlist operations
   addToWaitlist(waitlistItem: InsertWaitlist): Promise<Waitlist>;
   getWaitlist(professionalId: number): Promise<Waitlist[]>;
+  getWaitlistEntry(id: string): Promise<Waitlist | undefined>;
   removeFromWaitlist(id: string): Promise<void>;
 
   // Group booking operations
@@ -289,6 +319,32 @@ export class DatabaseStorage implements IStorage {
     return professional;
   }
 
+  // A provider as clients see them, with the price band worked out from their services
+  async getProfessionalProfile(id: number): Promise<Professional | undefined> {
+    const professional = await this.getProfessional(id);
+    return professional && (await this.withPriceBands([professional]))[0];
+  }
+
+  // Replace the free-text priceRange with the band of the providers' active service prices
+  private async withPriceBands<T extends Professional>(list: T[]): Promise<T[]> {
+    if (!list.length) return list;
+
+    const bands = await db
+      .select({
+        professionalId: services.professionalId,
+        minPrice: sql<number>`min(${services.price})`.mapWith(Number),
+        maxPrice: sql<number>`max(${services.price})`.mapWith(Number),
+      })
+      .from(services)
+      .where(and(eq(services.isActive, true), inArray(services.professionalId, list.map(professional => professional.id))))
+      .groupBy(services.professionalId);
+
+    return list.map(professional => {
+      const band = bands.find(row => row.professionalId === professional.id);
+      return { ...professional, priceRange: band ? formatPriceBand(band.minPrice, band.maxPrice) : null };
+    });
+  }
+
   async getProfessionalByUserId(userId: string): Promise<Professional | undefined> {
     const [professional] = await db
       .select()
@@ -321,8 +377,36 @@ export class DatabaseStorage implements IStorage {
     instantBooking?: boolean;
     lat?: number;
     lng?: number;
-  }): Promise<Professional[]> {
-    let baseQuery = db.select().from(professionals);
+    homeVisit?: boolean;
+  }): Promise<ProfessionalSearchResult[]> {
+    const hasOrigin = params.lat !== undefined && params.lng !== undefined;
+    const distanceMiles = hasOrigin
+      ? distanceMilesSql(professionals.latitude, professionals.longitude, params.lat!, params.lng!)
+      : sql<number | null>`NULL::float8`;
+
+    // Price band per provider, aggregated from their active services
+    const servicePrices = db
+      .select({
+        professionalId: services.professionalId,
+        minPrice: sql<number>`min(${services.price})`.mapWith(Number).as('min_price'),
+        avgPrice: sql<number>`round(avg(${services.price}), 2)`.mapWith(Number).as('avg_price'),
+        maxPrice: sql<number>`max(${services.price})`.mapWith(Number).as('max_price'),
+      })
+      .from(services)
+      .where(eq(services.isActive, true))
+      .groupBy(services.professionalId)
+      .as('service_prices');
+
+    let baseQuery = db
+      .select({
+        ...getTableColumns(professionals),
+        distanceMiles,
+        minPrice: servicePrices.minPrice,
+        avgPrice: servicePrices.avgPrice,
+        maxPrice: servicePrices.maxPrice,
+      })
+      .from(professionals)
+      .leftJoin(servicePrices, eq(servicePrices.professionalId, professionals.id));
     let conditions = [eq(professionals.isActive, true)];
 
     // Location filtering
@@ -346,14 +430,12 @@ export class DatabaseStorage implements IStorage {
       conditions.push(sql`${professionals.specialties}::text ~* ${searchPattern}`);
     }
 
-    // Price range filtering (based on average service price)
-    if (params.priceMin !== undefined || params.priceMax !== undefined) {
-      // For now, we'll use a simple range check on priceRange field
-      // In a real implementation, you'd calculate average service prices
-      if (params.priceMin !== undefined) {
-        // This is a simplified approach - in reality you'd parse the priceRange
-        conditions.push(sql`COALESCE(${professionals.rating}, 0) >= 0`); // Placeholder
-      }
+    // Price range filtering (based on average service price); providers without services drop out
+    if (params.priceMin !== undefined) {
+      conditions.push(sql`${servicePrices.avgPrice} >= ${params.priceMin}`);
+    }
+    if (params.priceMax !== undefined) {
+      conditions.push(sql`${servicePrices.avgPrice} <= ${params.priceMax}`);
     }
 
     // Rating filtering
@@ -379,12 +461,16 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(professionals.isVerified, true));
     }
 
-    // Distance filtering (placeholder - would need geospatial queries)
-    if (params.distance && params.lat && params.lng) {
-      // In a real implementation, you'd use PostGIS or similar for distance calculations
-      // For now, we'll filter by availability radius
-      if (params.distance <= 50) {
-        conditions.push(sql`COALESCE(${professionals.availabilityRadius}, 25) <= ${params.distance}`);
+    // Distance filtering from the client's coordinates; providers without coordinates drop out
+    if (hasOrigin && params.distance) {
+      conditions.push(sql`${distanceMiles} <= ${params.distance}`);
+    }
+
+    // Home visits only match providers who travel and whose travel range reaches the client
+    if (params.homeVisit) {
+      conditions.push(eq(professionals.offersHomeVisits, true));
+      if (hasOrigin) {
+        conditions.push(sql`${distanceMiles} <= COALESCE(${professionals.maxTravelDistance}, ${DEFAULT_MAX_TRAVEL_MILES})`);
       }
     }
 
@@ -394,16 +480,15 @@ export class DatabaseStorage implements IStorage {
     // Sorting
     switch (params.sortBy) {
       case 'distance':
-        // Would need geospatial sorting in real implementation
-        query = query.orderBy(asc(professionals.availabilityRadius));
+        query = hasOrigin
+          ? query.orderBy(sql`${distanceMiles} ASC NULLS LAST`, desc(professionals.rating))
+          : query.orderBy(desc(professionals.rating));
         break;
       case 'price-low':
-        // Would need average price calculation
-        query = query.orderBy(asc(professionals.rating)); // Placeholder
+        query = query.orderBy(sql`${servicePrices.avgPrice} ASC NULLS LAST`, desc(professionals.rating));
         break;
       case 'price-high':
-        // Would need average price calculation
-        query = query.orderBy(desc(professionals.rating)); // Placeholder
+        query = query.orderBy(sql`${servicePrices.avgPrice} DESC NULLS LAST`, desc(professionals.rating));
         break;
       case 'reviews':
         query = query.orderBy(desc(professionals.reviewCount));
@@ -417,16 +502,24 @@ export class DatabaseStorage implements IStorage {
         break;
     }
 
-    return await query;
+    const results = await query;
+
+    // The computed band replaces the free-text priceRange so cards always match the services offered
+    return results.map(result => ({
+      ...result,
+      priceRange: result.minPrice !== null && result.maxPrice !== null
+        ? formatPriceBand(result.minPrice, result.maxPrice)
+        : null,
+    }));
   }
 
   async getFeaturedProfessionals(): Promise<Professional[]> {
-    return await db
+    return await this.withPriceBands(await db
       .select()
       .from(professionals)
       .where(and(eq(professionals.isActive, true), eq(professionals.isVerified, true)))
       .orderBy(desc(professionals.rating))
-      .limit(6);
+      .limit(6));
   }
 
   // Service operations
@@ -435,6 +528,11 @@ export class DatabaseStorage implements IStorage {
     return newService;
   }
 
+  async getService(id: number): Promise<Service | undefined> {
+    const [service] = await db.select().from(services).where(eq(services.id, id));
+    return service;
+  }
+
   async getServicesByProfessional(professionalId: number): Promise<Service[]> {
     return await db
       .select()
@@ -464,7 +562,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(reviews)
-      .where(eq(reviews.professionalId, providerId))
+      .where(and(eq(reviews.professionalId, providerId), eq(reviews.status, "published")))
       .orderBy(desc(reviews.createdAt));
   }
 
@@ -480,8 +578,8 @@ export class DatabaseStorage implements IStorage {
 
   // Booking operations
   async createBooking(booking: InsertBooking): Promise<Booking> {
-    const [newBooking] = await db.insert(bookings).values(booking).returning();
-    return newBooking;
+    // Validated against availability and existing bookings inside a transaction
+    return await bookingEngine.createBooking(booking);
   }
 
   async getBooking(id: string): Promise<Booking | undefined> {
@@ -528,28 +626,31 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(reviews)
-      .where(eq(reviews.professionalId, professionalId))
+      .where(and(eq(reviews.professionalId, professionalId), eq(reviews.status, "published")))
       .orderBy(desc(reviews.createdAt));
   }
 
   async updateProfessionalRating(professionalId: number): Promise<void> {
-    const result = await db
+    const [result] = await db
       .select({
-        avgRating: sql<number>`AVG(${reviews.rating})`,
-        count: sql<number>`COUNT(*)`,
+        total: sql<string>`COALESCE(SUM(${reviews.rating}), 0)`,
+        count: sql<number>`COUNT(*)::int`,
       })
       .from(reviews)
-      .where(eq(reviews.professionalId, professionalId));
+      .where(and(eq(reviews.professionalId, professionalId), eq(reviews.status, "published")));
 
-    if (result[0]) {
-      await db
-        .update(professionals)
-        .set({
-          rating: result[0].avgRating.toFixed(2),
-          reviewCount: result[0].count,
-        })
-        .where(eq(professionals.id, professionalId));
-    }
+    const count = result?.count ?? 0;
+    const rating = count > 0
+      ? (RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT + Number(result.total)) / (RATING_PRIOR_WEIGHT + count)
+      : 0;
+
+    await db
+      .update(professionals)
+      .set({
+        rating: rating.toFixed(2),
+        reviewCount: count,
+      })
+      .where(eq(professionals.id, professionalId));
   }
 
   // Portfolio operations
@@ -708,14 +809,32 @@ export class DatabaseStorage implements IStorage {
   }
 
   async moderateContent(itemId: number, action: string, notes: string, adminId: string): Promise<void> {
-    await db.update(moderationQueue)
+    const [item] = await db.update(moderationQueue)
       .set({ 
         status: action === "approve" ? "approved" : "rejected",
         moderatedBy: adminId,
         moderationNotes: notes,
         updatedAt: new Date(),
       })
-      .where(eq(moderationQueue.id, itemId));
+      .where(eq(moderationQueue.id, itemId))
+      .returning();
+
+    // Every open report on a review is settled by the one moderation decision, which also
+    // publishes a review hidden by screening or takes it down
+    if (item?.contentType === "review") {
+      const reviewId = parseInt(item.contentId);
+      await db.update(reviewReports)
+        .set({ status: "resolved" })
+        .where(and(eq(reviewReports.reviewId, reviewId), eq(reviewReports.status, "pending")));
+
+      const [review] = await db.update(reviews)
+        .set({ status: action === "approve" ? "published" : "removed" })
+        .where(eq(reviews.id, reviewId))
+        .returning();
+      if (review) {
+        await this.updateProfessionalRating(review.professionalId);
+      }
+    }
     
     // Log the action
     await db.insert(adminActionLogs).values({
@@ -805,7 +924,7 @@ export class DatabaseStorage implements IStorage {
     return product;
   }
 
-  async addToCart(userId: string, productId: number, quantity: number = 1): Promise<ShoppingCart> {
+  async addToCart(userId: string, productId: number, quantity: number = 1, referredBy: number | null = null): Promise<ShoppingCart> {
     // Check if item already exists in cart
     const [existingItem] = await db
       .select()
@@ -816,7 +935,7 @@ export class DatabaseStorage implements IStorage {
       // Update quantity
       const [updatedItem] = await db
         .update(shoppingCart)
-        .set({ quantity: existingItem.quantity + quantity })
+        .set({ quantity: existingItem.quantity + quantity, referredBy: referredBy ?? existingItem.referredBy })
         .where(eq(shoppingCart.id, existingItem.id))
         .returning();
       return updatedItem;
@@ -824,7 +943,7 @@ export class DatabaseStorage implements IStorage {
       // Add new item
       const [newItem] = await db
         .insert(shoppingCart)
-        .values({ userId, productId, quantity })
+        .values({ userId, productId, quantity, referredBy })
         .returning();
       return newItem;
     }
@@ -837,6 +956,7 @@ export class DatabaseStorage implements IStorage {
         userId: shoppingCart.userId,
         productId: shoppingCart.productId,
         quantity: shoppingCart.quantity,
+        referredBy: shoppingCart.referredBy,
         createdAt: shoppingCart.createdAt,
         product: products,
       })
@@ -937,19 +1057,20 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(productReviews.createdAt));
   }
 
-  async createOrder(userId: string, items: { productId: number; quantity: number; price: number }[], shippingAddress: any): Promise<ProductOrder> {
+  // Totals come from the shop pricing quote the buyer paid against
+  async createOrder(userId: string, items: { productId: number; quantity: number; price: number }[], shippingAddress: any, totals: OrderTotals): Promise<ProductOrder> {
     const orderNumber = `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-    const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    const shipping = subtotal > 50 ? 0 : 9.99;
-    const tax = subtotal * 0.08;
-    const totalAmount = subtotal + shipping + tax;
 
     const [order] = await db
       .insert(productOrders)
       .values({
         userId,
         orderNumber,
-        totalAmount: totalAmount.toFixed(2),
+        totalAmount: totals.total.toFixed(2),
+        subtotalAmount: totals.subtotal.toFixed(2),
+        shippingAmount: totals.shipping.toFixed(2),
+        taxAmount: totals.tax.toFixed(2),
+        taxRate: totals.taxRate.toFixed(4),
         shippingAddress,
         status: "pending",
       })
@@ -979,6 +1100,21 @@ export class DatabaseStorage implements IStorage {
       .where(eq(productOrders.id, orderId));
   }
 
+  async updateOrderStatus(orderId: number, status: string): Promise<void> {
+    await db
+      .update(productOrders)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(productOrders.id, orderId));
+  }
+
+  async getOrderByPaymentIntent(paymentIntentId: string): Promise<ProductOrder | undefined> {
+    const [order] = await db
+      .select()
+      .from(productOrders)
+      .where(eq(productOrders.stripePaymentIntentId, paymentIntentId));
+    return order;
+  }
+
   async getOrders(userId: string): Promise<(ProductOrder & { items: (OrderItem & { product: Product })[] })[]> {
     const orders = await db
       .select()
@@ -995,6 +1131,8 @@ export class DatabaseStorage implements IStorage {
             productId: orderItems.productId,
             quantity: orderItems.quantity,
             priceAtTime: orderItems.priceAtTime,
+            affiliateProfessionalId: orderItems.affiliateProfessionalId,
+            affiliateCommission: orderItems.affiliateCommission,
             product: products,
           })
           .from(orderItems)
@@ -1039,14 +1177,18 @@ export class DatabaseStorage implements IStorage {
         payoutStatus: earnings.payoutStatus,
         payoutDate: earnings.payoutDate,
         createdAt: earnings.createdAt,
-        bookingDate: bookings.appointmentDate,
-        clientName: sql`CONCAT(${users.firstName}, ' ', ${users.lastName})`,
-        serviceName: sql`ARRAY_AGG(${services.name})`,
+        source: earnings.source,
+        orderId: earnings.orderId,
+        bookingDate: sql`COALESCE(${bookings.appointmentDate}, ${earnings.createdAt})`,
+        // Storefront commission has no booking; it is listed under its order instead
+        clientName: sql`CASE WHEN ${earnings.source} = 'affiliate' THEN ${productOrders.orderNumber} ELSE CONCAT(${users.firstName}, ' ', ${users.lastName}) END`,
+        serviceName: sql`CASE WHEN ${earnings.source} = 'affiliate' THEN ARRAY['Storefront sale']::varchar[] ELSE ARRAY_AGG(${services.name}) END`,
       })
       .from(earnings)
-      .innerJoin(bookings, eq(earnings.bookingId, bookings.id))
-      .innerJoin(users, eq(bookings.clientId, users.id))
-      .innerJoin(services, sql`${services.id} = ANY(${bookings.serviceIds})`)
+      .leftJoin(bookings, eq(earnings.bookingId, bookings.id))
+      .leftJoin(users, eq(bookings.clientId, users.id))
+      .leftJoin(services, sql`${services.id} = ANY(${bookings.serviceIds})`)
+      .leftJoin(productOrders, eq(earnings.orderId, productOrders.id))
       .where(
         and(
           eq(earnings.professionalId, professionalId),
@@ -1061,9 +1203,12 @@ export class DatabaseStorage implements IStorage {
         earnings.payoutStatus,
         earnings.payoutDate,
         earnings.createdAt,
+        earnings.source,
+        earnings.orderId,
         bookings.appointmentDate,
         users.firstName,
-        users.lastName
+        users.lastName,
+        productOrders.orderNumber
       )
       .orderBy(desc(earnings.createdAt));
   }
@@ -1181,7 +1326,12 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(waitlist)
       .where(eq(waitlist.professionalId, professionalId))
-      .orderBy(desc(waitlist.createdAt));
+      .orderBy(asc(waitlist.createdAt));
+  }
+
+  async getWaitlistEntry(id: string): Promise<Waitlist | undefined> {
+    const [entry] = await db.select().from(waitlist).where(eq(waitlist.id, id));
+    return entry;
   }
 
   async removeFromWaitlist(id: string): Promise<void> {
@@ -1482,13 +1632,6 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Commission & Fee Management for Revenue Model
-  async recordCommission(commissionData: any): Promise<void> {
-    // This would be implemented with a commissions table
-    // For now, we'll track this in a simplified way
-    console.log('Commission recorded:', commissionData);
-  }
-
   async getBookingById(bookingId: string): Promise<any> {
     const [booking] = await db
       .select()
@@ -1785,6 +1928,14 @@ export class DatabaseStorage implements IStorage {
     return userDisputes;
   }
 
+  async getDisputes(status?: string): Promise<Dispute[]> {
+    return await db
+      .select()
+      .from(disputes)
+      .where(status ? eq(disputes.status, status) : undefined)
+      .orderBy(desc(disputes.createdAt));
+  }
+
   async updateDisputeStatus(disputeId: string, status: string, resolution?: string, resolutionType?: string, refundAmount?: number, resolvedBy?: string): Promise<void> {
     const updateData: any = { 
       status, 
@@ -1993,32 +2144,7 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Booking not found');
     }
 
-    const baseAmount = parseFloat(booking.totalPrice);
-    const commission = baseAmount * 0.15; // 15% commission
-    const serviceFee = baseAmount * 0.10; // 10% service fee
-    const holdFee = baseAmount * 0.25; // 25% hold fee
-    const providerPayout = baseAmount - commission - serviceFee;
-
-    const feeData: InsertFeeStructure = {
-      bookingId,
-      baseAmount: baseAmount.toString(),
-      commissionRate: '0.15',
-      commissionAmount: commission.toString(),
-      serviceFeeRate: '0.10',
-      serviceFeeAmount: serviceFee.toString(),
-      holdFeeRate: '0.25',
-      holdFeeAmount: holdFee.toString(),
-      providerPayout: providerPayout.toString(),
-      platformRevenue: (commission + serviceFee).toString(),
-      status: 'calculated',
-    };
-
-    const [feeStructure] = await db
-      .insert(feeStructure)
-      .values(feeData)
-      .returning();
-    
-    return feeStructure;
+    return await feeCalculator.recordFeeStructure(booking);
   }
 
   async createFeeStructure(feeData: InsertFeeStructure): Promise<FeeStructure> {
@@ -2059,7 +2185,10 @@ export class DatabaseStorage implements IStorage {
   async searchJobRequests(params: any): Promise<JobRequest[]> {
     const { location, category, budget, urgency, homeVisitRequired, limit, offset } = params;
     
-    let conditions: any[] = [eq(jobRequests.status, 'open')];
+    let conditions: any[] = [
+      eq(jobRequests.status, 'open'),
+      or(isNull(jobRequests.expiresAt), gt(jobRequests.expiresAt, new Date())),
+    ];
 
     if (location) {
       conditions.push(ilike(jobRequests.location, `%${location}%`));
@@ -0,0 +1,299 @@
+import { db } from './db';
+import {
+  earnings,
+  orderItems,
+  productOrders,
+  products,
+  professionals,
+  shoppingCart,
+  storefrontProducts,
+  type Product,
+  type StorefrontProduct,
+} from '@shared/schema';
+import { eq, and, asc, desc, inArray, isNotNull, sql } from 'drizzle-orm';
+import { shopPricing } from './shop-pricing';
+import { notificationService } from './notification-service';
+import { roundCents, money, type Executor } from './booking-engine';
+
+// Most products a provider can put on their storefront
+export const MAX_STOREFRONT_PRODUCTS = 50;
+
+export type StorefrontItem = StorefrontProduct & { product: Product };
+
+export interface AffiliateCredit {
+  professionalId: number;
+  amount: number;
+}
+
+export interface AffiliateSummary {
+  totalCommission: number;
+  pendingCommission: number;
+  orderCount: number;
+  recent: { id: number; orderNumber: string | null; netAmount: string; payoutStatus: string | null; createdAt: Date | null }[];
+}
+
+export class StorefrontService {
+
+  async getStorefront(professionalId: number): Promise<StorefrontItem[]> {
+    return await db
+      .select({
+        id: storefrontProducts.id,
+        professionalId: storefrontProducts.professionalId,
+        productId: storefrontProducts.productId,
+        note: storefrontProducts.note,
+        sortOrder: storefrontProducts.sortOrder,
+        createdAt: storefrontProducts.createdAt,
+        product: products,
+      })
+      .from(storefrontProducts)
+      .innerJoin(products, eq(storefrontProducts.productId, products.id))
+      .where(eq(storefrontProducts.professionalId, professionalId))
+      .orderBy(asc(storefrontProducts.sortOrder), asc(storefrontProducts.createdAt));
+  }
+
+  // Adding a product that is already on the storefront just updates its note
+  async addProduct(professionalId: number, productId: number, note?: string): Promise<StorefrontProduct> {
+    const [product] = await db.select({ id: products.id }).from(products).where(eq(products.id, productId));
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    const [{ count, lastSortOrder }] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        lastSortOrder: sql<number>`coalesce(max(${storefrontProducts.sortOrder}), -1)::int`,
+      })
+      .from(storefrontProducts)
+      .where(eq(storefrontProducts.professionalId, professionalId));
+
+    const [existing] = await db
+      .select({ id: storefrontProducts.id })
+      .from(storefrontProducts)
+      .where(and(eq(storefrontProducts.professionalId, professionalId), eq(storefrontProducts.productId, productId)));
+    if (!existing && count >= MAX_STOREFRONT_PRODUCTS) {
+      throw new Error(`A storefront can hold up to ${MAX_STOREFRONT_PRODUCTS} products`);
+    }
+
+    const [item] = await db
+      .insert(storefrontProducts)
+      .values({ professionalId, productId, note: note?.trim() || null, sortOrder: lastSortOrder + 1 })
+      .onConflictDoUpdate({
+        target: [storefrontProducts.professionalId, storefrontProducts.productId],
+        set: { note: note?.trim() || null },
+      })
+      .returning();
+
+    await this.syncRecommended(productId);
+    return item;
+  }
+
+  async removeProduct(professionalId: number, productId: number): Promise<void> {
+    await db
+      .delete(storefrontProducts)
+      .where(and(eq(storefrontProducts.professionalId, professionalId), eq(storefrontProducts.productId, productId)));
+    await this.syncRecommended(productId);
+  }
+
+  // The provider a shopper's cart line is credited to, or null if the referral doesn't count.
+  // Providers can't earn commission on their own purchases.
+  async referrerFor(referredBy: unknown, userId: string): Promise<number | null> {
+    const professionalId = parseInt(String(referredBy));
+    if (!Number.isInteger(professionalId)) {
+      return null;
+    }
+    const [professional] = await db
+      .select({ id: professionals.id, userId: professionals.userId, isActive: professionals.isActive })
+      .from(professionals)
+      .where(eq(professionals.id, professionalId));
+    if (!professional || professional.isActive === false || professional.userId === userId) {
+      return null;
+    }
+    return professional.id;
+  }
+
+  // Credit commission for the referred lines of a paid order, once, at the rate in force when it was paid.
+  // Commission is on what the buyer paid for the goods: promo discounts count against it, shipping and tax don't.
+  async creditOrder(orderId: number, userId: string): Promise<AffiliateCredit[]> {
+    const { order, credits } = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT ${productOrders.id} FROM ${productOrders} WHERE ${productOrders.id} = ${orderId} FOR UPDATE`);
+      const [order] = await tx.select().from(productOrders).where(eq(productOrders.id, orderId));
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      if (items.some(item => item.affiliateProfessionalId !== null)) {
+        return { order, credits: [] };
+      }
+
+      const referrals = await tx
+        .select({ productId: shoppingCart.productId, referredBy: shoppingCart.referredBy })
+        .from(shoppingCart)
+        .where(and(eq(shoppingCart.userId, userId), isNotNull(shoppingCart.referredBy)));
+      const referrerFor = new Map(referrals.map(referral => [referral.productId, referral.referredBy!]));
+
+      const { affiliateCommissionRate } = await shopPricing.getSettings();
+      const subtotal = parseFloat(order.subtotalAmount || '0');
+      const goodsPaid = parseFloat(order.totalAmount) - parseFloat(order.shippingAmount || '0') - parseFloat(order.taxAmount || '0');
+      const share = subtotal > 0 ? Math.min(1, Math.max(0, goodsPaid / subtotal)) : 0;
+
+      const totals = new Map<number, number>();
+      for (const item of items) {
+        const professionalId = referrerFor.get(item.productId);
+        if (!professionalId) continue;
+
+        const commission = roundCents(parseFloat(item.priceAtTime) * item.quantity * share * affiliateCommissionRate);
+        if (commission <= 0) continue;
+
+        await tx
+          .update(orderItems)
+          .set({ affiliateProfessionalId: professionalId, affiliateCommission: money(commission) })
+          .where(eq(orderItems.id, item.id));
+        totals.set(professionalId, roundCents((totals.get(professionalId) ?? 0) + commission));
+      }
+
+      const credits = Array.from(totals.entries()).map(([professionalId, amount]) => ({ professionalId, amount }));
+      for (const credit of credits) {
+        await tx.insert(earnings).values({
+          professionalId: credit.professionalId,
+          source: 'affiliate',
+          orderId,
+          amount: money(credit.amount),
+          platformFee: '0.00',
+          netAmount: money(credit.amount),
+          payoutStatus: 'pending',
+        });
+      }
+      return { order, credits };
+    });
+
+    if (credits.length) {
+      await this.notifyProviders(order.orderNumber, credits);
+    }
+    return credits;
+  }
+
+  // Take back whatever commission is still standing on an order, for cancellations and full refunds.
+  // Reversals are negative pending earnings, netted against the provider's next payout.
+  async reverseOrder(orderId: number, executor: Executor = db): Promise<void> {
+    const standing = await this.standingCommission(orderId, executor);
+    for (const [professionalId, amount] of Array.from(standing.entries())) {
+      await this.insertReversal(professionalId, orderId, amount, executor);
+    }
+  }
+
+  // Take back the commission on returned quantities
+  async reverseItems(orderId: number, lines: { orderItemId: number; quantity: number }[], executor: Executor = db): Promise<void> {
+    if (lines.length === 0) return;
+
+    const items = await executor
+      .select()
+      .from(orderItems)
+      .where(and(
+        eq(orderItems.orderId, orderId),
+        inArray(orderItems.id, lines.map(line => line.orderItemId)),
+        isNotNull(orderItems.affiliateProfessionalId)
+      ));
+
+    const totals = new Map<number, number>();
+    for (const item of items) {
+      const returned = lines.filter(line => line.orderItemId === item.id).reduce((sum, line) => sum + line.quantity, 0);
+      const amount = parseFloat(item.affiliateCommission || '0') * Math.min(1, returned / item.quantity);
+      totals.set(item.affiliateProfessionalId!, (totals.get(item.affiliateProfessionalId!) ?? 0) + amount);
+    }
+
+    // Rounding across several returns must never take back more than was credited
+    const standing = await this.standingCommission(orderId, executor);
+    for (const [professionalId, amount] of Array.from(totals.entries())) {
+      const reversal = Math.min(roundCents(amount), standing.get(professionalId) ?? 0);
+      await this.insertReversal(professionalId, orderId, reversal, executor);
+    }
+  }
+
+  async getAffiliateSummary(professionalId: number): Promise<AffiliateSummary> {
+    const [totals] = await db
+      .select({
+        totalCommission: sql<string>`coalesce(sum(${earnings.netAmount}), 0)`,
+        pendingCommission: sql<string>`coalesce(sum(${earnings.netAmount}) filter (where ${earnings.payoutStatus} = 'pending'), 0)`,
+        orderCount: sql<number>`count(distinct ${earnings.orderId})::int`,
+      })
+      .from(earnings)
+      .where(and(eq(earnings.professionalId, professionalId), eq(earnings.source, 'affiliate')));
+
+    const recent = await db
+      .select({
+        id: earnings.id,
+        orderNumber: productOrders.orderNumber,
+        netAmount: earnings.netAmount,
+        payoutStatus: earnings.payoutStatus,
+        createdAt: earnings.createdAt,
+      })
+      .from(earnings)
+      .leftJoin(productOrders, eq(earnings.orderId, productOrders.id))
+      .where(and(eq(earnings.professionalId, professionalId), eq(earnings.source, 'affiliate')))
+      .orderBy(desc(earnings.createdAt))
+      .limit(20);
+
+    return {
+      totalCommission: parseFloat(totals.totalCommission),
+      pendingCommission: parseFloat(totals.pendingCommission),
+      orderCount: totals.orderCount,
+      recent,
+    };
+  }
+
+  // Commission credited on an order less what has been reversed, per provider
+  private async standingCommission(orderId: number, executor: Executor): Promise<Map<number, number>> {
+    const rows = await executor
+      .select({
+        professionalId: earnings.professionalId,
+        amount: sql<string>`sum(${earnings.netAmount})`,
+      })
+      .from(earnings)
+      .where(and(eq(earnings.orderId, orderId), eq(earnings.source, 'affiliate')))
+      .groupBy(earnings.professionalId);
+    return new Map(rows.map(row => [row.professionalId, roundCents(parseFloat(row.amount))]));
+  }
+
+  private async insertReversal(professionalId: number, orderId: number, amount: number, executor: Executor): Promise<void> {
+    if (amount <= 0) return;
+    await executor.insert(earnings).values({
+      professionalId,
+      source: 'affiliate',
+      orderId,
+      amount: money(-amount),
+      platformFee: '0.00',
+      netAmount: money(-amount),
+      payoutStatus: 'pending',
+    });
+  }
+
+  // Keeps the catalogue's "recommended by providers" flag in step with the storefronts
+  private async syncRecommended(productId: number): Promise<void> {
+    await db
+      .update(products)
+      .set({
+        isRecommendedByProviders: sql`exists (select 1 from ${storefrontProducts} where ${storefrontProducts.productId} = ${productId})`,
+      })
+      .where(eq(products.id, productId));
+  }
+
+  private async notifyProviders(orderNumber: string, credits: AffiliateCredit[]): Promise<void> {
+    try {
+      const providers = await db
+        .select({ id: professionals.id, userId: professionals.userId })
+        .from(professionals)
+        .where(inArray(professionals.id, credits.map(credit => credit.professionalId)));
+      for (const credit of credits) {
+        const provider = providers.find(p => p.id === credit.professionalId);
+        if (provider) {
+          await notificationService.triggerAffiliateCommission(provider.userId, orderNumber, credit.amount);
+        }
+      }
+    } catch (error) {
+      console.error('Error sending storefront sale notification:', error);
+    }
+  }
+}
+
+export const storefronts = new StorefrontService();
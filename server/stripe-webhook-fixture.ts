@@ -0,0 +1,89 @@
+// Sends a locally signed Stripe webhook event to a running server, for exercising the
+// webhook handler without the Stripe CLI:
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_... npm run stripe:fixture -- payment_intent.succeeded pi_123 bookingId=<uuid>
+//
+// Metadata is given as key=value pairs. Reusing --id=<event id> replays an event.
+import Stripe from "stripe";
+
+const [type, paymentIntentId, ...rest] = process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+const url = process.env.WEBHOOK_URL || `http://localhost:${process.env.PORT || '5000'}/api/stripe/webhook`;
+
+if (!type || !paymentIntentId || !secret) {
+  console.error('Usage: STRIPE_WEBHOOK_SECRET=whsec_... stripe-webhook-fixture <event type> <payment intent id> [--id=evt_...] [--amount=cents] [key=value ...]');
+  process.exit(1);
+}
+
+const options = Object.fromEntries(
+  rest.filter(arg => arg.startsWith('--')).map(arg => arg.slice(2).split('=') as [string, string])
+);
+const metadata = Object.fromEntries(
+  rest.filter(arg => !arg.startsWith('--')).map(arg => arg.split('=') as [string, string])
+);
+const amount = parseInt(options.amount || '5000', 10);
+
+const objects: Record<string, object> = {
+  'payment_intent.succeeded': {
+    id: paymentIntentId,
+    object: 'payment_intent',
+    amount,
+    amount_received: amount,
+    status: 'succeeded',
+    metadata,
+  },
+  'payment_intent.payment_failed': {
+    id: paymentIntentId,
+    object: 'payment_intent',
+    amount,
+    amount_received: 0,
+    status: 'requires_payment_method',
+    metadata,
+  },
+  'charge.refunded': {
+    id: `ch_fixture_${paymentIntentId}`,
+    object: 'charge',
+    amount,
+    amount_refunded: parseInt(options.refunded || String(amount), 10),
+    refunded: parseInt(options.refunded || String(amount), 10) >= amount,
+    payment_intent: paymentIntentId,
+    metadata,
+  },
+  'charge.dispute.created': {
+    id: `dp_fixture_${paymentIntentId}`,
+    object: 'dispute',
+    amount,
+    reason: options.reason || 'fraudulent',
+    status: 'needs_response',
+    payment_intent: paymentIntentId,
+    evidence_details: { due_by: Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60 },
+    metadata,
+  },
+};
+
+if (!objects[type]) {
+  console.error(`Unsupported event type ${type}. Supported: ${Object.keys(objects).join(', ')}`);
+  process.exit(1);
+}
+
+const payload = JSON.stringify({
+  id: options.id || `evt_fixture_${Date.now()}`,
+  object: 'event',
+  type,
+  livemode: false,
+  created: Math.floor(Date.now() / 1000),
+  data: { object: objects[type] },
+});
+
+const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+  body: payload,
+})
+  .then(async response => console.log(response.status, await response.text()))
+  .catch(error => {
+    console.error('Failed to send fixture event:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,352 @@
+import type Stripe from 'stripe';
+import { db } from './db';
+import {
+  bookings,
+  disputes,
+  paymentDetails,
+  type GiftCard,
+  productOrders,
+  type ProductOrder,
+  providerTokens,
+  stripeEvents,
+  tips,
+  tokenTransactions,
+} from '@shared/schema';
+import { eq, and, or, ne, inArray, sql } from 'drizzle-orm';
+import { stripe } from './stripe';
+import { disputeWorkflow } from './dispute-workflow';
+import { giftCardService } from './gift-cards';
+import { inventory } from './inventory';
+import { orderFulfillment, OrderPaymentError } from './order-fulfillment';
+import { storefronts } from './storefronts';
+import type { Transaction, Executor } from './booking-engine';
+
+export const HANDLED_EVENT_TYPES = [
+  'payment_intent.succeeded',
+  'payment_intent.payment_failed',
+  'charge.refunded',
+  'charge.dispute.created',
+] as const;
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored';
+
+// Booking payment states a refund event leaves alone
+const REFUND_EXEMPT_STATUSES = ['disputed', 'settlement_pending', 'settlement_failed'];
+
+const intentId = (value: string | { id: string } | null) => typeof value === 'string' ? value : value?.id ?? null;
+
+export class StripeWebhookService {
+
+  // Check the Stripe-Signature header against the raw request body
+  verify(rawBody: Buffer, signature: string): Stripe.Event {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new Error('Missing required Stripe secret: STRIPE_WEBHOOK_SECRET');
+    }
+    return stripe.webhooks.constructEvent(rawBody, signature, secret);
+  }
+
+  // Apply an event once. The event id is recorded in the same transaction as its effects,
+  // so a failed event is retried by Stripe and a redelivered one changes nothing.
+  async process(event: Stripe.Event): Promise<WebhookOutcome> {
+    if (!(HANDLED_EVENT_TYPES as readonly string[]).includes(event.type)) {
+      return 'ignored';
+    }
+
+    // Gift cards are emailed, and shop orders finished, once the transaction has committed
+    let activatedGiftCard = null as GiftCard | null;
+    let placedOrder = null as ProductOrder | null;
+
+    const outcome = await db.transaction(async (tx): Promise<WebhookOutcome> => {
+      const [recorded] = await tx
+        .insert(stripeEvents)
+        .values({ id: event.id, type: event.type, livemode: event.livemode })
+        .onConflictDoNothing()
+        .returning();
+      if (!recorded) {
+        return 'duplicate';
+      }
+
+      switch (event.type) {
+        case 'payment_intent.succeeded':
+          if (event.data.object.metadata.orderType === 'shop_order') {
+            placedOrder = await this.placeShopOrder(event.data.object, tx);
+          } else {
+            activatedGiftCard = await this.handlePaymentSucceeded(event.data.object, tx);
+          }
+          break;
+        case 'payment_intent.payment_failed':
+          await this.handlePaymentFailed(event.data.object, tx);
+          break;
+        case 'charge.refunded':
+          await this.handleChargeRefunded(event.data.object, tx);
+          break;
+        case 'charge.dispute.created':
+          await this.handleDisputeCreated(event.data.object, tx);
+          break;
+      }
+      return 'processed';
+    });
+
+    if (activatedGiftCard) {
+      await giftCardService.deliver(activatedGiftCard).catch(error => {
+        console.error('Error delivering gift card:', error);
+      });
+    }
+    if (placedOrder && event.type === 'payment_intent.succeeded') {
+      await orderFulfillment.completeCardOrder(placedOrder, event.data.object).catch(error => {
+        console.error('Error completing shop order:', error);
+      });
+    }
+    return outcome;
+  }
+
+  // Returns the gift card a payment activated, if it was a gift card purchase
+  private async handlePaymentSucceeded(intent: Stripe.PaymentIntent, tx: Transaction): Promise<GiftCard | null> {
+    const { metadata } = intent;
+
+    if (metadata.type === 'gift_card') {
+      return await giftCardService.activate(intent, tx);
+    } else if (metadata.type === 'tip') {
+      await tx.update(tips).set({ status: 'completed' }).where(eq(tips.stripeTipId, intent.id));
+    } else if (metadata.bookingId && metadata.paymentType === 'balance') {
+      const [paid] = await tx
+        .update(bookings)
+        .set({ paymentStatus: 'paid', depositStatus: 'applied', balancePaymentIntentId: intent.id, updatedAt: new Date() })
+        .where(and(eq(bookings.id, metadata.bookingId), inArray(bookings.paymentStatus, ['deposit_paid', 'balance_due'])))
+        .returning();
+      if (paid) {
+        await tx.update(paymentDetails).set({ paymentStatus: 'completed' }).where(eq(paymentDetails.bookingId, paid.id));
+      }
+    } else if (metadata.bookingId) {
+      const deposit = metadata.paymentType === 'deposit';
+      // A late success never overrides a refund or dispute that was already recorded
+      await tx
+        .update(bookings)
+        .set({
+          paymentStatus: deposit ? 'deposit_paid' : 'paid',
+          ...(deposit ? { depositStatus: 'paid' } : {}),
+          stripePaymentIntentId: intent.id,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(bookings.id, metadata.bookingId), inArray(bookings.paymentStatus, ['unpaid', 'failed'])));
+    } else if (metadata.tokenAmount && metadata.professionalId) {
+      await this.creditTokenPurchase(intent, tx);
+    }
+    return null;
+  }
+
+  // A shop payment becomes its order here if the client never came back to confirm it. A payment
+  // that can't become an order (its hold is gone, or the gift card part was spent) is refunded.
+  private async placeShopOrder(intent: Stripe.PaymentIntent, tx: Transaction): Promise<ProductOrder | null> {
+    try {
+      // Savepoint, so a refused order leaves the event's transaction usable
+      return await tx.transaction(async (inner) => await orderFulfillment.placeCardOrder(intent, inner));
+    } catch (error) {
+      if (!(error instanceof OrderPaymentError)) throw error;
+      console.warn(`Refunding shop payment ${intent.id}: ${error.message}`);
+      await orderFulfillment.refundCardPayment(intent, tx);
+      return null;
+    }
+  }
+
+  private async handlePaymentFailed(intent: Stripe.PaymentIntent, tx: Transaction): Promise<void> {
+    const { metadata } = intent;
+
+    if (metadata.type === 'tip') {
+      await tx.update(tips).set({ status: 'failed' }).where(eq(tips.stripeTipId, intent.id));
+    } else if (metadata.bookingId && metadata.paymentType === 'balance') {
+      await tx
+        .update(bookings)
+        .set({ paymentStatus: 'balance_due', balancePaymentIntentId: intent.id, updatedAt: new Date() })
+        .where(and(eq(bookings.id, metadata.bookingId), eq(bookings.paymentStatus, 'deposit_paid')));
+    } else if (metadata.bookingId) {
+      await tx
+        .update(bookings)
+        .set({ paymentStatus: 'failed', updatedAt: new Date() })
+        .where(and(eq(bookings.id, metadata.bookingId), eq(bookings.paymentStatus, 'unpaid')));
+    }
+  }
+
+  private async handleChargeRefunded(charge: Stripe.Charge, tx: Transaction): Promise<void> {
+    const paymentIntentId = intentId(charge.payment_intent);
+    if (!paymentIntentId) return;
+
+    const fullyRefunded = charge.refunded;
+
+    await this.recordBookingRefund(charge, paymentIntentId, tx);
+
+    await tx
+      .update(tips)
+      .set({ status: fullyRefunded ? 'refunded' : 'completed' })
+      .where(eq(tips.stripeTipId, paymentIntentId));
+
+    if (fullyRefunded) {
+      // Cancelled orders were already restocked and stay cancelled; refunds made through returns
+      // were restocked item by item when the return was approved
+      const refundedOrders = await tx
+        .update(productOrders)
+        .set({ status: 'refunded', updatedAt: new Date() })
+        .where(and(
+          eq(productOrders.stripePaymentIntentId, paymentIntentId),
+          ne(productOrders.status, 'cancelled'),
+          sql`coalesce(${productOrders.refundedAmount}, 0) = 0`
+        ))
+        .returning();
+      for (const order of refundedOrders) {
+        await inventory.restoreOrder(order.id, tx);
+        await storefronts.reverseOrder(order.id, tx);
+        await orderFulfillment.recordEvent(order.id, 'refunded', null, null, tx);
+      }
+      await this.reverseTokenPurchase(paymentIntentId, tx);
+      await giftCardService.voidPurchase(paymentIntentId, tx);
+    }
+  }
+
+  // A booking is fully refunded only once both its deposit and balance payments are. Disputes and
+  // cancellation settlements own the payment status while they run, so refunds they make don't touch it.
+  private async recordBookingRefund(charge: Stripe.Charge, paymentIntentId: string, tx: Transaction): Promise<void> {
+    const [booking] = await tx
+      .select()
+      .from(bookings)
+      .where(or(eq(bookings.stripePaymentIntentId, paymentIntentId), eq(bookings.balancePaymentIntentId, paymentIntentId)));
+    if (!booking || REFUND_EXEMPT_STATUSES.includes(booking.paymentStatus ?? '')) return;
+
+    const otherIntentId = booking.stripePaymentIntentId === paymentIntentId
+      ? booking.balancePaymentIntentId
+      : booking.stripePaymentIntentId;
+    const otherRemaining = otherIntentId && otherIntentId !== paymentIntentId ? await this.amountNotRefunded(otherIntentId) : 0;
+
+    await tx
+      .update(bookings)
+      .set({ paymentStatus: charge.refunded && otherRemaining <= 0 ? 'refunded' : 'partially_refunded', updatedAt: new Date() })
+      .where(eq(bookings.id, booking.id));
+  }
+
+  // What a payment took and still holds, in cents
+  private async amountNotRefunded(paymentIntentId: string): Promise<number> {
+    const intent = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['latest_charge'] });
+    const latestCharge = intent.latest_charge;
+    if (intent.status !== 'succeeded' || !latestCharge || typeof latestCharge === 'string') {
+      return 0;
+    }
+    return latestCharge.amount_captured - latestCharge.amount_refunded;
+  }
+
+  // Chargebacks on bookings open a dispute the support team works through like any other
+  private async handleDisputeCreated(stripeDispute: Stripe.Dispute, tx: Transaction): Promise<void> {
+    const paymentIntentId = intentId(stripeDispute.payment_intent);
+    if (!paymentIntentId) return;
+
+    const [booking] = await tx
+      .select()
+      .from(bookings)
+      .where(or(eq(bookings.stripePaymentIntentId, paymentIntentId), eq(bookings.balancePaymentIntentId, paymentIntentId)));
+    if (!booking) {
+      console.warn(`Stripe dispute ${stripeDispute.id} does not match a booking`);
+      return;
+    }
+
+    await tx
+      .insert(disputes)
+      .values({
+        bookingId: booking.id,
+        disputantId: booking.clientId,
+        disputantType: 'client',
+        reason: stripeDispute.reason,
+        description: `Chargeback opened with the card issuer (${stripeDispute.reason})`,
+        amount: (stripeDispute.amount / 100).toFixed(2),
+        status: 'awaiting_response',
+        // The provider's evidence has to be in before Stripe's own deadline
+        providerResponseDueAt: stripeDispute.evidence_details?.due_by
+          ? new Date(stripeDispute.evidence_details.due_by * 1000)
+          : null,
+        stripeDisputeId: stripeDispute.id,
+      })
+      .onConflictDoNothing();
+
+    await disputeWorkflow.holdEarnings(booking.id, tx);
+
+    await tx
+      .update(bookings)
+      .set({ paymentStatus: 'disputed', updatedAt: new Date() })
+      .where(eq(bookings.id, booking.id));
+  }
+
+  // Add purchased tokens to the provider's balance. Safe to call from both the webhook and
+  // the client's success callback: only the first call for a payment intent credits anything.
+  async creditTokenPurchase(intent: Stripe.PaymentIntent, executor: Executor = db): Promise<number> {
+    const professionalId = parseInt(intent.metadata.professionalId);
+    const tokenAmount = parseInt(intent.metadata.tokenAmount);
+
+    const [purchase] = await executor
+      .insert(tokenTransactions)
+      .values({
+        professionalId,
+        transactionType: 'purchase',
+        amount: tokenAmount,
+        cost: (intent.amount_received / 100).toFixed(2),
+        description: intent.metadata.packageName || intent.metadata.tokenPackage || 'Token purchase',
+        paymentIntentId: intent.id,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!purchase) {
+      return 0;
+    }
+
+    const [updated] = await executor
+      .update(providerTokens)
+      .set({
+        tokenBalance: sql`${providerTokens.tokenBalance} + ${tokenAmount}`,
+        totalTokensPurchased: sql`${providerTokens.totalTokensPurchased} + ${tokenAmount}`,
+        lastPurchaseAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(providerTokens.professionalId, professionalId))
+      .returning();
+    if (!updated) {
+      await executor.insert(providerTokens).values({
+        professionalId,
+        tokenBalance: tokenAmount,
+        totalTokensPurchased: tokenAmount,
+        lastPurchaseAt: new Date(),
+      });
+    }
+
+    return tokenAmount;
+  }
+
+  // Take back the tokens of a refunded purchase, as far as the balance allows
+  private async reverseTokenPurchase(paymentIntentId: string, tx: Transaction): Promise<void> {
+    const [purchase] = await tx
+      .select()
+      .from(tokenTransactions)
+      .where(and(eq(tokenTransactions.paymentIntentId, paymentIntentId), eq(tokenTransactions.transactionType, 'purchase')));
+    if (!purchase) return;
+
+    const [refund] = await tx
+      .insert(tokenTransactions)
+      .values({
+        professionalId: purchase.professionalId,
+        transactionType: 'refund',
+        amount: purchase.amount,
+        cost: purchase.cost,
+        description: 'Token purchase refunded',
+        paymentIntentId,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!refund) return;
+
+    await tx
+      .update(providerTokens)
+      .set({
+        tokenBalance: sql`GREATEST(${providerTokens.tokenBalance} - ${purchase.amount}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(providerTokens.professionalId, purchase.professionalId));
+  }
+}
+
+export const stripeWebhooks = new StripeWebhookService();
@@ -0,0 +1,165 @@
+// Runs a video call's signaling end to end with two headless participants, for exercising the
+// signaling service without browsers, cameras or WebRTC:
+//
+//   INITIATOR_COOKIE='connect.sid=...' RECIPIENT_COOKIE='connect.sid=...' OUTSIDER_COOKIE='connect.sid=...' npm run video:fixture -- <call id> [--hold=seconds]
+//
+// The cookies are the session cookies of the call's initiator and recipient, and of a third user
+// who is not on the call. Both participants join and the outsider is turned away, a dummy offer,
+// answer and ICE candidates are relayed, the call is reported connected, held, and hung up.
+// Exits non-zero on the first step that doesn't behave.
+import WebSocket from 'ws';
+
+const [callIdArg, ...rest] = process.argv.slice(2);
+const callId = parseInt(callIdArg, 10);
+const url = process.env.REALTIME_URL || `ws://localhost:${process.env.PORT || '5000'}/ws`;
+const initiatorCookie = process.env.INITIATOR_COOKIE;
+const recipientCookie = process.env.RECIPIENT_COOKIE;
+const outsiderCookie = process.env.OUTSIDER_COOKIE;
+
+if (!callId || !initiatorCookie || !recipientCookie || !outsiderCookie) {
+  console.error("Usage: INITIATOR_COOKIE='connect.sid=...' RECIPIENT_COOKIE='connect.sid=...' OUTSIDER_COOKIE='connect.sid=...' video-signaling-fixture <call id> [--hold=seconds]");
+  process.exit(1);
+}
+
+const options = Object.fromEntries(
+  rest.filter(arg => arg.startsWith('--')).map(arg => arg.slice(2).split('=') as [string, string])
+);
+const holdSeconds = parseInt(options.hold || '2', 10);
+
+const EVENT_TIMEOUT_MS = 5000;
+
+type Event = { type: string; [key: string]: any };
+
+// A participant that keeps what the server sends it until a step asks for it
+class HeadlessParticipant {
+  private inbox: Event[] = [];
+  private waiting: (() => void)[] = [];
+
+  // Errors end the run, unless the participant is there to be refused
+  private constructor(readonly name: string, private socket: WebSocket, expectsErrors: boolean) {
+    socket.on('message', data => {
+      const event: Event = JSON.parse(data.toString());
+      if (event.type === 'error' && !expectsErrors) {
+        console.error(`${name} got an error for ${event.event}: ${event.message}`);
+        process.exit(1);
+      }
+      this.inbox.push(event);
+      this.waiting.splice(0).forEach(wake => wake());
+    });
+  }
+
+  static connect(name: string, cookie: string, expectsErrors = false): Promise<HeadlessParticipant> {
+    return new Promise((resolve, reject) => {
+      // The gateway only takes handshakes from the app's own pages
+      const socket = new WebSocket(url, { origin: new URL(url).origin.replace(/^ws/, 'http'), headers: { Cookie: cookie } });
+      const participant = new HeadlessParticipant(name, socket, expectsErrors);
+      socket.on('unexpected-response', (_req, res) => reject(new Error(`${name} was refused with ${res.statusCode}`)));
+      socket.on('error', reject);
+      participant.next('ready').then(() => resolve(participant), reject);
+    });
+  }
+
+  send(event: Event) {
+    this.socket.send(JSON.stringify({ ...event, callId }));
+  }
+
+  // The first event of a type, optionally matching a condition, that arrived or arrives next
+  async next(type: string, matches: (event: Event) => boolean = () => true): Promise<Event> {
+    const deadline = Date.now() + EVENT_TIMEOUT_MS;
+    for (;;) {
+      const index = this.inbox.findIndex(event => event.type === type && matches(event));
+      if (index >= 0) {
+        return this.inbox.splice(index, 1)[0];
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`${this.name} did not receive ${type} within ${EVENT_TIMEOUT_MS}ms`);
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiting.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+const expect = (condition: boolean, message: string) => {
+  if (!condition) {
+    throw new Error(message);
+  }
+  console.log(`ok - ${message}`);
+};
+
+async function run() {
+  const initiator = await HeadlessParticipant.connect('initiator', initiatorCookie!);
+  const recipient = await HeadlessParticipant.connect('recipient', recipientCookie!);
+  const outsider = await HeadlessParticipant.connect('outsider', outsiderCookie!, true);
+
+  initiator.send({ type: 'call:join' });
+  const initiatorJoined = await initiator.next('call:joined');
+  expect(initiatorJoined.role === 'initiator', 'initiator joins as the initiator');
+
+  recipient.send({ type: 'call:join' });
+  const recipientJoined = await recipient.next('call:joined');
+  expect(recipientJoined.role === 'recipient' && recipientJoined.peerPresent, 'recipient joins and sees the initiator');
+  await initiator.next('call:peer-joined');
+  expect(recipientJoined.status === 'connecting', 'call is connecting once both have joined');
+
+  outsider.send({ type: 'call:join' });
+  const refused = await outsider.next('error', event => event.event === 'call:join');
+  expect(refused.message === 'Call not found', 'a third user is refused on call:join');
+  outsider.close();
+
+  initiator.send({ type: 'call:offer', sdp: { type: 'offer', sdp: 'v=0 fixture-offer' } });
+  const offer = await recipient.next('call:offer');
+  expect(offer.from === 'initiator' && offer.sdp.sdp === 'v=0 fixture-offer', 'offer is relayed to the recipient');
+
+  recipient.send({ type: 'call:answer', sdp: { type: 'answer', sdp: 'v=0 fixture-answer' } });
+  const answer = await initiator.next('call:answer');
+  expect(answer.from === 'recipient' && answer.sdp.sdp === 'v=0 fixture-answer', 'answer is relayed to the initiator');
+
+  // A different candidate from each side, so an echo can't pass for a relay
+  const initiatorCandidate = { candidate: 'candidate:1 1 udp 2122260223 192.0.2.1 54400 typ host', sdpMid: '0', sdpMLineIndex: 0 };
+  const recipientCandidate = { candidate: 'candidate:1 1 udp 2122260223 192.0.2.2 54401 typ host', sdpMid: '0', sdpMLineIndex: 0 };
+  initiator.send({ type: 'call:ice-candidate', candidate: initiatorCandidate });
+  recipient.send({ type: 'call:ice-candidate', candidate: recipientCandidate });
+  const toRecipient = await recipient.next('call:ice-candidate');
+  const toInitiator = await initiator.next('call:ice-candidate');
+  expect(
+    toRecipient.from === 'initiator' && toRecipient.candidate?.candidate === initiatorCandidate.candidate
+      && toInitiator.from === 'recipient' && toInitiator.candidate?.candidate === recipientCandidate.candidate,
+    'ICE candidates are relayed both ways'
+  );
+
+  initiator.send({ type: 'call:connected' });
+  const initiatorConnected = await initiator.next('call:status', event => event.status === 'connected');
+  const recipientConnected = await recipient.next('call:status', event => event.status === 'connected');
+  expect(
+    initiatorConnected.callId === callId && recipientConnected.callId === callId,
+    'both participants see the call connected'
+  );
+
+  await new Promise(resolve => setTimeout(resolve, holdSeconds * 1000));
+
+  recipient.send({ type: 'call:end' });
+  const ended = await initiator.next('call:status', event => event.status === 'ended');
+  await recipient.next('call:status', event => event.status === 'ended');
+  expect(ended.duration >= holdSeconds, `call ended after ${ended.duration}s`);
+
+  initiator.close();
+  recipient.close();
+}
+
+run()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Video signaling fixture failed:', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,214 @@
+import { db } from './db';
+import { videoCalls, type VideoCall } from '@shared/schema';
+import { eq, and, or, isNull } from 'drizzle-orm';
+import { realtime, type RealtimeEvent } from './realtime';
+
+export const CALL_STATUSES = ['initiated', 'connecting', 'connected', 'ended'] as const;
+export type CallStatus = typeof CALL_STATUSES[number];
+
+// A call rings (initiated), negotiates once both sides have joined (connecting),
+// has media flowing (connected) and ends. Any status can end.
+const CALL_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  initiated: ['connecting', 'ended'],
+  connecting: ['connected', 'ended'],
+  connected: ['ended'],
+  ended: [],
+};
+
+// Passed between the two participants as they are; the server never reads the SDP
+const RELAYED_EVENTS = ['call:offer', 'call:answer', 'call:ice-candidate'] as const;
+
+// A call moves through at most three statuses, so ending it never needs more tries than this
+const MAX_END_ATTEMPTS = 4;
+
+type CallRole = 'initiator' | 'recipient';
+
+// The participants of a call and which of them have joined its signaling
+interface CallRoom {
+  initiatorId: string;
+  recipientId: string;
+  members: Set<string>;
+}
+
+export class VideoSignalingService {
+  private rooms = new Map<number, CallRoom>();
+
+  // Only the initiator and recipient can see or act on a call
+  async getCall(callId: number, userId: string): Promise<VideoCall> {
+    const [call] = await db
+      .select()
+      .from(videoCalls)
+      .where(and(
+        eq(videoCalls.id, callId),
+        or(eq(videoCalls.initiatorId, userId), eq(videoCalls.recipientId, userId))
+      ));
+    if (!call) {
+      throw new Error('Call not found');
+    }
+    return call;
+  }
+
+  // Let the recipient know a call is waiting for them
+  ring(call: VideoCall): void {
+    realtime.sendToUser(call.recipientId, { type: 'call:incoming', callId: call.id, initiatorId: call.initiatorId });
+  }
+
+  // Join a call's signaling. Once both participants are in, negotiation starts and the initiator sends the offer.
+  async join(userId: string, callId: number): Promise<void> {
+    const call = await this.getCall(callId, userId);
+    if (call.status === 'ended') {
+      throw new Error('This call has ended');
+    }
+
+    const room = this.rooms.get(call.id) ?? { initiatorId: call.initiatorId, recipientId: call.recipientId, members: new Set<string>() };
+    room.members.add(userId);
+    this.rooms.set(call.id, room);
+
+    const peerId = this.peerOf(room, userId);
+    const peerPresent = room.members.has(peerId);
+    const current = peerPresent && (call.status ?? 'initiated') === 'initiated'
+      ? await this.transition(call, 'connecting') ?? call
+      : call;
+
+    realtime.sendToUser(userId, {
+      type: 'call:joined',
+      callId: call.id,
+      role: this.roleOf(room, userId),
+      peerPresent,
+      status: current.status,
+    });
+    if (peerPresent) {
+      realtime.sendToUser(peerId, { type: 'call:peer-joined', callId: call.id, status: current.status });
+    }
+  }
+
+  async relay(userId: string, event: RealtimeEvent): Promise<void> {
+    const callId = Number(event.callId);
+    const room = this.joinedRoom(callId, userId);
+
+    if (event.type === 'call:ice-candidate' ? !event.candidate : !event.sdp) {
+      throw new Error(event.type === 'call:ice-candidate' ? 'Candidate is required' : 'Session description is required');
+    }
+
+    realtime.sendToUser(this.peerOf(room, userId), {
+      type: event.type,
+      callId,
+      from: this.roleOf(room, userId),
+      ...(event.type === 'call:ice-candidate' ? { candidate: event.candidate } : { sdp: event.sdp }),
+    });
+  }
+
+  // A participant's peer connection reached the connected state; the call's clock starts here
+  async markConnected(userId: string, callId: number): Promise<void> {
+    this.joinedRoom(callId, userId);
+    const call = await this.getCall(callId, userId);
+    if (call.status === 'connecting') {
+      await this.transition(call, 'connected');
+    }
+  }
+
+  // End a call for both participants. Ending an ended call is a no-op.
+  async end(userId: string, callId: number): Promise<VideoCall> {
+    let call = await this.getCall(callId, userId);
+
+    // The status can move under us, e.g. the other side connecting as we hang up
+    for (let attempt = 0; call.status !== 'ended'; attempt++) {
+      if (attempt === MAX_END_ATTEMPTS) {
+        throw new Error('The call could not be ended, please try again');
+      }
+      const ended = await this.transition(call, 'ended');
+      if (ended) {
+        call = ended;
+        break;
+      }
+      call = await this.getCall(callId, userId);
+    }
+
+    this.rooms.delete(call.id);
+    return call;
+  }
+
+  // When someone's last socket closes they leave their calls. A call nobody is in any more is over.
+  async leave(userId: string): Promise<void> {
+    for (const [callId, room] of Array.from(this.rooms.entries())) {
+      if (!room.members.delete(userId)) continue;
+
+      if (room.members.size > 0) {
+        realtime.sendToUser(this.peerOf(room, userId), { type: 'call:peer-left', callId });
+      } else {
+        await this.end(userId, callId);
+      }
+    }
+  }
+
+  start(): void {
+    realtime.on('call:join', (userId, event) => this.join(userId, Number(event.callId)));
+    for (const type of RELAYED_EVENTS) {
+      realtime.on(type, (userId, event) => this.relay(userId, event));
+    }
+    realtime.on('call:connected', (userId, event) => this.markConnected(userId, Number(event.callId)));
+    realtime.on('call:end', async (userId, event) => {
+      await this.end(userId, Number(event.callId));
+    });
+    realtime.onDisconnect(userId => {
+      this.leave(userId).catch(error => console.error('Error leaving video calls:', error));
+    });
+  }
+
+  // Move a call on if the transition is allowed and nobody moved it first; both participants hear about it.
+  // Calls created without a status are treated as initiated.
+  private async transition(call: VideoCall, to: CallStatus): Promise<VideoCall | null> {
+    const from = (call.status ?? 'initiated') as CallStatus;
+    if (!CALL_TRANSITIONS[from]?.includes(to)) {
+      return null;
+    }
+
+    const now = new Date();
+    const changes: Partial<VideoCall> = { status: to };
+    if (to === 'connected') {
+      changes.startTime = now;
+    }
+    if (to === 'ended') {
+      changes.endTime = now;
+      // Only time with media flowing counts
+      changes.duration = call.startTime ? Math.max(0, Math.round((now.getTime() - call.startTime.getTime()) / 1000)) : 0;
+    }
+
+    const [updated] = await db
+      .update(videoCalls)
+      .set(changes)
+      .where(and(eq(videoCalls.id, call.id), call.status === null ? isNull(videoCalls.status) : eq(videoCalls.status, from)))
+      .returning();
+    if (!updated) {
+      return null;
+    }
+
+    for (const participantId of [updated.initiatorId, updated.recipientId]) {
+      realtime.sendToUser(participantId, {
+        type: 'call:status',
+        callId: updated.id,
+        status: updated.status,
+        duration: updated.duration,
+      });
+    }
+    return updated;
+  }
+
+  private joinedRoom(callId: number, userId: string): CallRoom {
+    const room = this.rooms.get(callId);
+    if (!room?.members.has(userId)) {
+      throw new Error('Join the call before signaling');
+    }
+    return room;
+  }
+
+  private roleOf(room: CallRoom, userId: string): CallRole {
+    return room.initiatorId === userId ? 'initiator' : 'recipient';
+  }
+
+  private peerOf(room: CallRoom, userId: string): string {
+    return room.initiatorId === userId ? room.recipientId : room.initiatorId;
+  }
+}
+
+export const videoSignaling = new VideoSignalingService();
@@ -0,0 +1,148 @@
+import { db } from './db';
+import { waitlist, type Booking, type Waitlist } from '@shared/schema';
+import { eq, and, gt, lte, asc } from 'drizzle-orm';
+import { bookingEngine, BookingConflictError } from './booking-engine';
+import { notificationService } from './notification-service';
+
+// How long a freed slot is held for the client it was offered to
+export const WAITLIST_HOLD_MINUTES = 30;
+
+// How often expired holds are released and passed down the waitlist
+const HOLD_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// An entry without any dates is flexible and matches any day
+const matchesDate = (entry: Waitlist, slot: Date) => {
+  const dates = [entry.preferredDate, ...(entry.alternativeDates || [])].filter((date): date is Date => !!date);
+  return !dates.length || dates.some(date => date.toDateString() === slot.toDateString());
+};
+
+export class WaitlistMatcher {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  // Offer the slots of cancelled or moved bookings to waitlisted clients
+  async offerFreedSlots(freed: Booking[]): Promise<void> {
+    for (const booking of freed) {
+      await this.offerSlot(booking.professionalId, booking.appointmentDate);
+    }
+  }
+
+  // Hold a slot for the longest-waiting client whose dates and services fit it
+  async offerSlot(professionalId: number, slot: Date): Promise<Waitlist | null> {
+    if (slot <= new Date()) {
+      return null;
+    }
+
+    const entries = await db
+      .select()
+      .from(waitlist)
+      .where(and(eq(waitlist.professionalId, professionalId), eq(waitlist.status, 'active')))
+      .orderBy(asc(waitlist.createdAt));
+
+    for (const entry of entries.filter(entry => matchesDate(entry, slot))) {
+      const offered = await this.holdSlot(entry, slot);
+      if (offered) {
+        await notificationService.triggerWaitlistOffer(
+          offered.clientId,
+          offered.id,
+          professionalId,
+          slot,
+          offered.holdExpiresAt!
+        );
+        return offered;
+      }
+    }
+
+    return null;
+  }
+
+  // Put a hold on the slot for one entry, if the services it asks for fit there
+  private async holdSlot(entry: Waitlist, slot: Date): Promise<Waitlist | null> {
+    try {
+      return await bookingEngine.withProfessionalLock(entry.professionalId, async (tx) => {
+        const serviceList = await bookingEngine.getBookableServices(entry.professionalId, entry.serviceIds, tx);
+        const duration = bookingEngine.calculateDuration(entry.serviceIds, serviceList);
+        await bookingEngine.assertSlotAvailable(entry.professionalId, slot, duration, tx);
+
+        const [offered] = await tx
+          .update(waitlist)
+          .set({
+            status: 'notified',
+            offeredSlot: slot,
+            offeredDuration: duration,
+            holdExpiresAt: new Date(Date.now() + WAITLIST_HOLD_MINUTES * 60 * 1000),
+          })
+          .where(and(eq(waitlist.id, entry.id), eq(waitlist.status, 'active')))
+          .returning();
+        return offered || null;
+      });
+    } catch (error) {
+      // The slot is too short for this entry, or its services are no longer offered
+      if (!(error instanceof BookingConflictError)) {
+        console.error(`Skipping waitlist entry ${entry.id}:`, error);
+      }
+      return null;
+    }
+  }
+
+  // Turn a held offer into a booking for the waitlisted client
+  async claim(entry: Waitlist, clientId: string): Promise<Booking> {
+    if (entry.clientId !== clientId) {
+      throw new Error('This offer belongs to another client');
+    }
+
+    return await bookingEngine.withProfessionalLock(entry.professionalId, async (tx) => {
+      // Releasing the hold first lets the booking take the slot it was protecting
+      const [claimed] = await tx
+        .update(waitlist)
+        .set({ status: 'booked' })
+        .where(and(
+          eq(waitlist.id, entry.id),
+          eq(waitlist.status, 'notified'),
+          gt(waitlist.holdExpiresAt, new Date())
+        ))
+        .returning();
+
+      if (!claimed) {
+        throw new BookingConflictError('This offer has expired');
+      }
+
+      const booking = await bookingEngine.insertBooking({
+        clientId: claimed.clientId,
+        professionalId: claimed.professionalId,
+        serviceIds: claimed.serviceIds,
+        appointmentDate: claimed.offeredSlot!,
+        status: 'pending',
+      }, tx);
+
+      await tx.update(waitlist).set({ bookingId: booking.id }).where(eq(waitlist.id, claimed.id));
+      return booking;
+    });
+  }
+
+  // Expire holds that ran out and pass each slot on to the next client in line
+  async expireHolds(): Promise<void> {
+    const expired = await db
+      .update(waitlist)
+      .set({ status: 'expired' })
+      .where(and(eq(waitlist.status, 'notified'), lte(waitlist.holdExpiresAt, new Date())))
+      .returning();
+
+    for (const entry of expired) {
+      await this.offerSlot(entry.professionalId, entry.offeredSlot!);
+    }
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(async () => {
+      try {
+        await this.expireHolds();
+      } catch (error) {
+        console.error('Error expiring waitlist holds:', error);
+      }
+    }, HOLD_SWEEP_INTERVAL_MS);
+  }
+}
+
+export const waitlistMatcher = new WaitlistMatcher();
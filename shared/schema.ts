@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   decimal,
@@ -35,6 +36,7 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   role: varchar("role").default("client"), // client, provider, admin, super_admin
   isActive: boolean("is_active").default(true),
+  stripeCustomerId: varchar("stripe_customer_id"), // saved card for charges made after booking, e.g. deposit balances
   lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -85,6 +87,9 @@ export const services = pgTable("services", {
   category: varchar("category").notNull(), // hair, nails, makeup, braiding, barbering, skincare
   price: decimal("price", { precision: 8, scale: 2 }).notNull(),
   duration: integer("duration").notNull(), // in minutes
+  bufferTime: integer("buffer_time").default(0), // minutes blocked after the service for cleanup/turnover
+  depositType: varchar("deposit_type").default("none"), // none, percentage, fixed
+  depositValue: decimal("deposit_value", { precision: 8, scale: 2 }).default("0"), // percent of the price, or a dollar amount
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -106,6 +111,7 @@ export const bookings = pgTable("bookings", {
   professionalId: integer("professional_id").notNull().references(() => professionals.id),
   serviceIds: integer("service_ids").array().notNull(),
   appointmentDate: timestamp("appointment_date").notNull(),
+  duration: integer("duration"), // minutes blocked on the calendar, including buffer times
   status: varchar("status").notNull().default("pending"), // pending, confirmed, completed, cancelled
   serviceLocation: varchar("service_location").default("salon"), // salon, home, mobile
   homeVisitFee: decimal("home_visit_fee", { precision: 10, scale: 2 }).default("0"),
@@ -118,7 +124,17 @@ export const bookings = pgTable("bookings", {
   platformFees: decimal("platform_fees", { precision: 10, scale: 2 }), // total platform fees
   tipAmount: decimal("tip_amount", { precision: 10, scale: 2 }).default("0"),
   notes: text("notes"),
-  stripePaymentIntentId: varchar("stripe_payment_intent_id"),
+  stripePaymentIntentId: varchar("stripe_payment_intent_id"), // the deposit when one is required, otherwise the full payment
+  paymentStatus: varchar("payment_status").default("unpaid"), // unpaid, deposit_paid, balance_due, paid, failed, refunded, partially_refunded, disputed, plus for cancellations: settlement_pending, settlement_failed, voided, fee_charged
+  depositAmount: decimal("deposit_amount", { precision: 10, scale: 2 }).default("0"), // taken at booking, fixed from the services booked
+  depositStatus: varchar("deposit_status").default("none"), // none, pending, paid, applied, refunded, forfeited, partially_forfeited
+  balancePaymentIntentId: varchar("balance_payment_intent_id"), // remainder charged at completion
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0"), // promo discount taken off the service amount
+  promoCodeId: integer("promo_code_id"), // see promoRedemptions
+  giftCardAmount: decimal("gift_card_amount", { precision: 10, scale: 2 }).default("0"), // part of the total paid from gift cards
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationType: varchar("cancellation_type"), // free, late, no_show, provider
+  cancellationReason: text("cancellation_reason"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -131,8 +147,15 @@ export const reviews = pgTable("reviews", {
   professionalId: integer("professional_id").notNull().references(() => professionals.id),
   rating: integer("rating").notNull(), // 1-5
   comment: text("comment"),
+  status: varchar("status").default("published"), // pending (not screened yet), published, hidden (flagged, awaiting moderation), removed
+  fraudScore: integer("fraud_score").default(0),
+  fraudReasons: jsonb("fraud_reasons"), // signals found by screening, e.g. [{ signal: "duplicate_text", detail: "..." }]
+  screenedAt: timestamp("screened_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // One review per booking
+  uniqueIndex("reviews_booking_unique").on(table.bookingId),
+]);
 
 // Professional availability
 export const availability = pgTable("availability", {
@@ -148,12 +171,16 @@ export const availability = pgTable("availability", {
 export const earnings = pgTable("earnings", {
   id: serial("id").primaryKey(),
   professionalId: integer("professional_id").notNull().references(() => professionals.id),
-  bookingId: uuid("booking_id").notNull().references(() => bookings.id),
+  source: varchar("source").notNull().default("service"), // service (a booking) or affiliate (a storefront sale)
+  bookingId: uuid("booking_id").references(() => bookings.id), // set for service earnings
+  orderId: integer("order_id").references(() => productOrders.id), // set for affiliate earnings
   amount: decimal("amount", { precision: 8, scale: 2 }).notNull(),
   platformFee: decimal("platform_fee", { precision: 8, scale: 2 }).notNull(),
   netAmount: decimal("net_amount", { precision: 8, scale: 2 }).notNull(),
-  payoutStatus: varchar("payout_status").default("pending"), // pending, processing, paid
+  payoutStatus: varchar("payout_status").default("pending"), // pending, held, awaiting_settlement, processing, paid, void
   payoutDate: timestamp("payout_date"),
+  payoutId: varchar("payout_id").references(() => providerPayouts.id), // payout batch this earning was paid in
+  disputeId: varchar("dispute_id").references(() => disputes.id), // set on reversals of refunded disputes
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -240,7 +267,11 @@ export const waitlist = pgTable("waitlist", {
   serviceIds: integer("service_ids").array().notNull(),
   preferredDate: timestamp("preferred_date"),
   alternativeDates: timestamp("alternative_dates").array(),
-  status: varchar("status").default("active"), // active, notified, expired
+  status: varchar("status").default("active"), // active, notified, booked, expired
+  offeredSlot: timestamp("offered_slot"), // start of the freed slot held for this client
+  offeredDuration: integer("offered_duration"), // minutes held, including buffer times
+  holdExpiresAt: timestamp("hold_expires_at"),
+  bookingId: uuid("booking_id"), // booking created when the client claimed the offer
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -371,7 +402,10 @@ export const tokenTransactions = pgTable("token_transactions", {
   geoLocation: varchar("geo_location"), // where tokens are being used
   boostDuration: integer("boost_duration"), // hours of boost applied
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // A payment is credited (and refunded) at most once, whichever path reports it first
+  uniqueIndex("token_transactions_payment_intent_type_unique").on(table.paymentIntentId, table.transactionType),
+]);
 
 // Fee structure and commission tracking
 export const feeStructure = pgTable("fee_structure", {
@@ -396,6 +430,17 @@ export const feeStructure = pgTable("fee_structure", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Cancellation policy set by each provider, applied when a booking is cancelled
+export const cancellationPolicies = pgTable("cancellation_policies", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").notNull().references(() => professionals.id).unique(),
+  freeCancellationHours: integer("free_cancellation_hours").notNull().default(24), // clients cancel free up to this many hours before
+  lateCancellationFeeRate: decimal("late_cancellation_fee_rate", { precision: 5, scale: 4 }).notNull().default("0.50"), // share of the service amount
+  noShowFeeRate: decimal("no_show_fee_rate", { precision: 5, scale: 4 }).notNull().default("1.00"), // share of the service amount
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Job requests (clients posting jobs for providers to bid)
 export const jobRequests = pgTable("job_requests", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -414,8 +459,9 @@ export const jobRequests = pgTable("job_requests", {
   urgency: varchar("urgency").default("normal"), // urgent, normal, flexible
   requirements: text("requirements"), // special requirements
   images: text("images").array(), // reference images
-  status: varchar("status").default("open"), // open, assigned, completed, cancelled
+  status: varchar("status").default("open"), // open, assigned, completed, cancelled, expired
   selectedProviderId: integer("selected_provider_id").references(() => professionals.id),
+  bookingId: uuid("booking_id").references(() => bookings.id), // set when a bid is accepted
   bidCount: integer("bid_count").default(0),
   expiresAt: timestamp("expires_at"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -548,6 +594,11 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
 
 export const insertWaitlistSchema = createInsertSchema(waitlist).omit({
   id: true,
+  status: true,
+  offeredSlot: true,
+  offeredDuration: true,
+  holdExpiresAt: true,
+  bookingId: true,
   createdAt: true,
 });
 
@@ -580,6 +631,12 @@ export const insertFeeStructureSchema = createInsertSchema(feeStructure).omit({
   updatedAt: true,
 });
 
+export const insertCancellationPolicySchema = createInsertSchema(cancellationPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertJobRequestSchema = createInsertSchema(jobRequests).omit({
   id: true,
   createdAt: true,
@@ -638,6 +695,9 @@ export type InsertTokenTransaction = z.infer<typeof insertTokenTransactionSchema
 export type FeeStructure = typeof feeStructure.$inferSelect;
 export type InsertFeeStructure = z.infer<typeof insertFeeStructureSchema>;
 
+export type CancellationPolicy = typeof cancellationPolicies.$inferSelect;
+export type InsertCancellationPolicy = z.infer<typeof insertCancellationPolicySchema>;
+
 export type JobRequest = typeof jobRequests.$inferSelect;
 export type InsertJobRequest = z.infer<typeof insertJobRequestSchema>;
 
@@ -755,6 +815,19 @@ export const insertServiceSchema = createInsertSchema(services).omit({
 
 export const insertBookingSchema = createInsertSchema(bookings).omit({
   id: true,
+  totalPrice: true,
+  basePrice: true,
+  homeVisitFee: true,
+  paymentStatus: true,
+  depositAmount: true,
+  depositStatus: true,
+  balancePaymentIntentId: true,
+  discountAmount: true,
+  promoCodeId: true,
+  giftCardAmount: true,
+  cancelledAt: true,
+  cancellationType: true,
+  cancellationReason: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -893,11 +966,13 @@ export const products = pgTable("products", {
   category: varchar("category").notNull(), // skincare, haircare, makeup, tools, etc.
   brand: varchar("brand"),
   imageUrl: varchar("image_url"),
-  inStock: boolean("in_stock").default(true),
+  inStock: boolean("in_stock").default(true), // kept in step with stockQuantity
   stockQuantity: integer("stock_quantity").default(0),
+  lowStockThreshold: integer("low_stock_threshold").default(5), // admins are alerted at or below this
+  weightGrams: integer("weight_grams").default(0), // shipped weight, for weight-based shipping rates
   rating: decimal("rating", { precision: 3, scale: 2 }).default("0"),
   reviewCount: integer("review_count").default(0),
-  isRecommendedByProviders: boolean("is_recommended_by_providers").default(false),
+  isRecommendedByProviders: boolean("is_recommended_by_providers").default(false), // on at least one storefront; see storefrontProducts
   ingredients: text("ingredients").array(),
   tags: text("tags").array(), // professional, organic, vegan, etc.
   createdAt: timestamp("created_at").defaultNow(),
@@ -921,6 +996,7 @@ export const shoppingCart = pgTable("shopping_cart", {
   userId: varchar("user_id").notNull().references(() => users.id),
   productId: integer("product_id").notNull().references(() => products.id),
   quantity: integer("quantity").default(1),
+  referredBy: integer("referred_by").references(() => professionals.id), // storefront the product was added from
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -929,15 +1005,27 @@ export const productOrders = pgTable("product_orders", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
   orderNumber: varchar("order_number").notNull().unique(),
-  status: varchar("status").default("pending"), // pending, processing, shipped, delivered, cancelled
+  status: varchar("status").default("pending"), // pending, paid, processing, partially_shipped, shipped, delivered, cancelled, refunded
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   shippingAddress: jsonb("shipping_address").notNull(),
   stripePaymentIntentId: varchar("stripe_payment_intent_id"),
   paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }),
-  trackingNumber: varchar("tracking_number"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0"), // promo discount taken off the subtotal
+  promoCodeId: integer("promo_code_id"), // see promoRedemptions
+  subtotalAmount: decimal("subtotal_amount", { precision: 10, scale: 2 }), // breakdown of totalAmount as quoted at checkout
+  shippingAmount: decimal("shipping_amount", { precision: 10, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }),
+  taxRate: decimal("tax_rate", { precision: 6, scale: 4 }),
+  giftCardAmount: decimal("gift_card_amount", { precision: 10, scale: 2 }).default("0"), // part of the total paid from gift cards
+  stockStatus: varchar("stock_status").default("none"), // none, committed (taken from stock), restored
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).default("0"), // given back through returns, card and gift card together
+  trackingNumber: varchar("tracking_number"), // of the latest shipment; see orderShipments
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // A card payment only ever pays for one order
+  uniqueIndex("product_orders_payment_intent_unique").on(table.stripePaymentIntentId),
+]);
 
 // Order Items table
 export const orderItems = pgTable("order_items", {
@@ -946,6 +1034,68 @@ export const orderItems = pgTable("order_items", {
   productId: integer("product_id").notNull().references(() => products.id),
   quantity: integer("quantity").notNull(),
   priceAtTime: decimal("price_at_time", { precision: 10, scale: 2 }).notNull(),
+  affiliateProfessionalId: integer("affiliate_professional_id").references(() => professionals.id), // storefront credited with the sale
+  affiliateCommission: decimal("affiliate_commission", { precision: 10, scale: 2 }), // for the whole line
+});
+
+// Parcels sent for an order; an order can go out in several
+export const orderShipments = pgTable("order_shipments", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => productOrders.id),
+  carrier: varchar("carrier").notNull(),
+  trackingNumber: varchar("tracking_number").notNull(),
+  status: varchar("status").notNull().default("shipped"), // shipped, delivered
+  shippedAt: timestamp("shipped_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+});
+
+export const orderShipmentItems = pgTable("order_shipment_items", {
+  id: serial("id").primaryKey(),
+  shipmentId: integer("shipment_id").notNull().references(() => orderShipments.id),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  quantity: integer("quantity").notNull(),
+});
+
+// Status timeline shown to the buyer
+export const orderEvents = pgTable("order_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => productOrders.id),
+  status: varchar("status").notNull(),
+  note: text("note"),
+  shipmentId: integer("shipment_id").references(() => orderShipments.id),
+  actorId: varchar("actor_id").references(() => users.id), // null for system events
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Return requests (RMAs) raised by buyers against delivered orders
+export const orderReturns = pgTable("order_returns", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => productOrders.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  rmaNumber: varchar("rma_number").notNull().unique(),
+  status: varchar("status").notNull().default("requested"), // requested, approved (refund pending), refunded, rejected
+  reason: varchar("reason").notNull(), // damaged, wrong_item, not_as_described, no_longer_needed, other
+  details: text("details"),
+  itemsAmount: decimal("items_amount", { precision: 10, scale: 2 }).notNull(), // line amounts less their share of any promo discount
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull(),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull(),
+  cardRefundAmount: decimal("card_refund_amount", { precision: 10, scale: 2 }).default("0"),
+  giftCardRefundAmount: decimal("gift_card_refund_amount", { precision: 10, scale: 2 }).default("0"),
+  stripeRefundId: varchar("stripe_refund_id"),
+  adminNote: text("admin_note"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const orderReturnItems = pgTable("order_return_items", {
+  id: serial("id").primaryKey(),
+  returnId: integer("return_id").notNull().references(() => orderReturns.id),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  quantity: integer("quantity").notNull(),
+  restock: boolean("restock").default(true), // set by the admin on approval; damaged goods stay out of stock
 });
 
 // Wishlist table
@@ -1164,7 +1314,10 @@ export const reviewHelpful = pgTable("review_helpful", {
   userId: varchar("user_id").notNull().references(() => users.id),
   isHelpful: boolean("is_helpful").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // One vote per user per review
+  uniqueIndex("review_helpful_review_user_unique").on(table.reviewId, table.userId),
+]);
 
 export const reviewResponses = pgTable("review_responses", {
   id: serial("id").primaryKey(),
@@ -1172,7 +1325,11 @@ export const reviewResponses = pgTable("review_responses", {
   providerId: integer("provider_id").notNull().references(() => professionals.id),
   response: text("response").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  updatedAt: timestamp("updated_at").defaultNow(), // providers can edit their response
+}, (table) => [
+  // A review gets one public response, from the provider reviewed
+  uniqueIndex("review_responses_review_unique").on(table.reviewId),
+]);
 
 export const reviewReports = pgTable("review_reports", {
   id: serial("id").primaryKey(),
@@ -1242,6 +1399,11 @@ export type ProductOrder = typeof productOrders.$inferSelect;
 export type InsertProductOrder = z.infer<typeof insertProductOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderShipment = typeof orderShipments.$inferSelect;
+export type OrderShipmentItem = typeof orderShipmentItems.$inferSelect;
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type OrderReturn = typeof orderReturns.$inferSelect;
+export type OrderReturnItem = typeof orderReturnItems.$inferSelect;
 export type Wishlist = typeof wishlist.$inferSelect;
 export type InsertWishlist = z.infer<typeof insertWishlistSchema>;
 
@@ -1337,6 +1499,7 @@ export const providerPayouts = pgTable("provider_payouts", {
   totalBookings: integer("total_bookings").default(0),
   totalCommission: decimal("total_commission", { precision: 10, scale: 2 }).default("0.00"),
   totalTips: decimal("total_tips", { precision: 10, scale: 2 }).default("0.00"),
+  totalAffiliate: decimal("total_affiliate", { precision: 10, scale: 2 }).default("0.00"), // storefront commission, net of reversals
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -1347,8 +1510,9 @@ export const tips = pgTable("tips", {
   clientId: varchar("client_id").notNull(),
   providerId: integer("provider_id").references(() => professionals.id).notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  stripeTipId: varchar("stripe_tip_id"),
-  status: varchar("status", { length: 20 }).default("pending"), // pending, completed, failed
+  stripeTipId: varchar("stripe_tip_id"), // payment intent the tip is paid through
+  status: varchar("status", { length: 20 }).default("pending"), // pending, completed, failed, refunded
+  payoutId: varchar("payout_id").references(() => providerPayouts.id), // payout batch this tip was paid in
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -1360,14 +1524,18 @@ export const disputes = pgTable("disputes", {
   reason: varchar("reason", { length: 50 }).notNull(),
   description: text("description").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  status: varchar("status", { length: 20 }).default("open"), // open, investigating, resolved, closed
+  status: varchar("status", { length: 20 }).default("open"), // open, investigating, awaiting_response, resolved, closed
+  clientResponseDueAt: timestamp("client_response_due_at"), // set while the client owes a response
+  providerResponseDueAt: timestamp("provider_response_due_at"), // set while the provider owes a response
   resolution: text("resolution"),
   resolutionType: varchar("resolution_type", { length: 20 }), // refund, partial_refund, no_action
   refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }),
   stripeRefundId: varchar("stripe_refund_id"),
+  stripeDisputeId: varchar("stripe_dispute_id").unique(), // set for chargebacks opened through the card issuer
   adminNotes: text("admin_notes"),
   resolvedAt: timestamp("resolved_at"),
   resolvedBy: varchar("resolved_by"), // admin user id
+  closedAt: timestamp("closed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -1376,7 +1544,7 @@ export const disputeMessages = pgTable("dispute_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   disputeId: varchar("dispute_id").references(() => disputes.id).notNull(),
   senderId: varchar("sender_id").notNull(),
-  senderType: varchar("sender_type", { length: 10 }).notNull(), // client, provider, admin
+  senderType: varchar("sender_type", { length: 10 }).notNull(), // client, provider, admin, system
   message: text("message").notNull(),
   attachments: jsonb("attachments"), // array of file URLs
   createdAt: timestamp("created_at").defaultNow(),
@@ -1403,6 +1571,8 @@ export const paymentDetails = pgTable("payment_details", {
   serviceFee: decimal("service_fee", { precision: 10, scale: 2 }).notNull(), // 10%
   commission: decimal("commission", { precision: 10, scale: 2 }).notNull(), // 15%
   holdFee: decimal("hold_fee", { precision: 10, scale: 2 }).notNull(), // 25%
+  depositAmount: decimal("deposit_amount", { precision: 10, scale: 2 }).default("0"), // paid at booking
+  balanceAmount: decimal("balance_amount", { precision: 10, scale: 2 }).default("0"), // charged at completion
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   providerEarnings: decimal("provider_earnings", { precision: 10, scale: 2 }).notNull(),
   stripePaymentIntentId: varchar("stripe_payment_intent_id"),
@@ -1410,6 +1580,14 @@ export const paymentDetails = pgTable("payment_details", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Stripe webhook events already handled, so redelivered events are ignored
+export const stripeEvents = pgTable("stripe_events", {
+  id: varchar("id").primaryKey(), // Stripe event id
+  type: varchar("type").notNull(),
+  livemode: boolean("livemode").default(false),
+  processedAt: timestamp("processed_at").defaultNow(),
+});
+
 export type ProviderPayout = typeof providerPayouts.$inferSelect;
 export type InsertProviderPayout = typeof providerPayouts.$inferInsert;
 export type Tip = typeof tips.$inferSelect;
@@ -1422,6 +1600,167 @@ export type PayoutSchedule = typeof payoutSchedules.$inferSelect;
 export type InsertPayoutSchedule = typeof payoutSchedules.$inferInsert;
 export type PaymentDetail = typeof paymentDetails.$inferSelect;
 export type InsertPaymentDetail = typeof paymentDetails.$inferInsert;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+
+// Marketing campaigns. Provider campaigns discount that provider's bookings; platform campaigns
+// (no professionalId) are set up by admins and may also apply to shop orders.
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").references(() => professionals.id),
+  title: varchar("title").notNull(),
+  type: varchar("type").notNull().default("discount"), // discount, referral, social, loyalty
+  description: text("description"),
+  status: varchar("status").notNull().default("active"), // draft, active, paused
+  discountType: varchar("discount_type").notNull().default("percentage"), // percentage, fixed
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(),
+  appliesTo: varchar("applies_to").notNull().default("bookings"), // bookings, shop, all
+  firstVisitOnly: boolean("first_visit_only").default(false),
+  serviceIds: integer("service_ids").array(), // only these services; empty means any
+  categories: text("categories").array(), // only these service or product categories; empty means any
+  maxUsage: integer("max_usage"), // redemptions across all of the campaign's codes; null means unlimited
+  maxUsagePerUser: integer("max_usage_per_user").default(1),
+  usageCount: integer("usage_count").notNull().default(0),
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Codes clients enter to redeem a campaign
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id").notNull().references(() => campaigns.id),
+  code: varchar("code").notNull().unique(), // stored upper case
+  maxUsage: integer("max_usage"), // null means only the campaign's cap applies
+  usageCount: integer("usage_count").notNull().default(0),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per booking or order a code was used on. Released redemptions (cancelled bookings)
+// no longer count towards usage caps.
+export const promoRedemptions = pgTable("promo_redemptions", {
+  id: serial("id").primaryKey(),
+  promoCodeId: integer("promo_code_id").notNull().references(() => promoCodes.id),
+  campaignId: integer("campaign_id").notNull().references(() => campaigns.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  bookingId: uuid("booking_id").references(() => bookings.id),
+  orderId: integer("order_id").references(() => productOrders.id),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  status: varchar("status").notNull().default("applied"), // applied, released
+  createdAt: timestamp("created_at").defaultNow(),
+  releasedAt: timestamp("released_at"),
+}, (table) => [
+  uniqueIndex("promo_redemptions_booking_unique").on(table.bookingId),
+  uniqueIndex("promo_redemptions_order_unique").on(table.orderId),
+]);
+
+export type Campaign = typeof campaigns.$inferSelect;
+export type InsertCampaign = typeof campaigns.$inferInsert;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type InsertPromoCode = typeof promoCodes.$inferInsert;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+
+// Stock held for a shopper while their payment is pending; lapses at expiresAt if not committed
+export const stockReservations = pgTable("stock_reservations", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  quantity: integer("quantity").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }), // unit price the checkout was charged at
+  paymentIntentId: varchar("payment_intent_id"),
+  orderId: integer("order_id").references(() => productOrders.id),
+  status: varchar("status").notNull().default("active"), // active, committed, released
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type StockReservation = typeof stockReservations.$inferSelect;
+
+// Shop pricing set by admins. A single row; built-in defaults apply until one is saved.
+export const shopPricingSettings = pgTable("shop_pricing_settings", {
+  id: serial("id").primaryKey(),
+  defaultTaxRate: decimal("default_tax_rate", { precision: 6, scale: 4 }).notNull().default("0.0800"), // regions without their own rate
+  shippingBasis: varchar("shipping_basis").notNull().default("subtotal"), // subtotal or weight; picks which shopShippingRates apply
+  defaultShippingRate: decimal("default_shipping_rate", { precision: 10, scale: 2 }).notNull().default("9.99"), // when no rate matches
+  freeShippingThreshold: decimal("free_shipping_threshold", { precision: 10, scale: 2 }), // subtotals above this ship free; null for never
+  affiliateCommissionRate: decimal("affiliate_commission_rate", { precision: 6, scale: 4 }).notNull().default("0.1000"), // of storefront sales, paid to the provider
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Sales tax by shipping region (US state code)
+export const shopTaxRates = pgTable("shop_tax_rates", {
+  id: serial("id").primaryKey(),
+  region: varchar("region").notNull().unique(),
+  rate: decimal("rate", { precision: 6, scale: 4 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Shipping tiers. minValue and maxValue are dollars of subtotal or grams of weight, depending on basis;
+// maxValue is exclusive and null for no upper bound.
+export const shopShippingRates = pgTable("shop_shipping_rates", {
+  id: serial("id").primaryKey(),
+  label: varchar("label").notNull(),
+  basis: varchar("basis").notNull(), // subtotal, weight
+  minValue: decimal("min_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  maxValue: decimal("max_value", { precision: 10, scale: 2 }),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type ShopPricingSettings = typeof shopPricingSettings.$inferSelect;
+export type ShopTaxRate = typeof shopTaxRates.$inferSelect;
+export type ShopShippingRate = typeof shopShippingRates.$inferSelect;
+
+// Products a provider recommends, shown on their profile and to their clients after a booking
+export const storefrontProducts = pgTable("storefront_products", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").notNull().references(() => professionals.id),
+  productId: integer("product_id").notNull().references(() => products.id),
+  note: text("note"), // why the provider recommends it
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("storefront_products_professional_product_unique").on(table.professionalId, table.productId),
+]);
+
+export type StorefrontProduct = typeof storefrontProducts.$inferSelect;
+
+// Gift cards bought by clients and spendable with any provider or in the shop
+export const giftCards = pgTable("gift_cards", {
+  id: serial("id").primaryKey(),
+  code: varchar("code").notNull().unique(),
+  initialAmount: decimal("initial_amount", { precision: 10, scale: 2 }).notNull(),
+  balance: decimal("balance", { precision: 10, scale: 2 }).notNull().default("0"), // kept in step with the ledger
+  status: varchar("status").notNull().default("pending"), // pending (awaiting payment), active, exhausted, cancelled
+  purchaserId: varchar("purchaser_id").notNull().references(() => users.id),
+  recipientEmail: varchar("recipient_email").notNull(),
+  recipientName: varchar("recipient_name"),
+  message: text("message"),
+  stripePaymentIntentId: varchar("stripe_payment_intent_id").unique(),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every change to a gift card balance: issue and refund add to it, redemption and void take from it
+export const giftCardTransactions = pgTable("gift_card_transactions", {
+  id: serial("id").primaryKey(),
+  giftCardId: integer("gift_card_id").notNull().references(() => giftCards.id),
+  type: varchar("type").notNull(), // issue, redemption, refund, void
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // signed
+  balanceAfter: decimal("balance_after", { precision: 10, scale: 2 }).notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  bookingId: uuid("booking_id").references(() => bookings.id),
+  orderId: integer("order_id").references(() => productOrders.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type GiftCard = typeof giftCards.$inferSelect;
+export type InsertGiftCard = typeof giftCards.$inferInsert;
+export type GiftCardTransaction = typeof giftCardTransactions.$inferSelect;
 
 // Phase 4: Automation & Communication Tables
 